@@ -2,7 +2,7 @@ import { createServerInstance } from './server';
 
 const PORT = process.env.PORT || 13927;
 
-const { httpServer, fileWatcher, sseController } = createServerInstance();
+const { httpServer, fileWatcher, teamsWatcher, trashStore, sseController, searchIndex } = createServerInstance();
 
 httpServer.listen(PORT, () => {
   console.log(`
@@ -13,15 +13,24 @@ Server running on http://localhost:${PORT}
 
 API endpoints:
   GET  /api/health                - Health check
-  GET  /api/sse                  - SSE endpoint for real-time events
+  GET  /api/sse                  - SSE endpoint for real-time events (replays missed events after Last-Event-ID)
+  POST /api/sse/tail              - Tail a session for an SSE client ({ clientId, sessionId, after })
+  DELETE /api/sse/tail            - Stop tailing a session ({ clientId, sessionId })
   GET  /api/sessions              - List all sessions
   GET  /api/sessions?refresh=true - Force refresh from disk
   GET  /api/sessions?limit=N      - List N most recent sessions
   GET  /api/sessions?project=PATH - List sessions for project
   GET  /api/sessions?search=QUERY - Search sessions
+  GET  /api/sessions?branch=NAME&model=ID&cwd=PATH&version=V - Filter sessions by metadata
   GET  /api/sessions/:id          - Get session details
   GET  /api/sessions/:id/full     - Get session with full conversation
-  DELETE /api/sessions/:id        - Delete a session
+  GET  /api/sessions/:id/messages - Get a page of messages (?before=|after=|from=CURSOR&limit=N)
+  GET  /api/sessions/:id/messages/search?q=query - Find messages in a session
+  GET  /api/sessions/:id/changes - Get files changed by a session with diffs
+  GET  /api/sessions/:id/attachments/:uuid/:index - Get an image pasted into a message
+  GET  /api/sessions/:id/agents/:agentId - Get a subagent transcript
+  DELETE /api/sessions/:id        - Move a session to the trash
+  POST /api/sessions/batch        - Delete, tag, rename-prefix or export (up to 20) sessions ({ action, sessionIds })
   GET  /api/projects              - List all projects
   GET  /api/projects/:path        - Get project details
   GET  /api/projects/:path/sessions - Get sessions for project
@@ -30,22 +39,50 @@ API endpoints:
   GET  /api/teams/:id             - Get team details
   GET  /api/teams/:id/messages    - Get team messages (all members or ?member=NAME)
   GET  /api/teams/:id/stats       - Get team efficiency statistics
-  DELETE /api/teams/:id           - Delete a team
+  DELETE /api/teams/:id           - Move a team to the trash
+  GET  /api/trash                 - List deleted sessions and teams
+  POST /api/trash/:id/restore     - Restore a deleted session or team
+  DELETE /api/trash/:id           - Delete a trash item permanently
+  DELETE /api/trash               - Empty the trash
+  GET  /api/export                - Download sessions as a zip archive
+                                    (?ids= project= tag= from= to= tz= format=markdown,json,html attachments=false)
+  POST /api/export                - Same as GET with the parameters in a JSON body
+  GET  /api/export/archive        - Download sessions as a re-importable JSONL archive (same filters)
+  GET  /api/export/site?project=PATH - Download a project as a static HTML site (POST adds { theme })
+  POST /api/import                - Import a JSONL archive (application/x-ndjson); existing sessions are kept
   GET  /api/search?q=query        - Search sessions and team messages
+                                    (project: role: tool: tag: session: after: before: "phrase" -term)
+  GET  /api/search/suggestions    - Get query fields and known values
+  GET  /api/search/index          - Get search index status
+  POST /api/search/index/rebuild  - Rebuild search index
+  GET  /api/stats/*?tz=ZONE       - Bucket stats by day in an IANA time zone
   GET  /api/stats/activity        - Get activity stats (daily + heatmap)
+  GET  /api/stats/activity/hourly - Get message counts per weekday and hour
   GET  /api/stats/usage           - Get usage statistics
+  GET  /api/stats/active-time     - Get active hours per day and per project
   GET  /api/stats/code-output     - Get code output statistics
+  GET  /api/stats/tokens          - Get token usage and estimated cost
+  GET  /api/stats/pricing         - Get model price table
+  GET  /api/stats/tools           - Get tool call counts, error rates and latencies
 
 SSE Events (Server-Sent Events):
   connect             - Connection established
   sessionChanged      - Session data changed
   sessionListChanged  - Session list changed
   agentSessionChanged - Agent session changed
+  sessionAppended     - Messages appended to a tailed session
+  teamListChanged     - Team created, removed or renamed
+  teamChanged         - Team config changed
+  teamMessage         - Message added to a member inbox
+  resync              - Missed events could not be replayed, refetch everything
 
 Environment:
   PORT=${PORT}
   HISTORY_FILE_PATH=${process.env.HISTORY_FILE_PATH || '~/.claude/history.jsonl'}
   TEAMS_DIR=${process.env.TEAMS_DIR || '~/.claude/teams'}
+  TRASH_DIR=${process.env.TRASH_DIR || '~/.claude/favorites/trash'}
+  TRASH_RETENTION_DAYS=${process.env.TRASH_RETENTION_DAYS || '30'}
+  PRICING_FILE_PATH=${process.env.PRICING_FILE_PATH || '~/.claude/favorites/pricing.json'}
   CORS_ORIGIN=${process.env.CORS_ORIGIN || 'http://localhost:5173'}
 ========================================
 `);
@@ -55,7 +92,10 @@ Environment:
 process.on('SIGTERM', () => {
   console.log('\n[SIGTERM] Shutting down gracefully...');
   fileWatcher.stop();
-  httpServer.close(() => {
+  teamsWatcher.stop();
+  trashStore.stop();
+  httpServer.close(async () => {
+    await searchIndex.flush();
     console.log('[Server] Closed');
     process.exit(0);
   });
@@ -64,7 +104,10 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('\n[SIGINT] Shutting down gracefully...');
   fileWatcher.stop();
-  httpServer.close(() => {
+  teamsWatcher.stop();
+  trashStore.stop();
+  httpServer.close(async () => {
+    await searchIndex.flush();
     console.log('[Server] Closed');
     process.exit(0);
   });
@@ -0,0 +1,226 @@
+import { Router, type Response } from 'express';
+import type { ExportService } from '../services/exportService';
+import type { ArchiveService } from '../services/archive/ArchiveService';
+import type { SiteExportService } from '../services/siteExportService';
+import { isExportDate } from '../services/exportService';
+import type { ApiResponse, ExportFilter, ExportFormat, Session } from '../types';
+import { formatZonedDate, isValidTimeZone } from '../utils/timeZoneUtils';
+
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'html'];
+const MAX_EXPORT_IDS = 1000;
+
+function sendError(res: Response, status: number, message: string): void {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+  res.status(status).json(response);
+}
+
+// Comma separated lists come from the query string, arrays from a JSON body
+function getList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value;
+  }
+  return undefined;
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+interface ExportSelection {
+  filter: ExportFilter;
+  timeZone?: string;
+}
+
+interface ExportRequest extends ExportSelection {
+  formats: ExportFormat[];
+  includeAttachments: boolean;
+}
+
+// Validate the session filters; returns the error message for invalid requests
+function parseExportSelection(params: Record<string, unknown>): ExportSelection | string {
+  const sessionIds = params.ids === undefined ? undefined : getList(params.ids);
+  if (params.ids !== undefined && !sessionIds) {
+    return 'ids must be a list of session IDs';
+  }
+  if (sessionIds && sessionIds.length > MAX_EXPORT_IDS) {
+    return `At most ${MAX_EXPORT_IDS} session IDs per export`;
+  }
+
+  const from = getString(params.from);
+  const to = getString(params.to);
+  if ((from && !isExportDate(from)) || (to && !isExportDate(to))) {
+    return 'from and to must be dates in YYYY-MM-DD format';
+  }
+
+  const timeZone = getString(params.tz);
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    return 'Invalid time zone';
+  }
+
+  return {
+    filter: {
+      sessionIds,
+      project: getString(params.project),
+      tag: getString(params.tag),
+      from,
+      to,
+    },
+    timeZone,
+  };
+}
+
+// Theme of the static site: CSS custom properties by name
+function parseTheme(value: unknown): Record<string, string> | undefined | string {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== 'object' || Array.isArray(value) ||
+      !Object.values(value).every(item => typeof item === 'string')) {
+    return 'theme must map CSS variable names to values';
+  }
+  return value as Record<string, string>;
+}
+
+// Validate export parameters; returns the error message for invalid requests
+function parseExportRequest(params: Record<string, unknown>): ExportRequest | string {
+  const selection = parseExportSelection(params);
+  if (typeof selection === 'string') return selection;
+
+  const formats = params.format === undefined ? ['markdown'] : getList(params.format);
+  if (!formats || formats.length === 0 || !formats.every(format => EXPORT_FORMATS.includes(format as ExportFormat))) {
+    return `format must be one or more of: ${EXPORT_FORMATS.join(', ')}`;
+  }
+
+  const attachments = params.attachments;
+  return {
+    ...selection,
+    formats: Array.from(new Set(formats as ExportFormat[])),
+    includeAttachments: attachments !== false && attachments !== 'false',
+  };
+}
+
+interface ExportRouterOptions {
+  exportService: ExportService;
+  archiveService: ArchiveService;
+  siteExportService: SiteExportService;
+}
+
+export function createExportRouter(options: ExportRouterOptions): Router {
+  const { exportService, archiveService, siteExportService } = options;
+  const router = Router();
+
+  // Select the sessions and send the download headers; null when an error response was sent
+  const startDownload = async (
+    res: Response,
+    selection: ExportSelection,
+    extension: string,
+    contentType: string,
+    prefix: string = 'claude-sessions'
+  ): Promise<Session[] | null> => {
+    let sessions;
+    try {
+      sessions = await exportService.selectSessions(selection.filter, selection.timeZone);
+    } catch (error) {
+      console.error('[API] Error selecting sessions to export:', error);
+      sendError(res, 500, 'Failed to export sessions');
+      return null;
+    }
+    if (sessions.length === 0) {
+      sendError(res, 404, 'No sessions match the export filters');
+      return null;
+    }
+
+    const filename = `${prefix}-${formatZonedDate(Date.now(), selection.timeZone)}.${extension}`;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return sessions;
+  };
+
+  // Headers are sent, so the client can only learn about a failure from the broken download
+  const finishDownload = async (res: Response, write: () => Promise<void>) => {
+    try {
+      await write();
+      res.end();
+    } catch (error) {
+      console.error('[API] Error writing export:', error);
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  };
+
+  const handleExport = async (res: Response, params: Record<string, unknown>) => {
+    const request = parseExportRequest(params);
+    if (typeof request === 'string') {
+      sendError(res, 400, request);
+      return;
+    }
+
+    const sessions = await startDownload(res, request, 'zip', 'application/zip');
+    if (sessions) {
+      await finishDownload(res, () => exportService.writeArchive(sessions, res, request));
+    }
+  };
+
+  const handleArchiveExport = async (res: Response, params: Record<string, unknown>) => {
+    const selection = parseExportSelection(params);
+    if (typeof selection === 'string') {
+      sendError(res, 400, selection);
+      return;
+    }
+
+    const sessions = await startDownload(res, selection, 'jsonl', 'application/x-ndjson');
+    if (sessions) {
+      await finishDownload(res, () => archiveService.writeArchive(sessions, res));
+    }
+  };
+
+  const handleSiteExport = async (res: Response, params: Record<string, unknown>) => {
+    const project = getString(params.project);
+    if (!project) {
+      sendError(res, 400, 'project is required');
+      return;
+    }
+    const timeZone = getString(params.tz);
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      sendError(res, 400, 'Invalid time zone');
+      return;
+    }
+    const theme = parseTheme(params.theme);
+    if (typeof theme === 'string') {
+      sendError(res, 400, theme);
+      return;
+    }
+
+    const selection: ExportSelection = { filter: { project }, timeZone };
+    const siteName = siteExportService.getSiteName(project);
+    const sessions = await startDownload(res, selection, 'zip', 'application/zip', siteName);
+    if (sessions) {
+      await finishDownload(res, () => siteExportService.writeSite(project, sessions, res, { theme, timeZone }));
+    }
+  };
+
+  // GET /api/export - Download sessions as a zip archive
+  // ?ids=a,b&project=&tag=&from=YYYY-MM-DD&to=YYYY-MM-DD&tz=&format=markdown,json,html&attachments=false
+  router.get('/', (req, res) => handleExport(res, req.query));
+
+  // POST /api/export - Same as GET, with the parameters in a JSON body for long ID lists
+  router.post('/', (req, res) => handleExport(res, req.body ?? {}));
+
+  // GET /api/export/archive - Download sessions as a JSONL archive that POST /api/import reads back
+  // ?ids=a,b&project=&tag=&from=YYYY-MM-DD&to=YYYY-MM-DD&tz=
+  router.get('/archive', (req, res) => handleArchiveExport(res, req.query));
+
+  // POST /api/export/archive - Same as GET, with the parameters in a JSON body
+  router.post('/archive', (req, res) => handleArchiveExport(res, req.body ?? {}));
+
+  // GET /api/export/site?project=PATH&tz= - Download a project as a static HTML site (zip of one folder)
+  router.get('/site', (req, res) => handleSiteExport(res, req.query));
+
+  // POST /api/export/site - Same as GET; the body may add theme, the CSS variables of a viewer theme
+  router.post('/site', (req, res) => handleSiteExport(res, req.body ?? {}));
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { Router, type Response } from 'express';
+import { ArchiveFormatError, type ArchiveService } from '../services/archive/ArchiveService';
+import type { ApiResponse, SessionImportResult } from '../types';
+
+function sendSuccess<T>(res: Response, data: T): void {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+  };
+  res.json(response);
+}
+
+function sendError(res: Response, status: number, message: string): void {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+  res.status(status).json(response);
+}
+
+interface ImportRouterOptions {
+  archiveService: ArchiveService;
+}
+
+export function createImportRouter(options: ImportRouterOptions): Router {
+  const { archiveService } = options;
+  const router = Router();
+
+  // POST /api/import - Import a JSONL archive from GET /api/export/archive (body sent as application/x-ndjson)
+  router.post('/', async (req, res) => {
+    // A JSON body has already been consumed by the JSON parser
+    if (req.is('application/json')) {
+      sendError(res, 415, 'Send the archive as application/x-ndjson');
+      return;
+    }
+
+    try {
+      const result = await archiveService.importArchive(req);
+      sendSuccess<SessionImportResult>(res, result);
+    } catch (error) {
+      if (error instanceof ArchiveFormatError) {
+        sendError(res, 400, error.message);
+        return;
+      }
+      console.error('[API] Error importing archive:', error);
+      sendError(res, 500, 'Failed to import archive');
+    }
+  });
+
+  return router;
+}
@@ -1,5 +1,8 @@
 import { Router, type Response } from 'express';
 import type { SearchService } from '../services/searchService';
+import type { SearchIndex } from '../services/search/SearchIndex';
+import { SearchQueryError } from '../services/search/QueryParser';
+import { isValidTimeZone } from '../utils/timeZoneUtils';
 import type { ApiResponse, SearchResult } from '../types';
 
 function sendSuccess<T>(res: Response, data: T, count?: number): void {
@@ -21,37 +24,92 @@ function sendError(res: Response, status: number, message: string): void {
   res.status(status).json(response);
 }
 
+function sendQueryError(res: Response, error: SearchQueryError): void {
+  res.status(400).json({
+    success: false,
+    error: error.message,
+    details: error.details,
+  });
+}
+
 interface SearchRouterOptions {
   searchService: SearchService;
+  searchIndex: SearchIndex;
 }
 
 export function createSearchRouter(options: SearchRouterOptions): Router {
-  const { searchService } = options;
+  const { searchService, searchIndex } = options;
   const router = Router();
 
   // GET /api/search - Search across sessions and team messages
   router.get('/', async (req, res) => {
     try {
-      const { q, type, limit } = req.query;
+      const { q, type, limit, tz } = req.query;
 
       if (!q || typeof q !== 'string') {
         sendError(res, 400, 'Query parameter "q" is required');
         return;
       }
 
+      // after:/before: dates are resolved in the zone given by ?tz= (IANA name), the server's by default
+      if (tz !== undefined && (typeof tz !== 'string' || !isValidTimeZone(tz))) {
+        sendError(res, 400, 'Invalid time zone');
+        return;
+      }
+
       const searchOptions = {
         query: q,
         type: (type as 'session' | 'team_message' | 'all') || 'all',
         limit: limit ? parseInt(limit as string, 10) : 50,
+        timeZone: tz,
       };
 
       const results = await searchService.search(searchOptions);
       sendSuccess(res, results, results.length);
     } catch (error) {
+      if (error instanceof SearchQueryError) {
+        sendQueryError(res, error);
+        return;
+      }
       console.error('[API] Error performing search:', error);
       sendError(res, 500, 'Failed to perform search');
     }
   });
 
+  // GET /api/search/suggestions - Get query field names and known values for autocomplete
+  router.get('/suggestions', async (_req, res) => {
+    try {
+      const suggestions = await searchService.getSuggestions();
+      sendSuccess(res, suggestions);
+    } catch (error) {
+      console.error('[API] Error getting search suggestions:', error);
+      sendError(res, 500, 'Failed to get search suggestions');
+    }
+  });
+
+  // GET /api/search/index - Get search index status
+  router.get('/index', (_req, res) => {
+    try {
+      sendSuccess(res, searchIndex.getStatus());
+    } catch (error) {
+      console.error('[API] Error getting search index status:', error);
+      sendError(res, 500, 'Failed to get search index status');
+    }
+  });
+
+  // POST /api/search/index/rebuild - Rebuild the search index from scratch (runs in background)
+  router.post('/index/rebuild', (_req, res) => {
+    try {
+      searchIndex.rebuild().catch(error => {
+        console.error('[API] Error rebuilding search index:', error);
+      });
+      res.status(202);
+      sendSuccess(res, searchIndex.getStatus());
+    } catch (error) {
+      console.error('[API] Error starting search index rebuild:', error);
+      sendError(res, 500, 'Failed to rebuild search index');
+    }
+  });
+
   return router;
 }
@@ -1,6 +1,16 @@
-import { Router, type Response } from 'express';
+import { Router, type Request, type Response } from 'express';
 import type { SessionsService } from '../services/sessionsService';
-import type { ApiResponse, Session } from '../types';
+import type { SessionBatchService } from '../services/sessionBatchService';
+import { IMAGE_EXTENSIONS } from '../services/exportService';
+import { InvalidCursorError, type LoadConversationOptions } from '../services/sessions/ConversationLoader';
+import { matchesMetadataFilter, type SessionMetadataFilter } from '../services/sessions/SessionMetadata';
+import type { ApiResponse, Session, SessionBatchAction, SessionBatchRequest, SessionBatchResult } from '../types';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_BATCH_SIZE = 1000;
+// Batch exports return whole conversations in one JSON response; larger exports stream from /api/export
+const MAX_BATCH_EXPORT_SIZE = 20;
+const BATCH_ACTIONS: SessionBatchAction[] = ['delete', 'addTags', 'removeTags', 'renamePrefix', 'export'];
 
 function sendSuccess<T>(res: Response, data: T, count?: number): void {
   const response: ApiResponse<T> & { count?: number } = {
@@ -21,12 +31,79 @@ function sendError(res: Response, status: number, message: string): void {
   res.status(status).json(response);
 }
 
+function getStringParam(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Conversation paging parameters: limit, branch and the before/after/from cursors
+function parseConversationOptions(query: Request['query'], defaultLimit: number): LoadConversationOptions {
+  let limit = defaultLimit;
+  const limitParam = getStringParam(query.limit);
+  if (limitParam) {
+    const parsed = parseInt(limitParam, 10);
+    if (!isNaN(parsed) && parsed >= 0) {
+      limit = parsed;
+    }
+  }
+
+  return {
+    limit,
+    branchId: getStringParam(query.branch),
+    before: getStringParam(query.before),
+    after: getStringParam(query.after),
+    from: getStringParam(query.from),
+  };
+}
+
+// Metadata filters: sessions that used the git branch, model, working directory or version
+function parseMetadataFilter(query: Request['query']): SessionMetadataFilter {
+  return {
+    gitBranch: getStringParam(query.branch),
+    model: getStringParam(query.model),
+    cwd: getStringParam(query.cwd),
+    version: getStringParam(query.version),
+  };
+}
+
+// Validate a batch request body; returns the error message for invalid requests
+function parseBatchRequest(body: unknown): SessionBatchRequest | string {
+  const { action, sessionIds, tags, prefix } = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof action !== 'string' || !BATCH_ACTIONS.includes(action as SessionBatchAction)) {
+    return `action must be one of: ${BATCH_ACTIONS.join(', ')}`;
+  }
+  if (!Array.isArray(sessionIds) || sessionIds.length === 0 || !sessionIds.every(id => typeof id === 'string')) {
+    return 'sessionIds must be a non-empty array of strings';
+  }
+  if (sessionIds.length > MAX_BATCH_SIZE) {
+    return `At most ${MAX_BATCH_SIZE} sessions per batch`;
+  }
+  if (action === 'export' && sessionIds.length > MAX_BATCH_EXPORT_SIZE) {
+    return `At most ${MAX_BATCH_EXPORT_SIZE} sessions per batch export, use /api/export for more`;
+  }
+  if ((action === 'addTags' || action === 'removeTags') &&
+      (!Array.isArray(tags) || tags.length === 0 || !tags.every(tag => typeof tag === 'string'))) {
+    return 'tags must be a non-empty array of strings';
+  }
+  if (action === 'renamePrefix' && (typeof prefix !== 'string' || !prefix.trim())) {
+    return 'prefix must be a non-empty string';
+  }
+
+  return {
+    action: action as SessionBatchAction,
+    sessionIds: sessionIds as string[],
+    tags: tags as string[] | undefined,
+    prefix: prefix as string | undefined,
+  };
+}
+
 interface SessionsRouterOptions {
   sessionsService: SessionsService;
+  sessionBatchService: SessionBatchService;
 }
 
 export function createSessionsRouter(options: SessionsRouterOptions): Router {
-  const { sessionsService } = options;
+  const { sessionsService, sessionBatchService } = options;
   const router = Router();
 
   // GET /api/sessions - Get all sessions
@@ -51,6 +128,9 @@ export function createSessionsRouter(options: SessionsRouterOptions): Router {
         sessions = await sessionsService.getSessions();
       }
 
+      const metadataFilter = parseMetadataFilter(req.query);
+      sessions = sessions.filter(session => matchesMetadataFilter(session, metadataFilter));
+
       if (limit && typeof limit === 'string') {
         const MAX_LIMIT = 1000;
         const limitNum = parseInt(limit, 10);
@@ -70,20 +150,16 @@ export function createSessionsRouter(options: SessionsRouterOptions): Router {
   router.get('/:id', async (req, res) => {
     try {
       const { id } = req.params;
-      const { full, limit } = req.query;
+      const { full } = req.query;
 
       let session;
+      let branchId: string | undefined;
 
       if (full === 'true') {
-        // Parse limit parameter (for pagination)
-        let limitNum = 0; // 0 means no limit (all messages)
-        if (limit && typeof limit === 'string') {
-          const parsed = parseInt(limit, 10);
-          if (!isNaN(parsed) && parsed > 0) {
-            limitNum = parsed;
-          }
-        }
-        session = await sessionsService.getSessionWithConversation(id, limitNum);
+        // Optional limit and cursors for pagination (no limit = all messages)
+        const options = parseConversationOptions(req.query, 0);
+        branchId = options.branchId;
+        session = await sessionsService.getSessionWithConversation(id, options);
       } else {
         session = await sessionsService.getSessionById(id);
       }
@@ -93,13 +169,147 @@ export function createSessionsRouter(options: SessionsRouterOptions): Router {
         return;
       }
 
+      if (branchId && session.branchId !== branchId) {
+        sendError(res, 404, 'Branch not found');
+        return;
+      }
+
       sendSuccess(res, session);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        sendError(res, 400, error.message);
+        return;
+      }
       console.error('[API] Error getting session:', error);
       sendError(res, 500, 'Failed to get session');
     }
   });
 
+  // GET /api/sessions/:id/messages - Get a page of the conversation
+  router.get('/:id/messages', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const options = parseConversationOptions(req.query, DEFAULT_PAGE_SIZE);
+      const page = await sessionsService.getConversationPage(id, options);
+
+      if (!page) {
+        sendError(res, 404, 'Session not found');
+        return;
+      }
+
+      if (options.branchId && page.branchId !== options.branchId) {
+        sendError(res, 404, 'Branch not found');
+        return;
+      }
+
+      sendSuccess(res, page);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        sendError(res, 400, error.message);
+        return;
+      }
+      console.error('[API] Error getting messages:', error);
+      sendError(res, 500, 'Failed to get messages');
+    }
+  });
+
+  // GET /api/sessions/:id/messages/search - Find messages of a branch containing a query
+  router.get('/:id/messages/search', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const query = getStringParam(req.query.q);
+
+      if (!query) {
+        sendError(res, 400, 'Query parameter q is required');
+        return;
+      }
+
+      const hits = await sessionsService.searchConversation(id, query, {
+        branchId: getStringParam(req.query.branch),
+        before: getStringParam(req.query.before),
+      });
+
+      if (!hits) {
+        sendError(res, 404, 'Session not found');
+        return;
+      }
+
+      sendSuccess(res, hits, hits.length);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        sendError(res, 400, error.message);
+        return;
+      }
+      console.error('[API] Error searching messages:', error);
+      sendError(res, 500, 'Failed to search messages');
+    }
+  });
+
+  // GET /api/sessions/:id/changes - Get files touched by a session with a diff per edit
+  router.get('/:id/changes', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const branchId = getStringParam(req.query.branch);
+      const changes = await sessionsService.getSessionChanges(id, branchId);
+
+      if (!changes) {
+        sendError(res, 404, branchId ? 'Branch not found' : 'Session not found');
+        return;
+      }
+
+      sendSuccess(res, changes, changes.files.length);
+    } catch (error) {
+      console.error('[API] Error getting session changes:', error);
+      sendError(res, 500, 'Failed to get session changes');
+    }
+  });
+
+  // GET /api/sessions/:id/attachments/:uuid/:index - Get an image pasted into a message
+  router.get('/:id/attachments/:uuid/:index', async (req, res) => {
+    try {
+      const { id, uuid } = req.params;
+      if (!/^\d+$/.test(req.params.index)) {
+        sendError(res, 400, 'Invalid attachment index');
+        return;
+      }
+      const agentId = getStringParam(req.query.agent);
+      const attachment = await sessionsService.getAttachment(id, uuid, Number(req.params.index), agentId);
+
+      // Only raster images are served, whatever the transcript claims; an SVG could run scripts on this origin
+      if (!attachment || !Object.prototype.hasOwnProperty.call(IMAGE_EXTENSIONS, attachment.mediaType)) {
+        sendError(res, 404, 'Attachment not found');
+        return;
+      }
+
+      // Transcript entries never change once written
+      res.set('Cache-Control', 'private, max-age=31536000, immutable');
+      res.set('Content-Disposition', 'inline');
+      res.set('Content-Security-Policy', "default-src 'none'; sandbox");
+      res.type(attachment.mediaType).send(attachment.data);
+    } catch (error) {
+      console.error('[API] Error getting attachment:', error);
+      sendError(res, 500, 'Failed to get attachment');
+    }
+  });
+
+  // GET /api/sessions/:id/agents/:agentId - Get a subagent transcript of a session
+  router.get('/:id/agents/:agentId', async (req, res) => {
+    try {
+      const { id, agentId } = req.params;
+      const agentSession = await sessionsService.getAgentSession(id, agentId);
+
+      if (!agentSession) {
+        sendError(res, 404, 'Agent session not found');
+        return;
+      }
+
+      sendSuccess(res, agentSession);
+    } catch (error) {
+      console.error('[API] Error getting agent session:', error);
+      sendError(res, 500, 'Failed to get agent session');
+    }
+  });
+
   // GET /api/sessions/:id/full - Get session with full conversation (alias)
   router.get('/:id/full', async (req, res) => {
     try {
@@ -118,6 +328,24 @@ export function createSessionsRouter(options: SessionsRouterOptions): Router {
     }
   });
 
+  // POST /api/sessions/batch - Delete, tag, rename or export many sessions at once
+  router.post('/batch', async (req, res) => {
+    const request = parseBatchRequest(req.body);
+    if (typeof request === 'string') {
+      sendError(res, 400, request);
+      return;
+    }
+
+    try {
+      const result = await sessionBatchService.run(request);
+      // SSE clients will receive updates via file watcher events
+      sendSuccess<SessionBatchResult>(res, result);
+    } catch (error) {
+      console.error(`[API] Error running batch ${request.action}:`, error);
+      sendError(res, 500, 'Failed to run batch operation');
+    }
+  });
+
   // DELETE /api/sessions/:id - Delete a session
   router.delete('/:id', async (req, res) => {
     try {
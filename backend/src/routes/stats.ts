@@ -1,7 +1,10 @@
 import { Router, type Response } from 'express';
 import type { StatsService } from '../services/statsService';
 import type { CodeStatsService } from '../services/codeStatsService';
+import type { TokenStatsService } from '../services/tokenStatsService';
+import type { ToolStatsService } from '../services/toolStatsService';
 import type { ApiResponse } from '../types';
+import { isValidTimeZone } from '../utils/timeZoneUtils';
 
 function sendSuccess<T>(res: Response, data: T): void {
   const response: ApiResponse<T> = {
@@ -22,17 +25,30 @@ function sendError(res: Response, status: number, message: string): void {
 interface StatsRouterOptions {
   statsService: StatsService;
   codeStatsService: CodeStatsService;
+  tokenStatsService: TokenStatsService;
+  toolStatsService: ToolStatsService;
 }
 
 export function createStatsRouter(options: StatsRouterOptions): Router {
-  const { statsService, codeStatsService } = options;
+  const { statsService, codeStatsService, tokenStatsService, toolStatsService } = options;
   const router = Router();
 
+  // Every route buckets days in the zone given by ?tz= (IANA name), the server's by default
+  router.use((req, res, next) => {
+    const timeZone = req.query.tz;
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      sendError(res, 400, 'Invalid time zone');
+      return;
+    }
+    next();
+  });
+
   // GET /api/stats/activity - Get activity stats (daily + heatmap)
   router.get('/activity', async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 30;
-      const stats = await statsService.getActivityStats(days);
+      const timeZone = req.query.tz as string | undefined;
+      const stats = await statsService.getActivityStats(days, timeZone);
       sendSuccess(res, stats);
     } catch (error) {
       console.error('[API] Error getting activity stats:', error);
@@ -40,12 +56,27 @@ export function createStatsRouter(options: StatsRouterOptions): Router {
     }
   });
 
+  // GET /api/stats/activity/hourly - Get message counts per weekday and hour (?tz=IANA zone)
+  router.get('/activity/hourly', async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const projectPath = req.query.project as string | undefined;
+      const timeZone = req.query.tz as string | undefined;
+      const stats = await statsService.getHourlyActivity(days, timeZone, projectPath);
+      sendSuccess(res, stats);
+    } catch (error) {
+      console.error('[API] Error getting hourly activity:', error);
+      sendError(res, 500, 'Failed to get hourly activity');
+    }
+  });
+
   // GET /api/stats/projects/:path/trends - Get project trends
   router.get('/projects/:path/trends', async (req, res) => {
     try {
       const projectPath = decodeURIComponent(req.params.path);
       const days = parseInt(req.query.days as string) || 30;
-      const trends = await statsService.getProjectTrends(projectPath, days);
+      const timeZone = req.query.tz as string | undefined;
+      const trends = await statsService.getProjectTrends(projectPath, days, timeZone);
       sendSuccess(res, trends);
     } catch (error) {
       console.error('[API] Error getting project trends:', error);
@@ -54,9 +85,10 @@ export function createStatsRouter(options: StatsRouterOptions): Router {
   });
 
   // GET /api/stats/usage - Get usage statistics
-  router.get('/usage', async (_req, res) => {
+  router.get('/usage', async (req, res) => {
     try {
-      const stats = await statsService.getUsageStats();
+      const timeZone = req.query.tz as string | undefined;
+      const stats = await statsService.getUsageStats(timeZone);
       sendSuccess(res, stats);
     } catch (error) {
       console.error('[API] Error getting usage stats:', error);
@@ -64,11 +96,26 @@ export function createStatsRouter(options: StatsRouterOptions): Router {
     }
   });
 
+  // GET /api/stats/active-time - Get active hours per day and per project
+  router.get('/active-time', async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const projectPath = req.query.project as string | undefined;
+      const timeZone = req.query.tz as string | undefined;
+      const stats = await statsService.getActiveTimeStats(days, projectPath, timeZone);
+      sendSuccess(res, stats);
+    } catch (error) {
+      console.error('[API] Error getting active time stats:', error);
+      sendError(res, 500, 'Failed to get active time stats');
+    }
+  });
+
   // GET /api/stats/code-output - Get code output statistics
   router.get('/code-output', async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 30;
-      const codeStats = await codeStatsService.getCodeStats(days);
+      const timeZone = req.query.tz as string | undefined;
+      const codeStats = await codeStatsService.getCodeStats(days, timeZone);
       sendSuccess(res, codeStats);
     } catch (error) {
       console.error('[API] Error getting code output stats:', error);
@@ -76,5 +123,44 @@ export function createStatsRouter(options: StatsRouterOptions): Router {
     }
   });
 
+  // GET /api/stats/tokens - Get token usage and estimated cost (daily, per project, per model)
+  router.get('/tokens', async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const projectPath = req.query.project as string | undefined;
+      const timeZone = req.query.tz as string | undefined;
+      const tokenStats = await tokenStatsService.getTokenStats(days, projectPath, timeZone);
+      sendSuccess(res, tokenStats);
+    } catch (error) {
+      console.error('[API] Error getting token stats:', error);
+      sendError(res, 500, 'Failed to get token stats');
+    }
+  });
+
+  // GET /api/stats/pricing - Get the effective model price table
+  router.get('/pricing', async (_req, res) => {
+    try {
+      const priceTable = await tokenStatsService.getPriceTable();
+      sendSuccess(res, priceTable);
+    } catch (error) {
+      console.error('[API] Error getting price table:', error);
+      sendError(res, 500, 'Failed to get price table');
+    }
+  });
+
+  // GET /api/stats/tools - Get tool call counts, error rates and latencies (per project, per model)
+  router.get('/tools', async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const projectPath = req.query.project as string | undefined;
+      const timeZone = req.query.tz as string | undefined;
+      const toolStats = await toolStatsService.getToolStats(days, projectPath, timeZone);
+      sendSuccess(res, toolStats);
+    } catch (error) {
+      console.error('[API] Error getting tool stats:', error);
+      sendError(res, 500, 'Failed to get tool stats');
+    }
+  });
+
   return router;
 }
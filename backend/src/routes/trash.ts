@@ -0,0 +1,107 @@
+import { Router, type Response } from 'express';
+import { TrashConflictError, type TrashStore } from '../services/trash/TrashStore';
+import type { SessionsService } from '../services/sessionsService';
+import type { TeamsService } from '../services/TeamsService';
+import type { ApiResponse, TrashItem } from '../types';
+
+function sendSuccess<T>(res: Response, data: T, count?: number): void {
+  const response: ApiResponse<T> & { count?: number } = {
+    success: true,
+    data,
+  };
+  if (count !== undefined) {
+    response.count = count;
+  }
+  res.json(response);
+}
+
+function sendError(res: Response, status: number, message: string): void {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+  res.status(status).json(response);
+}
+
+interface TrashRouterOptions {
+  trashStore: TrashStore;
+  sessionsService: SessionsService;
+  teamsService: TeamsService;
+}
+
+export function createTrashRouter(options: TrashRouterOptions): Router {
+  const { trashStore, sessionsService, teamsService } = options;
+  const router = Router();
+
+  // GET /api/trash - List deleted sessions and teams
+  router.get('/', async (_req, res) => {
+    try {
+      const items = await trashStore.list();
+      sendSuccess<TrashItem[]>(res, items, items.length);
+    } catch (error) {
+      console.error('[API] Error listing trash:', error);
+      sendError(res, 500, 'Failed to list trash');
+    }
+  });
+
+  // POST /api/trash/:id/restore - Move a deleted session or team back
+  router.post('/:id/restore', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const item = await trashStore.restore(id);
+      if (!item) {
+        sendError(res, 404, 'Trash item not found');
+        return;
+      }
+
+      if (item.type === 'session') {
+        await sessionsService.restoreHistoryEntries(item.historyLines ?? []);
+        await sessionsService.afterDelete();
+      } else {
+        teamsService.invalidateTeam(item.targetId);
+      }
+
+      // SSE clients will receive updates via file watcher events
+      sendSuccess(res, item);
+    } catch (error) {
+      if (error instanceof TrashConflictError) {
+        sendError(res, 409, error.message);
+        return;
+      }
+      console.error('[API] Error restoring trash item:', error);
+      sendError(res, 500, 'Failed to restore trash item');
+    }
+  });
+
+  // DELETE /api/trash/:id - Delete an item permanently
+  router.delete('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const purged = await trashStore.purge(id);
+      if (!purged) {
+        sendError(res, 404, 'Trash item not found');
+        return;
+      }
+
+      sendSuccess(res, { message: 'Trash item deleted permanently' });
+    } catch (error) {
+      console.error('[API] Error purging trash item:', error);
+      sendError(res, 500, 'Failed to delete trash item');
+    }
+  });
+
+  // DELETE /api/trash - Empty the trash
+  router.delete('/', async (_req, res) => {
+    try {
+      const count = await trashStore.purgeAll();
+      sendSuccess(res, { purged: count });
+    } catch (error) {
+      console.error('[API] Error emptying trash:', error);
+      sendError(res, 500, 'Failed to empty trash');
+    }
+  });
+
+  return router;
+}
@@ -13,16 +13,29 @@ import { createStatsRouter } from './routes/stats';
 import { createExecuteRouter } from './routes/execute';
 import { createSearchRouter } from './routes/search';
 import { createFavoritesRouter } from './routes/favorites';
+import { createTrashRouter } from './routes/trash';
+import { createExportRouter } from './routes/export';
+import { createImportRouter } from './routes/import';
 import { SessionsService } from './services/sessionsService';
 import { TeamsService } from './services/TeamsService';
 import { StatsService } from './services/statsService';
 import { SearchService } from './services/searchService';
+import { SearchIndex } from './services/search/SearchIndex';
 import { FavoritesService } from './services/favoritesService';
+import { SessionBatchService } from './services/sessionBatchService';
+import { ExportService } from './services/exportService';
+import { SiteExportService } from './services/siteExportService';
+import { ArchiveService } from './services/archive/ArchiveService';
 import { ActivityService, getGlobalActivityService } from './services/activityService';
 import { CodeStatsService } from './services/codeStatsService';
+import { TokenStatsService } from './services/tokenStatsService';
+import { ToolStatsService } from './services/toolStatsService';
 import { FileWatcher } from './services/fileWatcher';
+import { TeamsWatcher } from './services/teamsWatcher';
 import { SSEController } from './services/SSEController';
+import { SessionTailer } from './services/SessionTailer';
 import { eventBus } from './services/EventBus';
+import { TrashStore, DEFAULT_TRASH_RETENTION_MS } from './services/trash/TrashStore';
 
 // API Key validation helper
 function validateApiKey(key: string | undefined): boolean {
@@ -83,14 +96,20 @@ export interface ServerInstance {
   app: express.Application;
   httpServer: ReturnType<typeof createServer>;
   fileWatcher: FileWatcher;
+  teamsWatcher: TeamsWatcher;
   sseController: SSEController;
+  sessionTailer: SessionTailer;
   sessionsService: SessionsService;
   teamsService: TeamsService;
   statsService: StatsService;
   activityService?: ActivityService;
   searchService: SearchService;
+  searchIndex: SearchIndex;
   codeStatsService: CodeStatsService;
+  tokenStatsService: TokenStatsService;
+  toolStatsService: ToolStatsService;
   favoritesService: FavoritesService;
+  trashStore: TrashStore;
 }
 
 export function createServerInstance(): ServerInstance {
@@ -103,20 +122,46 @@ export function createServerInstance(): ServerInstance {
   console.log('[Server] Teams directory:', teamsDir);
   console.log('[Server] Projects directory:', projectsDir);
 
+  // Deleted sessions and teams are kept in the trash for TRASH_RETENTION_DAYS
+  const retentionDays = Number(process.env.TRASH_RETENTION_DAYS);
+  const trashStore = new TrashStore({
+    trashDir: process.env.TRASH_DIR || path.join(os.homedir(), '.claude', 'favorites', 'trash'),
+    retentionMs: retentionDays > 0 ? retentionDays * 24 * 60 * 60 * 1000 : DEFAULT_TRASH_RETENTION_MS,
+  });
+
   // Create services
-  const sessionsService = new SessionsService(historyFilePath);
-  const teamsService = new TeamsService(teamsDir);
+  const sessionsService = new SessionsService(historyFilePath, trashStore);
+  const teamsService = new TeamsService(teamsDir, trashStore);
   const statsService = new StatsService(sessionsService, teamsService);
-  const searchService = new SearchService(sessionsService, teamsService, historyFilePath, teamsDir);
+  const searchIndex = new SearchIndex({
+    projectsDir,
+    indexFilePath: path.join(os.homedir(), '.claude', 'favorites', 'search-index.json'),
+  });
+  const favoritesService = new FavoritesService();
+  const sessionBatchService = new SessionBatchService(sessionsService, favoritesService);
+  const exportService = new ExportService(sessionsService, favoritesService);
+  const archiveService = new ArchiveService(sessionsService, favoritesService);
+  const siteExportService = new SiteExportService(sessionsService, favoritesService);
+  const searchService = new SearchService(
+    sessionsService,
+    teamsService,
+    historyFilePath,
+    teamsDir,
+    searchIndex,
+    favoritesService
+  );
   const codeStatsService = new CodeStatsService(sessionsService, teamsService, historyFilePath, teamsDir);
+  const tokenStatsService = new TokenStatsService(sessionsService, process.env.PRICING_FILE_PATH);
+  const toolStatsService = new ToolStatsService(sessionsService, historyFilePath);
   const activityService = getGlobalActivityService();
-  const favoritesService = new FavoritesService();
 
   // Create FileWatcher with new fs.watch architecture
   const fileWatcher = new FileWatcher(projectsDir);
+  const teamsWatcher = new TeamsWatcher(teamsDir);
 
   // Create SSE Controller
   const sseController = new SSEController();
+  const sessionTailer = new SessionTailer(sessionsService, sseController);
 
   // Create Express app
   const app = express();
@@ -187,18 +232,60 @@ export function createServerInstance(): ServerInstance {
   }, app);
 
   // SSE endpoint - handles server-sent events
+  // Browsers send Last-Event-ID when they reconnect by themselves; a new EventSource passes it as a query parameter
   app.get('/api/sse', (req, res) => {
-    sseController.handleConnection(res);
+    const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+    const clientId = sseController.handleConnection(res, lastEventId);
+    res.on('close', () => sessionTailer.unsubscribeClient(clientId));
+  });
+
+  // Live tail - push messages appended to a session to the SSE client that opened it
+  app.post('/api/sse/tail', async (req, res) => {
+    const { clientId, sessionId, after } = req.body ?? {};
+    if (typeof clientId !== 'string' || typeof sessionId !== 'string') {
+      res.status(400).json({ success: false, error: 'clientId and sessionId are required' });
+      return;
+    }
+
+    try {
+      const subscribed = await sessionTailer.subscribe(
+        clientId,
+        sessionId,
+        typeof after === 'string' ? after : undefined
+      );
+      if (!subscribed) {
+        res.status(404).json({ success: false, error: 'Client or session not found' });
+        return;
+      }
+      res.json({ success: true, data: { sessionId } });
+    } catch (error) {
+      console.error('[API] Error subscribing to session tail:', error);
+      res.status(500).json({ success: false, error: 'Failed to tail session' });
+    }
+  });
+
+  app.delete('/api/sse/tail', (req, res) => {
+    const { clientId, sessionId } = req.body ?? {};
+    if (typeof clientId !== 'string' || typeof sessionId !== 'string') {
+      res.status(400).json({ success: false, error: 'clientId and sessionId are required' });
+      return;
+    }
+
+    sessionTailer.unsubscribe(clientId, sessionId);
+    res.json({ success: true, data: { sessionId } });
   });
 
   // Routes (without Socket.IO dependency)
-  app.use('/api/sessions', createSessionsRouter({ sessionsService }));
+  app.use('/api/sessions', createSessionsRouter({ sessionsService, sessionBatchService }));
   app.use('/api/teams', createTeamsRouter({ teamsService }));
   app.use('/api/projects', createProjectsRouter(sessionsService));
-  app.use('/api/stats', createStatsRouter({ statsService, codeStatsService }));
-  app.use('/api/search', createSearchRouter({ searchService }));
+  app.use('/api/stats', createStatsRouter({ statsService, codeStatsService, tokenStatsService, toolStatsService }));
+  app.use('/api/search', createSearchRouter({ searchService, searchIndex }));
   app.use('/api/execute', createExecuteRouter());
   app.use('/api/favorites', createFavoritesRouter({ favoritesService }));
+  app.use('/api/trash', createTrashRouter({ trashStore, sessionsService, teamsService }));
+  app.use('/api/export', createExportRouter({ exportService, archiveService, siteExportService }));
+  app.use('/api/import', createImportRouter({ archiveService }));
 
   // Health check endpoint
   app.get('/api/health', async (_req, res) => {
@@ -212,6 +299,7 @@ export function createServerInstance(): ServerInstance {
           status: 'ok',
           timestamp: new Date().toISOString(),
           sseClients: sseController.getClientCount(),
+          tailedSessions: sessionTailer.getTailCount(),
           cache: {
             sessions: sessionStats,
             teams: teamStats,
@@ -250,6 +338,16 @@ export function createServerInstance(): ServerInstance {
     }
   });
 
+  // Push appended messages to clients tailing the session
+  eventBus.on('sessionChanged', (event) => {
+    return sessionTailer.handleSessionChanged(event.sessionId);
+  });
+
+  // Keep the search index current with changed session files
+  eventBus.on('sessionChanged', (event) => {
+    searchIndex.markDirty(event.projectId, event.sessionId);
+  });
+
   eventBus.on('sessionListChanged', async (event) => {
     console.log('[EventBus] sessionListChanged:', event.projectId);
 
@@ -262,6 +360,9 @@ export function createServerInstance(): ServerInstance {
   eventBus.on('agentSessionChanged', async (event) => {
     console.log('[EventBus] agentSessionChanged:', event.projectId, event.agentSessionId);
 
+    // Refresh subagent summaries on the parent session
+    sessionsService.clearCache();
+
     // Broadcast to SSE clients
     sseController.broadcast('agentSessionChanged', {
       projectId: event.projectId,
@@ -269,21 +370,48 @@ export function createServerInstance(): ServerInstance {
     });
   });
 
+  eventBus.on('teamListChanged', () => {
+    sseController.broadcast('teamListChanged', {});
+  });
+
+  eventBus.on('teamChanged', (event) => {
+    teamsService.invalidateTeam(event.teamId);
+    sseController.broadcast('teamChanged', { teamId: event.teamId });
+  });
+
+  eventBus.on('teamMessage', (event) => {
+    teamsService.invalidateTeam(event.teamId, event.memberName);
+    sseController.broadcast('teamMessage', { teamId: event.teamId, memberName: event.memberName });
+  });
+
   // Start file watcher
   fileWatcher.start();
   console.log('[Server] FileWatcher started');
+  teamsWatcher.start();
+  trashStore.start();
+
+  // Load and sync the search index in the background
+  searchIndex.ensureReady().catch(error => {
+    console.error('[Server] Failed to prepare search index:', error);
+  });
 
   return {
     app,
     httpServer,
     fileWatcher,
+    teamsWatcher,
     sseController,
+    sessionTailer,
     sessionsService,
     teamsService,
     statsService,
     searchService,
+    searchIndex,
     codeStatsService,
+    tokenStatsService,
+    toolStatsService,
     activityService,
     favoritesService,
+    trashStore,
   };
 }
@@ -18,6 +18,17 @@ export interface InternalEventDeclaration {
     projectId: string;
     agentSessionId: string;
   };
+
+  teamListChanged: Record<string, never>;
+
+  teamChanged: {
+    teamId: string;
+  };
+
+  teamMessage: {
+    teamId: string;
+    memberName: string;
+  };
 }
 
 // 监听器类型
@@ -5,11 +5,13 @@
 
 import type { Response } from 'express';
 import { eventBus, type InternalEventDeclaration } from './EventBus';
+import type { ChatMessage } from '../types';
 
 // SSE 事件声明接口
 export interface SSEEventDeclaration {
   connect: {
     timestamp: string;
+    clientId?: string; // 仅在连接建立时发送，用于订阅会话追加消息
   };
   sessionChanged: {
     projectId: string;
@@ -25,6 +27,27 @@ export interface SSEEventDeclaration {
     agentSessionId: string;
     timestamp: string;
   };
+  teamListChanged: {
+    timestamp: string;
+  };
+  teamChanged: {
+    teamId: string;
+    timestamp: string;
+  };
+  teamMessage: {
+    teamId: string;
+    memberName: string;
+    timestamp: string;
+  };
+  resync: {
+    timestamp: string;
+  };
+  sessionAppended: {
+    sessionId: string;
+    messages: ChatMessage[];
+    reset: boolean; // 会话文件被重写，客户端需要重新加载
+    timestamp: string;
+  };
 }
 
 // SSE 客户端连接接口
@@ -53,28 +76,36 @@ function generateUlid(): string {
 }
 
 /**
- * 写入 SSE 事件
- * @param client - SSE 客户端连接
+ * 创建 SSE 消息
  * @param eventName - 事件名称
  * @param data - 事件数据
  */
-function writeSSE<EventName extends keyof SSEEventDeclaration>(
-  client: SSEClient,
+function createSSEMessage<EventName extends keyof SSEEventDeclaration>(
   eventName: EventName,
-  data: Omit<SSEEventDeclaration[EventName], 'timestamp'>,
-): void {
-  const message: SSEMessage = {
+  data: Omit<SSEEventDeclaration[EventName], 'timestamp'> & { timestamp?: string },
+  id: string = generateUlid(),
+): SSEMessage {
+  return {
     event: eventName,
-    id: generateUlid(),
+    id,
     data: JSON.stringify({
       kind: eventName,
       ...data,
     }),
     timestamp: new Date().toISOString(),
   };
+}
 
+/**
+ * 写入 SSE 事件
+ * 不带 id 的事件不会改变客户端的 Last-Event-ID，用于无法重放的事件（心跳、单个客户端的事件）
+ * @param client - SSE 客户端连接
+ * @param message - SSE 消息
+ * @param withId - 是否写入事件 ID
+ */
+function writeSSE(client: SSEClient, message: SSEMessage, withId: boolean = true): void {
   const sseData = [
-    `id: ${message.id}`,
+    ...(withId ? [`id: ${message.id}`] : []),
     `event: ${message.event}`,
     `data: ${message.data}`,
   ].join('\n') + '\n\n';
@@ -90,11 +121,19 @@ class SSEController {
   private clients: Map<string, SSEClient>;
   private heartbeatInterval: NodeJS.Timeout | null;
   private readonly heartbeatIntervalMs: number;
+  // 最近广播事件的环形缓冲，用于断线重连时按 Last-Event-ID 重放
+  private history: SSEMessage[];
+  // 缓冲之前最后一个事件的 ID；持有该 ID 的客户端可重放整个缓冲
+  private historyBaseId: string;
+  private readonly historySize: number;
 
-  constructor(heartbeatIntervalMs: number = 30000) {
+  constructor(heartbeatIntervalMs: number = 30000, historySize: number = 500) {
     this.clients = new Map();
     this.heartbeatInterval = null;
     this.heartbeatIntervalMs = heartbeatIntervalMs;
+    this.history = [];
+    this.historyBaseId = generateUlid();
+    this.historySize = historySize;
   }
 
   /**
@@ -106,7 +145,10 @@ class SSEController {
     }
 
     this.heartbeatInterval = setInterval(() => {
-      this.broadcast('connect', { timestamp: new Date().toISOString() });
+      const message = createSSEMessage('connect', { timestamp: new Date().toISOString() });
+      for (const client of this.clients.values()) {
+        this.write(client, message, false);
+      }
     }, this.heartbeatIntervalMs);
   }
 
@@ -182,9 +224,10 @@ class SSEController {
   /**
    * 处理新的 SSE 连接
    * @param response - Express Response 对象
+   * @param lastEventId - 重连时客户端收到的最后一个事件 ID
    * @returns 客户端 ID
    */
-  handleConnection(response: Response): string {
+  handleConnection(response: Response, lastEventId?: string): string {
     const clientId = generateUlid();
 
     // 设置 SSE 响应头
@@ -203,10 +246,21 @@ class SSEController {
 
     this.clients.set(clientId, client);
 
-    // 发送连接成功事件
-    writeSSE(client, 'connect', {
+    // 重放断线期间错过的事件；缓冲中找不到该 ID 时通知客户端全量刷新
+    if (lastEventId) {
+      const missed = this.getEventsAfter(lastEventId);
+      if (missed) {
+        missed.forEach(message => writeSSE(client, message));
+      } else {
+        writeSSE(client, createSSEMessage('resync', { timestamp: new Date().toISOString() }), false);
+      }
+    }
+
+    // 发送连接成功事件，附带客户端 ID；事件 ID 指向最新位置，供下次重连使用
+    writeSSE(client, createSSEMessage('connect', {
       timestamp: new Date().toISOString(),
-    });
+      clientId,
+    }, this.getLatestEventId()));
 
     // Note: Event listeners are now registered in server.ts
     // to ensure events are always broadcast even if no clients are connected.
@@ -250,7 +304,7 @@ class SSEController {
   }
 
   /**
-   * 广播事件到所有连接的客户端
+   * 广播事件到所有连接的客户端，并记入重放缓冲
    * @param eventName - 事件名称
    * @param data - 事件数据
    */
@@ -258,28 +312,81 @@ class SSEController {
     eventName: EventName,
     data: Omit<SSEEventDeclaration[EventName], 'timestamp'>,
   ): void {
-    const timestamp = new Date().toISOString();
-    const fullData = { ...data, timestamp } as SSEEventDeclaration[EventName];
+    const message = createSSEMessage(eventName, { ...data, timestamp: new Date().toISOString() });
+    this.remember(message);
 
-    const clientCount = this.clients.size;
-    // console.log(`[SSEController] Broadcasting '${eventName}' to ${clientCount} client(s):`, data);
+    for (const client of this.clients.values()) {
+      this.write(client, message);
+    }
+  }
 
-    if (clientCount === 0) {
-      // console.log(`[SSEController] No clients connected, event '${eventName}' not sent`);
-      return;
+  /**
+   * 向单个客户端发送事件
+   * @param clientId - 客户端 ID
+   * @param eventName - 事件名称
+   * @param data - 事件数据
+   * @returns 客户端已断开或发送失败时返回 false
+   */
+  sendTo<EventName extends keyof SSEEventDeclaration>(
+    clientId: string,
+    eventName: EventName,
+    data: Omit<SSEEventDeclaration[EventName], 'timestamp'>,
+  ): boolean {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return false;
     }
 
-    for (const client of this.clients.values()) {
-      try {
-        writeSSE(client, eventName, fullData);
-        // console.log(`[SSEController] Sent '${eventName}' to client ${client.id}`);
-      } catch (error) {
-        console.error(`[SSEController] Failed to send to client ${client.id}:`, error);
-        this.removeClient(client.id);
-      }
+    // 单个客户端的事件无法重放，不带 ID
+    return this.write(client, createSSEMessage(eventName, { ...data, timestamp: new Date().toISOString() }), false);
+  }
+
+  /**
+   * 写入单个客户端，失败时移除该客户端
+   */
+  private write(client: SSEClient, message: SSEMessage, withId: boolean = true): boolean {
+    try {
+      writeSSE(client, message, withId);
+      return true;
+    } catch (error) {
+      console.error(`[SSEController] Failed to send to client ${client.id}:`, error);
+      this.removeClient(client.id);
+      return false;
     }
   }
 
+  /**
+   * 记入重放缓冲，超出容量时丢弃最旧的事件
+   */
+  private remember(message: SSEMessage): void {
+    this.history.push(message);
+    while (this.history.length > this.historySize) {
+      this.historyBaseId = this.history.shift()!.id;
+    }
+  }
+
+  /**
+   * 某个事件之后的缓冲事件；ID 不在缓冲中（间隔过久或服务已重启）时返回 null
+   */
+  private getEventsAfter(lastEventId: string): SSEMessage[] | null {
+    if (lastEventId === this.historyBaseId) {
+      return [...this.history];
+    }
+    const index = this.history.findIndex(message => message.id === lastEventId);
+    return index === -1 ? null : this.history.slice(index + 1);
+  }
+
+  private getLatestEventId(): string {
+    return this.history[this.history.length - 1]?.id ?? this.historyBaseId;
+  }
+
+  /**
+   * 检查客户端是否仍然连接
+   */
+  hasClient(clientId: string): boolean {
+    return this.clients.has(clientId);
+  }
+
   /**
    * 获取当前连接的客户端数量
    */
@@ -0,0 +1,121 @@
+import type { SessionsService } from './sessionsService';
+import type { SSEController } from './SSEController';
+
+interface SessionTail {
+  offset: number; // End of the transcript as last read
+  clients: Set<string>;
+  reading: Promise<void>; // Reads run one after another so no line is pushed twice
+}
+
+/**
+ * Live tail of session transcripts: remembers how far each tailed transcript has been read
+ * and pushes only the newly appended messages to the SSE clients that opened the session.
+ */
+export class SessionTailer {
+  private sessionsService: SessionsService;
+  private sseController: SSEController;
+  private tails = new Map<string, SessionTail>();
+
+  constructor(sessionsService: SessionsService, sseController: SSEController) {
+    this.sessionsService = sessionsService;
+    this.sseController = sseController;
+  }
+
+  /**
+   * Start tailing a session for a client. Messages after the `after` entry the client
+   * already holds are sent right away. Returns false for unknown clients or sessions.
+   */
+  async subscribe(clientId: string, sessionId: string, after?: string): Promise<boolean> {
+    if (!this.sseController.hasClient(clientId)) return false;
+
+    const appended = await this.sessionsService.getAppendedMessages(sessionId, after);
+    // The client may have disconnected while the transcript was read
+    if (!appended || !this.sseController.hasClient(clientId)) return false;
+
+    let tail = this.tails.get(sessionId);
+    if (!tail) {
+      tail = { offset: appended.offset, clients: new Set(), reading: Promise.resolve() };
+      this.tails.set(sessionId, tail);
+    }
+    tail.clients.add(clientId);
+
+    if (appended.messages.length > 0) {
+      this.sseController.sendTo(clientId, 'sessionAppended', {
+        sessionId,
+        messages: appended.messages,
+        reset: false,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Stop tailing a session for a client
+   */
+  unsubscribe(clientId: string, sessionId: string): void {
+    const tail = this.tails.get(sessionId);
+    if (!tail) return;
+
+    tail.clients.delete(clientId);
+    if (tail.clients.size === 0) {
+      this.tails.delete(sessionId);
+    }
+  }
+
+  /**
+   * Stop every tail of a client, once its SSE connection closes
+   */
+  unsubscribeClient(clientId: string): void {
+    for (const sessionId of Array.from(this.tails.keys())) {
+      this.unsubscribe(clientId, sessionId);
+    }
+  }
+
+  /**
+   * Push the lines appended since the last read to the clients tailing the session
+   */
+  handleSessionChanged(sessionId: string): Promise<void> {
+    const tail = this.tails.get(sessionId);
+    if (!tail) return Promise.resolve();
+
+    tail.reading = tail.reading
+      .then(() => this.push(sessionId, tail))
+      .catch(error => {
+        console.error(`[SessionTailer] Failed to tail session ${sessionId}:`, error);
+      });
+    return tail.reading;
+  }
+
+  /**
+   * Number of sessions being tailed
+   */
+  getTailCount(): number {
+    return this.tails.size;
+  }
+
+  private async push(sessionId: string, tail: SessionTail): Promise<void> {
+    const appended = await this.sessionsService.getAppendedMessages(sessionId, tail.offset);
+    if (!appended) {
+      // Session was deleted
+      this.tails.delete(sessionId);
+      return;
+    }
+
+    tail.offset = appended.offset;
+    if (appended.messages.length === 0 && !appended.reset) return;
+
+    for (const clientId of tail.clients) {
+      const sent = this.sseController.sendTo(clientId, 'sessionAppended', {
+        sessionId,
+        messages: appended.messages,
+        reset: appended.reset,
+      });
+      // Clients whose connection broke before its close event are dropped here
+      if (!sent) tail.clients.delete(clientId);
+    }
+
+    if (tail.clients.size === 0 && this.tails.get(sessionId) === tail) {
+      this.tails.delete(sessionId);
+    }
+  }
+}
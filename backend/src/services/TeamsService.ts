@@ -11,6 +11,7 @@ import type {
   TeamStats,
   TeamMemberStats,
 } from '../types';
+import type { TrashStore } from './trash/TrashStore';
 
 // Raw inbox message format from JSON files
 interface RawInboxMessage {
@@ -31,8 +32,11 @@ export class TeamsService {
   private teamsCache: Map<string, TeamConfig> = new Map();
   private messagesCache: Map<string, Message[]> = new Map(); // key: teamId/memberName
 
-  constructor(teamsDir: string) {
+  private trash?: TrashStore;
+
+  constructor(teamsDir: string, trash?: TrashStore) {
     this.teamsDir = teamsDir;
+    this.trash = trash;
   }
 
   // Get all teams
@@ -481,7 +485,7 @@ export class TeamsService {
     this.clearCache();
   }
 
-  // Delete a team by removing its directory
+  // Delete a team by moving its directory to the trash (or removing it when no trash is configured)
   async deleteTeam(teamId: string): Promise<boolean> {
     try {
       const teamDir = path.join(this.teamsDir, teamId);
@@ -494,11 +498,16 @@ export class TeamsService {
         return false;
       }
 
-      // Remove team directory recursively
-      await fs.rm(teamDir, { recursive: true, force: true });
+      if (this.trash) {
+        const team = await this.getTeamById(teamId);
+        await this.trash.add({ type: 'team', targetId: teamId, name: team?.name || teamId }, [teamDir]);
+      } else {
+        // Remove team directory recursively
+        await fs.rm(teamDir, { recursive: true, force: true });
+      }
 
       // Clear cache
-      this.teamsCache.delete(teamId);
+      this.invalidateTeam(teamId);
 
       // Debug: console.log(`[TeamsService] Deleted team: ${teamId}`);
       return true;
@@ -508,6 +517,21 @@ export class TeamsService {
     }
   }
 
+  // Drop cached data of one team, or only one member's messages when a member is given
+  invalidateTeam(teamId: string, memberName?: string): void {
+    if (memberName) {
+      this.messagesCache.delete(`${teamId}/${memberName}`);
+      return;
+    }
+
+    this.teamsCache.delete(teamId);
+    for (const cacheKey of this.messagesCache.keys()) {
+      if (cacheKey.startsWith(`${teamId}/`)) {
+        this.messagesCache.delete(cacheKey);
+      }
+    }
+  }
+
   // Clear cache
   clearCache(): void {
     this.teamsCache.clear();
@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { SSEController } from '../SSEController';
+
+interface WrittenEvent {
+  id?: string;
+  event: string;
+  data: Record<string, unknown>;
+}
+
+function createResponse() {
+  const written: string[] = [];
+  const response = Object.assign(new EventEmitter(), {
+    writeHead: jest.fn(),
+    write: jest.fn((chunk: string) => written.push(chunk)),
+    end: jest.fn(),
+  });
+
+  // Parse the event stream written so far
+  const events = (): WrittenEvent[] =>
+    written.map(chunk => {
+      const fields = Object.fromEntries(
+        chunk.trim().split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+      );
+      return { ...(fields.id && { id: fields.id }), event: fields.event, data: JSON.parse(fields.data) };
+    });
+
+  return { response: response as unknown as Response & EventEmitter, events };
+}
+
+function connect(controller: SSEController, lastEventId?: string) {
+  const { response, events } = createResponse();
+  const clientId = controller.handleConnection(response, lastEventId);
+  return { clientId, response, events };
+}
+
+function broadcastTeams(controller: SSEController, teamIds: string[]): void {
+  teamIds.forEach(teamId => controller.broadcast('teamChanged', { teamId }));
+}
+
+describe('SSEController', () => {
+  let controller: SSEController;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    controller = new SSEController(30000, 3);
+  });
+
+  afterEach(() => {
+    controller.closeAll();
+    jest.restoreAllMocks();
+  });
+
+  it('should send the client ID and the latest event ID on connect', () => {
+    broadcastTeams(controller, ['a']);
+    const first = connect(controller).events();
+
+    const { clientId, events } = connect(controller, first[0].id);
+
+    expect(events()).toEqual([
+      { id: first[0].id, event: 'connect', data: expect.objectContaining({ kind: 'connect', clientId }) },
+    ]);
+  });
+
+  it('should replay the events after a known ID', () => {
+    const listener = connect(controller);
+    broadcastTeams(controller, ['a', 'b', 'c']);
+    const [, a, b, c] = listener.events();
+
+    const { events } = connect(controller, a.id);
+
+    expect(events().map(event => event.event === 'connect' ? 'connect' : event.data.teamId)).toEqual(['b', 'c', 'connect']);
+    expect(events()[0]).toEqual(b);
+    expect(events()[2].id).toBe(c.id);
+  });
+
+  it('should replay the whole buffer for the ID just before it', () => {
+    const { events: connected } = connect(controller);
+    const connectId = connected()[0].id;
+    broadcastTeams(controller, ['a', 'b', 'c']);
+
+    const { events } = connect(controller, connectId);
+
+    expect(events().map(event => event.data.teamId ?? event.event)).toEqual(['a', 'b', 'c', 'connect']);
+  });
+
+  it('should ask for a resync when the ID fell out of the buffer', () => {
+    const listener = connect(controller);
+    broadcastTeams(controller, ['a', 'b', 'c', 'd', 'e']);
+    const [, a] = listener.events();
+
+    const { events } = connect(controller, a.id);
+
+    expect(events().map(event => event.event)).toEqual(['resync', 'connect']);
+    expect(events()[0].id).toBeUndefined();
+  });
+
+  it('should ask for a resync after a server restart', () => {
+    const listener = connect(controller);
+    broadcastTeams(controller, ['a']);
+    const lastEventId = listener.events()[1].id;
+
+    const restarted = new SSEController(30000, 3);
+    const { events } = connect(restarted, lastEventId);
+    restarted.closeAll();
+
+    expect(events().map(event => event.event)).toEqual(['resync', 'connect']);
+  });
+
+  it('should send per-client events without an ID and keep them out of the replay', () => {
+    const { clientId, events } = connect(controller);
+    const connectId = events()[0].id;
+
+    expect(controller.sendTo(clientId, 'sessionAppended', { sessionId: 'session-1', messages: [], reset: false })).toBe(true);
+    expect(events()[1]).toEqual({
+      event: 'sessionAppended',
+      data: expect.objectContaining({ kind: 'sessionAppended', sessionId: 'session-1' }),
+    });
+
+    const replay = connect(controller, connectId).events();
+    expect(replay.map(event => event.event)).toEqual(['connect']);
+  });
+
+  it('should report clients that are gone', () => {
+    const { clientId, response } = connect(controller);
+
+    response.emit('close');
+
+    expect(controller.hasClient(clientId)).toBe(false);
+    expect(controller.sendTo(clientId, 'resync', {})).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { SessionTailer } from '../SessionTailer';
+import type { SessionsService } from '../sessionsService';
+import type { SSEController } from '../SSEController';
+import type { AppendedMessages } from '../sessions/ConversationLoader';
+import type { ChatMessage } from '../../types';
+
+const message = (uuid: string): ChatMessage => ({ uuid, role: 'assistant', content: uuid, timestamp: 1700000000000 });
+
+function createTailer(clientIds: string[]) {
+  const clients = new Set(clientIds);
+  const sseController = {
+    hasClient: jest.fn((clientId: string) => clients.has(clientId)),
+    sendTo: jest.fn((clientId: string) => clients.has(clientId)),
+  };
+  const sessionsService = {
+    getAppendedMessages: jest.fn(
+      async (_sessionId: string, _after?: number | string): Promise<AppendedMessages | null> =>
+        ({ messages: [], offset: 100, reset: false })
+    ),
+  };
+  const tailer = new SessionTailer(
+    sessionsService as unknown as SessionsService,
+    sseController as unknown as SSEController
+  );
+  return { tailer, clients, sseController, sessionsService };
+}
+
+describe('SessionTailer', () => {
+  it('should send messages after the one the client holds when subscribing', async () => {
+    const { tailer, sseController, sessionsService } = createTailer(['client-1']);
+    sessionsService.getAppendedMessages.mockResolvedValueOnce({ messages: [message('m2')], offset: 100, reset: false });
+
+    expect(await tailer.subscribe('client-1', 'session-1', 'm1')).toBe(true);
+
+    expect(sessionsService.getAppendedMessages).toHaveBeenCalledWith('session-1', 'm1');
+    expect(sseController.sendTo).toHaveBeenCalledWith('client-1', 'sessionAppended', {
+      sessionId: 'session-1',
+      messages: [message('m2')],
+      reset: false,
+    });
+    expect(tailer.getTailCount()).toBe(1);
+  });
+
+  it('should refuse unknown clients and sessions', async () => {
+    const { tailer, sessionsService } = createTailer(['client-1']);
+    sessionsService.getAppendedMessages.mockResolvedValueOnce(null);
+
+    expect(await tailer.subscribe('client-2', 'session-1')).toBe(false);
+    expect(await tailer.subscribe('client-1', 'missing')).toBe(false);
+    expect(tailer.getTailCount()).toBe(0);
+  });
+
+  it('should push appended messages from the last offset to every subscriber', async () => {
+    const { tailer, sseController, sessionsService } = createTailer(['client-1', 'client-2']);
+    await tailer.subscribe('client-1', 'session-1');
+    await tailer.subscribe('client-2', 'session-1');
+    sseController.sendTo.mockClear();
+    sessionsService.getAppendedMessages.mockResolvedValueOnce({ messages: [message('m3')], offset: 180, reset: false });
+
+    await tailer.handleSessionChanged('session-1');
+    await tailer.handleSessionChanged('session-1');
+
+    expect(sessionsService.getAppendedMessages).toHaveBeenNthCalledWith(3, 'session-1', 100);
+    expect(sessionsService.getAppendedMessages).toHaveBeenNthCalledWith(4, 'session-1', 180);
+    expect(sseController.sendTo).toHaveBeenCalledTimes(2);
+    expect(sseController.sendTo).toHaveBeenCalledWith('client-2', 'sessionAppended', {
+      sessionId: 'session-1',
+      messages: [message('m3')],
+      reset: false,
+    });
+  });
+
+  it('should read a transcript once at a time', async () => {
+    const { tailer, sessionsService } = createTailer(['client-1']);
+    await tailer.subscribe('client-1', 'session-1');
+    let finishRead!: (appended: AppendedMessages) => void;
+    sessionsService.getAppendedMessages.mockReturnValueOnce(new Promise(resolve => (finishRead = resolve)));
+
+    const first = tailer.handleSessionChanged('session-1');
+    const second = tailer.handleSessionChanged('session-1');
+    await Promise.resolve();
+    expect(sessionsService.getAppendedMessages).toHaveBeenCalledTimes(2);
+
+    finishRead({ messages: [message('m2')], offset: 150, reset: false });
+    await Promise.all([first, second]);
+
+    expect(sessionsService.getAppendedMessages).toHaveBeenCalledTimes(3);
+    expect(sessionsService.getAppendedMessages).toHaveBeenLastCalledWith('session-1', 150);
+  });
+
+  it('should drop clients that can no longer be reached', async () => {
+    const { tailer, clients, sseController, sessionsService } = createTailer(['client-1', 'client-2']);
+    await tailer.subscribe('client-1', 'session-1');
+    await tailer.subscribe('client-2', 'session-1');
+    clients.delete('client-1');
+    sessionsService.getAppendedMessages.mockResolvedValue({ messages: [message('m2')], offset: 150, reset: false });
+
+    await tailer.handleSessionChanged('session-1');
+    sseController.sendTo.mockClear();
+    await tailer.handleSessionChanged('session-1');
+
+    expect(sseController.sendTo).toHaveBeenCalledTimes(1);
+    expect(sseController.sendTo).toHaveBeenCalledWith('client-2', 'sessionAppended', expect.anything());
+
+    clients.delete('client-2');
+    await tailer.handleSessionChanged('session-1');
+    expect(tailer.getTailCount()).toBe(0);
+  });
+
+  it('should stop tailing when the last subscriber leaves', async () => {
+    const { tailer, sessionsService } = createTailer(['client-1', 'client-2']);
+    await tailer.subscribe('client-1', 'session-1');
+    await tailer.subscribe('client-2', 'session-1');
+
+    tailer.unsubscribe('client-1', 'session-1');
+    expect(tailer.getTailCount()).toBe(1);
+    tailer.unsubscribe('client-2', 'session-1');
+    expect(tailer.getTailCount()).toBe(0);
+
+    await tailer.handleSessionChanged('session-1');
+    expect(sessionsService.getAppendedMessages).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop all tails of a client when it disconnects', async () => {
+    const { tailer } = createTailer(['client-1', 'client-2']);
+    await tailer.subscribe('client-1', 'session-1');
+    await tailer.subscribe('client-1', 'session-2');
+    await tailer.subscribe('client-2', 'session-2');
+
+    tailer.unsubscribeClient('client-1');
+
+    expect(tailer.getTailCount()).toBe(1);
+  });
+
+  it('should not tail for a client that disconnected while subscribing', async () => {
+    const { tailer, clients, sessionsService } = createTailer(['client-1']);
+    sessionsService.getAppendedMessages.mockImplementationOnce(async () => {
+      clients.delete('client-1');
+      return { messages: [], offset: 100, reset: false };
+    });
+
+    expect(await tailer.subscribe('client-1', 'session-1')).toBe(false);
+    expect(tailer.getTailCount()).toBe(0);
+  });
+
+  it('should forget tails of deleted sessions', async () => {
+    const { tailer, sessionsService } = createTailer(['client-1']);
+    await tailer.subscribe('client-1', 'session-1');
+    sessionsService.getAppendedMessages.mockResolvedValueOnce(null);
+
+    await tailer.handleSessionChanged('session-1');
+
+    expect(tailer.getTailCount()).toBe(0);
+  });
+});
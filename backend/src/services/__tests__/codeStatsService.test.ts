@@ -0,0 +1,165 @@
+import { vol } from 'memfs';
+import { CodeStatsService } from '../codeStatsService';
+import type { SessionsService } from '../sessionsService';
+import type { TeamsService } from '../TeamsService';
+import type { ConversationMessage, Session } from '../../types';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+jest.mock('fs', () => require('memfs').fs);
+
+const claudeDir = '/home/user/.claude';
+const projectsDir = `${claudeDir}/projects`;
+const teamsDir = `${claudeDir}/teams`;
+const now = Date.UTC(2026, 8, 30, 12, 0);
+
+function createSession(sessionId: string, project: string, agentIds: string[] = []): Session {
+  return {
+    id: sessionId,
+    sessionId,
+    project,
+    projectSlug: project.replace(/\//g, '-'),
+    inputs: [],
+    messages: [],
+    createdAt: now - 86_400_000,
+    updatedAt: now,
+    inputCount: 0,
+    messageCount: 0,
+    agentSessions: agentIds.map(agentId => ({
+      agentId,
+      parentSessionId: sessionId,
+      prompt: '',
+      messageCount: 0,
+      startedAt: now,
+      endedAt: now,
+      durationMs: 0,
+    })),
+  };
+}
+
+function text(uuid: string, timestamp: number, content: string): ConversationMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    timestamp: new Date(timestamp).toISOString(),
+    type: 'assistant',
+    message: { role: 'assistant', content: [{ type: 'text', text: content }] },
+  };
+}
+
+// An Edit call and its result
+function edit(id: string, timestamp: number, filePath: string, oldString: string, newString: string, isError = false) {
+  return [
+    {
+      uuid: `${id}-use`,
+      parentUuid: null,
+      timestamp: new Date(timestamp).toISOString(),
+      type: 'assistant',
+      message: {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id, name: 'Edit', input: { file_path: filePath, old_string: oldString, new_string: newString } }],
+      },
+    },
+    {
+      uuid: `${id}-result`,
+      parentUuid: null,
+      timestamp: new Date(timestamp + 1000).toISOString(),
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'ok', is_error: isError }] },
+    },
+  ] as ConversationMessage[];
+}
+
+const jsonl = (entries: ConversationMessage[]) => entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+
+function createService(sessions: Session[], teams: unknown[] = []) {
+  const sessionsService = { getSessions: jest.fn(async () => sessions) };
+  const teamsService = { getTeams: jest.fn(async () => teams) };
+  return new CodeStatsService(
+    sessionsService as unknown as SessionsService,
+    teamsService as unknown as TeamsService,
+    `${claudeDir}/history.jsonl`,
+    teamsDir
+  );
+}
+
+describe('CodeStatsService', () => {
+  const yesterday = now - 86_400_000;
+  const app = createSession('session-1', '/home/user/app', ['a1']);
+  const docs = createSession('session-2', '/home/user/docs');
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    vol.reset();
+    vol.fromJSON({
+      [`${projectsDir}/-home-user-app/session-1.jsonl`]: jsonl([
+        text('t1', yesterday, 'Try this:\n```TypeScript\nconst a = 1;\n\nconst b = 2;\n```\nand\n```\nplain\n```'),
+        ...edit('e1', yesterday, '/home/user/app/src/app.ts', 'const a = 1;', 'const a = 2;\nconst b = 3;'),
+        ...edit('e2', now, '/home/user/app/src/app.ts', 'x', 'y', true),
+      ]) + 'not json\n',
+      [`${projectsDir}/-home-user-app/session-1/subagents/agent-a1.jsonl`]: jsonl([
+        text('t2', now, '```python\nprint(1)\n```'),
+        ...edit('e3', now, '/home/user/app/tool.py', 'a\nb', 'a'),
+      ]),
+      [`${projectsDir}/-home-user-docs/session-2.jsonl`]: jsonl([
+        ...edit('e4', now - 40 * 86_400_000, '/home/user/docs/old.md', 'a', 'b'),
+        ...edit('e5', now, '/home/user/docs/README.md', 'a', 'b\nc'),
+      ]),
+      [`${teamsDir}/alpha/inboxes/lead.json`]: JSON.stringify([
+        { from: 'dev', text: '```sh\nnpm test\nnpm run build\n```', timestamp: new Date(now).toISOString() },
+      ]),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should sum successful edits of sessions and their subagents', async () => {
+    const { edits } = await createService([app, docs]).getCodeStats(7, 'UTC');
+
+    expect(edits).toMatchObject({ linesAdded: 4, linesRemoved: 3, filesChanged: 3 });
+    expect(edits.byProject).toEqual({
+      '/home/user/app': { linesAdded: 2, linesRemoved: 2 },
+      '/home/user/docs': { linesAdded: 2, linesRemoved: 1 },
+    });
+    expect(edits.byLanguage).toEqual({
+      typescript: { linesAdded: 2, linesRemoved: 1 },
+      python: { linesAdded: 0, linesRemoved: 1 },
+      markdown: { linesAdded: 2, linesRemoved: 1 },
+    });
+    expect(edits.dailyTrend).toHaveLength(7);
+    expect(edits.dailyTrend.slice(-2)).toEqual([
+      { date: '2026-09-29', linesAdded: 2, linesRemoved: 1 },
+      { date: '2026-09-30', linesAdded: 2, linesRemoved: 2 },
+    ]);
+  });
+
+  it('should count non-empty lines of code blocks in sessions and team messages', async () => {
+    const teams = [{ id: 'alpha', name: 'Alpha', members: [{ name: 'lead' }] }];
+    const { codeBlocks } = await createService([app, docs], teams).getCodeStats(7, 'UTC');
+
+    expect(codeBlocks.totalLines).toBe(5);
+    expect(codeBlocks.byLanguage).toEqual({ typescript: 2, text: 1, sh: 2 });
+    expect(codeBlocks.byProject).toEqual({ '/home/user/app': 3, 'team:Alpha': 2 });
+    expect(codeBlocks.dailyTrend.slice(-2)).toEqual([
+      { date: '2026-09-29', lines: 3 },
+      { date: '2026-09-30', lines: 2 },
+    ]);
+  });
+
+  it('should bucket days in the requested time zone', async () => {
+    const { edits } = await createService([docs]).getCodeStats(7, 'Pacific/Kiritimati');
+
+    // 12:00 UTC is already the next day at UTC+14
+    expect(edits.dailyTrend.slice(-1)).toEqual([{ date: '2026-10-01', linesAdded: 2, linesRemoved: 1 }]);
+  });
+
+  it('should skip sessions whose transcript is missing', async () => {
+    vol.unlinkSync(`${projectsDir}/-home-user-app/session-1.jsonl`);
+
+    const { edits, codeBlocks } = await createService([app, docs]).getCodeStats(7, 'UTC');
+
+    expect(edits.byProject).toEqual({ '/home/user/docs': { linesAdded: 2, linesRemoved: 1 } });
+    expect(codeBlocks.totalLines).toBe(0);
+  });
+});
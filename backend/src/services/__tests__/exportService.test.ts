@@ -0,0 +1,239 @@
+import { PassThrough } from 'stream';
+import { ExportService, type ExportArchiveOptions } from '../exportService';
+import type { SessionsService } from '../sessionsService';
+import type { FavoritesService } from '../favoritesService';
+import type { ChatMessage, Session } from '../../types';
+import { readZip } from '../../utils/__tests__/readZip';
+
+const createdAt = Date.UTC(2026, 2, 9, 20, 0);
+
+function createSession(sessionId: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id: sessionId,
+    sessionId,
+    project: '/home/user/app',
+    projectSlug: '-home-user-app',
+    inputs: [{ display: 'Fix the build', timestamp: createdAt }],
+    messages: [],
+    createdAt,
+    updatedAt: createdAt + 60_000,
+    inputCount: 1,
+    messageCount: 0,
+    ...overrides,
+  };
+}
+
+const messages: ChatMessage[] = [
+  { uuid: 'u1', role: 'user', content: 'Why does <b>this</b> fail?', timestamp: createdAt },
+  {
+    uuid: 'a1',
+    role: 'assistant',
+    content: '',
+    timestamp: createdAt + 1000,
+    type: 'tool_use',
+    toolCall: {
+      id: 'tool-1',
+      name: 'Read',
+      input: { file_path: 'README.md' },
+      result: { toolUseId: 'tool-1', content: '# Usage\n\n```bash\nnpm test\n```', isError: false, timestamp: createdAt + 1500 },
+    },
+  },
+  {
+    uuid: 'u2',
+    role: 'user',
+    content: '',
+    timestamp: createdAt + 2000,
+    type: 'image',
+    image: { index: 0, mediaType: 'image/png' },
+  },
+];
+
+function createService(sessions: Session[]) {
+  const sessionsService = {
+    getSessions: jest.fn(async () => sessions),
+    getSessionWithConversation: jest.fn(async (sessionId: string) => {
+      const session = sessions.find(s => s.sessionId === sessionId);
+      return session ? { ...session, messages } : null;
+    }),
+    getAttachment: jest.fn(async () => ({ mediaType: 'image/png', data: Buffer.from('png-bytes') })),
+  };
+  const favoritesService = {
+    getSessionNames: jest.fn(async () => ({ 'session-1': 'Build <fix>' })),
+    getSessionTags: jest.fn(async () => ({ 'session-1': ['ci'], 'session-2': ['docs'] })),
+  };
+  const service = new ExportService(
+    sessionsService as unknown as SessionsService,
+    favoritesService as unknown as FavoritesService
+  );
+  return { service, sessionsService };
+}
+
+async function exportZip(service: ExportService, sessions: Session[], options: Partial<ExportArchiveOptions> = {}) {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  await service.writeArchive(sessions, output, {
+    formats: ['markdown', 'html', 'json'],
+    includeAttachments: true,
+    timeZone: 'UTC',
+    ...options,
+  });
+  output.end();
+  return readZip(Buffer.concat(chunks));
+}
+
+describe('ExportService', () => {
+  describe('selectSessions', () => {
+    const sessions = [
+      createSession('session-2', { project: '/home/user/docs', createdAt: createdAt + 1000 }),
+      createSession('session-1'),
+      createSession('session-3', { createdAt: Date.UTC(2026, 2, 12), updatedAt: Date.UTC(2026, 2, 12, 1) }),
+    ];
+
+    it('should apply every filter and sort oldest first', async () => {
+      const { service } = createService(sessions);
+
+      expect((await service.selectSessions({})).map(s => s.sessionId)).toEqual(['session-1', 'session-2', 'session-3']);
+      expect((await service.selectSessions({ sessionIds: ['session-3', 'session-2'] })).map(s => s.sessionId)).toEqual([
+        'session-2',
+        'session-3',
+      ]);
+      expect((await service.selectSessions({ project: '/home/user/app' })).map(s => s.sessionId)).toEqual([
+        'session-1',
+        'session-3',
+      ]);
+      expect((await service.selectSessions({ tag: ' CI ' })).map(s => s.sessionId)).toEqual(['session-1']);
+      expect(await service.selectSessions({ project: '/home/user/docs', tag: 'ci' })).toEqual([]);
+    });
+
+    it('should select sessions active on the days of the range', async () => {
+      const { service } = createService(sessions);
+
+      expect((await service.selectSessions({ from: '2026-03-10', to: '2026-03-11' })).map(s => s.sessionId)).toEqual([]);
+      expect((await service.selectSessions({ from: '2026-03-09', to: '2026-03-09' })).map(s => s.sessionId)).toEqual([
+        'session-1',
+        'session-2',
+      ]);
+      expect((await service.selectSessions({ from: '2026-03-12' })).map(s => s.sessionId)).toEqual(['session-3']);
+    });
+
+    it('should resolve range days in the requested time zone', async () => {
+      const { service } = createService(sessions);
+
+      // 20:00 UTC on March 9 is already March 10 in Tokyo
+      expect(
+        (await service.selectSessions({ from: '2026-03-10', to: '2026-03-10' }, 'Asia/Tokyo')).map(s => s.sessionId)
+      ).toEqual(['session-1', 'session-2']);
+      expect(await service.selectSessions({ to: '2026-03-09' }, 'Asia/Tokyo')).toEqual([]);
+    });
+
+    it('should reject malformed dates', async () => {
+      const { service } = createService(sessions);
+
+      await expect(service.selectSessions({ from: '2026-3-9' })).rejects.toThrow('Invalid date: 2026-3-9');
+    });
+  });
+
+  describe('writeArchive', () => {
+    it('should write one directory per session with indexes', async () => {
+      const sessions = [createSession('session-1'), createSession('session-2')];
+      const { service } = createService(sessions);
+
+      const files = await exportZip(service, sessions);
+
+      expect(Array.from(files.keys())).toEqual([
+        'sessions/2026-03-09_session-1/attachments/u2-0.png',
+        'sessions/2026-03-09_session-1/conversation.md',
+        'sessions/2026-03-09_session-1/conversation.html',
+        'sessions/2026-03-09_session-1/conversation.json',
+        'sessions/2026-03-09_session-2/attachments/u2-0.png',
+        'sessions/2026-03-09_session-2/conversation.md',
+        'sessions/2026-03-09_session-2/conversation.html',
+        'sessions/2026-03-09_session-2/conversation.json',
+        'index.json',
+        'index.md',
+        'index.html',
+      ]);
+
+      const index = JSON.parse(files.get('index.json')!.toString('utf-8'));
+      expect(index.timeZone).toBe('UTC');
+      expect(index.sessions[0]).toEqual({
+        sessionId: 'session-1',
+        title: 'Build <fix>',
+        project: '/home/user/app',
+        createdAt: '2026-03-09 20:00:00',
+        updatedAt: '2026-03-09 20:01:00',
+        messageCount: 3,
+        tags: ['ci'],
+        directory: 'sessions/2026-03-09_session-1',
+        files: [
+          'sessions/2026-03-09_session-1/conversation.md',
+          'sessions/2026-03-09_session-1/conversation.html',
+          'sessions/2026-03-09_session-1/conversation.json',
+        ],
+      });
+      expect(index.sessions[1].title).toBe('Fix the build');
+      expect(files.get('index.md')!.toString('utf-8')).toContain('[Build <fix>](sessions/2026-03-09_session-1/conversation.md)');
+      expect(files.get('index.html')!.toString('utf-8')).toContain(
+        '<a href="sessions/2026-03-09_session-1/conversation.html">Build &lt;fix&gt;</a>'
+      );
+    });
+
+    it('should render messages as Markdown', async () => {
+      const sessions = [createSession('session-1')];
+      const { service } = createService(sessions);
+
+      const markdown = (await exportZip(service, sessions)).get('sessions/2026-03-09_session-1/conversation.md')!.toString('utf-8');
+
+      expect(markdown).toContain('# Build <fix>');
+      expect(markdown).toContain('- **Tags**: ci');
+      expect(markdown).toContain('### User · 2026-03-09 20:00:00\n\nWhy does <b>this</b> fail?');
+      expect(markdown).toContain('### Tool: Read · 2026-03-09 20:00:01\n\n```json\n{\n  "file_path": "README.md"\n}\n```');
+      expect(markdown).toContain('![image](attachments/u2-0.png)');
+    });
+
+    it('should fence tool output containing fences with a longer fence', async () => {
+      const sessions = [createSession('session-1')];
+      const { service } = createService(sessions);
+
+      const markdown = (await exportZip(service, sessions)).get('sessions/2026-03-09_session-1/conversation.md')!.toString('utf-8');
+
+      expect(markdown).toContain('**Result:**\n\n````\n# Usage\n\n```bash\nnpm test\n```\n````');
+    });
+
+    it('should escape message content in HTML', async () => {
+      const sessions = [createSession('session-1')];
+      const { service } = createService(sessions);
+
+      const html = (await exportZip(service, sessions)).get('sessions/2026-03-09_session-1/conversation.html')!.toString('utf-8');
+
+      expect(html).toContain('<title>Build &lt;fix&gt;</title>');
+      expect(html).toContain('<div class="text">Why does &lt;b&gt;this&lt;/b&gt; fail?</div>');
+      expect(html).toContain('<div class="label">Result</div><pre># Usage');
+      expect(html).toContain('<img src="attachments/u2-0.png" alt="image">');
+      expect(html).not.toContain('<b>this</b>');
+    });
+
+    it('should leave attachments out when not requested', async () => {
+      const sessions = [createSession('session-1')];
+      const { service, sessionsService } = createService(sessions);
+
+      const files = await exportZip(service, sessions, { formats: ['markdown'], includeAttachments: false });
+
+      expect(sessionsService.getAttachment).not.toHaveBeenCalled();
+      expect(Array.from(files.keys())).toEqual(['sessions/2026-03-09_session-1/conversation.md', 'index.json', 'index.md']);
+      expect(files.get('sessions/2026-03-09_session-1/conversation.md')!.toString('utf-8')).toContain(
+        '_Image (image/png) not included_'
+      );
+    });
+
+    it('should name session directories by the day in the export time zone', async () => {
+      const sessions = [createSession('session-1')];
+      const { service } = createService(sessions);
+
+      const files = await exportZip(service, sessions, { formats: ['json'], timeZone: 'Asia/Tokyo' });
+
+      expect(files.has('sessions/2026-03-10_session-1/conversation.json')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { vol } from 'memfs';
+import { SearchService } from '../searchService';
+import type { SessionsService } from '../sessionsService';
+import type { TeamsService } from '../TeamsService';
+import type { ConversationMessage, Session } from '../../types';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+jest.mock('fs', () => require('memfs').fs);
+
+const claudeDir = '/home/user/.claude';
+const projectsDir = `${claudeDir}/projects`;
+
+function createSession(sessionId: string, updatedAt: number): Session {
+  return {
+    id: sessionId,
+    sessionId,
+    project: '/home/user/app',
+    projectSlug: '-home-user-app',
+    inputs: [],
+    messages: [],
+    createdAt: updatedAt - 60_000,
+    updatedAt,
+    inputCount: 0,
+    messageCount: 0,
+  };
+}
+
+function message(uuid: string, timestamp: number, type: 'user' | 'assistant', text: string): ConversationMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    timestamp: new Date(timestamp).toISOString(),
+    type,
+    message: { role: type, content: [{ type: 'text', text }] },
+  };
+}
+
+const jsonl = (entries: ConversationMessage[]) => entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+
+describe('SearchService', () => {
+  const start = Date.UTC(2026, 8, 30, 12, 0);
+  const sessions = [createSession('session-1', start + 120_000), createSession('session-2', start + 60_000)];
+  let service: SearchService;
+
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      [`${projectsDir}/-home-user-app/session-1.jsonl`]: jsonl([
+        message('m1', start, 'user', 'The parser is slow'),
+        message('m2', start + 60_000, 'assistant', 'The lexer is the bottleneck'),
+      ]),
+      [`${projectsDir}/-home-user-app/session-2.jsonl`]: jsonl([
+        message('m1', start, 'user', 'Rewrite the parser'),
+      ]),
+    });
+
+    const sessionsService = { getSessions: jest.fn(async () => sessions) };
+    service = new SearchService(
+      sessionsService as unknown as SessionsService,
+      {} as TeamsService,
+      `${claudeDir}/history.jsonl`,
+      `${claudeDir}/teams`
+    );
+  });
+
+  const searchIds = async (query: string) =>
+    (await service.search({ query, type: 'session' })).map(result => result.id);
+
+  it('should keep sessions without the negated text', async () => {
+    expect(await searchIds('parser -missing')).toEqual(['session-1', 'session-2']);
+  });
+
+  it('should exclude sessions with the negated text in any message', async () => {
+    expect(await searchIds('parser -lexer')).toEqual(['session-2']);
+    expect(await searchIds('-lexer')).toEqual(['session-2']);
+  });
+
+  it('should apply exclusions to messages of every role', async () => {
+    expect(await searchIds('role:user parser -bottleneck')).toEqual(['session-2']);
+  });
+});
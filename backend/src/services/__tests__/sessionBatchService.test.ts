@@ -0,0 +1,135 @@
+import { SessionBatchService } from '../sessionBatchService';
+import type { SessionsService } from '../sessionsService';
+import type { FavoritesService } from '../favoritesService';
+import type { Session } from '../../types';
+
+function createSession(sessionId: string, display = `Prompt of ${sessionId}`): Session {
+  return {
+    id: sessionId,
+    sessionId,
+    project: '/home/user/app',
+    projectSlug: '-home-user-app',
+    inputs: [{ display, timestamp: 1700000000000 }],
+    messages: [],
+    createdAt: 1700000000000,
+    updatedAt: 1700000060000,
+    inputCount: 1,
+    messageCount: 0,
+  };
+}
+
+function createService(sessions: Session[]) {
+  const sessionsService = {
+    loadSessions: jest.fn(async () => new Map(sessions.map(s => [s.sessionId, s]))),
+    deleteSessions: jest.fn(async (ids: string[]) => new Map(ids.map(id => [id, id !== 'session-2']))),
+    afterDelete: jest.fn(async () => {}),
+    getSessionWithConversation: jest.fn(async (sessionId: string) => {
+      if (sessionId === 'session-3') throw new Error('EACCES');
+      return { ...sessions.find(s => s.sessionId === sessionId)!, messages: [] };
+    }),
+  };
+  const favoritesService = {
+    addSessionTagsBulk: jest.fn(async () => {}),
+    removeSessionTagsBulk: jest.fn(async () => {}),
+    getSessionNames: jest.fn(async () => ({ 'session-1': 'WIP: Build fix', 'session-2': 'Docs' })),
+    setSessionNames: jest.fn(async () => {}),
+  };
+  const service = new SessionBatchService(
+    sessionsService as unknown as SessionsService,
+    favoritesService as unknown as FavoritesService
+  );
+  return { service, sessionsService, favoritesService };
+}
+
+describe('SessionBatchService', () => {
+  const sessions = [
+    createSession('session-1'),
+    createSession('session-2'),
+    createSession('session-3', 'A prompt that is much longer than the fifty characters of a title'),
+  ];
+
+  it('should delete all sessions with one history rewrite', async () => {
+    const { service, sessionsService } = createService(sessions);
+
+    const result = await service.run({ action: 'delete', sessionIds: ['session-1', 'session-2', 'session-3'] });
+
+    expect(sessionsService.deleteSessions).toHaveBeenCalledTimes(1);
+    expect(sessionsService.deleteSessions).toHaveBeenCalledWith(['session-1', 'session-2', 'session-3']);
+    expect(sessionsService.afterDelete).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      action: 'delete',
+      results: [
+        { sessionId: 'session-1', success: true },
+        { sessionId: 'session-2', success: false, error: 'Failed to delete session' },
+        { sessionId: 'session-3', success: true },
+      ],
+      succeeded: 2,
+      failed: 1,
+    });
+  });
+
+  it('should report unknown ids in request order without touching them', async () => {
+    const { service, sessionsService } = createService(sessions);
+
+    const result = await service.run({ action: 'delete', sessionIds: ['missing', 'session-1', 'missing'] });
+
+    expect(sessionsService.deleteSessions).toHaveBeenCalledWith(['session-1']);
+    expect(result.results).toEqual([
+      { sessionId: 'missing', success: false, error: 'Session not found' },
+      { sessionId: 'session-1', success: true },
+    ]);
+    expect(result).toMatchObject({ succeeded: 1, failed: 1 });
+  });
+
+  it('should not delete anything when no session is found', async () => {
+    const { service, sessionsService } = createService(sessions);
+
+    const result = await service.run({ action: 'delete', sessionIds: ['missing'] });
+
+    expect(sessionsService.deleteSessions).not.toHaveBeenCalled();
+    expect(sessionsService.afterDelete).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ succeeded: 0, failed: 1 });
+  });
+
+  it('should normalize tags before adding and removing them', async () => {
+    const { service, favoritesService } = createService(sessions);
+
+    await service.run({ action: 'addTags', sessionIds: ['session-1', 'missing'], tags: [' CI ', 'ci', 'Docs', '  '] });
+    await service.run({ action: 'removeTags', sessionIds: ['session-2'], tags: ['DOCS'] });
+
+    expect(favoritesService.addSessionTagsBulk).toHaveBeenCalledWith(['session-1'], ['ci', 'docs']);
+    expect(favoritesService.removeSessionTagsBulk).toHaveBeenCalledWith(['session-2'], ['docs']);
+  });
+
+  it('should prefix names once and fall back to the default title', async () => {
+    const { service, favoritesService } = createService(sessions);
+
+    const result = await service.run({
+      action: 'renamePrefix',
+      sessionIds: ['session-1', 'session-2', 'session-3'],
+      prefix: 'WIP: ',
+    });
+
+    expect(favoritesService.setSessionNames).toHaveBeenCalledTimes(1);
+    expect(favoritesService.setSessionNames).toHaveBeenCalledWith({
+      'session-1': 'WIP: Build fix',
+      'session-2': 'WIP: Docs',
+      'session-3': 'WIP: A prompt that is much longer than the fifty charac...',
+    });
+    expect(result).toMatchObject({ succeeded: 3, failed: 0 });
+  });
+
+  it('should export conversations and report sessions that fail to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { service } = createService(sessions);
+
+    const result = await service.run({ action: 'export', sessionIds: ['session-1', 'session-3'] });
+
+    expect(result.sessions?.map(s => s.sessionId)).toEqual(['session-1']);
+    expect(result.results).toEqual([
+      { sessionId: 'session-1', success: true },
+      { sessionId: 'session-3', success: false, error: 'Failed to export session' },
+    ]);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,215 @@
+import { PassThrough } from 'stream';
+import vm from 'vm';
+import { SiteExportService, type SiteExportOptions } from '../siteExportService';
+import type { SessionsService } from '../sessionsService';
+import type { FavoritesService } from '../favoritesService';
+import type { ChatMessage, Session, SessionChanges } from '../../types';
+import { readZip } from '../../utils/__tests__/readZip';
+
+const createdAt = Date.UTC(2026, 2, 9, 20, 0);
+const hostile = '<script>alert("x")</script>';
+
+function createSession(sessionId: string, updatedAt: number): Session {
+  return {
+    id: sessionId,
+    sessionId,
+    project: '/home/user/app',
+    projectSlug: '-home-user-app',
+    inputs: [{ display: `Prompt of ${sessionId}`, timestamp: createdAt }],
+    messages: [],
+    createdAt,
+    updatedAt,
+    inputCount: 1,
+    messageCount: 0,
+  };
+}
+
+const messages: ChatMessage[] = [
+  { uuid: 'u1', role: 'user', content: `Render ${hostile} please`, timestamp: createdAt },
+  {
+    uuid: 'a1',
+    role: 'assistant',
+    content: '',
+    timestamp: createdAt + 1000,
+    type: 'tool_use',
+    toolCall: {
+      id: 'tool-1',
+      name: 'Bash',
+      input: { command: `echo '${hostile}'` },
+      result: { toolUseId: 'tool-1', content: `${hostile}\n`, isError: false, timestamp: createdAt + 1500 },
+    },
+  },
+  {
+    uuid: 'a2',
+    role: 'assistant',
+    content: '',
+    timestamp: createdAt + 2000,
+    type: 'tool_use',
+    toolCall: { id: 'tool-2', name: 'Edit', input: { file_path: 'src/app.ts' } },
+  },
+  { uuid: 'u2', role: 'user', content: '', timestamp: createdAt + 3000, type: 'image', image: { index: 0, mediaType: 'image/png' } },
+];
+
+const changes: SessionChanges = {
+  files: [
+    {
+      filePath: 'src/app.ts',
+      edits: [
+        {
+          toolUseId: 'tool-2',
+          toolName: 'Edit',
+          messageUuid: 'a2',
+          timestamp: createdAt + 2000,
+          diff: '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1 +1 @@\n-const a = "<old>";\n+const a = "<new>";',
+          linesAdded: 1,
+          linesRemoved: 1,
+          isNewFile: false,
+          isError: false,
+        },
+      ],
+      linesAdded: 1,
+      linesRemoved: 1,
+    },
+  ],
+  linesAdded: 1,
+  linesRemoved: 1,
+};
+
+function createService(sessions: Session[]) {
+  const sessionsService = {
+    getSessionWithConversation: jest.fn(async (sessionId: string) => {
+      const session = sessions.find(s => s.sessionId === sessionId);
+      return session ? { ...session, messages } : null;
+    }),
+    getSessionChanges: jest.fn(async (sessionId: string) => (sessionId === 'session-1' ? changes : null)),
+    getAttachment: jest.fn(async (sessionId: string) =>
+      sessionId === 'session-1' ? { mediaType: 'image/png', data: Buffer.from('png-bytes') } : null
+    ),
+  };
+  const favoritesService = {
+    getSessionNames: jest.fn(async () => ({ 'session-1': `Title ${hostile}` })),
+    getSessionTags: jest.fn(async () => ({ 'session-1': [`tag-${hostile}`] })),
+  };
+  return new SiteExportService(
+    sessionsService as unknown as SessionsService,
+    favoritesService as unknown as FavoritesService
+  );
+}
+
+async function exportSite(sessions: Session[], options: SiteExportOptions = {}) {
+  const service = createService(sessions);
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  await service.writeSite('/home/user/app', sessions, output, { timeZone: 'UTC', ...options });
+  output.end();
+
+  const files = readZip(Buffer.concat(chunks));
+  const read = (name: string) => files.get(`app-site/${name}`)!.toString('utf-8');
+  return { files, read };
+}
+
+describe('SiteExportService', () => {
+  const sessions = [createSession('session-1', createdAt + 60_000), createSession('session-2', createdAt + 120_000)];
+
+  it('should write the site as a single folder', async () => {
+    const { files } = await exportSite(sessions);
+
+    expect(Array.from(files.keys())).toEqual([
+      'app-site/sessions/session-2.html',
+      'app-site/sessions/attachments/u2-0.png',
+      'app-site/sessions/session-1.html',
+      'app-site/index.html',
+      'app-site/assets/site.css',
+      'app-site/assets/search.js',
+      'app-site/assets/search-index.js',
+    ]);
+  });
+
+  it('should link every session from the index, newest first', async () => {
+    const { read } = await exportSite(sessions);
+    const index = read('index.html');
+
+    expect(index).toContain('<a href="sessions/session-2.html">Prompt of session-2</a>');
+    expect(index.indexOf('sessions/session-2.html')).toBeLessThan(index.indexOf('sessions/session-1.html'));
+    expect(index).toContain('<span>2 sessions</span><span>8 messages</span>');
+    expect(index).toContain('<script src="assets/search-index.js"></script>');
+    expect(read('sessions/session-1.html')).toContain('<link rel="stylesheet" href="../assets/site.css">');
+    expect(read('sessions/session-1.html')).toContain('<img src="attachments/u2-0.png" alt="image">');
+    expect(read('sessions/session-2.html')).toContain('<span class="muted">Image not included</span>');
+  });
+
+  it('should escape message, title, tag and tool content', async () => {
+    const { read } = await exportSite(sessions);
+    const page = read('sessions/session-1.html');
+    const escaped = '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;';
+
+    expect(page).not.toContain('<script>alert');
+    expect(read('index.html')).not.toContain('<script>alert');
+    expect(page).toContain(`<title>Title ${escaped}</title>`);
+    expect(page).toContain(`<h1>Title ${escaped}</h1>`);
+    expect(page).toContain(`<span class="tag">tag-${escaped}</span>`);
+    expect(page).toContain(`<div class="text">Render ${escaped} please</div>`);
+    expect(page).toContain(`<pre>${escaped}\n</pre>`);
+    expect(page).toContain('echo \'&lt;script&gt;');
+  });
+
+  it('should show edits as diffs next to their tool call', async () => {
+    const { read } = await exportSite(sessions);
+    const page = read('sessions/session-1.html');
+
+    expect(page).toContain('<details open><summary>Edit src/app.ts</summary><pre class="diff">');
+    expect(page).toContain('<span class="add">+const a = &quot;&lt;new&gt;&quot;;</span>');
+    expect(page).toContain('<span class="del">-const a = &quot;&lt;old&gt;&quot;;</span>');
+    expect(page).toContain('<a href="#changes">Changes (1)</a>');
+    expect(read('sessions/session-2.html')).toContain('<p class="muted">No file changes</p>');
+  });
+
+  it('should write a search index that loads as a script', async () => {
+    const { read } = await exportSite(sessions);
+    const sandbox: { window: { SEARCH_INDEX?: unknown } } = { window: {} };
+    const bashText = `Bash ${JSON.stringify({ command: `echo '${hostile}'` })}`;
+
+    vm.runInNewContext(read('assets/search-index.js'), sandbox);
+
+    expect(sandbox.window.SEARCH_INDEX).toEqual({
+      sessions: [
+        { title: 'Prompt of session-2', file: 'sessions/session-2.html' },
+        { title: `Title ${hostile}`, file: 'sessions/session-1.html' },
+      ],
+      messages: [
+        { session: 0, message: 0, role: 'user', text: `Render ${hostile} please` },
+        { session: 0, message: 1, role: 'tool_use', text: bashText },
+        { session: 0, message: 2, role: 'tool_use', text: 'Edit {"file_path":"src/app.ts"}' },
+        { session: 1, message: 0, role: 'user', text: `Render ${hostile} please` },
+        { session: 1, message: 1, role: 'tool_use', text: bashText },
+        { session: 1, message: 2, role: 'tool_use', text: 'Edit {"file_path":"src/app.ts"}' },
+      ],
+    });
+  });
+
+  it('should only keep theme variables with plain values', async () => {
+    const { read } = await exportSite(sessions, {
+      theme: {
+        '--bg-primary': '#101010',
+        '--accent-blue': 'rgba(1, 2, 3, 0.5)',
+        '--text-primary': 'red; } body { background: url(https://evil.test/x.png)',
+        '--bg-card': '#fff;}</style><script>alert(1)</script>',
+        'color': 'red',
+        '--x;}body{': 'red',
+      },
+    });
+    const css = read('assets/site.css');
+    const root = css.slice(0, css.indexOf('}') + 1);
+
+    expect(root).toContain('  --bg-primary: #101010;');
+    expect(root).toContain('  --accent-blue: rgba(1, 2, 3, 0.5);');
+    expect(root).toContain('  --accent-green: #059669;');
+    expect(root).not.toContain('--text-primary');
+    expect(root).not.toContain('--bg-card');
+    expect(root).not.toContain('color: red');
+    expect(root).not.toContain('--x');
+    expect(css).not.toContain('evil.test');
+    expect(css).not.toContain('<script>');
+  });
+});
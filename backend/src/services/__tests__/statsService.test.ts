@@ -0,0 +1,150 @@
+import { StatsService } from '../statsService';
+import type { SessionsService } from '../sessionsService';
+import type { TeamsService } from '../TeamsService';
+import type { Session, SessionActivity } from '../../types';
+import { getZonedDateParts } from '../../utils/timeZoneUtils';
+
+jest.mock('../../utils/timeZoneUtils', () => {
+  const actual = jest.requireActual('../../utils/timeZoneUtils');
+  return { ...actual, getZonedDateParts: jest.fn(actual.getZonedDateParts) };
+});
+
+const now = Date.UTC(2026, 8, 30, 12, 0); // Wednesday
+
+function createSession(id: string, updatedAt: number): Session {
+  return {
+    id,
+    sessionId: id,
+    project: '/home/user/app',
+    projectSlug: '-home-user-app',
+    inputs: [],
+    messages: [],
+    createdAt: updatedAt - 3_600_000,
+    updatedAt,
+    inputCount: 0,
+    messageCount: 0,
+  };
+}
+
+function createService(
+  sessions: Session[],
+  timestamps: Record<string, number[]>,
+  activity: Map<string, SessionActivity> = new Map()
+) {
+  const sessionsService = {
+    getSessions: jest.fn(async () => sessions),
+    getSessionsByProject: jest.fn(async () => sessions.slice(0, 1)),
+    getMessageTimestamps: jest.fn(async (sessionId: string) => timestamps[sessionId] ?? []),
+    getSessionActivity: jest.fn(async () => activity),
+  };
+  const service = new StatsService(sessionsService as unknown as SessionsService, {} as TeamsService);
+  return { service, sessionsService };
+}
+
+describe('StatsService', () => {
+  describe('getHourlyActivity', () => {
+    const timestamps = {
+      'session-1': [
+        Date.UTC(2026, 8, 28, 9, 5), // Monday
+        Date.UTC(2026, 8, 28, 9, 10),
+        Date.UTC(2026, 8, 29, 23, 50), // Tuesday
+        Date.UTC(2026, 7, 1, 10, 0), // Before the window
+      ],
+      'session-2': [Date.UTC(2026, 8, 28, 9, 20)],
+    };
+    const sessions = [createSession('session-1', now), createSession('session-2', now - 1000)];
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      (getZonedDateParts as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should count messages per weekday and hour', async () => {
+      const { service } = createService(sessions, timestamps);
+
+      const { timeZone, matrix, total } = await service.getHourlyActivity(30, 'UTC');
+
+      expect(timeZone).toBe('UTC');
+      expect(matrix).toHaveLength(7);
+      expect(matrix.every(row => row.length === 24)).toBe(true);
+      expect(matrix[1][9]).toBe(3);
+      expect(matrix[2][23]).toBe(1);
+      expect(total).toBe(4);
+      expect(matrix.flat().reduce((sum, count) => sum + count, 0)).toBe(total);
+    });
+
+    it('should place messages in the hours of the time zone', async () => {
+      const { service } = createService(sessions, timestamps);
+
+      // UTC+5:45, so 09:05 and 09:10 fall in the 14th hour and 09:20 in the 15th
+      const { matrix } = await service.getHourlyActivity(30, 'Asia/Kathmandu');
+
+      expect(matrix[1][14]).toBe(2);
+      expect(matrix[1][15]).toBe(1);
+      expect(matrix[3][5]).toBe(1); // Tuesday 23:50 is Wednesday 05:35
+    });
+
+    it('should resolve the cell of each quarter hour once', async () => {
+      const { service } = createService(sessions, timestamps);
+
+      await service.getHourlyActivity(30, 'Asia/Kathmandu');
+
+      // 09:05 and 09:10 share a quarter hour
+      expect(getZonedDateParts).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only count sessions of the project', async () => {
+      const { service, sessionsService } = createService(sessions, timestamps);
+
+      const { total } = await service.getHourlyActivity(30, 'UTC', '/home/user/app');
+
+      expect(sessionsService.getSessionsByProject).toHaveBeenCalledWith('/home/user/app');
+      expect(total).toBe(3);
+    });
+
+    it('should read transcripts again only for updated sessions', async () => {
+      const current = [...sessions];
+      const { service, sessionsService } = createService(current, timestamps);
+
+      await service.getHourlyActivity(30, 'UTC');
+      await service.getHourlyActivity(7, 'Asia/Kathmandu');
+      expect(sessionsService.getMessageTimestamps).toHaveBeenCalledTimes(2);
+
+      current[1] = createSession('session-2', now);
+      await service.getHourlyActivity(30, 'UTC');
+
+      expect(sessionsService.getMessageTimestamps).toHaveBeenCalledTimes(3);
+      expect(sessionsService.getMessageTimestamps).toHaveBeenLastCalledWith('session-2');
+    });
+  });
+
+  describe('getActiveTimeStats', () => {
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should split active periods over the days of the time zone', async () => {
+      const activity = new Map<string, SessionActivity>([
+        ['session-1', { tokenTimeline: [], activePeriods: [{ start: Date.UTC(2026, 8, 29, 23, 0), end: Date.UTC(2026, 8, 30, 1, 0) }] }],
+      ]);
+      const { service } = createService([createSession('session-1', now), createSession('session-2', now)], {}, activity);
+
+      const stats = await service.getActiveTimeStats(2, undefined, 'UTC');
+
+      expect(stats.daily).toEqual([
+        { date: '2026-09-29', activeHours: 1 },
+        { date: '2026-09-30', activeHours: 1 },
+      ]);
+      expect(stats.byProject).toEqual([{ projectPath: '/home/user/app', activeHours: 2 }]);
+      expect(stats.totalHours).toBe(2);
+    });
+  });
+});
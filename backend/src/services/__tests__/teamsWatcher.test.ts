@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import { watch } from 'fs';
+import { TeamsWatcher, parseTeamFilePath } from '../teamsWatcher';
+import { eventBus } from '../EventBus';
+
+jest.mock('fs');
+
+const mockWatch = watch as jest.MockedFunction<typeof watch>;
+
+function missingDir(): never {
+  throw Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' });
+}
+
+describe('parseTeamFilePath', () => {
+  it('should map team directories and configs to team changes', () => {
+    expect(parseTeamFilePath('alpha')).toEqual({ type: 'team', teamId: 'alpha' });
+    expect(parseTeamFilePath('alpha/config.json')).toEqual({ type: 'team', teamId: 'alpha' });
+    expect(parseTeamFilePath('alpha/inboxes')).toEqual({ type: 'team', teamId: 'alpha' });
+  });
+
+  it('should map member inboxes to message changes', () => {
+    expect(parseTeamFilePath('alpha/inboxes/lead.json')).toEqual({ type: 'message', teamId: 'alpha', memberName: 'lead' });
+    expect(parseTeamFilePath('alpha\\inboxes\\lead.json')).toEqual({ type: 'message', teamId: 'alpha', memberName: 'lead' });
+  });
+
+  it('should ignore hidden, temporary and unknown files', () => {
+    expect(parseTeamFilePath('')).toBeNull();
+    expect(parseTeamFilePath('.DS_Store')).toBeNull();
+    expect(parseTeamFilePath('alpha/.config.json.swp')).toBeNull();
+    expect(parseTeamFilePath('alpha/inboxes/.lead.json')).toBeNull();
+    expect(parseTeamFilePath('alpha/notes.md')).toBeNull();
+    expect(parseTeamFilePath('alpha/inboxes/lead.txt')).toBeNull();
+    expect(parseTeamFilePath('alpha/inboxes/archive/lead.json')).toBeNull();
+  });
+});
+
+describe('TeamsWatcher', () => {
+  let watcher: TeamsWatcher;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockWatch.mockReset();
+    watcher = new TeamsWatcher('/home/user/.claude/teams');
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep retrying until the teams directory exists', () => {
+    const listener = jest.fn();
+    eventBus.on('teamListChanged', listener);
+    mockWatch.mockImplementation(missingDir);
+
+    watcher.start();
+    jest.advanceTimersByTime(10000);
+    expect(watcher.isWatchingActive()).toBe(false);
+
+    mockWatch.mockImplementation(() => Object.assign(new EventEmitter(), { close: jest.fn() }) as never);
+    jest.advanceTimersByTime(5000);
+
+    expect(watcher.isWatchingActive()).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(10000);
+    expect(mockWatch).toHaveBeenCalledTimes(4);
+    eventBus.off('teamListChanged', listener);
+  });
+
+  it('should watch again after the teams directory is removed', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fsWatcher = Object.assign(new EventEmitter(), { close: jest.fn() });
+    mockWatch.mockImplementation(() => fsWatcher as never);
+
+    watcher.start();
+    mockWatch.mockImplementation(missingDir);
+    fsWatcher.emit('error', new Error('EPERM'));
+
+    expect(fsWatcher.close).toHaveBeenCalled();
+    expect(watcher.isWatchingActive()).toBe(false);
+    jest.advanceTimersByTime(5000);
+    expect(mockWatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop retrying when stopped', () => {
+    mockWatch.mockImplementation(missingDir);
+
+    watcher.start();
+    watcher.stop();
+    jest.advanceTimersByTime(20000);
+
+    expect(mockWatch).toHaveBeenCalledTimes(1);
+  });
+});
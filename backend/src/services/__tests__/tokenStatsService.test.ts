@@ -0,0 +1,68 @@
+import { TokenStatsService } from '../tokenStatsService';
+import type { SessionsService } from '../sessionsService';
+import type { Session, SessionActivity, SessionTokenUsage, TokenCounts } from '../../types';
+
+const counts = (outputTokens: number): TokenCounts => ({
+  inputTokens: 0,
+  outputTokens,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 0,
+});
+
+describe('TokenStatsService', () => {
+  const tokenUsage: SessionTokenUsage = {
+    total: counts(3_000_000),
+    byModel: { 'claude-sonnet-4-5': counts(3_000_000) },
+  };
+  const session = { sessionId: 'session-1', project: '/home/user/app', tokenUsage } as Session;
+  const activity: SessionActivity = {
+    tokenTimeline: [
+      { start: Date.UTC(2026, 8, 29, 23, 0), byModel: { 'claude-sonnet-4-5': counts(1_000_000) } },
+      { start: Date.UTC(2026, 8, 30, 9, 15), byModel: { 'claude-sonnet-4-5': counts(2_000_000) } },
+    ],
+    activePeriods: [],
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 8, 30, 12, 0));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createService = () => {
+    const sessionsService = {
+      getSessions: jest.fn(async () => [session]),
+      getSessionActivity: jest.fn(async () => new Map([['session-1', activity]])),
+    };
+    return new TokenStatsService(sessionsService as unknown as SessionsService, '/nonexistent/pricing.json');
+  };
+
+  it('should count usage on the day each response was sent', async () => {
+    const stats = await createService().getTokenStats(2, undefined, 'UTC');
+
+    expect(stats.daily.map(day => [day.date, day.outputTokens])).toEqual([
+      ['2026-09-29', 1_000_000],
+      ['2026-09-30', 2_000_000],
+    ]);
+    expect(stats.totals.estimatedCost).toBe(45);
+    expect(stats.byProject).toEqual([expect.objectContaining({ sessionCount: 1, outputTokens: 3_000_000 })]);
+  });
+
+  it('should bucket days in the requested time zone', async () => {
+    const stats = await createService().getTokenStats(2, undefined, 'Asia/Kolkata');
+
+    expect(stats.daily.map(day => [day.date, day.outputTokens])).toEqual([
+      ['2026-09-29', 0],
+      ['2026-09-30', 3_000_000],
+    ]);
+  });
+
+  it('should leave out usage before the requested days', async () => {
+    const stats = await createService().getTokenStats(1, undefined, 'UTC');
+
+    expect(stats.totals.outputTokens).toBe(2_000_000);
+    expect(stats.byModel).toEqual([expect.objectContaining({ model: 'claude-sonnet-4-5', outputTokens: 2_000_000 })]);
+  });
+});
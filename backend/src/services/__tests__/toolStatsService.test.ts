@@ -0,0 +1,164 @@
+import { vol } from 'memfs';
+import { ToolStatsService } from '../toolStatsService';
+import type { SessionsService } from '../sessionsService';
+import type { ConversationMessage, Session } from '../../types';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+jest.mock('fs', () => require('memfs').fs);
+
+const claudeDir = '/home/user/.claude';
+const projectsDir = `${claudeDir}/projects`;
+const now = Date.UTC(2026, 8, 30, 12, 0);
+const DAY = 86_400_000;
+
+function createSession(sessionId: string, project: string, agentIds: string[] = [], updatedAt = now): Session {
+  return {
+    id: sessionId,
+    sessionId,
+    project,
+    projectSlug: project.replace(/\//g, '-'),
+    inputs: [],
+    messages: [],
+    createdAt: updatedAt - DAY,
+    updatedAt,
+    inputCount: 0,
+    messageCount: 0,
+    agentSessions: agentIds.map(agentId => ({
+      agentId,
+      parentSessionId: sessionId,
+      prompt: '',
+      messageCount: 0,
+      startedAt: now,
+      endedAt: now,
+      durationMs: 0,
+    })),
+  };
+}
+
+function toolUse(id: string, timestamp: number, name: string, model = 'claude-sonnet-4-5'): ConversationMessage {
+  return {
+    uuid: `${id}-use`,
+    parentUuid: null,
+    timestamp: new Date(timestamp).toISOString(),
+    type: 'assistant',
+    message: { role: 'assistant', model, content: [{ type: 'tool_use', id, name, input: {} }] },
+  };
+}
+
+function toolResult(id: string, timestamp: number, isError = false): ConversationMessage {
+  return {
+    uuid: `${id}-result`,
+    parentUuid: null,
+    timestamp: new Date(timestamp).toISOString(),
+    type: 'user',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'ok', is_error: isError }] },
+  };
+}
+
+const jsonl = (entries: ConversationMessage[]) => entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+
+function createService(sessions: Session[]) {
+  const sessionsService = {
+    getSessions: jest.fn(async () => sessions),
+    getSessionsByProject: jest.fn(async (projectPath: string) => sessions.filter(s => s.project === projectPath)),
+  };
+  const service = new ToolStatsService(sessionsService as unknown as SessionsService, `${claudeDir}/history.jsonl`);
+  return { service, sessionsService };
+}
+
+describe('ToolStatsService', () => {
+  const yesterday = now - DAY;
+  const app = createSession('session-1', '/home/user/app', ['a1']);
+  const docs = createSession('session-2', '/home/user/docs');
+  const stale = createSession('session-3', '/home/user/docs', [], now - 30 * DAY);
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    vol.reset();
+    vol.fromJSON({
+      [`${projectsDir}/-home-user-app/session-1.jsonl`]: jsonl([
+        toolUse('t1', yesterday, 'Bash'),
+        toolResult('t1', yesterday + 2000),
+        toolUse('t2', now, 'Bash'),
+        toolResult('t2', now + 4000, true),
+        toolUse('t3', now, 'Read'),
+      ]),
+      [`${projectsDir}/-home-user-app/session-1/subagents/agent-a1.jsonl`]: jsonl([
+        toolUse('t4', now, 'Bash', 'claude-opus-4-1'),
+        toolResult('t4', now + 6000),
+      ]),
+      [`${projectsDir}/-home-user-docs/session-2.jsonl`]: jsonl([
+        toolUse('t5', now - 40 * DAY, 'Bash'),
+        toolResult('t5', now - 40 * DAY + 1000),
+        toolUse('t6', now, 'Grep'),
+        toolResult('t6', now + 1000),
+      ]),
+      [`${projectsDir}/-home-user-docs/session-3.jsonl`]: jsonl([toolUse('t7', now, 'Write')]),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count calls, errors and median latency of sessions and their subagents', async () => {
+    const { totals, tools } = await createService([app, docs, stale]).service.getToolStats(7, undefined, 'UTC');
+
+    // Calls before the cutoff and sessions last updated before it are left out
+    expect(totals).toEqual({ callCount: 5, errorCount: 1, errorRate: 0.2, medianLatencyMs: 3000 });
+    expect(tools.map(tool => [tool.tool, tool.callCount])).toEqual([['Bash', 3], ['Read', 1], ['Grep', 1]]);
+    expect(tools[0]).toMatchObject({ errorCount: 1, errorRate: 1 / 3, medianLatencyMs: 4000 });
+  });
+
+  it('should leave calls without a result out of the latency', async () => {
+    const { tools } = await createService([app]).service.getToolStats(7, undefined, 'UTC');
+
+    expect(tools.find(tool => tool.tool === 'Read')).toMatchObject({ callCount: 1, errorRate: 0, medianLatencyMs: null });
+  });
+
+  it('should group calls of a tool by project and model', async () => {
+    const { tools } = await createService([app, docs]).service.getToolStats(7, undefined, 'UTC');
+    const bash = tools.find(tool => tool.tool === 'Bash')!;
+
+    expect(bash.byProject).toEqual([
+      { projectPath: '/home/user/app', callCount: 3, errorCount: 1, errorRate: 1 / 3, medianLatencyMs: 4000 },
+    ]);
+    expect(bash.byModel).toEqual([
+      { model: 'claude-sonnet-4-5', callCount: 2, errorCount: 1, errorRate: 0.5, medianLatencyMs: 3000 },
+      { model: 'claude-opus-4-1', callCount: 1, errorCount: 0, errorRate: 0, medianLatencyMs: 6000 },
+    ]);
+  });
+
+  it('should count calls per day with every day of the range present', async () => {
+    const { tools } = await createService([app]).service.getToolStats(7, undefined, 'UTC');
+    const bash = tools.find(tool => tool.tool === 'Bash')!;
+
+    expect(bash.daily).toHaveLength(7);
+    expect(bash.daily[0]).toEqual({ date: '2026-09-24', callCount: 0, errorCount: 0 });
+    expect(bash.daily.slice(-2)).toEqual([
+      { date: '2026-09-29', callCount: 1, errorCount: 0 },
+      { date: '2026-09-30', callCount: 2, errorCount: 1 },
+    ]);
+  });
+
+  it('should bucket days in the requested time zone', async () => {
+    const { tools } = await createService([app]).service.getToolStats(7, undefined, 'Pacific/Kiritimati');
+    const bash = tools.find(tool => tool.tool === 'Bash')!;
+
+    // 12:00 UTC is already the next day at UTC+14
+    expect(bash.daily.slice(-2)).toEqual([
+      { date: '2026-09-30', callCount: 1, errorCount: 0 },
+      { date: '2026-10-01', callCount: 2, errorCount: 1 },
+    ]);
+  });
+
+  it('should only count sessions of the project', async () => {
+    const { service, sessionsService } = createService([app, docs]);
+
+    const { totals, tools } = await service.getToolStats(7, '/home/user/docs', 'UTC');
+
+    expect(sessionsService.getSessionsByProject).toHaveBeenCalledWith('/home/user/docs');
+    expect(totals.callCount).toBe(1);
+    expect(tools.map(tool => tool.tool)).toEqual(['Grep']);
+  });
+});
@@ -0,0 +1,368 @@
+import fs from 'fs/promises';
+import path from 'path';
+import readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import z from 'zod';
+import type { Session, SessionImportResult } from '../../types';
+import type { SessionsService } from '../sessionsService';
+import type { FavoritesService } from '../favoritesService';
+import { generateProjectSlug } from '../sessions/PathUtils';
+import { writeChunk } from '../../utils/streamUtils';
+
+export const ARCHIVE_FORMAT = 'claude-viewer-sessions';
+export const ARCHIVE_VERSION = 1;
+const MAX_ARCHIVE_SIZE = 512 * 1024 * 1024; // 512 MB
+
+// Transcripts are named by session UUID; anything else could name a directory next to them
+const sessionIdSchema = z
+  .string()
+  .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, 'Invalid session ID');
+
+// Extra fields of history entries are kept as they are
+const historyEntrySchema = z
+  .object({
+    display: z.string(),
+    timestamp: z.number(),
+    project: z.string(),
+    sessionId: sessionIdSchema,
+  })
+  .passthrough();
+
+// One JSON object per line. The header comes first; every other record belongs to a session
+// declared by an earlier session record. Transcripts are kept line by line, other files as base64.
+const archiveRecordSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('header'),
+    format: z.literal(ARCHIVE_FORMAT),
+    version: z.number().int().positive(),
+    exportedAt: z.string(),
+    sessionCount: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('session'),
+    sessionId: sessionIdSchema,
+    project: z.string().min(1),
+    name: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  }),
+  z.object({
+    type: z.literal('history'),
+    sessionId: sessionIdSchema,
+    entry: historyEntrySchema,
+  }),
+  z.object({
+    type: z.literal('line'),
+    sessionId: sessionIdSchema,
+    path: z.string(),
+    line: z.string(),
+  }),
+  z.object({
+    type: z.literal('file'),
+    sessionId: sessionIdSchema,
+    path: z.string(),
+    content: z.string().base64(),
+  }),
+]);
+
+type ArchiveRecord = z.infer<typeof archiveRecordSchema>;
+
+interface ArchivedSession {
+  sessionId: string;
+  project: string;
+  name?: string;
+  tags: string[];
+  history: string[];
+  files: Map<string, string[] | Buffer>; // Path relative to the project directory -> lines or content
+}
+
+/**
+ * Thrown when an uploaded archive is not valid; nothing has been imported
+ */
+export class ArchiveFormatError extends Error {
+  constructor(message: string, lineNumber?: number) {
+    super(lineNumber === undefined ? message : `Line ${lineNumber}: ${message}`);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+/**
+ * Whether a relative path names one of the session's own files: its transcript, the
+ * session directory, or a subagent transcript. Keeps imports inside the project directory.
+ */
+export function isSessionFilePath(filePath: string, sessionId: string): boolean {
+  const segments = filePath.split('/');
+  if (segments.some(segment => !segment || segment === '.' || segment === '..' || /[\\:]/.test(segment))) {
+    return false;
+  }
+
+  if (segments.length === 1) {
+    return segments[0] === `${sessionId}.jsonl` || /^agent-[\w-]+\.jsonl$/.test(segments[0]);
+  }
+  if (segments[0] === 'subagents') {
+    return segments.length === 2 && segments[1] === `${sessionId}.jsonl`;
+  }
+  return segments[0] === sessionId;
+}
+
+/**
+ * Directory the files of a project go to, or null when the project path would put it
+ * anywhere but directly inside the projects directory
+ */
+export function resolveProjectDir(projectsDir: string, project: string): string | null {
+  const slug = generateProjectSlug(project);
+  if (!slug || slug === '.' || slug === '..') return null;
+
+  const root = path.resolve(projectsDir);
+  const projectDir = path.resolve(root, slug);
+  return path.dirname(projectDir) === root ? projectDir : null;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Files below a path, or the path itself when it is a file
+async function listFiles(filePath: string): Promise<string[]> {
+  const stats = await fs.stat(filePath);
+  if (!stats.isDirectory()) return [filePath];
+
+  const files: string[] = [];
+  for (const name of (await fs.readdir(filePath)).sort()) {
+    files.push(...(await listFiles(path.join(filePath, name))));
+  }
+  return files;
+}
+
+function writeRecord(output: Writable, record: ArchiveRecord): Promise<void> {
+  return writeChunk(output, JSON.stringify(record) + '\n');
+}
+
+// Parse and validate the whole archive before anything is written
+async function readArchive(input: Readable, projectsDir: string): Promise<ArchivedSession[]> {
+  const sessions = new Map<string, ArchivedSession>();
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+  let size = 0;
+  let hasHeader = false;
+
+  for await (const line of rl) {
+    lineNumber++;
+    size += line.length + 1;
+    if (size > MAX_ARCHIVE_SIZE) {
+      throw new ArchiveFormatError(`Archive is larger than ${MAX_ARCHIVE_SIZE / 1024 / 1024} MB`);
+    }
+    if (!line.trim()) continue;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new ArchiveFormatError('Invalid JSON', lineNumber);
+    }
+    const parsed = archiveRecordSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ArchiveFormatError(`${issue.path.join('.') || 'record'}: ${issue.message}`, lineNumber);
+    }
+    const record = parsed.data;
+
+    if (record.type === 'header') {
+      if (hasHeader) throw new ArchiveFormatError('Duplicate header', lineNumber);
+      if (record.version > ARCHIVE_VERSION) {
+        throw new ArchiveFormatError(`Unsupported archive version ${record.version}`, lineNumber);
+      }
+      hasHeader = true;
+      continue;
+    }
+    if (!hasHeader) throw new ArchiveFormatError('Archive must start with a header', lineNumber);
+
+    if (record.type === 'session') {
+      if (sessions.has(record.sessionId)) {
+        throw new ArchiveFormatError(`Duplicate session ${record.sessionId}`, lineNumber);
+      }
+      if (!resolveProjectDir(projectsDir, record.project)) {
+        throw new ArchiveFormatError(`Invalid project ${record.project}`, lineNumber);
+      }
+      sessions.set(record.sessionId, {
+        sessionId: record.sessionId,
+        project: record.project,
+        name: record.name,
+        tags: record.tags ?? [],
+        history: [],
+        files: new Map(),
+      });
+      continue;
+    }
+
+    const session = sessions.get(record.sessionId);
+    if (!session) throw new ArchiveFormatError(`Unknown session ${record.sessionId}`, lineNumber);
+
+    if (record.type === 'history') {
+      if (record.entry.sessionId !== record.sessionId) {
+        throw new ArchiveFormatError('History entry belongs to another session', lineNumber);
+      }
+      // The project of the entries decides where the viewer looks for the transcript
+      if (record.entry.project !== session.project) {
+        throw new ArchiveFormatError('History entry belongs to another project', lineNumber);
+      }
+      session.history.push(JSON.stringify(record.entry));
+      continue;
+    }
+
+    if (!isSessionFilePath(record.path, record.sessionId)) {
+      throw new ArchiveFormatError(`Invalid file path ${record.path}`, lineNumber);
+    }
+    const existing = session.files.get(record.path);
+    if (record.type === 'line' && Array.isArray(existing)) {
+      existing.push(record.line);
+    } else if (record.type === 'line' && existing === undefined) {
+      session.files.set(record.path, [record.line]);
+    } else if (record.type === 'file' && existing === undefined) {
+      session.files.set(record.path, Buffer.from(record.content, 'base64'));
+    } else {
+      throw new ArchiveFormatError(`Duplicate file ${record.path}`, lineNumber);
+    }
+  }
+
+  if (!hasHeader) throw new ArchiveFormatError('Archive is empty');
+  return Array.from(sessions.values());
+}
+
+/**
+ * Moves sessions between machines as JSONL archives: the transcript lines, subagent and
+ * tool result files, history.jsonl entries, and the names and tags from favorites.
+ * Imports never overwrite a session or file that already exists.
+ */
+export class ArchiveService {
+  private sessionsService: SessionsService;
+  private favoritesService: FavoritesService;
+
+  constructor(sessionsService: SessionsService, favoritesService: FavoritesService) {
+    this.sessionsService = sessionsService;
+    this.favoritesService = favoritesService;
+  }
+
+  /**
+   * Write an archive of the sessions to `output`, one file at a time
+   */
+  async writeArchive(sessions: Session[], output: Writable): Promise<void> {
+    const [sessionNames, sessionTags, history] = await Promise.all([
+      this.favoritesService.getSessionNames(),
+      this.favoritesService.getSessionTags(),
+      this.sessionsService.getHistoryEntries(sessions.map(session => session.sessionId)),
+    ]);
+
+    await writeRecord(output, {
+      type: 'header',
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      sessionCount: sessions.length,
+    });
+
+    for (const session of sessions) {
+      const { sessionId } = session;
+      await writeRecord(output, {
+        type: 'session',
+        sessionId,
+        project: session.project,
+        ...(sessionNames[sessionId] && { name: sessionNames[sessionId] }),
+        tags: sessionTags[sessionId] ?? [],
+      });
+
+      for (const line of history.get(sessionId) ?? []) {
+        await writeRecord(output, { type: 'history', sessionId, entry: JSON.parse(line) });
+      }
+
+      const projectDir = path.join(this.sessionsService.getProjectsDir(), session.projectSlug);
+      for (const root of await this.sessionsService.getSessionFiles(sessionId)) {
+        for (const file of await listFiles(root)) {
+          const relativePath = path.relative(projectDir, file).split(path.sep).join('/');
+          if (file.endsWith('.jsonl')) {
+            const content = await fs.readFile(file, 'utf-8');
+            for (const line of content.split('\n')) {
+              if (line.trim()) {
+                await writeRecord(output, { type: 'line', sessionId, path: relativePath, line });
+              }
+            }
+          } else {
+            const content = await fs.readFile(file);
+            await writeRecord(output, { type: 'file', sessionId, path: relativePath, content: content.toString('base64') });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Import an archive. The whole archive is validated first and an ArchiveFormatError
+   * thrown if any record is invalid. Sessions that already exist here are skipped.
+   */
+  async importArchive(input: Readable): Promise<SessionImportResult> {
+    const projectsDir = this.sessionsService.getProjectsDir();
+    const archived = await readArchive(input, projectsDir);
+    const existing = await this.sessionsService.loadSessions();
+
+    const result: SessionImportResult = { imported: [], skipped: [] };
+    const historyLines: string[] = [];
+    const names: Record<string, string> = {};
+    const tags: Record<string, string[]> = {};
+
+    for (const session of archived) {
+      const { sessionId } = session;
+      if (existing.has(sessionId)) {
+        result.skipped.push({ sessionId, reason: 'Session already exists' });
+        continue;
+      }
+      if (session.history.length === 0) {
+        result.skipped.push({ sessionId, reason: 'Session has no history entries' });
+        continue;
+      }
+
+      // Checked while reading the archive
+      const projectDir = resolveProjectDir(projectsDir, session.project)!;
+      const targets = Array.from(session.files, ([filePath, content]) => ({
+        filePath: path.join(projectDir, ...filePath.split('/')),
+        content,
+      }));
+      const conflicts = await Promise.all(targets.map(target => pathExists(target.filePath)));
+      if (conflicts.some(Boolean)) {
+        result.skipped.push({ sessionId, reason: 'Session files already exist' });
+        continue;
+      }
+
+      const written: string[] = [];
+      try {
+        for (const { filePath, content } of targets) {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, Array.isArray(content) ? content.map(line => line + '\n').join('') : content, {
+            flag: 'wx',
+          });
+          written.push(filePath);
+        }
+      } catch (error) {
+        console.error(`[ArchiveService] Error importing session ${sessionId}:`, error);
+        await Promise.all(written.map(filePath => fs.rm(filePath, { force: true })));
+        result.skipped.push({ sessionId, reason: 'Failed to write session files' });
+        continue;
+      }
+
+      historyLines.push(...session.history);
+      if (session.name) names[sessionId] = session.name;
+      if (session.tags.length > 0) tags[sessionId] = session.tags;
+      result.imported.push(sessionId);
+    }
+
+    // One append and one favorites save for all imported sessions
+    if (historyLines.length > 0) await this.sessionsService.restoreHistoryEntries(historyLines);
+    if (Object.keys(names).length > 0) await this.favoritesService.setSessionNames(names);
+    if (Object.keys(tags).length > 0) await this.favoritesService.setSessionTagsBulk(tags);
+
+    return result;
+  }
+}
@@ -0,0 +1,156 @@
+import { vol } from 'memfs';
+import { PassThrough, Readable } from 'stream';
+import { ArchiveService, ArchiveFormatError, isSessionFilePath } from '../ArchiveService';
+import type { SessionsService } from '../../sessionsService';
+import type { FavoritesService } from '../../favoritesService';
+import type { Session } from '../../../types';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+
+const projectsDir = '/home/user/.claude/projects';
+const sessionId = '5f0c6b8e-2d4a-4c1e-9b7a-3e8f1d2c4a01';
+const otherSessionId = '7a9d3e21-6b5c-4f08-8e2d-1c4b7f9a0e52';
+const projectDir = `${projectsDir}/-home-user-app`;
+const historyLine = JSON.stringify({ display: 'Fix the build', timestamp: 1700000000000, project: '/home/user/app', sessionId });
+
+const session = {
+  sessionId,
+  project: '/home/user/app',
+  projectSlug: '-home-user-app',
+} as Session;
+
+function createService(existing: Session[] = []) {
+  const sessionsService = {
+    loadSessions: jest.fn(async () => new Map(existing.map(s => [s.sessionId, s]))),
+    getProjectsDir: () => projectsDir,
+    getHistoryEntries: jest.fn(async () => new Map([[sessionId, [historyLine]]])),
+    getSessionFiles: jest.fn(async () => [`${projectDir}/${sessionId}.jsonl`, `${projectDir}/${sessionId}`]),
+    restoreHistoryEntries: jest.fn(async () => {}),
+  };
+  const favoritesService = {
+    getSessionNames: jest.fn(async () => ({ [sessionId]: 'Build fix' })),
+    getSessionTags: jest.fn(async () => ({ [sessionId]: ['ci'] })),
+    setSessionNames: jest.fn(async () => {}),
+    setSessionTagsBulk: jest.fn(async () => {}),
+  };
+  const service = new ArchiveService(
+    sessionsService as unknown as SessionsService,
+    favoritesService as unknown as FavoritesService
+  );
+  return { service, sessionsService, favoritesService };
+}
+
+async function exportArchive(): Promise<string> {
+  const { service } = createService();
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  await service.writeArchive([session], output);
+  output.end();
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+describe('ArchiveService', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      [`${projectDir}/${sessionId}.jsonl`]: '{"uuid":"m1"}\n{"uuid":"m2"}\n',
+      [`${projectDir}/${sessionId}/subagents/agent-a1.jsonl`]: '{"uuid":"a1"}\n',
+      [`${projectDir}/${sessionId}/tool-results/out.txt`]: 'tool output',
+    });
+  });
+
+  it('should import an exported archive into another machine', async () => {
+    const archive = await exportArchive();
+    vol.reset();
+
+    const { service, sessionsService, favoritesService } = createService();
+    const result = await service.importArchive(Readable.from([archive]));
+
+    expect(result).toEqual({ imported: [sessionId], skipped: [] });
+    expect(vol.readFileSync(`${projectDir}/${sessionId}.jsonl`, 'utf-8')).toBe('{"uuid":"m1"}\n{"uuid":"m2"}\n');
+    expect(vol.readFileSync(`${projectDir}/${sessionId}/subagents/agent-a1.jsonl`, 'utf-8')).toBe('{"uuid":"a1"}\n');
+    expect(vol.readFileSync(`${projectDir}/${sessionId}/tool-results/out.txt`, 'utf-8')).toBe('tool output');
+    expect(sessionsService.restoreHistoryEntries).toHaveBeenCalledWith([historyLine]);
+    expect(favoritesService.setSessionNames).toHaveBeenCalledWith({ [sessionId]: 'Build fix' });
+    expect(favoritesService.setSessionTagsBulk).toHaveBeenCalledWith({ [sessionId]: ['ci'] });
+  });
+
+  it('should skip sessions that already exist', async () => {
+    const archive = await exportArchive();
+    vol.writeFileSync(`${projectDir}/${sessionId}.jsonl`, '{"uuid":"local"}\n');
+
+    const { service, sessionsService } = createService([session]);
+    const result = await service.importArchive(Readable.from([archive]));
+
+    expect(result).toEqual({ imported: [], skipped: [{ sessionId, reason: 'Session already exists' }] });
+    expect(vol.readFileSync(`${projectDir}/${sessionId}.jsonl`, 'utf-8')).toBe('{"uuid":"local"}\n');
+    expect(sessionsService.restoreHistoryEntries).not.toHaveBeenCalled();
+  });
+
+  it('should reject archives that write outside the session files', async () => {
+    const archive = [
+      JSON.stringify({ type: 'header', format: 'claude-viewer-sessions', version: 1, exportedAt: '', sessionCount: 1 }),
+      JSON.stringify({ type: 'session', sessionId: otherSessionId, project: '/home/user/app' }),
+      JSON.stringify({ type: 'line', sessionId: otherSessionId, path: '../../settings.json', line: '{}' }),
+    ].join('\n');
+    const { service } = createService();
+
+    await expect(service.importArchive(Readable.from([archive]))).rejects.toThrow(ArchiveFormatError);
+    await expect(service.importArchive(Readable.from([archive]))).rejects.toThrow('Line 3: Invalid file path');
+  });
+
+  it('should reject projects outside the projects directory', async () => {
+    const archive = [
+      JSON.stringify({ type: 'header', format: 'claude-viewer-sessions', version: 1, exportedAt: '', sessionCount: 1 }),
+      JSON.stringify({ type: 'session', sessionId: otherSessionId, project: '..' }),
+      JSON.stringify({ type: 'line', sessionId: otherSessionId, path: `${otherSessionId}.jsonl`, line: '{}' }),
+    ].join('\n');
+    const { service } = createService();
+
+    await expect(service.importArchive(Readable.from([archive]))).rejects.toThrow('Line 2: Invalid project ..');
+    expect(vol.existsSync(`/home/user/.claude/${otherSessionId}.jsonl`)).toBe(false);
+  });
+
+  it('should reject session IDs that are not UUIDs', async () => {
+    const archive = [
+      JSON.stringify({ type: 'header', format: 'claude-viewer-sessions', version: 1, exportedAt: '', sessionCount: 1 }),
+      JSON.stringify({ type: 'session', sessionId: 'commands', project: '/home/user/app' }),
+    ].join('\n');
+    const { service } = createService();
+
+    await expect(service.importArchive(Readable.from([archive]))).rejects.toThrow('Line 2: sessionId: Invalid session ID');
+  });
+
+  it('should reject history entries of another project', async () => {
+    const entry = { display: 'Fix the build', timestamp: 1700000000000, project: '/home/user/other', sessionId: otherSessionId };
+    const archive = [
+      JSON.stringify({ type: 'header', format: 'claude-viewer-sessions', version: 1, exportedAt: '', sessionCount: 1 }),
+      JSON.stringify({ type: 'session', sessionId: otherSessionId, project: '/home/user/app' }),
+      JSON.stringify({ type: 'history', sessionId: otherSessionId, entry }),
+    ].join('\n');
+    const { service } = createService();
+
+    await expect(service.importArchive(Readable.from([archive]))).rejects.toThrow('Line 3: History entry belongs to another project');
+  });
+
+  it('should reject newer archive versions', async () => {
+    const archive = JSON.stringify({ type: 'header', format: 'claude-viewer-sessions', version: 2, exportedAt: '', sessionCount: 0 });
+    const { service } = createService();
+
+    await expect(service.importArchive(Readable.from([archive]))).rejects.toThrow('Unsupported archive version 2');
+  });
+});
+
+describe('isSessionFilePath', () => {
+  it('should only accept the files of the session', () => {
+    expect(isSessionFilePath('session-1.jsonl', 'session-1')).toBe(true);
+    expect(isSessionFilePath('session-1/subagents/agent-a1.jsonl', 'session-1')).toBe(true);
+    expect(isSessionFilePath('subagents/session-1.jsonl', 'session-1')).toBe(true);
+    expect(isSessionFilePath('agent-a1.jsonl', 'session-1')).toBe(true);
+    expect(isSessionFilePath('session-2.jsonl', 'session-1')).toBe(false);
+    expect(isSessionFilePath('session-1/../session-2.jsonl', 'session-1')).toBe(false);
+    expect(isSessionFilePath('/etc/passwd', 'session-1')).toBe(false);
+    expect(isSessionFilePath('C:/session-1.jsonl', 'session-1')).toBe(false);
+  });
+});
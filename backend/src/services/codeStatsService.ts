@@ -1,17 +1,19 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { createReadStream } from 'fs';
-import readline from 'readline';
 import type { SessionsService } from './sessionsService';
 import type { TeamsService } from './TeamsService';
-import type { ConversationMessage, RawInboxMessage } from '../types';
-
-export interface CodeStats {
-  totalLines: number;
-  byLanguage: { [lang: string]: number };
-  byProject: { [project: string]: number };
-  dailyTrend: { date: string; lines: number }[];
-}
+import type {
+  CodeBlockStats,
+  CodeEditStats,
+  CodeStats,
+  ConversationMessage,
+  LineChanges,
+  RawInboxMessage,
+} from '../types';
+import { extractFileChanges } from './sessions/FileChangeExtractor';
+import { readAgentTranscripts, readSessionTranscript } from './sessions/TranscriptReader';
+import { formatZonedDate, getRecentDates } from '../utils/timeZoneUtils';
+import { getLanguageFromPath } from '../utils/languageUtils';
 
 interface CodeBlock {
   language: string;
@@ -20,6 +22,13 @@ interface CodeBlock {
   project?: string;
 }
 
+interface CodeEdit extends LineChanges {
+  filePath: string;
+  language: string;
+  timestamp: number;
+  project: string;
+}
+
 export class CodeStatsService {
   private sessionsService: SessionsService;
   private teamsService: TeamsService;
@@ -39,31 +48,33 @@ export class CodeStatsService {
   }
 
   // Get code statistics
-  async getCodeStats(days: number = 30): Promise<CodeStats> {
+  async getCodeStats(days: number = 30, timeZone?: string): Promise<CodeStats> {
     const codeBlocks: CodeBlock[] = [];
+    const edits: CodeEdit[] = [];
 
     try {
-      // Collect code blocks from sessions
-      await this.collectSessionCodeBlocks(codeBlocks, days);
+      // Collect file edits and code blocks from sessions
+      await this.collectSessionStats(codeBlocks, edits, days);
 
       // Collect code blocks from team messages
       await this.collectTeamCodeBlocks(codeBlocks, days);
 
       // Calculate statistics
-      return this.calculateStats(codeBlocks, days);
+      return {
+        edits: this.calculateEditStats(edits, days, timeZone),
+        codeBlocks: this.calculateStats(codeBlocks, days, timeZone),
+      };
     } catch (error) {
       console.error('[CodeStatsService] Error getting code stats:', error);
       return {
-        totalLines: 0,
-        byLanguage: {},
-        byProject: {},
-        dailyTrend: [],
+        edits: this.calculateEditStats([], days, timeZone),
+        codeBlocks: this.calculateStats([], days, timeZone),
       };
     }
   }
 
-  // Collect code blocks from session conversations
-  private async collectSessionCodeBlocks(codeBlocks: CodeBlock[], days: number): Promise<void> {
+  // Collect file edits and code blocks from session conversations
+  private async collectSessionStats(codeBlocks: CodeBlock[], edits: CodeEdit[], days: number): Promise<void> {
     try {
       const sessions = await this.sessionsService.getSessions();
       const cutoffTime = Date.now() - days * 24 * 60 * 60 * 1000;
@@ -74,63 +85,80 @@ export class CodeStatsService {
           continue;
         }
 
-        const projectSlug = this.generateProjectSlug(session.project);
-        const conversationFile = path.join(this.projectsDir, projectSlug, `${session.sessionId}.jsonl`);
-
-        try {
-          await fs.access(conversationFile);
-        } catch {
+        const entries = await readSessionTranscript(this.projectsDir, session);
+        if (!entries) {
           continue;
         }
 
-        const fileStream = createReadStream(conversationFile, { encoding: 'utf-8' });
-        const rl = readline.createInterface({
-          input: fileStream,
-          crlfDelay: Infinity,
-        });
-
-        for await (const line of rl) {
-          if (!line.trim()) continue;
+        this.collectCodeBlocks(entries, session.project, cutoffTime, codeBlocks);
+        this.collectEdits(entries, session.project, cutoffTime, edits);
 
-          try {
-            const entry: ConversationMessage = JSON.parse(line);
-
-            if (entry.message?.content && entry.timestamp) {
-              const timestamp = new Date(entry.timestamp).getTime();
-
-              // Skip if message is too old
-              if (timestamp < cutoffTime) {
-                continue;
-              }
-
-              let content = '';
-
-              if (typeof entry.message.content === 'string') {
-                content = entry.message.content;
-              } else if (Array.isArray(entry.message.content)) {
-                content = entry.message.content
-                  .filter(c => c.type === 'text' || c.type === 'thinking')
-                  .map(c => c.text || c.thinking || '')
-                  .join(' ');
-              }
-
-              const blocks = this.extractCodeBlocks(content);
-              for (const block of blocks) {
-                codeBlocks.push({
-                  language: block.language,
-                  lines: block.lines,
-                  timestamp,
-                  project: session.project,
-                });
-              }
-            }
-          } catch {
-            continue;
-          }
+        // Subagents edit files on behalf of the session
+        for (const agentEntries of await readAgentTranscripts(this.projectsDir, session)) {
+          this.collectEdits(agentEntries, session.project, cutoffTime, edits);
         }
       }
     } catch (error) {
-      console.error('[CodeStatsService] Error collecting session code blocks:', error);
+      console.error('[CodeStatsService] Error collecting session stats:', error);
+    }
+  }
+
+  // Collect code blocks from the text of conversation entries
+  private collectCodeBlocks(
+    entries: ConversationMessage[],
+    project: string,
+    cutoffTime: number,
+    codeBlocks: CodeBlock[]
+  ): void {
+    for (const entry of entries) {
+      if (!entry.message?.content || !entry.timestamp) continue;
+
+      const timestamp = new Date(entry.timestamp).getTime();
+
+      // Skip if message is too old
+      if (timestamp < cutoffTime) {
+        continue;
+      }
+
+      let content = '';
+
+      if (typeof entry.message.content === 'string') {
+        content = entry.message.content;
+      } else if (Array.isArray(entry.message.content)) {
+        content = entry.message.content
+          .filter(c => c.type === 'text' || c.type === 'thinking')
+          .map(c => c.text || c.thinking || '')
+          .join(' ');
+      }
+
+      const blocks = this.extractCodeBlocks(content);
+      for (const block of blocks) {
+        codeBlocks.push({
+          language: block.language,
+          lines: block.lines,
+          timestamp,
+          project,
+        });
+      }
+    }
+  }
+
+  // Collect the successful file edits of a transcript
+  private collectEdits(entries: ConversationMessage[], project: string, cutoffTime: number, edits: CodeEdit[]): void {
+    for (const file of extractFileChanges(entries)) {
+      const language = getLanguageFromPath(file.filePath);
+
+      for (const edit of file.edits) {
+        if (edit.isError || isNaN(edit.timestamp) || edit.timestamp < cutoffTime) continue;
+        edits.push({
+          filePath: file.filePath,
+          language,
+          timestamp: edit.timestamp,
+          project,
+          linesAdded: edit.linesAdded,
+          linesRemoved: edit.linesRemoved,
+        });
+      }
     }
   }
 
@@ -204,18 +232,59 @@ export class CodeStatsService {
     return blocks;
   }
 
+  // Calculate statistics from file edits
+  private calculateEditStats(edits: CodeEdit[], days: number, timeZone?: string): CodeEditStats {
+    const byLanguage: { [lang: string]: LineChanges } = {};
+    const byProject: { [project: string]: LineChanges } = {};
+    const dailyMap = new Map<string, LineChanges>();
+    const files = new Set<string>();
+    const totals: LineChanges = { linesAdded: 0, linesRemoved: 0 };
+
+    // Initialize all days with zero
+    for (const date of getRecentDates(days, timeZone)) {
+      dailyMap.set(date, { linesAdded: 0, linesRemoved: 0 });
+    }
+
+    const add = (target: LineChanges, edit: CodeEdit) => {
+      target.linesAdded += edit.linesAdded;
+      target.linesRemoved += edit.linesRemoved;
+    };
+
+    for (const edit of edits) {
+      files.add(edit.filePath);
+      add(totals, edit);
+      add(byLanguage[edit.language] ??= { linesAdded: 0, linesRemoved: 0 }, edit);
+      add(byProject[edit.project] ??= { linesAdded: 0, linesRemoved: 0 }, edit);
+
+      // Aggregate by date
+      const day = dailyMap.get(formatZonedDate(edit.timestamp, timeZone));
+      if (day) {
+        add(day, edit);
+      }
+    }
+
+    // Convert daily map to sorted array
+    const dailyTrend = Array.from(dailyMap.entries())
+      .sort(([dateA], [dateB]) => dateA.localeCompare(dateB))
+      .map(([date, changes]) => ({ date, ...changes }));
+
+    return {
+      ...totals,
+      filesChanged: files.size,
+      byLanguage,
+      byProject,
+      dailyTrend,
+    };
+  }
+
   // Calculate statistics from code blocks
-  private calculateStats(codeBlocks: CodeBlock[], days: number): CodeStats {
+  private calculateStats(codeBlocks: CodeBlock[], days: number, timeZone?: string): CodeBlockStats {
     const byLanguage: { [lang: string]: number } = {};
     const byProject: { [project: string]: number } = {};
     const dailyMap = new Map<string, number>();
 
     // Initialize all days with zero
-    const now = new Date();
-    for (let i = 0; i < days; i++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      const dateStr = this.formatDate(date);
+    for (const dateStr of getRecentDates(days, timeZone)) {
       dailyMap.set(dateStr, 0);
     }
 
@@ -233,7 +302,7 @@ export class CodeStatsService {
       }
 
       // Aggregate by date
-      const dateStr = this.formatDate(new Date(block.timestamp));
+      const dateStr = formatZonedDate(block.timestamp, timeZone);
       if (dailyMap.has(dateStr)) {
         dailyMap.set(dateStr, (dailyMap.get(dateStr) || 0) + block.lines);
       }
@@ -251,22 +320,4 @@ export class CodeStatsService {
       dailyTrend,
     };
   }
-
-  // Format date as YYYY-MM-DD
-  private formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  }
-
-  // Generate project slug from path
-  private generateProjectSlug(projectPath: string): string {
-    if (!projectPath || projectPath === 'unknown') return 'unknown';
-
-    return projectPath
-      .replace(/:/g, '-')
-      .replace(/[\\\/]/g, '-')
-      .toLowerCase();
-  }
 }
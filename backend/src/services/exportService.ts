@@ -0,0 +1,358 @@
+import type { Writable } from 'stream';
+import type { Session, ChatMessage, ExportFormat, ExportFilter } from '../types';
+import type { SessionsService } from './sessionsService';
+import type { FavoritesService } from './favoritesService';
+import { ZipWriter } from '../utils/zipWriter';
+import { formatZonedDate, getZonedDateParts, getZonedMidnight } from '../utils/timeZoneUtils';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export interface ExportArchiveOptions {
+  formats: ExportFormat[];
+  includeAttachments: boolean;
+  timeZone?: string;
+}
+
+// One exported session as listed in index.json
+interface ExportIndexEntry {
+  sessionId: string;
+  title: string;
+  project: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  tags: string[];
+  directory: string;
+  files: string[];
+}
+
+interface ExportContext {
+  title: string;
+  tags: string[];
+  attachments: Map<string, string>; // "<uuid>/<index>" -> path relative to the session directory
+  timeZone?: string;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// YYYY-MM-DD HH:mm:ss in the export's time zone
+export function formatTimestamp(timestamp: number, timeZone?: string): string {
+  const { hour, minute, second } = getZonedDateParts(timestamp, timeZone);
+  const time = [hour, minute, second].map(part => String(part).padStart(2, '0')).join(':');
+  return `${formatZonedDate(timestamp, timeZone)} ${time}`;
+}
+
+export function getSessionTitle(session: Session, customName?: string): string {
+  return customName || session.inputs[0]?.display.slice(0, 100) || `Session ${session.sessionId.slice(0, 8)}`;
+}
+
+// Start of a YYYY-MM-DD day in a time zone; the day after when `end` is set
+function parseDayBoundary(date: string, end: boolean, timeZone?: string): number {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) throw new Error(`Invalid date: ${date}`);
+  const [, year, month, day] = match;
+  return getZonedMidnight(Number(year), Number(month), Number(day) + (end ? 1 : 0), timeZone);
+}
+
+/**
+ * Whether a string is a YYYY-MM-DD date accepted as a range bound
+ */
+export function isExportDate(value: string): boolean {
+  return DATE_PATTERN.test(value);
+}
+
+function messageLabel(message: ChatMessage): string {
+  switch (message.type) {
+    case 'tool_use':
+      return `Tool: ${message.toolCall?.name ?? 'unknown'}`;
+    case 'tool_result':
+      return 'Tool result';
+    case 'thinking':
+      return 'Thinking';
+    case 'summary':
+      return 'Summary';
+    case 'compact_boundary':
+      return 'Compaction';
+    default:
+      return message.role === 'user' ? 'User' : 'Assistant';
+  }
+}
+
+// Fenced code block; the fence is longer than any backtick run in the content so it cannot close early
+function codeBlock(content: string, language = ''): string[] {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [fence + language, content, fence];
+}
+
+function renderMarkdownMessage(message: ChatMessage, context: ExportContext): string {
+  const lines = [`### ${messageLabel(message)} · ${formatTimestamp(message.timestamp, context.timeZone)}`, ''];
+
+  if (message.type === 'image' && message.image) {
+    const file = context.attachments.get(`${message.uuid}/${message.image.index}`);
+    lines.push(file ? `![image](${file})` : `_Image (${message.image.mediaType}) not included_`);
+  } else if (message.type === 'tool_use' && message.toolCall) {
+    lines.push(...codeBlock(JSON.stringify(message.toolCall.input, null, 2), 'json'));
+    if (message.toolCall.result) {
+      lines.push('', message.toolCall.result.isError ? '**Result (error):**' : '**Result:**', '');
+      lines.push(...codeBlock(message.toolCall.result.content));
+    }
+  } else if (message.type === 'tool_result' && message.toolResult) {
+    lines.push(...codeBlock(message.toolResult.content));
+  } else {
+    lines.push(message.content);
+  }
+
+  lines.push('', '---', '');
+  return lines.join('\n');
+}
+
+function renderMarkdown(session: Session, context: ExportContext): string {
+  const lines = [
+    `# ${context.title}`,
+    '',
+    `- **Session ID**: ${session.sessionId}`,
+    `- **Project**: ${session.project}`,
+    `- **Created**: ${formatTimestamp(session.createdAt, context.timeZone)}`,
+    `- **Updated**: ${formatTimestamp(session.updatedAt, context.timeZone)}`,
+    `- **Messages**: ${session.messages.length}`,
+  ];
+  if (context.tags.length > 0) {
+    lines.push(`- **Tags**: ${context.tags.join(', ')}`);
+  }
+  lines.push('', '## Conversation', '');
+
+  return lines.join('\n') + '\n' + session.messages.map(message => renderMarkdownMessage(message, context)).join('');
+}
+
+function renderHtmlMessage(message: ChatMessage, context: ExportContext): string {
+  let body: string;
+  if (message.type === 'image' && message.image) {
+    const file = context.attachments.get(`${message.uuid}/${message.image.index}`);
+    body = file
+      ? `<img src="${escapeHtml(file)}" alt="image">`
+      : `<em>Image (${escapeHtml(message.image.mediaType)}) not included</em>`;
+  } else if (message.type === 'tool_use' && message.toolCall) {
+    body = `<pre>${escapeHtml(JSON.stringify(message.toolCall.input, null, 2))}</pre>`;
+    if (message.toolCall.result) {
+      const label = message.toolCall.result.isError ? 'Result (error)' : 'Result';
+      body += `<div class="label">${label}</div><pre>${escapeHtml(message.toolCall.result.content)}</pre>`;
+    }
+  } else if (message.type === 'tool_result' && message.toolResult) {
+    body = `<pre>${escapeHtml(message.toolResult.content)}</pre>`;
+  } else {
+    body = `<div class="text">${escapeHtml(message.content)}</div>`;
+  }
+
+  return `<section class="message ${message.role}">
+<div class="meta"><strong>${escapeHtml(messageLabel(message))}</strong> · ${formatTimestamp(message.timestamp, context.timeZone)}</div>
+${body}
+</section>`;
+}
+
+function renderHtmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 960px; margin: 0 auto; padding: 24px; color: #1f2937; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; font-size: 14px; }
+.message { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; margin: 12px 0; }
+.message.user { background: #eff6ff; }
+.meta, .label { color: #6b7280; font-size: 12px; margin-bottom: 6px; }
+.text { white-space: pre-wrap; }
+pre { white-space: pre-wrap; background: #f3f4f6; padding: 8px; border-radius: 4px; font-size: 12px; }
+img { max-width: 100%; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderHtml(session: Session, context: ExportContext): string {
+  const details = [
+    ['Session ID', session.sessionId],
+    ['Project', session.project],
+    ['Created', formatTimestamp(session.createdAt, context.timeZone)],
+    ['Updated', formatTimestamp(session.updatedAt, context.timeZone)],
+    ['Messages', String(session.messages.length)],
+    ...(context.tags.length > 0 ? [['Tags', context.tags.join(', ')]] : []),
+  ];
+  const table = details.map(([key, value]) => `<tr><th>${key}</th><td>${escapeHtml(value)}</td></tr>`).join('\n');
+  const messages = session.messages.map(message => renderHtmlMessage(message, context)).join('\n');
+
+  return renderHtmlPage(context.title, `<h1>${escapeHtml(context.title)}</h1>\n<table>\n${table}\n</table>\n${messages}`);
+}
+
+function renderIndexMarkdown(entries: ExportIndexEntry[], exportedAt: string): string {
+  const rows = entries.map((entry, i) => {
+    const link = entry.files.find(file => file.endsWith('.md')) ?? entry.files[0];
+    const title = entry.title.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    return `| ${i + 1} | [${title}](${link}) | ${entry.project} | ${entry.createdAt} | ${entry.updatedAt} | ${entry.messageCount} | ${entry.tags.join(', ')} |`;
+  });
+
+  return [
+    '# Session Export',
+    '',
+    `Exported at ${exportedAt}, ${entries.length} sessions.`,
+    '',
+    '| # | Session | Project | Created | Updated | Messages | Tags |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+}
+
+function renderIndexHtml(entries: ExportIndexEntry[], exportedAt: string): string {
+  const rows = entries.map((entry, i) => {
+    const link = entry.files.find(file => file.endsWith('.html')) ?? entry.files[0];
+    return `<tr><td>${i + 1}</td><td><a href="${escapeHtml(link)}">${escapeHtml(entry.title)}</a></td><td>${escapeHtml(entry.project)}</td><td>${entry.createdAt}</td><td>${entry.updatedAt}</td><td>${entry.messageCount}</td><td>${escapeHtml(entry.tags.join(', '))}</td></tr>`;
+  });
+
+  return renderHtmlPage(
+    'Session Export',
+    `<h1>Session Export</h1>
+<p>Exported at ${exportedAt}, ${entries.length} sessions.</p>
+<table>
+<tr><th>#</th><th>Session</th><th>Project</th><th>Created</th><th>Updated</th><th>Messages</th><th>Tags</th></tr>
+${rows.join('\n')}
+</table>`
+  );
+}
+
+/**
+ * Exports sessions with their full conversations as a zip archive: one directory per
+ * session with the requested formats and pasted images, plus index files listing them all.
+ */
+export class ExportService {
+  private sessionsService: SessionsService;
+  private favoritesService: FavoritesService;
+
+  constructor(sessionsService: SessionsService, favoritesService: FavoritesService) {
+    this.sessionsService = sessionsService;
+    this.favoritesService = favoritesService;
+  }
+
+  /**
+   * Sessions matching every given filter, oldest first. A date range selects sessions
+   * active on any day in it.
+   */
+  async selectSessions(filter: ExportFilter, timeZone?: string): Promise<Session[]> {
+    let sessions = await this.sessionsService.getSessions();
+
+    if (filter.sessionIds && filter.sessionIds.length > 0) {
+      const ids = new Set(filter.sessionIds);
+      sessions = sessions.filter(session => ids.has(session.sessionId));
+    }
+    if (filter.project) {
+      sessions = sessions.filter(session => session.project === filter.project);
+    }
+    if (filter.tag) {
+      const tag = filter.tag.trim().toLowerCase();
+      const sessionTags = await this.favoritesService.getSessionTags();
+      sessions = sessions.filter(session => sessionTags[session.sessionId]?.includes(tag));
+    }
+    if (filter.from) {
+      const start = parseDayBoundary(filter.from, false, timeZone);
+      sessions = sessions.filter(session => session.updatedAt >= start);
+    }
+    if (filter.to) {
+      const end = parseDayBoundary(filter.to, true, timeZone);
+      sessions = sessions.filter(session => session.createdAt < end);
+    }
+
+    return sessions.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Write the archive to `output`, loading one conversation at a time
+   */
+  async writeArchive(sessions: Session[], output: Writable, options: ExportArchiveOptions): Promise<void> {
+    const { formats, includeAttachments, timeZone } = options;
+    const zip = new ZipWriter(output);
+    const [sessionNames, sessionTags] = await Promise.all([
+      this.favoritesService.getSessionNames(),
+      this.favoritesService.getSessionTags(),
+    ]);
+    const entries: ExportIndexEntry[] = [];
+
+    for (const summary of sessions) {
+      const session = await this.sessionsService.getSessionWithConversation(summary.sessionId);
+      if (!session) continue;
+
+      const directory = `sessions/${formatZonedDate(session.createdAt, timeZone)}_${session.sessionId}`;
+      const modifiedAt = new Date(session.updatedAt);
+      const context: ExportContext = {
+        title: getSessionTitle(session, sessionNames[session.sessionId]),
+        tags: sessionTags[session.sessionId] ?? [],
+        attachments: new Map(),
+        timeZone,
+      };
+      const files: string[] = [];
+
+      if (includeAttachments) {
+        for (const message of session.messages) {
+          if (message.type !== 'image' || !message.image) continue;
+
+          const attachment = await this.sessionsService.getAttachment(session.sessionId, message.uuid, message.image.index);
+          if (!attachment) continue;
+
+          const extension = IMAGE_EXTENSIONS[attachment.mediaType] ?? 'bin';
+          const file = `attachments/${message.uuid}-${message.image.index}.${extension}`;
+          await zip.addFile(`${directory}/${file}`, attachment.data, modifiedAt);
+          context.attachments.set(`${message.uuid}/${message.image.index}`, file);
+        }
+      }
+
+      for (const format of formats) {
+        const [name, content] =
+          format === 'markdown'
+            ? ['conversation.md', renderMarkdown(session, context)]
+            : format === 'html'
+              ? ['conversation.html', renderHtml(session, context)]
+              : ['conversation.json', JSON.stringify({ ...session, tags: context.tags }, null, 2)];
+        await zip.addFile(`${directory}/${name}`, content, modifiedAt);
+        files.push(`${directory}/${name}`);
+      }
+
+      entries.push({
+        sessionId: session.sessionId,
+        title: context.title,
+        project: session.project,
+        createdAt: formatTimestamp(session.createdAt, timeZone),
+        updatedAt: formatTimestamp(session.updatedAt, timeZone),
+        messageCount: session.messages.length,
+        tags: context.tags,
+        directory,
+        files,
+      });
+    }
+
+    const exportedAt = formatTimestamp(Date.now(), timeZone);
+    await zip.addFile('index.json', JSON.stringify({ exportedAt, timeZone: timeZone ?? null, sessions: entries }, null, 2));
+    await zip.addFile('index.md', renderIndexMarkdown(entries, exportedAt));
+    if (formats.includes('html')) {
+      await zip.addFile('index.html', renderIndexHtml(entries, exportedAt));
+    }
+    await zip.finish();
+  }
+}
@@ -174,6 +174,53 @@ export class FavoritesService {
     await this.saveFavorites(data);
   }
 
+  // Bulk updates - one load and one save for any number of sessions
+  async setSessionNames(names: SessionNamesMap): Promise<void> {
+    const data = await this.loadFavorites();
+    for (const [sessionId, name] of Object.entries(names)) {
+      if (name.trim()) {
+        data.sessionNames[sessionId] = name.trim();
+      } else {
+        delete data.sessionNames[sessionId];
+      }
+    }
+    await this.saveFavorites(data);
+  }
+
+  async addSessionTagsBulk(sessionIds: string[], tags: string[]): Promise<void> {
+    const data = await this.loadFavorites();
+    for (const sessionId of sessionIds) {
+      const existingTags = data.sessionTags[sessionId] || [];
+      data.sessionTags[sessionId] = [...existingTags, ...tags.filter(tag => !existingTags.includes(tag))];
+    }
+    await this.saveFavorites(data);
+  }
+
+  async setSessionTagsBulk(tags: SessionTagsMap): Promise<void> {
+    const data = await this.loadFavorites();
+    for (const [sessionId, sessionTags] of Object.entries(tags)) {
+      if (sessionTags.length > 0) {
+        data.sessionTags[sessionId] = sessionTags;
+      } else {
+        delete data.sessionTags[sessionId];
+      }
+    }
+    await this.saveFavorites(data);
+  }
+
+  async removeSessionTagsBulk(sessionIds: string[], tags: string[]): Promise<void> {
+    const data = await this.loadFavorites();
+    for (const sessionId of sessionIds) {
+      const remainingTags = (data.sessionTags[sessionId] || []).filter(t => !tags.includes(t));
+      if (remainingTags.length > 0) {
+        data.sessionTags[sessionId] = remainingTags;
+      } else {
+        delete data.sessionTags[sessionId];
+      }
+    }
+    await this.saveFavorites(data);
+  }
+
   // Saved Filters
   async getSavedFilters(): Promise<SavedFilter[]> {
     const data = await this.loadFavorites();
@@ -0,0 +1,199 @@
+import { getZonedMidnight } from '../../utils/timeZoneUtils';
+
+export const SEARCH_FIELDS = ['project', 'role', 'tool', 'tag', 'session', 'after', 'before'] as const;
+
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export type SearchRole = 'user' | 'assistant';
+
+export const SEARCH_ROLES: SearchRole[] = ['user', 'assistant'];
+
+// Free text; `exact` is set for "quoted phrases"
+export interface TextClause {
+  type: 'text';
+  value: string;
+  exact: boolean;
+  negated: boolean;
+}
+
+export interface FieldClause {
+  type: 'field';
+  field: 'project' | 'role' | 'tool' | 'tag' | 'session';
+  value: string;
+  negated: boolean;
+}
+
+// `after:` is inclusive from the start of the day, `before:` is exclusive; days start at
+// midnight in the time zone the query is parsed for
+export interface DateClause {
+  type: 'date';
+  field: 'after' | 'before';
+  value: number;
+  raw: string;
+}
+
+export type SearchClause = TextClause | FieldClause | DateClause;
+
+export interface SearchQuery {
+  clauses: SearchClause[];
+}
+
+export interface SearchQueryErrorDetails {
+  position: number;
+  field?: string;
+  value?: string;
+}
+
+export class SearchQueryError extends Error {
+  readonly details: SearchQueryErrorDetails;
+
+  constructor(message: string, details: SearchQueryErrorDetails) {
+    super(message);
+    this.name = 'SearchQueryError';
+    this.details = details;
+  }
+}
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+interface Token {
+  field: string | null;
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+  position: number;
+}
+
+const FIELD_PREFIX_REGEX = /^([a-zA-Z]+):(?!\/\/)/;
+
+/**
+ * Split the raw query into whitespace separated tokens.
+ * Quotes group a phrase, either on their own ("a b") or as a field value (project:"my app").
+ * A `word:` prefix marks a field when it names one of SEARCH_FIELDS and does not start a URL;
+ * anything else (localhost:3000, Error:) stays part of the text.
+ */
+function tokenizeQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let field: string | null = null;
+    const fieldMatch = FIELD_PREFIX_REGEX.exec(input.slice(i));
+    if (fieldMatch && (SEARCH_FIELDS as readonly string[]).includes(fieldMatch[1].toLowerCase())) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let value = '';
+    let quoted = false;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const end = input.indexOf('"', i + 1);
+        if (end === -1) {
+          throw new SearchQueryError('Unterminated quote', { position: i });
+        }
+        value += input.slice(i + 1, end);
+        quoted = true;
+        i = end + 1;
+      } else {
+        value += input[i];
+        i++;
+      }
+    }
+
+    tokens.push({ field, value, quoted, negated, position });
+  }
+
+  return tokens;
+}
+
+function parseDate(raw: string, field: 'after' | 'before', position: number, timeZone?: string): number {
+  const match = DATE_REGEX.exec(raw);
+  const [year, month, day] = match ? [Number(match[1]), Number(match[2]), Number(match[3])] : [0, 0, 0];
+  // Calendar check in UTC, where every day exists
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Reject dates that roll over, e.g. 2026-02-30
+  if (!match || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new SearchQueryError(`Invalid date for "${field}:", expected YYYY-MM-DD`, {
+      position,
+      field,
+      value: raw,
+    });
+  }
+
+  return getZonedMidnight(year, month, day, timeZone);
+}
+
+/**
+ * Parse a search query such as
+ * `project:foo role:assistant tool:Bash after:2026-09-01 tag:bug "exact phrase" -excluded`.
+ * Dates are resolved in `timeZone` (the server's own zone when none is given).
+ * Throws SearchQueryError with the offending position on invalid input.
+ */
+export function parseSearchQuery(input: string, timeZone?: string): SearchQuery {
+  const clauses: SearchClause[] = [];
+
+  for (const token of tokenizeQuery(input)) {
+    const { field, value, position } = token;
+
+    if (!field) {
+      // An empty pair of quotes adds nothing to the query
+      if (value) {
+        clauses.push({ type: 'text', value, exact: token.quoted, negated: token.negated });
+      }
+      continue;
+    }
+
+    if (!value) {
+      throw new SearchQueryError(`Missing value for "${field}:"`, { position, field });
+    }
+
+    const searchField = field as SearchField;
+
+    if (searchField === 'after' || searchField === 'before') {
+      if (token.negated) {
+        throw new SearchQueryError(`"${field}:" cannot be negated`, { position, field });
+      }
+      clauses.push({ type: 'date', field: searchField, value: parseDate(value, searchField, position, timeZone), raw: value });
+      continue;
+    }
+
+    if (searchField === 'role' && !(SEARCH_ROLES as string[]).includes(value.toLowerCase())) {
+      throw new SearchQueryError(`Invalid role "${value}", expected one of: ${SEARCH_ROLES.join(', ')}`, {
+        position,
+        field,
+        value,
+      });
+    }
+
+    clauses.push({
+      type: 'field',
+      field: searchField,
+      value: searchField === 'role' ? value.toLowerCase() : value,
+      negated: token.negated,
+    });
+  }
+
+  return { clauses };
+}
+
+/**
+ * True when the query only contains plain, un-negated words, which the
+ * legacy substring search handles on its own
+ */
+export function isPlainQuery(query: SearchQuery): boolean {
+  return query.clauses.every(clause => clause.type === 'text' && !clause.exact && !clause.negated);
+}
@@ -0,0 +1,658 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createReadStream } from 'fs';
+import type { ConversationMessage } from '../../types';
+import type { FileCacheEntry } from '../sessions/SessionCache';
+import { parseAgentFileName } from '../sessions/PathUtils';
+
+export interface SearchIndexDependencies {
+  projectsDir: string;
+  indexFilePath: string;
+}
+
+export interface SearchIndexStatus {
+  ready: boolean;
+  building: boolean;
+  fileCount: number;
+  docCount: number;
+  tokenCount: number;
+  pendingFiles: number;
+  lastSyncAt: number | null;
+  lastSyncDurationMs: number | null;
+  indexFilePath: string;
+}
+
+export interface IndexMatch {
+  sessionId: string;
+  text: string;
+  timestamp: number;
+}
+
+// A searchable transcript line, located by byte offset so it can be re-read for snippets
+interface IndexedDoc {
+  offset: number;
+  length: number;
+  timestamp: number;
+}
+
+interface IndexedFile extends FileCacheEntry {
+  sessionId: string;
+  docs: IndexedDoc[];
+  tokens: Record<string, number[]>; // token -> indices into docs
+  longTokenDocs: number[]; // docs with a token too long to index
+  toolNames: string[];
+}
+
+interface PersistedIndex {
+  version: number;
+  savedAt: number;
+  files: Record<string, IndexedFile>;
+}
+
+const INDEX_VERSION = 4;
+const MAX_TOKEN_LENGTH = 64;
+const PENDING_DEBOUNCE_MS = 1000;
+const PERSIST_DEBOUNCE_MS = 30 * 1000;
+const NEWLINE = 0x0a;
+
+// CJK scripts have no word separators, so each character is indexed on its own
+const TOKEN_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}_])+/gu;
+
+function splitWords(text: string): string[] {
+  return Array.from(text.toLowerCase().matchAll(TOKEN_REGEX), match => match[0]);
+}
+
+/**
+ * Split text into lowercase index tokens
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text).filter(word => word.length <= MAX_TOKEN_LENGTH);
+}
+
+/**
+ * Extract the text of a transcript entry that search matches against
+ */
+export function extractSearchableText(entry: ConversationMessage): string {
+  if (!entry.message?.content) return '';
+
+  if (typeof entry.message.content === 'string') {
+    return entry.message.content;
+  }
+
+  if (Array.isArray(entry.message.content)) {
+    return entry.message.content
+      .filter(c => c.type === 'text' || c.type === 'thinking')
+      .map(c => c.text || c.thinking || '')
+      .join(' ');
+  }
+
+  return '';
+}
+
+/**
+ * Names of the tools called by a transcript entry
+ */
+export function extractToolNames(entry: ConversationMessage): string[] {
+  if (!Array.isArray(entry.message?.content)) return [];
+
+  return entry.message.content
+    .filter(c => c.type === 'tool_use' && c.name)
+    .map(c => c.name as string);
+}
+
+/**
+ * Persistent inverted index over session transcripts.
+ *
+ * Files are re-tokenized only when their mtime/size changes (the same dirty
+ * check SessionCache uses). FileWatcher events mark single files dirty so the
+ * index stays current without rescanning the projects directory.
+ *
+ * The first query term may start inside a word ("uild" in "build"), later terms
+ * start at a word boundary, so every line containing the query is a candidate.
+ * Candidates are verified against the original line, so results agree with a
+ * plain substring search of the same text. Lines with a token too long to index
+ * (a hash, a base64 run) are candidates for every term, so a term inside such a
+ * token is still found. Terms found in no indexed token are left to the caller's scan.
+ *
+ * Changes from FileWatcher events are saved after a quiet period rather than on
+ * every change; an unsaved index is only a cache and is brought up to date by the
+ * mtime/size check on the next start.
+ */
+export class SearchIndex {
+  private projectsDir: string;
+  private indexFilePath: string;
+  private files: Map<string, IndexedFile> = new Map();
+  private tokenFiles: Map<string, Set<string>> = new Map();
+  private longTokenFiles: Set<string> = new Set();
+  private pending: Set<string> = new Set();
+  private pendingTimer: NodeJS.Timeout | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private loaded = false;
+  private building = false;
+  private syncPromise: Promise<void> | null = null;
+  private lastSyncAt: number | null = null;
+  private lastSyncDurationMs: number | null = null;
+
+  constructor(deps: SearchIndexDependencies) {
+    this.projectsDir = deps.projectsDir;
+    this.indexFilePath = deps.indexFilePath;
+  }
+
+  /**
+   * Load the persisted index and bring it up to date with the projects directory
+   */
+  async ensureReady(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+    if (this.lastSyncAt === null) {
+      await this.sync();
+    }
+    if (this.pending.size > 0) {
+      await this.processPending();
+    }
+  }
+
+  /**
+   * Mark a session file as changed (called from FileWatcher events)
+   */
+  markDirty(projectId: string, sessionId: string): void {
+    this.pending.add(`${projectId}/${sessionId}.jsonl`);
+
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+    }
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      if (this.loaded) {
+        this.processPending().catch(error => {
+          console.error('[SearchIndex] Error processing changed files:', error);
+        });
+      }
+    }, PENDING_DEBOUNCE_MS);
+    this.pendingTimer.unref?.();
+  }
+
+  /**
+   * Scan the projects directory and re-index new or modified files
+   */
+  async sync(): Promise<void> {
+    if (this.syncPromise) {
+      return this.syncPromise;
+    }
+
+    this.syncPromise = this.runSync().finally(() => {
+      this.syncPromise = null;
+    });
+    return this.syncPromise;
+  }
+
+  /**
+   * Drop the index and rebuild it from scratch
+   */
+  async rebuild(): Promise<void> {
+    if (this.syncPromise) {
+      await this.syncPromise;
+    }
+    this.files.clear();
+    this.tokenFiles.clear();
+    this.longTokenFiles.clear();
+    this.pending.clear();
+    this.loaded = true;
+    await this.sync();
+    await this.persist();
+  }
+
+  /**
+   * Save changes that are waiting for the persist debounce (call before shutting down)
+   */
+  async flush(): Promise<void> {
+    if (!this.persistTimer) return;
+
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    await this.persist();
+  }
+
+  /**
+   * Find the latest matching line per session.
+   * Returns null when the index cannot answer the query: it has no indexable tokens,
+   * or a term is found in no indexed token (caller should fall back to scanning).
+   */
+  async search(query: string): Promise<Map<string, IndexMatch> | null> {
+    const lowerQuery = query.toLowerCase().trim();
+    const terms = Array.from(new Set(tokenize(lowerQuery)));
+    if (terms.length === 0) {
+      return null;
+    }
+
+    await this.ensureReady();
+
+    const results = new Map<string, IndexMatch>();
+
+    // Expand each term to the vocabulary tokens it can match: the first term may
+    // be the end of a word, the others start one
+    const expandedTerms: string[][] = [];
+    for (const [termIndex, term] of terms.entries()) {
+      const expanded: string[] = [];
+      for (const token of this.tokenFiles.keys()) {
+        if (termIndex === 0 ? token.includes(term) : token.startsWith(term)) {
+          expanded.push(token);
+        }
+      }
+      if (expanded.length === 0) {
+        return null;
+      }
+      expandedTerms.push(expanded);
+    }
+
+    // Files containing every term
+    let candidateFiles: Set<string> | null = null;
+    for (const expanded of expandedTerms) {
+      const filesForTerm = new Set<string>();
+      for (const token of expanded) {
+        for (const fileKey of this.tokenFiles.get(token) || []) {
+          if (!candidateFiles || candidateFiles.has(fileKey)) {
+            filesForTerm.add(fileKey);
+          }
+        }
+      }
+      for (const fileKey of this.longTokenFiles) {
+        if (!candidateFiles || candidateFiles.has(fileKey)) {
+          filesForTerm.add(fileKey);
+        }
+      }
+      candidateFiles = filesForTerm;
+      if (candidateFiles.size === 0) {
+        return results;
+      }
+    }
+
+    for (const fileKey of candidateFiles || []) {
+      const file = this.files.get(fileKey);
+      if (!file) continue;
+
+      const docIndices = this.findDocsInFile(file, expandedTerms);
+      if (docIndices.length === 0) continue;
+
+      const match = await this.verifyLatestMatch(fileKey, file, docIndices, lowerQuery);
+      if (match) {
+        const existing = results.get(file.sessionId);
+        if (!existing || existing.timestamp < match.timestamp) {
+          results.set(file.sessionId, match);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Tool names used in each session (from tool_use blocks)
+   */
+  async getToolUsage(): Promise<Map<string, string[]>> {
+    await this.ensureReady();
+
+    const usage = new Map<string, string[]>();
+    for (const file of this.files.values()) {
+      const existing = usage.get(file.sessionId);
+      usage.set(
+        file.sessionId,
+        existing ? Array.from(new Set([...existing, ...file.toolNames])) : file.toolNames
+      );
+    }
+    return usage;
+  }
+
+  /**
+   * Get index status
+   */
+  getStatus(): SearchIndexStatus {
+    let docCount = 0;
+    for (const file of this.files.values()) {
+      docCount += file.docs.length;
+    }
+
+    return {
+      ready: this.loaded && this.lastSyncAt !== null,
+      building: this.building,
+      fileCount: this.files.size,
+      docCount,
+      tokenCount: this.tokenFiles.size,
+      pendingFiles: this.pending.size,
+      lastSyncAt: this.lastSyncAt,
+      lastSyncDurationMs: this.lastSyncDurationMs,
+      indexFilePath: this.indexFilePath,
+    };
+  }
+
+  private async runSync(): Promise<void> {
+    const startTime = Date.now();
+    this.building = true;
+
+    try {
+      let changed = false;
+      const currentFiles = new Set<string>();
+
+      let projectDirs: string[] = [];
+      try {
+        const entries = await fs.readdir(this.projectsDir, { withFileTypes: true });
+        projectDirs = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+      } catch {
+        console.log('[SearchIndex] Projects directory does not exist');
+      }
+
+      for (const projectSlug of projectDirs) {
+        const files = await fs.readdir(path.join(this.projectsDir, projectSlug));
+        const jsonlFiles = files.filter(
+          f => f.endsWith('.jsonl') && !f.includes('subagents') && !parseAgentFileName(f)
+        );
+
+        for (const file of jsonlFiles) {
+          const fileKey = `${projectSlug}/${file}`;
+          currentFiles.add(fileKey);
+          if (await this.refreshFile(fileKey)) {
+            changed = true;
+          }
+        }
+      }
+
+      // Remove files that no longer exist
+      for (const fileKey of Array.from(this.files.keys())) {
+        if (!currentFiles.has(fileKey)) {
+          this.removeFile(fileKey);
+          changed = true;
+        }
+      }
+
+      this.pending.clear();
+      this.lastSyncAt = Date.now();
+      this.lastSyncDurationMs = this.lastSyncAt - startTime;
+
+      if (changed) {
+        await this.persist();
+      }
+
+      console.log(`[SearchIndex] Synced ${this.files.size} files in ${this.lastSyncDurationMs}ms`);
+    } finally {
+      this.building = false;
+    }
+  }
+
+  private async processPending(): Promise<void> {
+    const fileKeys = Array.from(this.pending);
+    this.pending.clear();
+
+    let changed = false;
+    for (const fileKey of fileKeys) {
+      if (await this.refreshFile(fileKey)) {
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.schedulePersist();
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch(error => {
+        console.error('[SearchIndex] Error saving index:', error);
+      });
+    }, PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  /**
+   * Re-index a file if its mtime/size changed. Returns true if the index changed.
+   */
+  private async refreshFile(fileKey: string): Promise<boolean> {
+    const filePath = path.join(this.projectsDir, ...fileKey.split('/'));
+
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch {
+      if (this.files.has(fileKey)) {
+        this.removeFile(fileKey);
+        return true;
+      }
+      return false;
+    }
+
+    const mtime = Math.floor(stats.mtimeMs);
+    const existing = this.files.get(fileKey);
+    if (existing && existing.mtime === mtime && existing.size === stats.size) {
+      return false;
+    }
+
+    const indexed = await this.indexFile(filePath, path.basename(fileKey, '.jsonl'));
+    if (!indexed) {
+      return false;
+    }
+
+    this.removeFile(fileKey);
+    this.addFile(fileKey, { ...indexed, mtime, size: stats.size });
+    return true;
+  }
+
+  private async indexFile(
+    filePath: string,
+    sessionId: string
+  ): Promise<Omit<IndexedFile, 'mtime' | 'size'> | null> {
+    const docs: IndexedDoc[] = [];
+    const tokens: Record<string, number[]> = {};
+    const longTokenDocs: number[] = [];
+    const toolNames = new Set<string>();
+
+    // Split on raw bytes so offsets stay exact for CRLF lines too; a trailing \r is JSON whitespace
+    const addLine = (line: Buffer, offset: number): void => {
+      const text = line.toString('utf-8');
+      if (!text.trim()) return;
+
+      try {
+        const entry: ConversationMessage = JSON.parse(text);
+        for (const name of extractToolNames(entry)) {
+          toolNames.add(name);
+        }
+
+        const searchableText = extractSearchableText(entry);
+        if (!searchableText) return;
+
+        const docIndex = docs.length;
+        docs.push({
+          offset,
+          length: line.length,
+          timestamp: new Date(entry.timestamp).getTime(),
+        });
+
+        let hasLongToken = false;
+        for (const word of new Set(splitWords(searchableText))) {
+          if (word.length > MAX_TOKEN_LENGTH) {
+            hasLongToken = true;
+          } else {
+            (tokens[word] ||= []).push(docIndex);
+          }
+        }
+        if (hasLongToken) {
+          longTokenDocs.push(docIndex);
+        }
+      } catch {
+        // Skip invalid JSON lines
+      }
+    };
+
+    try {
+      let lineStart = 0;
+      let pending: Buffer = Buffer.alloc(0);
+      for await (const data of createReadStream(filePath)) {
+        const chunk = Buffer.concat([pending, data as Buffer]);
+        let start = 0;
+        let newline = chunk.indexOf(NEWLINE, start);
+        while (newline !== -1) {
+          addLine(chunk.subarray(start, newline), lineStart + start);
+          start = newline + 1;
+          newline = chunk.indexOf(NEWLINE, start);
+        }
+        lineStart += start;
+        pending = Buffer.from(chunk.subarray(start));
+      }
+      if (pending.length > 0) {
+        addLine(pending, lineStart);
+      }
+
+      return { sessionId, docs, tokens, longTokenDocs, toolNames: Array.from(toolNames) };
+    } catch (error) {
+      console.error(`[SearchIndex] Error indexing ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  private addFile(fileKey: string, file: IndexedFile): void {
+    this.files.set(fileKey, file);
+    for (const token of Object.keys(file.tokens)) {
+      let fileKeys = this.tokenFiles.get(token);
+      if (!fileKeys) {
+        fileKeys = new Set();
+        this.tokenFiles.set(token, fileKeys);
+      }
+      fileKeys.add(fileKey);
+    }
+    if (file.longTokenDocs.length > 0) {
+      this.longTokenFiles.add(fileKey);
+    }
+  }
+
+  private removeFile(fileKey: string): void {
+    const file = this.files.get(fileKey);
+    if (!file) return;
+
+    for (const token of Object.keys(file.tokens)) {
+      const fileKeys = this.tokenFiles.get(token);
+      if (!fileKeys) continue;
+      fileKeys.delete(fileKey);
+      if (fileKeys.size === 0) {
+        this.tokenFiles.delete(token);
+      }
+    }
+    this.longTokenFiles.delete(fileKey);
+    this.files.delete(fileKey);
+  }
+
+  /**
+   * Doc indices (newest first) that may contain every term
+   */
+  private findDocsInFile(file: IndexedFile, expandedTerms: string[][]): number[] {
+    let docSet: Set<number> | null = null;
+
+    for (const expanded of expandedTerms) {
+      const docsForTerm = new Set<number>();
+      for (const token of expanded) {
+        for (const docIndex of file.tokens[token] || []) {
+          if (!docSet || docSet.has(docIndex)) {
+            docsForTerm.add(docIndex);
+          }
+        }
+      }
+      for (const docIndex of file.longTokenDocs) {
+        if (!docSet || docSet.has(docIndex)) {
+          docsForTerm.add(docIndex);
+        }
+      }
+      docSet = docsForTerm;
+      if (docSet.size === 0) {
+        return [];
+      }
+    }
+
+    return Array.from(docSet || []).sort((a, b) => b - a);
+  }
+
+  /**
+   * Re-read candidate lines and return the latest one that really contains the query
+   */
+  private async verifyLatestMatch(
+    fileKey: string,
+    file: IndexedFile,
+    docIndices: number[],
+    lowerQuery: string
+  ): Promise<IndexMatch | null> {
+    const filePath = path.join(this.projectsDir, ...fileKey.split('/'));
+
+    let handle;
+    try {
+      handle = await fs.open(filePath, 'r');
+    } catch {
+      return null;
+    }
+
+    try {
+      for (const docIndex of docIndices) {
+        const doc = file.docs[docIndex];
+        const buffer = Buffer.alloc(doc.length);
+        const { bytesRead } = await handle.read(buffer, 0, doc.length, doc.offset);
+
+        try {
+          const entry: ConversationMessage = JSON.parse(buffer.toString('utf-8', 0, bytesRead));
+          const text = extractSearchableText(entry);
+          if (text.toLowerCase().includes(lowerQuery)) {
+            return { sessionId: file.sessionId, text, timestamp: doc.timestamp };
+          }
+        } catch {
+          // File changed since it was indexed; the watcher will re-index it
+          continue;
+        }
+      }
+      return null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.indexFilePath, 'utf-8');
+      const parsed = JSON.parse(data) as PersistedIndex;
+
+      if (parsed.version === INDEX_VERSION && parsed.files) {
+        for (const [fileKey, file] of Object.entries(parsed.files)) {
+          this.addFile(fileKey, file);
+        }
+        console.log(`[SearchIndex] Loaded ${this.files.size} indexed files`);
+      } else {
+        console.log('[SearchIndex] Index version changed, rebuilding');
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[SearchIndex] Failed to load index, rebuilding:', error);
+      }
+    }
+    this.loaded = true;
+  }
+
+  private async persist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    const data: PersistedIndex = {
+      version: INDEX_VERSION,
+      savedAt: Date.now(),
+      files: Object.fromEntries(this.files),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.indexFilePath), { recursive: true });
+      const tempFilePath = `${this.indexFilePath}.tmp`;
+      await fs.writeFile(tempFilePath, JSON.stringify(data), 'utf-8');
+      await fs.rename(tempFilePath, this.indexFilePath);
+    } catch (error) {
+      console.error('[SearchIndex] Failed to save index:', error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { parseSearchQuery, isPlainQuery, SearchQueryError } from '../QueryParser';
+
+function parseError(input: string): SearchQueryError {
+  try {
+    parseSearchQuery(input);
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" to fail`);
+}
+
+describe('parseSearchQuery', () => {
+  it('should parse fields, phrases and negated terms', () => {
+    const query = parseSearchQuery('project:foo role:Assistant tool:Bash tag:bug "exact phrase" -excluded');
+
+    expect(query.clauses).toEqual([
+      { type: 'field', field: 'project', value: 'foo', negated: false },
+      { type: 'field', field: 'role', value: 'assistant', negated: false },
+      { type: 'field', field: 'tool', value: 'Bash', negated: false },
+      { type: 'field', field: 'tag', value: 'bug', negated: false },
+      { type: 'text', value: 'exact phrase', exact: true, negated: false },
+      { type: 'text', value: 'excluded', exact: false, negated: true },
+    ]);
+  });
+
+  it('should parse dates as midnight in the server time zone by default', () => {
+    const query = parseSearchQuery('after:2026-09-01 before:2026-10-01');
+
+    expect(query.clauses).toEqual([
+      { type: 'date', field: 'after', value: new Date(2026, 8, 1).getTime(), raw: '2026-09-01' },
+      { type: 'date', field: 'before', value: new Date(2026, 9, 1).getTime(), raw: '2026-10-01' },
+    ]);
+  });
+
+  it('should parse dates as midnight in the given time zone', () => {
+    const query = parseSearchQuery('after:2026-09-01 before:2026-10-01', 'Asia/Tokyo');
+
+    // Midnight at UTC+9 is 15:00 UTC of the previous day
+    expect(query.clauses).toEqual([
+      { type: 'date', field: 'after', value: Date.UTC(2026, 7, 31, 15), raw: '2026-09-01' },
+      { type: 'date', field: 'before', value: Date.UTC(2026, 8, 30, 15), raw: '2026-10-01' },
+    ]);
+  });
+
+  it('should accept quoted and negated field values', () => {
+    const query = parseSearchQuery('project:"my app" -tag:wip');
+
+    expect(query.clauses).toEqual([
+      { type: 'field', field: 'project', value: 'my app', negated: false },
+      { type: 'field', field: 'tag', value: 'wip', negated: true },
+    ]);
+  });
+
+  it('should keep URLs as free text', () => {
+    expect(parseSearchQuery('https://example.com').clauses).toEqual([
+      { type: 'text', value: 'https://example.com', exact: false, negated: false },
+    ]);
+  });
+
+  it('should keep unknown prefixes as free text', () => {
+    expect(parseSearchQuery('localhost:3000 Error: ENOENT -colour:red').clauses).toEqual([
+      { type: 'text', value: 'localhost:3000', exact: false, negated: false },
+      { type: 'text', value: 'Error:', exact: false, negated: false },
+      { type: 'text', value: 'ENOENT', exact: false, negated: false },
+      { type: 'text', value: 'colour:red', exact: false, negated: true },
+    ]);
+  });
+
+  it('should reject invalid dates and roles', () => {
+    expect(parseError('after:2026-02-30').details).toEqual({ position: 0, field: 'after', value: '2026-02-30' });
+    expect(parseError('after:yesterday').message).toMatch(/expected YYYY-MM-DD/);
+    expect(parseError('role:system').details).toMatchObject({ field: 'role', value: 'system' });
+  });
+
+  it('should reject missing values and unterminated quotes', () => {
+    expect(parseError('tag:').message).toBe('Missing value for "tag:"');
+    expect(parseError('say "hello').details).toEqual({ position: 4 });
+  });
+});
+
+describe('isPlainQuery', () => {
+  it('should only treat bare words as plain', () => {
+    expect(isPlainQuery(parseSearchQuery('refactor parser'))).toBe(true);
+    expect(isPlainQuery(parseSearchQuery('"refactor parser"'))).toBe(false);
+    expect(isPlainQuery(parseSearchQuery('refactor -parser'))).toBe(false);
+    expect(isPlainQuery(parseSearchQuery('role:user refactor'))).toBe(false);
+  });
+});
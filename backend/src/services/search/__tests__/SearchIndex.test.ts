@@ -0,0 +1,229 @@
+import { vol, fs as memfs } from 'memfs';
+import { createReadStream } from 'fs';
+import { SearchIndex, tokenize } from '../SearchIndex';
+import type { ConversationMessage } from '../../../types';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+jest.mock('fs', () => {
+  const { fs } = require('memfs');
+  return { ...fs, createReadStream: jest.fn((...args: unknown[]) => fs.createReadStream(...args)) };
+});
+
+const projectsDir = '/home/user/.claude/projects';
+const indexFilePath = '/home/user/.claude/favorites/search-index.json';
+
+function line(uuid: string, timestamp: string, text: string, type: 'user' | 'assistant' = 'user'): string {
+  const entry: ConversationMessage = {
+    uuid,
+    parentUuid: null,
+    timestamp,
+    type,
+    message: { role: type, content: [{ type: 'text', text }] },
+  };
+  return JSON.stringify(entry);
+}
+
+function writeSession(projectSlug: string, sessionId: string, lines: string[]): void {
+  vol.mkdirSync(`${projectsDir}/${projectSlug}`, { recursive: true });
+  vol.writeFileSync(`${projectsDir}/${projectSlug}/${sessionId}.jsonl`, lines.join('\n') + '\n');
+}
+
+describe('tokenize', () => {
+  it('should lowercase and split on non-word characters', () => {
+    expect(tokenize('Fix the FileWatcher-debounce bug!')).toEqual(['fix', 'the', 'filewatcher', 'debounce', 'bug']);
+  });
+
+  it('should index CJK characters individually', () => {
+    expect(tokenize('修复bug')).toEqual(['修', '复', 'bug']);
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    vol.reset();
+    (createReadStream as jest.Mock).mockClear();
+    index = new SearchIndex({ projectsDir, indexFilePath });
+
+    writeSession('-home-user-app', 'session-1', [
+      line('m1', '2024-01-01T00:00:00.000Z', 'Please refactor the parser'),
+      line('m2', '2024-01-01T00:01:00.000Z', 'I refactored the parser module', 'assistant'),
+      line('m3', '2024-01-01T00:02:00.000Z', 'Thanks'),
+    ]);
+    writeSession('-home-user-web', 'session-2', [
+      line('m1', '2024-02-01T00:00:00.000Z', 'Add dark mode to the settings page'),
+    ]);
+  });
+
+  it('should return the latest matching line per session', async () => {
+    const results = await index.search('parser');
+
+    expect(results?.size).toBe(1);
+    expect(results?.get('session-1')).toEqual({
+      sessionId: 'session-1',
+      text: 'I refactored the parser module',
+      timestamp: new Date('2024-01-01T00:01:00.000Z').getTime(),
+    });
+  });
+
+  it('should match token prefixes', async () => {
+    const results = await index.search('refact');
+
+    expect(results?.get('session-1')?.text).toBe('I refactored the parser module');
+  });
+
+  it('should match substrings that start inside a word', async () => {
+    const results = await index.search('actored the pars');
+
+    expect(results?.get('session-1')?.text).toBe('I refactored the parser module');
+  });
+
+  it('should leave terms found in no indexed token to the caller', async () => {
+    expect(await index.search('kubernetes')).toBeNull();
+  });
+
+  it('should verify every candidate line', async () => {
+    const lines = [line('m0', '2024-03-01T00:00:00.000Z', 'The build failed')];
+    for (let i = 1; i <= 30; i++) {
+      lines.push(line(`m${i}`, `2024-03-01T00:${String(i).padStart(2, '0')}:00.000Z`, 'failed build'));
+    }
+    writeSession('-home-user-ci', 'session-3', lines);
+
+    const results = await index.search('build failed');
+
+    expect(results?.get('session-3')?.text).toBe('The build failed');
+  });
+
+  it('should locate lines of CRLF transcripts', async () => {
+    vol.writeFileSync(
+      `${projectsDir}/-home-user-app/session-3.jsonl`,
+      [
+        line('m1', '2024-03-01T00:00:00.000Z', 'Übersicht der Windows Pfade'),
+        line('m2', '2024-03-01T00:01:00.000Z', 'Fix the windows path handling'),
+      ].join('\r\n') + '\r\n'
+    );
+
+    const results = await index.search('windows path');
+
+    expect(results?.get('session-3')?.text).toBe('Fix the windows path handling');
+  });
+
+  it('should find terms inside tokens too long to index', async () => {
+    const hash = 'a'.repeat(40) + 'deadbeef' + 'b'.repeat(40);
+    writeSession('-home-user-ci', 'session-3', [line('m1', '2024-03-01T00:00:00.000Z', `Pushed ${hash}`)]);
+    writeSession('-home-user-ci', 'session-4', [line('m1', '2024-03-01T00:00:00.000Z', 'Checked deadbeef')]);
+
+    const results = await index.search('deadbeef');
+
+    expect(results?.get('session-3')?.text).toBe(`Pushed ${hash}`);
+    expect(results?.get('session-4')?.text).toBe('Checked deadbeef');
+  });
+
+  it('should verify candidates against the exact query text', async () => {
+    const results = await index.search('parser the');
+
+    expect(results?.size).toBe(0);
+  });
+
+  it('should return null for queries without indexable tokens', async () => {
+    expect(await index.search('!!!')).toBeNull();
+  });
+
+  it('should persist the index and skip unchanged files on reload', async () => {
+    await index.ensureReady();
+    expect(vol.existsSync(indexFilePath)).toBe(true);
+    expect(createReadStream).toHaveBeenCalledTimes(2);
+
+    (createReadStream as jest.Mock).mockClear();
+    const reloaded = new SearchIndex({ projectsDir, indexFilePath });
+    const results = await reloaded.search('dark mode');
+
+    expect(createReadStream).not.toHaveBeenCalled();
+    expect(results?.get('session-2')?.text).toBe('Add dark mode to the settings page');
+    expect(reloaded.getStatus()).toMatchObject({ ready: true, fileCount: 2, docCount: 4 });
+  });
+
+  it('should re-index only files marked dirty', async () => {
+    await index.ensureReady();
+    (createReadStream as jest.Mock).mockClear();
+
+    writeSession('-home-user-web', 'session-2', [
+      line('m1', '2024-02-01T00:00:00.000Z', 'Add dark mode to the settings page'),
+      line('m2', '2024-02-01T00:05:00.000Z', 'Also add a high contrast theme'),
+    ]);
+    index.markDirty('-home-user-web', 'session-2');
+
+    const results = await index.search('contrast');
+
+    expect(createReadStream).toHaveBeenCalledTimes(1);
+    expect(results?.get('session-2')?.text).toBe('Also add a high contrast theme');
+  });
+
+  it('should drop deleted files', async () => {
+    await index.ensureReady();
+
+    vol.unlinkSync(`${projectsDir}/-home-user-app/session-1.jsonl`);
+    index.markDirty('-home-user-app', 'session-1');
+
+    const results = await index.search('the');
+
+    expect(results?.has('session-1')).toBe(false);
+    expect(index.getStatus().fileCount).toBe(1);
+  });
+
+  it('should save changed files after a quiet period', async () => {
+    await index.ensureReady();
+    const saved = memfs.readFileSync(indexFilePath, 'utf-8');
+
+    writeSession('-home-user-web', 'session-2', [
+      line('m1', '2024-02-01T00:00:00.000Z', 'Add a high contrast theme'),
+    ]);
+    index.markDirty('-home-user-web', 'session-2');
+    await index.search('contrast');
+
+    expect(memfs.readFileSync(indexFilePath, 'utf-8')).toBe(saved);
+
+    await index.flush();
+
+    const persisted = JSON.parse(memfs.readFileSync(indexFilePath, 'utf-8') as string);
+    expect(Object.keys(persisted.files['-home-user-web/session-2.jsonl'].tokens)).toContain('contrast');
+  });
+
+  it('should collect tool names per session', async () => {
+    const toolUse: ConversationMessage = {
+      uuid: 'm4',
+      parentUuid: 'm3',
+      timestamp: '2024-01-01T00:03:00.000Z',
+      type: 'assistant',
+      message: {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'npm test' } }],
+      },
+    };
+    writeSession('-home-user-app', 'session-1', [
+      line('m1', '2024-01-01T00:00:00.000Z', 'Run the tests'),
+      JSON.stringify(toolUse),
+    ]);
+
+    const usage = await index.getToolUsage();
+
+    expect(usage.get('session-1')).toEqual(['Bash']);
+    expect(usage.get('session-2')).toEqual([]);
+  });
+
+  it('should rebuild from scratch', async () => {
+    await index.ensureReady();
+    (createReadStream as jest.Mock).mockClear();
+
+    await index.rebuild();
+
+    expect(createReadStream).toHaveBeenCalledTimes(2);
+    expect(index.getStatus()).toMatchObject({ ready: true, building: false, fileCount: 2 });
+    const persisted = JSON.parse(memfs.readFileSync(indexFilePath, 'utf-8') as string);
+    expect(Object.keys(persisted.files).sort()).toEqual([
+      '-home-user-app/session-1.jsonl',
+      '-home-user-web/session-2.jsonl',
+    ]);
+  });
+});
@@ -4,7 +4,19 @@ import { createReadStream } from 'fs';
 import readline from 'readline';
 import type { SessionsService } from './sessionsService';
 import type { TeamsService } from './TeamsService';
-import type { ConversationMessage, RawInboxMessage } from '../types';
+import type { FavoritesService, SessionTagsMap } from './favoritesService';
+import type { SearchIndex, IndexMatch } from './search/SearchIndex';
+import { extractSearchableText, extractToolNames } from './search/SearchIndex';
+import {
+  parseSearchQuery,
+  isPlainQuery,
+  SEARCH_FIELDS,
+  SEARCH_ROLES,
+  type SearchQuery,
+  type SearchField,
+  type SearchRole,
+} from './search/QueryParser';
+import type { ConversationMessage, RawInboxMessage, Session, SessionInput } from '../types';
 
 export interface SearchResult {
   type: 'session' | 'team_message';
@@ -19,6 +31,29 @@ export interface SearchOptions {
   query: string;
   type?: 'session' | 'team_message' | 'all';
   limit?: number;
+  timeZone?: string; // Zone after:/before: dates are resolved in, the server's by default
+}
+
+// Field names and known values for query autocomplete
+export interface SearchSuggestions {
+  fields: readonly SearchField[];
+  roles: SearchRole[];
+  projects: string[];
+  tags: string[];
+  tools: string[];
+}
+
+// A parsed query split into the parts evaluated per session and per message
+interface CompiledQuery {
+  include: string[];
+  exclude: string[];
+  roles: Set<string>;
+  projects: { value: string; negated: boolean }[];
+  tags: { value: string; negated: boolean }[];
+  tools: { value: string; negated: boolean }[];
+  sessionIds: { value: string; negated: boolean }[];
+  after: number | null;
+  before: number | null;
 }
 
 export class SearchService {
@@ -26,41 +61,60 @@ export class SearchService {
   private teamsService: TeamsService;
   private projectsDir: string;
   private teamsDir: string;
+  private searchIndex?: SearchIndex;
+  private favoritesService?: FavoritesService;
 
   constructor(
     sessionsService: SessionsService,
     teamsService: TeamsService,
     historyFilePath: string,
-    teamsDir: string
+    teamsDir: string,
+    searchIndex?: SearchIndex,
+    favoritesService?: FavoritesService
   ) {
     this.sessionsService = sessionsService;
     this.teamsService = teamsService;
     this.projectsDir = path.join(path.dirname(historyFilePath), 'projects');
     this.teamsDir = teamsDir;
+    this.searchIndex = searchIndex;
+    this.favoritesService = favoritesService;
   }
 
-  // Main search function
+  // Main search function (throws SearchQueryError for invalid query syntax)
   async search(options: SearchOptions): Promise<SearchResult[]> {
-    const { query, type = 'all', limit = 50 } = options;
+    const { query, type = 'all', limit = 50, timeZone } = options;
     const lowerQuery = query.toLowerCase().trim();
 
     if (!lowerQuery) {
       return [];
     }
 
+    const parsed = parseSearchQuery(query, timeZone);
+    const compiled = isPlainQuery(parsed) ? null : this.compileQuery(parsed);
+
     const results: SearchResult[] = [];
 
     try {
       // Search sessions
       if (type === 'all' || type === 'session') {
-        const sessionResults = await this.searchSessions(lowerQuery, limit);
+        const sessionResults = compiled
+          ? await this.searchSessionsStructured(compiled, limit)
+          : await this.searchSessions(lowerQuery, limit);
         results.push(...sessionResults);
       }
 
-      // Search team messages
-      if (type === 'all' || type === 'team_message') {
-        const teamResults = await this.searchTeamMessages(lowerQuery, limit);
-        results.push(...teamResults);
+      // Search team messages (session-only filters never match team messages)
+      if ((type === 'all' || type === 'team_message') && (!compiled || this.isTextOnly(compiled))) {
+        const teamResults = compiled
+          ? await this.searchTeamMessages(
+              text => this.matchesText(text.toLowerCase(), compiled),
+              compiled.include[0] || '',
+              limit
+            )
+          : await this.searchTeamMessages(text => text.toLowerCase().includes(lowerQuery), lowerQuery, limit);
+        results.push(
+          ...teamResults.filter(result => !compiled || this.isWithinDates(result.timestamp, result.timestamp, compiled))
+        );
       }
 
       // Sort by timestamp (newest first) and apply limit
@@ -73,6 +127,11 @@ export class SearchService {
     }
   }
 
+  // Text of a prompt followed by the text pasted into it
+  private getInputText(input: SessionInput): string {
+    return [input.display, ...(input.pastedContents || []).map(paste => paste.content)].join('\n');
+  }
+
   // Search in session messages
   private async searchSessions(query: string, limit: number): Promise<SearchResult[]> {
     const results: SearchResult[] = [];
@@ -81,6 +140,9 @@ export class SearchService {
       // Get all sessions first
       const sessions = await this.sessionsService.getSessions();
 
+      // Conversation matches from the index (null means fall back to scanning files)
+      const indexMatches = await this.searchConversationIndex(query);
+
       // Search in session inputs (from history)
       for (const session of sessions) {
         // Check session ID
@@ -109,17 +171,17 @@ export class SearchService {
           continue;
         }
 
-        // Check inputs
-        const matchingInput = session.inputs.find(input =>
-          input.display.toLowerCase().includes(query)
-        );
+        // Check inputs, pasted text included
+        const matchingInput = session.inputs
+          .map(input => ({ text: this.getInputText(input), timestamp: input.timestamp }))
+          .find(input => input.text.toLowerCase().includes(query));
 
         if (matchingInput) {
           results.push({
             type: 'session',
             id: session.sessionId,
             title: `Session: ${session.sessionId}`,
-            snippet: this.generateSnippet(matchingInput.display, query),
+            snippet: this.generateSnippet(matchingInput.text, query),
             timestamp: matchingInput.timestamp,
             project: session.project,
           });
@@ -127,11 +189,9 @@ export class SearchService {
         }
 
         // Search in full conversation files
-        const conversationResults = await this.searchSessionConversation(
-          session.sessionId,
-          session.project,
-          query
-        );
+        const conversationResults = indexMatches
+          ? this.toConversationResult(indexMatches.get(session.sessionId), query)
+          : await this.searchSessionConversation(session.sessionId, session.project, query);
 
         if (conversationResults) {
           results.push({
@@ -155,6 +215,324 @@ export class SearchService {
     return results;
   }
 
+  // Get field names and known values for query autocomplete
+  async getSuggestions(): Promise<SearchSuggestions> {
+    const [sessions, sessionTags, toolUsage] = await Promise.all([
+      this.sessionsService.getSessions(),
+      this.favoritesService ? this.favoritesService.getSessionTags() : Promise.resolve({} as SessionTagsMap),
+      this.searchIndex ? this.searchIndex.getToolUsage() : Promise.resolve(new Map<string, string[]>()),
+    ]);
+
+    const tags = new Set<string>();
+    for (const sessionTagList of Object.values(sessionTags)) {
+      for (const tag of sessionTagList) {
+        tags.add(tag);
+      }
+    }
+
+    const tools = new Set<string>();
+    for (const toolNames of toolUsage.values()) {
+      for (const name of toolNames) {
+        tools.add(name);
+      }
+    }
+
+    const sortStrings = (values: Iterable<string>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+
+    return {
+      fields: SEARCH_FIELDS,
+      roles: SEARCH_ROLES,
+      projects: sortStrings(new Set(sessions.map(s => s.project))),
+      tags: sortStrings(tags),
+      tools: sortStrings(tools),
+    };
+  }
+
+  private compileQuery(query: SearchQuery): CompiledQuery {
+    const compiled: CompiledQuery = {
+      include: [],
+      exclude: [],
+      roles: new Set(),
+      projects: [],
+      tags: [],
+      tools: [],
+      sessionIds: [],
+      after: null,
+      before: null,
+    };
+
+    for (const clause of query.clauses) {
+      switch (clause.type) {
+        case 'text':
+          (clause.negated ? compiled.exclude : compiled.include).push(clause.value.toLowerCase());
+          break;
+        case 'date':
+          // Several bounds on the same side narrow the range
+          if (clause.field === 'after') {
+            compiled.after = Math.max(compiled.after ?? clause.value, clause.value);
+          } else {
+            compiled.before = Math.min(compiled.before ?? clause.value, clause.value);
+          }
+          break;
+        case 'field': {
+          const filter = { value: clause.value.toLowerCase(), negated: clause.negated };
+          if (clause.field === 'role') {
+            if (!clause.negated) {
+              compiled.roles.add(clause.value);
+            } else {
+              for (const role of SEARCH_ROLES) {
+                if (role !== clause.value) compiled.roles.add(role);
+              }
+            }
+          } else if (clause.field === 'project') {
+            compiled.projects.push(filter);
+          } else if (clause.field === 'tag') {
+            compiled.tags.push(filter);
+          } else if (clause.field === 'tool') {
+            compiled.tools.push(filter);
+          } else {
+            compiled.sessionIds.push(filter);
+          }
+          break;
+        }
+      }
+    }
+
+    return compiled;
+  }
+
+  private isTextOnly(compiled: CompiledQuery): boolean {
+    return (
+      compiled.roles.size === 0 &&
+      compiled.projects.length === 0 &&
+      compiled.tags.length === 0 &&
+      compiled.tools.length === 0 &&
+      compiled.sessionIds.length === 0
+    );
+  }
+
+  // Text clauses of a single team message; sessions apply exclusions to the whole conversation
+  private matchesText(lowerText: string, compiled: CompiledQuery): boolean {
+    return (
+      compiled.include.every(value => lowerText.includes(value)) &&
+      !compiled.exclude.some(value => lowerText.includes(value))
+    );
+  }
+
+  // A session (or message) overlaps the after/before range
+  private isWithinDates(start: number, end: number, compiled: CompiledQuery): boolean {
+    if (compiled.after !== null && end < compiled.after) return false;
+    if (compiled.before !== null && start >= compiled.before) return false;
+    return true;
+  }
+
+  /**
+   * Evaluate a structured query. Session-level filters (project, tag, session,
+   * tool, dates) narrow the candidates; text and role clauses must then all
+   * hold for a single message of the session, and no message of the session
+   * may contain excluded text.
+   */
+  private async searchSessionsStructured(compiled: CompiledQuery, limit: number): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+
+    try {
+      const [sessions, sessionTags, toolUsage] = await Promise.all([
+        this.sessionsService.getSessions(),
+        compiled.tags.length > 0 && this.favoritesService
+          ? this.favoritesService.getSessionTags()
+          : Promise.resolve({} as SessionTagsMap),
+        compiled.tools.length > 0 ? this.getToolUsage() : Promise.resolve(null),
+      ]);
+
+      // Sessions that can contain every positive term, when the index can tell
+      const candidateIds = await this.findIndexCandidates(compiled.include);
+
+      const filtered = sessions
+        .filter(session => {
+          const project = session.project.toLowerCase();
+          const sessionId = session.sessionId.toLowerCase();
+          const tags = (sessionTags[session.sessionId] || []).map(tag => tag.toLowerCase());
+
+          return (
+            this.isWithinDates(session.createdAt, session.updatedAt, compiled) &&
+            compiled.projects.every(f => project.includes(f.value) !== f.negated) &&
+            compiled.sessionIds.every(f => sessionId.startsWith(f.value) !== f.negated) &&
+            compiled.tags.every(f => tags.includes(f.value) !== f.negated) &&
+            (!candidateIds || candidateIds.has(session.sessionId))
+          );
+        })
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+      const needsMessages =
+        compiled.include.length > 0 || compiled.exclude.length > 0 || compiled.roles.size > 0;
+
+      for (const session of filtered) {
+        if (compiled.tools.length > 0) {
+          const tools = (toolUsage?.get(session.sessionId) ?? (await this.scanToolNames(session)))
+            .map(name => name.toLowerCase());
+          if (!compiled.tools.every(f => tools.includes(f.value) !== f.negated)) {
+            continue;
+          }
+        }
+
+        if (!needsMessages) {
+          results.push({
+            type: 'session',
+            id: session.sessionId,
+            title: `Session: ${session.sessionId}`,
+            snippet: this.generateSnippet(session.inputs.map(i => i.display).join(' '), ''),
+            timestamp: session.updatedAt,
+            project: session.project,
+          });
+        } else {
+          const match = await this.findMatchingMessage(session, compiled);
+          if (match) {
+            results.push({
+              type: 'session',
+              id: session.sessionId,
+              title: `Session: ${session.sessionId}`,
+              snippet: match.snippet,
+              timestamp: match.timestamp,
+              project: session.project,
+            });
+          }
+        }
+
+        if (results.length >= limit) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('[SearchService] Error searching sessions:', error);
+    }
+
+    return results;
+  }
+
+  // Intersect index matches for each positive term; null when the index can't narrow the search
+  private async findIndexCandidates(terms: string[]): Promise<Set<string> | null> {
+    const matchSets: Set<string>[] = [];
+
+    for (const term of terms) {
+      const matches = await this.searchConversationIndex(term);
+      if (matches) {
+        matchSets.push(new Set(matches.keys()));
+      }
+    }
+
+    if (matchSets.length === 0) {
+      return null;
+    }
+
+    const [first, ...rest] = matchSets;
+    return new Set(Array.from(first).filter(id => rest.every(ids => ids.has(id))));
+  }
+
+  private async getToolUsage(): Promise<Map<string, string[]> | null> {
+    if (!this.searchIndex) {
+      return null;
+    }
+
+    try {
+      return await this.searchIndex.getToolUsage();
+    } catch (error) {
+      console.error('[SearchService] Failed to read tool usage from index, scanning files instead:', error);
+      return null;
+    }
+  }
+
+  private async scanToolNames(session: Session): Promise<string[]> {
+    const toolNames = new Set<string>();
+    for await (const entry of this.readConversation(session)) {
+      for (const name of extractToolNames(entry)) {
+        toolNames.add(name);
+      }
+    }
+    return Array.from(toolNames);
+  }
+
+  // Latest message that satisfies every text and role clause, or null when any message has excluded text
+  private async findMatchingMessage(
+    session: Session,
+    compiled: CompiledQuery
+  ): Promise<{ snippet: string; timestamp: number } | null> {
+    let lastMatch: { snippet: string; timestamp: number } | null = null;
+
+    for await (const entry of this.readConversation(session)) {
+      if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+
+      const content = extractSearchableText(entry);
+      if (!content) continue;
+
+      const lowerContent = content.toLowerCase();
+      if (compiled.exclude.some(value => lowerContent.includes(value))) return null;
+      if (compiled.roles.size > 0 && !compiled.roles.has(entry.type)) continue;
+      if (!compiled.include.every(value => lowerContent.includes(value))) continue;
+
+      lastMatch = {
+        snippet: this.generateSnippet(content, compiled.include[0] || ''),
+        timestamp: new Date(entry.timestamp).getTime(),
+      };
+    }
+
+    return lastMatch;
+  }
+
+  // Stream the transcript entries of a session, skipping invalid lines
+  private async *readConversation(session: Session): AsyncGenerator<ConversationMessage> {
+    const projectSlug = this.generateProjectSlug(session.project);
+    const conversationFile = path.join(this.projectsDir, projectSlug, `${session.sessionId}.jsonl`);
+
+    try {
+      await fs.access(conversationFile);
+    } catch {
+      return;
+    }
+
+    const rl = readline.createInterface({
+      input: createReadStream(conversationFile, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+
+      try {
+        yield JSON.parse(line) as ConversationMessage;
+      } catch {
+        // Skip invalid JSON lines
+        continue;
+      }
+    }
+  }
+
+  // Look up conversation matches in the persistent index
+  private async searchConversationIndex(query: string): Promise<Map<string, IndexMatch> | null> {
+    if (!this.searchIndex) {
+      return null;
+    }
+
+    try {
+      return await this.searchIndex.search(query);
+    } catch (error) {
+      console.error('[SearchService] Index search failed, scanning files instead:', error);
+      return null;
+    }
+  }
+
+  private toConversationResult(
+    match: IndexMatch | undefined,
+    query: string
+  ): { snippet: string; timestamp: number } | null {
+    if (!match) {
+      return null;
+    }
+    return {
+      snippet: this.generateSnippet(match.text, query),
+      timestamp: match.timestamp,
+    };
+  }
+
   // Search in a specific session's conversation file
   private async searchSessionConversation(
     sessionId: string,
@@ -187,16 +565,7 @@ export class SearchService {
           const entry: ConversationMessage = JSON.parse(line);
 
           if (entry.message?.content) {
-            let content = '';
-
-            if (typeof entry.message.content === 'string') {
-              content = entry.message.content;
-            } else if (Array.isArray(entry.message.content)) {
-              content = entry.message.content
-                .filter(c => c.type === 'text' || c.type === 'thinking')
-                .map(c => c.text || c.thinking || '')
-                .join(' ');
-            }
+            const content = extractSearchableText(entry);
 
             if (content.toLowerCase().includes(query)) {
               const timestamp = new Date(entry.timestamp).getTime();
@@ -220,7 +589,11 @@ export class SearchService {
   }
 
   // Search in team messages
-  private async searchTeamMessages(query: string, limit: number): Promise<SearchResult[]> {
+  private async searchTeamMessages(
+    matches: (text: string) => boolean,
+    highlight: string,
+    limit: number
+  ): Promise<SearchResult[]> {
     const results: SearchResult[] = [];
 
     try {
@@ -229,7 +602,7 @@ export class SearchService {
 
       for (const team of teams) {
         // Check team name
-        if (team.name.toLowerCase().includes(query)) {
+        if (matches(team.name)) {
           results.push({
             type: 'team_message',
             id: team.id,
@@ -244,7 +617,8 @@ export class SearchService {
           const messages = await this.searchMemberMessages(
             team.id,
             member.name,
-            query
+            matches,
+            highlight
           );
 
           for (const msg of messages) {
@@ -273,7 +647,8 @@ export class SearchService {
   private async searchMemberMessages(
     teamId: string,
     memberName: string,
-    query: string
+    matches: (text: string) => boolean,
+    highlight: string
   ): Promise<Array<{ id: string; snippet: string; timestamp: number }>> {
     const results: Array<{ id: string; snippet: string; timestamp: number }> = [];
 
@@ -292,14 +667,14 @@ export class SearchService {
 
       for (let i = 0; i < messages.length; i++) {
         const msg = messages[i];
-        if (msg.text.toLowerCase().includes(query)) {
+        if (matches(msg.text)) {
           const timestamp = typeof msg.timestamp === 'string'
             ? new Date(msg.timestamp).getTime()
             : msg.timestamp || Date.now();
 
           results.push({
             id: msg.id || `${i}`,
-            snippet: this.generateSnippet(msg.text, query),
+            snippet: this.generateSnippet(msg.text, highlight),
             timestamp,
           });
         }
@@ -316,7 +691,7 @@ export class SearchService {
     const lowerText = text.toLowerCase();
     const index = lowerText.indexOf(query);
 
-    if (index === -1) {
+    if (index === -1 || !query) {
       // Query not found, return beginning of text
       return text.length > maxLength
         ? text.substring(0, maxLength - 3) + '...'
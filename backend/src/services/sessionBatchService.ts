@@ -0,0 +1,136 @@
+import type {
+  Session,
+  SessionBatchRequest,
+  SessionBatchResult,
+  SessionBatchItemResult,
+} from '../types';
+import type { SessionsService } from './sessionsService';
+import type { FavoritesService } from './favoritesService';
+
+// Title shown for sessions without a custom name, as in the session list
+function getDefaultTitle(session: Session): string {
+  const content = session.inputs[0]?.display || session.sessionId.slice(0, 8);
+  return content.slice(0, 50) + (content.length > 50 ? '...' : '');
+}
+
+// Tags are stored trimmed and lowercase
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Applies one action to many sessions in a single pass: one history rewrite for deletes,
+ * one favorites save for tags and names.
+ */
+export class SessionBatchService {
+  private sessionsService: SessionsService;
+  private favoritesService: FavoritesService;
+
+  constructor(sessionsService: SessionsService, favoritesService: FavoritesService) {
+    this.sessionsService = sessionsService;
+    this.favoritesService = favoritesService;
+  }
+
+  async run(request: SessionBatchRequest): Promise<SessionBatchResult> {
+    const sessionIds = Array.from(new Set(request.sessionIds));
+    const sessions = await this.sessionsService.loadSessions();
+
+    const results = new Map<string, SessionBatchItemResult>();
+    const found: Session[] = [];
+    for (const sessionId of sessionIds) {
+      const session = sessions.get(sessionId);
+      if (session) {
+        found.push(session);
+      } else {
+        results.set(sessionId, { sessionId, success: false, error: 'Session not found' });
+      }
+    }
+
+    let exported: Session[] | undefined;
+    switch (request.action) {
+      case 'delete':
+        await this.deleteSessions(found, results);
+        break;
+      case 'addTags':
+        await this.favoritesService.addSessionTagsBulk(found.map(s => s.sessionId), normalizeTags(request.tags ?? []));
+        this.markSucceeded(found, results);
+        break;
+      case 'removeTags':
+        await this.favoritesService.removeSessionTagsBulk(found.map(s => s.sessionId), normalizeTags(request.tags ?? []));
+        this.markSucceeded(found, results);
+        break;
+      case 'renamePrefix':
+        await this.renameWithPrefix(found, request.prefix ?? '');
+        this.markSucceeded(found, results);
+        break;
+      case 'export':
+        exported = await this.exportSessions(found, results);
+        break;
+    }
+
+    // Keep the order of the request
+    const ordered = sessionIds.map(sessionId => results.get(sessionId)!);
+    const succeeded = ordered.filter(result => result.success).length;
+    return {
+      action: request.action,
+      results: ordered,
+      succeeded,
+      failed: ordered.length - succeeded,
+      ...(exported && { sessions: exported }),
+    };
+  }
+
+  private async deleteSessions(sessions: Session[], results: Map<string, SessionBatchItemResult>): Promise<void> {
+    if (sessions.length === 0) return;
+
+    const deleted = await this.sessionsService.deleteSessions(sessions.map(s => s.sessionId));
+    for (const { sessionId } of sessions) {
+      results.set(
+        sessionId,
+        deleted.get(sessionId)
+          ? { sessionId, success: true }
+          : { sessionId, success: false, error: 'Failed to delete session' }
+      );
+    }
+    await this.sessionsService.afterDelete();
+  }
+
+  // Prefix the custom name, or the default title of unnamed sessions; names that already have the prefix are kept
+  private async renameWithPrefix(sessions: Session[], prefix: string): Promise<void> {
+    const currentNames = await this.favoritesService.getSessionNames();
+    const names: Record<string, string> = {};
+    for (const session of sessions) {
+      const name = currentNames[session.sessionId] || getDefaultTitle(session);
+      names[session.sessionId] = name.startsWith(prefix) ? name : `${prefix}${name}`;
+    }
+    await this.favoritesService.setSessionNames(names);
+  }
+
+  private async exportSessions(
+    sessions: Session[],
+    results: Map<string, SessionBatchItemResult>
+  ): Promise<Session[]> {
+    const exported: Session[] = [];
+    for (const { sessionId } of sessions) {
+      try {
+        const session = await this.sessionsService.getSessionWithConversation(sessionId);
+        if (!session) {
+          results.set(sessionId, { sessionId, success: false, error: 'Session not found' });
+          continue;
+        }
+        exported.push(session);
+        results.set(sessionId, { sessionId, success: true });
+      } catch (error) {
+        console.error(`[SessionBatchService] Error exporting session ${sessionId}:`, error);
+        results.set(sessionId, { sessionId, success: false, error: 'Failed to export session' });
+      }
+    }
+    return exported;
+  }
+
+  private markSucceeded(sessions: Session[], results: Map<string, SessionBatchItemResult>): void {
+    for (const { sessionId } of sessions) {
+      results.set(sessionId, { sessionId, success: true });
+    }
+  }
+}
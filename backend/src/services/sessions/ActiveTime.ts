@@ -0,0 +1,55 @@
+import type { ActivePeriod } from '../../types';
+import { getZonedDateParts, getZonedMidnight, formatZonedDate } from '../../utils/timeZoneUtils';
+
+/**
+ * Longest pause between two messages that still counts as working
+ */
+export const IDLE_GAP_MS = 15 * 60 * 1000;
+
+/**
+ * Cluster message timestamps into periods of activity, splitting wherever
+ * the gap between two messages exceeds the idle threshold
+ */
+export function getActivePeriods(timestamps: number[], idleGapMs: number = IDLE_GAP_MS): ActivePeriod[] {
+  const sorted = timestamps.filter(ts => !isNaN(ts)).sort((a, b) => a - b);
+  const periods: ActivePeriod[] = [];
+
+  for (const ts of sorted) {
+    const current = periods[periods.length - 1];
+    if (current && ts - current.end <= idleGapMs) {
+      current.end = ts;
+    } else {
+      periods.push({ start: ts, end: ts });
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Total time spent inside the active periods
+ */
+export function getActiveTimeMs(periods: ActivePeriod[]): number {
+  return periods.reduce((total, period) => total + (period.end - period.start), 0);
+}
+
+/**
+ * Active time per day (YYYY-MM-DD) in a time zone, the server's by default,
+ * splitting periods that cross midnight there
+ */
+export function getActiveTimeByDay(periods: ActivePeriod[], timeZone?: string): Map<string, number> {
+  const byDay = new Map<string, number>();
+
+  for (const period of periods) {
+    let start = period.start;
+    while (start < period.end) {
+      const { year, month, day } = getZonedDateParts(start, timeZone);
+      const end = Math.min(period.end, getZonedMidnight(year, month, day + 1, timeZone));
+      const key = formatZonedDate(start, timeZone);
+      byDay.set(key, (byDay.get(key) || 0) + (end - start));
+      start = end;
+    }
+  }
+
+  return byDay;
+}
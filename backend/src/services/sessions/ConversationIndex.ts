@@ -0,0 +1,198 @@
+import fs from 'fs/promises';
+import type { ConversationMessage, ContentBlock } from '../../types';
+
+const CHUNK_SIZE = 64 * 1024;
+const MAX_INDEXED_FILES = 50;
+const OUTLINE_TEXT_LENGTH = 200;
+const NEWLINE = 0x0a;
+
+/**
+ * Position of one transcript line, with an outline of its entry:
+ * parent links and content block types, with text cut short and tool and image payloads dropped.
+ * Parsing an outline yields the same number of chat messages as the full entry.
+ */
+export interface IndexedLine {
+  offset: number; // Byte offset of the line in the file
+  length: number; // Byte length, without the newline
+  entry: ConversationMessage;
+}
+
+interface FileIndex {
+  mtime: number;
+  size: number;
+  indexedBytes: number; // End of the last indexed line
+  lines: IndexedLine[];
+  offsets: Map<string, number>; // uuid -> byte offset
+}
+
+function outlineBlock(block: ContentBlock): ContentBlock {
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: block.text?.trim().slice(0, OUTLINE_TEXT_LENGTH) };
+    case 'thinking':
+      return { type: 'thinking', thinking: block.thinking?.trim().slice(0, OUTLINE_TEXT_LENGTH) };
+    case 'tool_use':
+      return { type: 'tool_use', id: block.id, name: block.name };
+    case 'tool_result':
+      return { type: 'tool_result', tool_use_id: block.tool_use_id, is_error: block.is_error };
+    case 'image':
+      return { type: 'image', source: block.source && { ...block.source, data: '' } };
+    default:
+      return { type: block.type };
+  }
+}
+
+function toOutline(entry: ConversationMessage): ConversationMessage {
+  const { toolUseResult: _toolUseResult, message, ...rest } = entry;
+  if (!message) return rest;
+
+  const content = typeof message.content === 'string'
+    ? message.content.trim().slice(0, OUTLINE_TEXT_LENGTH)
+    : Array.isArray(message.content) ? message.content.map(outlineBlock) : message.content;
+
+  return { ...rest, message: { id: message.id, role: message.role, model: message.model, content } };
+}
+
+/**
+ * Byte-offset index of transcript lines, so pages of a conversation can be read
+ * without parsing the whole file. Transcripts are append-only, so a grown file
+ * is indexed from where the previous pass stopped.
+ */
+export class ConversationIndex {
+  private files = new Map<string, FileIndex>();
+
+  /**
+   * Index lines of a transcript, or null if the file does not exist
+   */
+  async getLines(filePath: string): Promise<IndexedLine[] | null> {
+    const index = await this.update(filePath);
+    return index ? index.lines : null;
+  }
+
+  /**
+   * Byte offset of the line holding the entry with this uuid
+   */
+  getOffset(filePath: string, uuid: string): number | undefined {
+    return this.files.get(filePath)?.offsets.get(uuid);
+  }
+
+  /**
+   * Read and parse the full entries of indexed lines
+   */
+  async readEntries(filePath: string, lines: IndexedLine[]): Promise<ConversationMessage[]> {
+    const entries: ConversationMessage[] = [];
+    if (lines.length === 0) return entries;
+
+    const fd = await fs.open(filePath, 'r');
+    try {
+      for (const line of lines) {
+        const buffer = Buffer.alloc(line.length);
+        const { bytesRead } = await fd.read(buffer, 0, line.length, line.offset);
+        try {
+          entries.push(JSON.parse(buffer.toString('utf-8', 0, bytesRead)));
+        } catch {
+          // Line changed since it was indexed
+        }
+      }
+    } finally {
+      await fd.close();
+    }
+
+    return entries;
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+
+  private async update(filePath: string): Promise<FileIndex | null> {
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch {
+      this.files.delete(filePath);
+      return null;
+    }
+
+    const mtime = Math.floor(stats.mtimeMs);
+    let index = this.files.get(filePath);
+
+    if (index && index.mtime === mtime && index.size === stats.size) {
+      this.touch(filePath, index);
+      return index;
+    }
+
+    // Anything but growth means the file was rewritten
+    if (!index || stats.size < index.indexedBytes || stats.size <= index.size) {
+      index = { mtime, size: 0, indexedBytes: 0, lines: [], offsets: new Map() };
+    }
+
+    await this.indexFrom(filePath, index, stats.size);
+    index.mtime = mtime;
+    index.size = stats.size;
+    this.touch(filePath, index);
+    return index;
+  }
+
+  // Keep recently used files at the end and drop the least recently used ones
+  private touch(filePath: string, index: FileIndex): void {
+    this.files.delete(filePath);
+    this.files.set(filePath, index);
+    while (this.files.size > MAX_INDEXED_FILES) {
+      const oldest = this.files.keys().next().value as string;
+      this.files.delete(oldest);
+    }
+  }
+
+  private async indexFrom(filePath: string, index: FileIndex, size: number): Promise<void> {
+    const fd = await fs.open(filePath, 'r');
+    const buffer = Buffer.alloc(CHUNK_SIZE);
+    let position = index.indexedBytes;
+    let pending: Buffer = Buffer.alloc(0);
+    let lineStart = position;
+
+    const addLine = (line: Buffer, offset: number): boolean => {
+      const text = line.toString('utf-8');
+      if (!text.trim()) return true;
+      try {
+        const entry: ConversationMessage = JSON.parse(text);
+        index.lines.push({ offset, length: line.length, entry: toOutline(entry) });
+        if (entry.uuid && !index.offsets.has(entry.uuid)) {
+          index.offsets.set(entry.uuid, offset);
+        }
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    try {
+      while (position < size) {
+        const { bytesRead } = await fd.read(buffer, 0, Math.min(CHUNK_SIZE, size - position), position);
+        if (bytesRead === 0) break;
+
+        const chunk = Buffer.concat([pending, buffer.subarray(0, bytesRead)]);
+        let start = 0;
+        let newline = chunk.indexOf(NEWLINE, start);
+        while (newline !== -1) {
+          // Invalid lines are skipped, as in a full load
+          addLine(chunk.subarray(start, newline), lineStart);
+          lineStart += newline - start + 1;
+          start = newline + 1;
+          newline = chunk.indexOf(NEWLINE, start);
+        }
+
+        pending = Buffer.from(chunk.subarray(start));
+        position += bytesRead;
+      }
+
+      index.indexedBytes = lineStart;
+      // A last line without newline counts once it is complete JSON
+      if (pending.length > 0 && addLine(pending, lineStart)) {
+        index.indexedBytes = lineStart + pending.length;
+      }
+    } finally {
+      await fd.close();
+    }
+  }
+}
@@ -2,18 +2,129 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createReadStream } from 'fs';
 import readline from 'readline';
-import type { ChatMessage, ConversationMessage, ContentBlock } from '../../types';
-import { normalizePath, generateProjectSlug } from './PathUtils';
+import type {
+  ChatMessage,
+  ConversationMessage,
+  ContentBlock,
+  ConversationMarker,
+  AgentSessionSummary,
+  ConversationBranch,
+  MessagePageInfo,
+  MessageSearchHit,
+} from '../../types';
+import { normalizePath, generateProjectSlug, getAgentFileCandidates } from './PathUtils';
+import { toAgentPrompt } from './ProjectScanner';
+import { buildConversationTree, getBranchEntries, listBranches } from './ConversationTree';
+import { ConversationIndex, type IndexedLine } from './ConversationIndex';
+
+// Tools that spawn a subagent (renamed from Task to Agent in newer Claude Code versions)
+const AGENT_TOOL_NAMES = new Set(['Task', 'Agent']);
 
 export interface ConversationLoaderDependencies {
   projectsDir: string;
 }
 
+export interface LoadConversationOptions {
+  limit?: number; // Number of messages to load (0 = all messages in range)
+  branchId?: string; // Branch to load instead of the active one
+  // Cursors: entry uuid or byte offset of a transcript line
+  before?: string; // Only messages older than this entry
+  after?: string; // Only messages newer than this entry (limit then counts from the oldest)
+  from?: string; // Messages from this entry on (limit is ignored)
+}
+
+export interface LoadedConversation {
+  messages: ChatMessage[];
+  branches: ConversationBranch[];
+  branchId?: string; // Unset when the requested branch does not exist
+  pageInfo: MessagePageInfo;
+  markers: ConversationMarker[]; // Summaries and compactions of the whole branch
+}
+
+export interface AppendedMessages {
+  messages: ChatMessage[];
+  offset: number; // End of the last complete line, to continue tailing from
+  reset: boolean; // The transcript was rewritten, so earlier messages may no longer hold
+}
+
+export interface LoadedAttachment {
+  mediaType: string;
+  data: Buffer;
+}
+
+/**
+ * Thrown when a pagination cursor does not point into the transcript
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Page info of a fully loaded branch
+function getFullPageInfo(messages: ChatMessage[]): MessagePageInfo {
+  // Summary entries have no uuid of their own to use as a cursor
+  const cursors = messages.filter(message => message.type !== 'summary');
+  return {
+    startCursor: cursors[0]?.uuid ?? null,
+    endCursor: cursors[cursors.length - 1]?.uuid ?? null,
+    hasOlder: false,
+    hasNewer: false,
+    totalMessages: messages.length,
+  };
+}
+
+/**
+ * Give messages without a timestamp (summary entries) the one of the next message,
+ * or of the previous one at the end, so sorting by time keeps them in place
+ */
+function fillMissingTimestamps(messages: ChatMessage[]): ChatMessage[] {
+  let next = NaN;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (isNaN(messages[i].timestamp)) {
+      messages[i].timestamp = next;
+    } else {
+      next = messages[i].timestamp;
+    }
+  }
+  let previous = 0;
+  for (const message of messages) {
+    if (isNaN(message.timestamp)) {
+      message.timestamp = previous;
+    } else {
+      previous = message.timestamp;
+    }
+  }
+  return messages;
+}
+
+function collectMarkers(messages: ChatMessage[]): ConversationMarker[] {
+  const markers: ConversationMarker[] = [];
+  for (const message of messages) {
+    if (message.type === 'summary' || message.type === 'compact_boundary') {
+      markers.push({
+        type: message.type,
+        uuid: message.uuid,
+        timestamp: message.timestamp,
+        text: message.content,
+        ...message.compaction,
+      });
+    }
+  }
+  return markers;
+}
+
+function isPaged(options: LoadConversationOptions): boolean {
+  return (options.limit ?? 0) > 0 || !!options.before || !!options.after || !!options.from;
+}
+
 /**
  * Loads full conversation from project jsonl file
  */
 export class ConversationLoader {
   private projectsDir: string;
+  private index = new ConversationIndex();
 
   constructor(deps: ConversationLoaderDependencies) {
     this.projectsDir = deps.projectsDir;
@@ -35,37 +146,376 @@ export class ConversationLoader {
     projectPath: string,
     limit: number = 0
   ): Promise<ChatMessage[]> {
-    // If limit is specified and small, use efficient tail reading
-    if (limit > 0 && limit <= 200) {
-      return this.loadConversationTail(sessionId, projectPath, limit);
+    const conversation = await this.loadConversation(sessionId, projectPath, { limit });
+    return conversation.messages;
+  }
+
+  /**
+   * Load one branch of a conversation (the active one by default) together with the list of branches.
+   * Pages (limit or cursors) are read through the line index instead of parsing the whole file.
+   */
+  async loadConversation(
+    sessionId: string,
+    projectPath: string,
+    options: LoadConversationOptions = {}
+  ): Promise<LoadedConversation> {
+    const conversationFile = this.getConversationFile(sessionId, projectPath);
+
+    if (isPaged(options)) {
+      return this.loadConversationPage(conversationFile, options);
+    }
+    return this.loadConversationFile(conversationFile, sessionId, options.branchId);
+  }
+
+  /**
+   * Messages of a branch containing the query (case-insensitive), oldest first
+   */
+  async searchConversation(
+    sessionId: string,
+    projectPath: string,
+    query: string,
+    options: Pick<LoadConversationOptions, 'branchId' | 'before'> = {}
+  ): Promise<MessageSearchHit[] | null> {
+    const needle = query.trim().toLowerCase();
+    const conversationFile = this.getConversationFile(sessionId, projectPath);
+    const lines = await this.index.getLines(conversationFile);
+    if (!lines || !needle) return lines ? [] : null;
+
+    const selection = this.selectBranchLines(lines, options.branchId);
+    if (!selection.branchId) return null;
+
+    const beforeOffset = options.before !== undefined
+      ? this.resolveCursor(conversationFile, options.before)
+      : Infinity;
+    const branchLines = selection.lines.filter(line => line.offset < beforeOffset);
+    const entries = await this.index.readEntries(conversationFile, branchLines);
+    const messages = this.attachToolResults(
+      fillMissingTimestamps(entries.flatMap(entry => this.parseEntry(entry))).sort((a, b) => a.timestamp - b.timestamp)
+    );
+
+    const hits = new Map<string, MessageSearchHit>();
+    for (const message of messages) {
+      const content = message.content.toLowerCase();
+      let matches = 0;
+      for (let pos = content.indexOf(needle); pos !== -1; pos = content.indexOf(needle, pos + 1)) {
+        matches++;
+      }
+      if (matches === 0) continue;
+
+      const hit = hits.get(message.uuid);
+      if (hit) {
+        hit.matches += matches;
+      } else {
+        hits.set(message.uuid, { uuid: message.uuid, timestamp: message.timestamp, matches });
+      }
     }
 
-    return this.loadConversationFull(sessionId, projectPath);
+    return Array.from(hits.values());
   }
 
   /**
-   * Load full conversation (all messages)
+   * Raw entries of a branch (the active one by default) in file order,
+   * or null when the transcript or branch does not exist
    */
-  private async loadConversationFull(sessionId: string, projectPath: string): Promise<ChatMessage[]> {
-    const messages: ChatMessage[] = [];
+  async loadBranchEntries(
+    sessionId: string,
+    projectPath: string,
+    branchId?: string
+  ): Promise<{ entries: ConversationMessage[]; branchId: string } | null> {
+    const conversationFile = this.getConversationFile(sessionId, projectPath);
+    const lines = await this.index.getLines(conversationFile);
+    if (!lines) return null;
 
-    try {
-      // Normalize path and generate project slug from path
-      const normalizedPath = normalizePath(projectPath);
-      const projectSlug = generateProjectSlug(normalizedPath);
-      const conversationFile = path.join(this.projectsDir, projectSlug, `${sessionId}.jsonl`);
+    const selection = this.selectBranchLines(lines, branchId);
+    if (!selection.branchId) return null;
+
+    const entries = await this.index.readEntries(conversationFile, selection.lines);
+    return { entries, branchId: selection.branchId };
+  }
+
+  /**
+   * Timestamps of the messages of a transcript, across all branches
+   */
+  async loadMessageTimestamps(sessionId: string, projectPath: string): Promise<number[]> {
+    const lines = await this.index.getLines(this.getConversationFile(sessionId, projectPath));
+    if (!lines) return [];
+
+    return lines
+      .filter(line => line.entry.message && line.entry.timestamp)
+      .map(line => new Date(line.entry.timestamp).getTime())
+      .filter(ts => !isNaN(ts));
+  }
+
+  /**
+   * Messages of the lines appended to a transcript after a byte offset, or after the line
+   * of an entry uuid. Without a known position nothing is returned, only the offset of the
+   * current end. Subagent entries are left out, as in a branch load.
+   */
+  async loadAppendedMessages(
+    sessionId: string,
+    projectPath: string,
+    after?: number | string
+  ): Promise<AppendedMessages> {
+    const conversationFile = this.getConversationFile(sessionId, projectPath);
+    const lines = await this.index.getLines(conversationFile) ?? [];
+    const last = lines[lines.length - 1];
+    const end = last ? last.offset + last.length + 1 : 0;
+
+    let offset = end;
+    if (typeof after === 'number') {
+      offset = after;
+    } else if (after !== undefined) {
+      const line = lines.find(candidate => candidate.entry.uuid === after);
+      if (line) offset = line.offset + line.length + 1;
+    }
+
+    if (offset > end) {
+      return { messages: [], offset: end, reset: true };
+    }
+
+    const appended = lines.filter(line => line.offset >= offset && !line.entry.isSidechain);
+    const entries = await this.index.readEntries(conversationFile, appended);
+    const messages = fillMissingTimestamps(entries.flatMap(entry => this.parseEntry(entry)));
+    messages.sort((a, b) => a.timestamp - b.timestamp);
+
+    return { messages: this.attachToolResults(messages), offset: end, reset: false };
+  }
+
+  /**
+   * Decoded image block of an entry in the session transcript, or in a subagent transcript
+   * when an agent id is given; null when the entry has no base64 image at that index
+   */
+  async loadAttachment(
+    sessionId: string,
+    projectPath: string,
+    uuid: string,
+    index: number,
+    agentId?: string
+  ): Promise<LoadedAttachment | null> {
+    const projectSlug = generateProjectSlug(normalizePath(projectPath));
+    const candidates = agentId
+      ? getAgentFileCandidates(this.projectsDir, projectSlug, sessionId, agentId)
+      : [this.getConversationFile(sessionId, projectPath)];
+
+    for (const file of candidates) {
+      const lines = await this.index.getLines(file);
+      if (!lines) continue;
+
+      const line = lines.find(candidate => candidate.entry.uuid === uuid);
+      if (!line) continue;
+
+      const [entry] = await this.index.readEntries(file, [line]);
+      const content = entry?.message?.content;
+      const block = Array.isArray(content) ? content[index] : undefined;
+      if (block?.type !== 'image' || block.source?.type !== 'base64' || !block.source.data) {
+        return null;
+      }
+      return { mediaType: block.source.media_type, data: Buffer.from(block.source.data, 'base64') };
+    }
+
+    return null;
+  }
+
+  private getConversationFile(sessionId: string, projectPath: string): string {
+    // Normalize path and generate project slug from path
+    const normalizedPath = normalizePath(projectPath);
+    const projectSlug = generateProjectSlug(normalizedPath);
+    return path.join(this.projectsDir, projectSlug, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Byte offset a cursor points at; numeric cursors are offsets, anything else an entry uuid
+   */
+  private resolveCursor(conversationFile: string, cursor: string): number {
+    if (/^\d+$/.test(cursor)) {
+      return Number(cursor);
+    }
+    const offset = this.index.getOffset(conversationFile, cursor);
+    if (offset === undefined) {
+      throw new InvalidCursorError(cursor);
+    }
+    return offset;
+  }
+
+  /**
+   * Lines of the requested branch (the active one by default), in file order
+   */
+  private selectBranchLines(
+    lines: IndexedLine[],
+    branchId?: string
+  ): { lines: IndexedLine[]; branches: ConversationBranch[]; branchId?: string } {
+    const lineByEntry = new Map(lines.map(line => [line.entry, line]));
+    const tree = buildConversationTree(lines.map(line => line.entry));
+    const branches = listBranches(tree);
+    const branch = branchId ? branches.find(b => b.id === branchId) : branches[0];
+    if (!branch) {
+      return { lines: [], branches };
+    }
+
+    const branchLines = getBranchEntries(tree, branch.id)
+      .map(entry => lineByEntry.get(entry))
+      .filter((line): line is IndexedLine => !!line);
+    return { lines: branchLines, branches, branchId: branch.id };
+  }
+
+  /**
+   * Load a page of a branch using the line index
+   */
+  private async loadConversationPage(
+    conversationFile: string,
+    options: LoadConversationOptions
+  ): Promise<LoadedConversation> {
+    const { limit = 0, branchId, before, after, from } = options;
+    const emptyPage: MessagePageInfo = {
+      startCursor: null,
+      endCursor: null,
+      hasOlder: false,
+      hasNewer: false,
+      totalMessages: 0,
+    };
+
+    const lines = await this.index.getLines(conversationFile);
+    if (!lines) {
+      return { messages: [], branches: [], branchId, pageInfo: emptyPage, markers: [] };
+    }
+
+    const selection = this.selectBranchLines(lines, branchId);
+    if (!selection.branchId) {
+      return { messages: [], branches: selection.branches, pageInfo: emptyPage, markers: [] };
+    }
+
+    // Count chat messages per line from the outlines
+    const branchLines = selection.lines;
+    const outlineMessages = branchLines.map(line => this.parseEntry(line.entry));
+    const counts = outlineMessages.map(messages => messages.length);
+    const totalMessages = this.attachToolResults(outlineMessages.flat()).length;
+    const markers = collectMarkers(fillMissingTimestamps(outlineMessages.flat()));
+
+    const beforeOffset = before !== undefined ? this.resolveCursor(conversationFile, before) : Infinity;
+    const afterOffset = after !== undefined ? this.resolveCursor(conversationFile, after) : -1;
+    const fromOffset = from !== undefined ? this.resolveCursor(conversationFile, from) : -1;
+
+    // Range of branch lines allowed by the cursors: [start, end)
+    let start = branchLines.findIndex(line => line.offset > afterOffset && line.offset >= fromOffset);
+    if (start === -1) start = branchLines.length;
+    let end = branchLines.findIndex(line => line.offset >= beforeOffset);
+    if (end === -1) end = branchLines.length;
+    end = Math.max(start, end);
+
+    // Shrink to the limit from the newest end, or from the oldest end when paging forward
+    if (limit > 0 && from === undefined) {
+      let count = 0;
+      if (after !== undefined) {
+        let index = start;
+        while (index < end && count < limit) count += counts[index++];
+        end = index;
+      } else {
+        let index = end;
+        while (index > start && count < limit) count += counts[--index];
+        start = index;
+      }
+    }
+
+    const pageLines = branchLines.slice(start, end);
+    const entries = await this.index.readEntries(conversationFile, pageLines);
+    const messages = fillMissingTimestamps(entries.flatMap(entry => this.parseEntry(entry)));
+
+    // Sort messages by timestamp
+    messages.sort((a, b) => a.timestamp - b.timestamp);
+
+    const pageUuids = pageLines.map(line => line.entry.uuid).filter(Boolean);
+
+    return {
+      messages: this.attachToolResults(messages),
+      branches: selection.branches,
+      branchId: selection.branchId,
+      pageInfo: {
+        startCursor: pageUuids[0] ?? null,
+        endCursor: pageUuids[pageUuids.length - 1] ?? null,
+        hasOlder: counts.slice(0, start).some(count => count > 0),
+        hasNewer: counts.slice(end).some(count => count > 0),
+        totalMessages,
+      },
+      markers,
+    };
+  }
+
+  /**
+   * Load a subagent transcript of a session
+   */
+  async loadAgentConversation(
+    agentId: string,
+    sessionId: string,
+    projectPath: string
+  ): Promise<ChatMessage[]> {
+    const projectSlug = generateProjectSlug(normalizePath(projectPath));
+
+    for (const agentFile of getAgentFileCandidates(this.projectsDir, projectSlug, sessionId, agentId)) {
+      try {
+        await fs.access(agentFile);
+      } catch {
+        continue;
+      }
+      const conversation = await this.loadConversationFile(agentFile, `agent-${agentId}`);
+      return conversation.messages;
+    }
+
+    return [];
+  }
 
-      // console.log(`[ConversationLoader] Loading conversation for ${sessionId}`);
-      // console.log(`[ConversationLoader] Project path: ${normalizedPath} -> slug: ${projectSlug}`);
-      // console.log(`[ConversationLoader] Looking for file: ${conversationFile}`);
+  /**
+   * Link subagent transcripts to the Task tool calls that spawned them.
+   * Uses the agent id recorded on the Task result, falling back to matching the prompt.
+   * Sets toolCall.agentId on linked messages and returns the summaries with their Task details.
+   */
+  linkAgentSessions(messages: ChatMessage[], agentSessions: AgentSessionSummary[]): AgentSessionSummary[] {
+    const linked = agentSessions.map(agent => ({ ...agent }));
+    const byId = new Map(linked.map(agent => [agent.agentId, agent]));
+
+    for (const message of messages) {
+      const toolCall = message.toolCall;
+      if (message.type !== 'tool_use' || !toolCall || !AGENT_TOOL_NAMES.has(toolCall.name)) {
+        continue;
+      }
 
+      const prompt = typeof toolCall.input.prompt === 'string' ? toAgentPrompt(toolCall.input.prompt) : null;
+      const agent = (toolCall.result?.agentId && byId.get(toolCall.result.agentId))
+        || linked.find(candidate => !candidate.toolUseId && prompt !== null && candidate.prompt === prompt);
+      if (!agent || (agent.toolUseId && agent.toolUseId !== toolCall.id)) {
+        continue;
+      }
+
+      agent.toolUseId = toolCall.id;
+      if (typeof toolCall.input.description === 'string') {
+        agent.description = toolCall.input.description;
+      }
+      if (typeof toolCall.input.subagent_type === 'string') {
+        agent.subagentType = toolCall.input.subagent_type;
+      }
+      toolCall.agentId = agent.agentId;
+    }
+
+    return linked;
+  }
+
+  /**
+   * Parse the messages of one branch of a transcript file (the active branch by default)
+   */
+  private async loadConversationFile(
+    conversationFile: string,
+    label: string,
+    branchId?: string
+  ): Promise<LoadedConversation> {
+    const entries: ConversationMessage[] = [];
+
+    try {
       // Check if file exists
       try {
         await fs.access(conversationFile);
         // console.log(`[ConversationLoader] File found, parsing...`);
       } catch {
         // console.log(`[ConversationLoader] File not found: ${conversationFile}`);
-        return messages;
+        return { messages: [], branches: [], branchId, pageInfo: getFullPageInfo([]), markers: [] };
       }
 
       // Read file line by line
@@ -79,203 +529,225 @@ export class ConversationLoader {
         if (!line.trim()) continue;
 
         try {
-          const entry: ConversationMessage = JSON.parse(line);
-
-          // Only process user and assistant messages
-          if (entry.type === 'user' || (entry.type === 'assistant' && entry.message)) {
-            const role = entry.type === 'user' ? 'user' : 'assistant';
-            const timestamp = new Date(entry.timestamp).getTime();
-
-            if (entry.message?.content) {
-              // Handle content as string or array
-              if (typeof entry.message.content === 'string') {
-                // Simple string content
-                if (entry.message.content.trim()) {
-                  messages.push({
-                    uuid: entry.uuid,
-                    role,
-                    content: entry.message.content,
-                    timestamp,
-                    type: 'text',
-                  });
-                }
-              } else if (Array.isArray(entry.message.content)) {
-                // Array of content blocks
-                for (const content of entry.message.content) {
-                  if (content.type === 'text' && content.text) {
-                    messages.push({
-                      uuid: entry.uuid,
-                      role,
-                      content: content.text,
-                      timestamp,
-                      type: 'text',
-                    });
-                  } else if (content.type === 'thinking' && content.thinking) {
-                    messages.push({
-                      uuid: entry.uuid,
-                      role,
-                      content: content.thinking,
-                      timestamp,
-                      type: 'thinking',
-                    });
-                  }
-                }
-              }
-            }
-          }
+          entries.push(JSON.parse(line));
         } catch (error) {
           // Skip invalid JSON lines
           continue;
         }
       }
 
+      const tree = buildConversationTree(entries);
+      const branches = listBranches(tree);
+      const branch = branchId ? branches.find(b => b.id === branchId) : branches[0];
+      if (!branch) {
+        return { messages: [], branches, pageInfo: getFullPageInfo([]), markers: [] };
+      }
+
+      const messages = fillMissingTimestamps(getBranchEntries(tree, branch.id).flatMap(entry => this.parseEntry(entry)));
+
       // Sort messages by timestamp
       messages.sort((a, b) => a.timestamp - b.timestamp);
 
-      // console.log(`[ConversationLoader] Loaded ${messages.length} messages for ${sessionId}`);
+      // console.log(`[ConversationLoader] Loaded ${messages.length} messages for ${label}`);
 
-      return messages;
+      const chatMessages = this.attachToolResults(messages);
+      return {
+        messages: chatMessages,
+        branches,
+        branchId: branch.id,
+        pageInfo: getFullPageInfo(chatMessages),
+        markers: collectMarkers(chatMessages),
+      };
     } catch (error) {
-      console.error(`[ConversationLoader] Error loading conversation for ${sessionId}:`, error);
-      return messages;
+      console.error(`[ConversationLoader] Error loading conversation for ${label}:`, error);
+      return { messages: [], branches: [], pageInfo: getFullPageInfo([]), markers: [] };
     }
   }
 
   /**
-   * Load only the last N messages from the end of the file (efficient for large files)
+   * Convert a transcript entry into chat messages (one per renderable content block)
    */
-  private async loadConversationTail(
-    sessionId: string,
-    projectPath: string,
-    limit: number
-  ): Promise<ChatMessage[]> {
+  private parseEntry(entry: ConversationMessage): ChatMessage[] {
     const messages: ChatMessage[] = [];
 
-    try {
-      const normalizedPath = normalizePath(projectPath);
-      const projectSlug = generateProjectSlug(normalizedPath);
-      const conversationFile = path.join(this.projectsDir, projectSlug, `${sessionId}.jsonl`);
-
-      // Check if file exists
-      try {
-        await fs.access(conversationFile);
-      } catch {
-        return messages;
+    // Summaries and compaction boundaries render as dividers in the timeline
+    if (entry.type === 'summary') {
+      if (entry.summary?.trim()) {
+        messages.push({
+          uuid: `summary:${entry.leafUuid ?? ''}`,
+          role: 'assistant',
+          content: entry.summary,
+          timestamp: NaN, // Filled in from the neighbouring messages
+          type: 'summary',
+        });
       }
+      return messages;
+    }
+    if (entry.type === 'system' && entry.subtype === 'compact_boundary') {
+      messages.push({
+        uuid: entry.uuid,
+        role: 'assistant',
+        content: entry.content || '',
+        timestamp: new Date(entry.timestamp).getTime(),
+        type: 'compact_boundary',
+        compaction: {
+          ...(entry.compactMetadata?.trigger && { trigger: entry.compactMetadata.trigger }),
+          ...(typeof entry.compactMetadata?.preTokens === 'number' && { preTokens: entry.compactMetadata.preTokens }),
+        },
+      });
+      return messages;
+    }
 
-      // Get file stats to determine size
-      const stats = await fs.stat(conversationFile);
-      const fileSize = stats.size;
+    // Only process user and assistant messages
+    if (entry.type !== 'user' && !(entry.type === 'assistant' && entry.message)) {
+      return messages;
+    }
+    if (!entry.message?.content) {
+      return messages;
+    }
 
-      // For files smaller than 1MB, just read normally and slice
-      if (fileSize < 1024 * 1024) {
-        const allMessages = await this.loadConversationFull(sessionId, projectPath);
-        return allMessages.slice(-limit);
+    const role = entry.type === 'user' ? 'user' : 'assistant';
+    const timestamp = new Date(entry.timestamp).getTime();
+    // The summary written at compaction is recorded as a user prompt
+    const textType = entry.isCompactSummary ? 'compact_summary' : 'text';
+
+    // Simple string content
+    if (typeof entry.message.content === 'string') {
+      if (entry.message.content.trim()) {
+        messages.push({
+          uuid: entry.uuid,
+          role,
+          content: entry.message.content,
+          timestamp,
+          type: textType,
+        });
       }
+      return messages;
+    }
 
-      // For large files, read from end using buffer
-      const chunkSize = 64 * 1024; // 64KB chunks
-      const buffer = Buffer.alloc(chunkSize);
-      const lines: string[] = [];
-
-      // Open file for reading
-      const fd = await fs.open(conversationFile, 'r');
-
-      try {
-        let position = fileSize;
-        let leftover = '';
-
-        // Read chunks from end until we have enough lines
-        while (position > 0 && lines.length < limit * 2) { // *2 to account for non-message lines
-          const readSize = Math.min(chunkSize, position);
-          position -= readSize;
+    if (!Array.isArray(entry.message.content)) {
+      return messages;
+    }
 
-          const { bytesRead } = await fd.read(buffer, 0, readSize, position);
-          const chunk = buffer.toString('utf-8', 0, bytesRead);
+    // Array of content blocks
+    entry.message.content.forEach((content, index) => {
+      if (content.type === 'text' && content.text) {
+        messages.push({
+          uuid: entry.uuid,
+          role,
+          content: content.text,
+          timestamp,
+          type: textType,
+        });
+      } else if (content.type === 'thinking' && content.thinking) {
+        messages.push({
+          uuid: entry.uuid,
+          role,
+          content: content.thinking,
+          timestamp,
+          type: 'thinking',
+        });
+      } else if (content.type === 'tool_use' && content.id && content.name) {
+        const input = content.input || {};
+        messages.push({
+          uuid: entry.uuid,
+          role,
+          content: JSON.stringify(input, null, 2),
+          timestamp,
+          type: 'tool_use',
+          toolCall: {
+            id: content.id,
+            name: content.name,
+            input,
+          },
+        });
+      } else if (content.type === 'tool_result' && content.tool_use_id) {
+        const resultContent = this.flattenToolResultContent(content.content);
+        const agentId = this.getResultAgentId(entry);
+        messages.push({
+          uuid: entry.uuid,
+          role,
+          content: resultContent,
+          timestamp,
+          type: 'tool_result',
+          toolResult: {
+            toolUseId: content.tool_use_id,
+            content: resultContent,
+            isError: content.is_error === true,
+            timestamp,
+            ...(agentId && { agentId }),
+          },
+        });
+      } else if (content.type === 'image' && content.source?.type === 'base64') {
+        // The data is served separately so sessions stay small
+        messages.push({
+          uuid: entry.uuid,
+          role,
+          content: '',
+          timestamp,
+          type: 'image',
+          image: { index, mediaType: content.source.media_type },
+        });
+      }
+    });
 
-          // Combine with leftover from previous chunk
-          const combined = chunk + leftover;
-          const chunkLines = combined.split('\n');
+    return messages;
+  }
 
-          // Save first part as leftover (incomplete line)
-          leftover = chunkLines.shift() || '';
+  /**
+   * Agent id reported by a Task tool result (entry.toolUseResult.agentId)
+   */
+  private getResultAgentId(entry: ConversationMessage): string | undefined {
+    const result = entry.toolUseResult;
+    if (result && typeof result === 'object' && 'agentId' in result) {
+      const agentId = (result as { agentId?: unknown }).agentId;
+      return typeof agentId === 'string' ? agentId : undefined;
+    }
+    return undefined;
+  }
 
-          // Add remaining lines to our collection
-          lines.unshift(...chunkLines.filter(line => line.trim()));
-        }
+  /**
+   * Flatten tool_result content (string or nested blocks) into plain text
+   */
+  private flattenToolResultContent(content: ContentBlock['content']): string {
+    if (!content) return '';
+    if (typeof content === 'string') return content;
+
+    return content
+      .map(block => {
+        if (block.type === 'text') return block.text || '';
+        if (block.type === 'image') return '[image]';
+        return '';
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
 
-        // Add any remaining leftover
-        if (leftover.trim()) {
-          lines.unshift(leftover);
-        }
-      } finally {
-        await fd.close();
+  /**
+   * Pair tool_result messages with their tool_use message by tool_use id.
+   * Paired results are folded into the tool_use message; results whose
+   * tool_use is not in the loaded range are kept as standalone messages.
+   */
+  private attachToolResults(messages: ChatMessage[]): ChatMessage[] {
+    const toolCalls = new Map<string, ChatMessage>();
+    for (const message of messages) {
+      if (message.type === 'tool_use' && message.toolCall) {
+        toolCalls.set(message.toolCall.id, message);
       }
+    }
 
-      // Parse lines from end
-      const lineCount = Math.min(lines.length, limit * 2);
-      for (let i = lines.length - 1; i >= lines.length - lineCount && messages.length < limit; i--) {
-        const line = lines[i];
-        if (!line.trim()) continue;
-
-        try {
-          const entry: ConversationMessage = JSON.parse(line);
-
-          if (entry.type === 'user' || (entry.type === 'assistant' && entry.message)) {
-            const role = entry.type === 'user' ? 'user' : 'assistant';
-            const timestamp = new Date(entry.timestamp).getTime();
-
-            if (entry.message?.content) {
-              if (typeof entry.message.content === 'string') {
-                if (entry.message.content.trim()) {
-                  messages.unshift({
-                    uuid: entry.uuid,
-                    role,
-                    content: entry.message.content,
-                    timestamp,
-                    type: 'text',
-                  });
-                }
-              } else if (Array.isArray(entry.message.content)) {
-                for (const content of entry.message.content) {
-                  if (content.type === 'text' && content.text) {
-                    messages.unshift({
-                      uuid: entry.uuid,
-                      role,
-                      content: content.text,
-                      timestamp,
-                      type: 'text',
-                    });
-                  } else if (content.type === 'thinking' && content.thinking) {
-                    messages.unshift({
-                      uuid: entry.uuid,
-                      role,
-                      content: content.thinking,
-                      timestamp,
-                      type: 'thinking',
-                    });
-                  }
-                }
-              }
-            }
-          }
-        } catch {
-          // Skip invalid JSON lines
-          continue;
-        }
+    return messages.filter(message => {
+      if (message.type !== 'tool_result' || !message.toolResult) {
+        return true;
       }
 
-      // Ensure final sort by timestamp
-      messages.sort((a, b) => a.timestamp - b.timestamp);
-
-      console.log(`[ConversationLoader] Loaded last ${messages.length} messages (tail read) for ${sessionId}`);
+      const toolUseMessage = toolCalls.get(message.toolResult.toolUseId);
+      if (!toolUseMessage?.toolCall) {
+        return true;
+      }
 
-      return messages;
-    } catch (error) {
-      console.error(`[ConversationLoader] Error loading conversation tail for ${sessionId}:`, error);
-      // Fallback to full load
-      const allMessages = await this.loadConversationFull(sessionId, projectPath);
-      return allMessages.slice(-limit);
-    }
+      toolUseMessage.toolCall.result = message.toolResult;
+      return false;
+    });
   }
 }
@@ -0,0 +1,211 @@
+import type { ConversationMessage, ConversationBranch } from '../../types';
+
+const PREVIEW_MAX_LENGTH = 120;
+
+/**
+ * parentUuid tree of the entries of one transcript file
+ */
+export interface ConversationTree {
+  entries: ConversationMessage[]; // In file order
+  parents: Map<string, string | null>;
+  children: Map<string, string[]>;
+  activeLeaf: string | null; // Last entry written, where the conversation continues
+}
+
+function getKey(entry: ConversationMessage, index: number): string {
+  return entry.uuid || `#${index}`;
+}
+
+/**
+ * True for entries that render as a prompt or reply.
+ * Tool results, system and bookkeeping entries do not count.
+ */
+function isConversationEntry(entry: ConversationMessage): boolean {
+  const content = entry.message?.content;
+  if (!content) return false;
+  if (entry.type === 'assistant') return true;
+  if (entry.type !== 'user') return false;
+  if (typeof content === 'string') return content.trim().length > 0;
+  return content.some(block => block.type === 'text' && block.text?.trim());
+}
+
+function getPromptText(entry: ConversationMessage): string {
+  const content = entry.message?.content;
+  if (!content) return '';
+  const text = typeof content === 'string'
+    ? content
+    : content.filter(block => block.type === 'text' && block.text).map(block => block.text).join('\n');
+  const trimmed = text.trim();
+  return trimmed.length > PREVIEW_MAX_LENGTH ? trimmed.slice(0, PREVIEW_MAX_LENGTH) + '...' : trimmed;
+}
+
+/**
+ * Build the entry tree of a transcript.
+ * Sidechain entries are left out unless the file only contains sidechains (subagent transcripts).
+ * Entries whose parent is missing from the file (compaction, resumed sessions)
+ * continue from the entry written just before them.
+ */
+export function buildConversationTree(allEntries: ConversationMessage[]): ConversationTree {
+  const hasMainEntries = allEntries.some(entry => !entry.isSidechain);
+  const entries: ConversationMessage[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of allEntries) {
+    if (hasMainEntries && entry.isSidechain) continue;
+    // The same entry can be written twice; keep the first copy
+    if (entry.uuid && seen.has(entry.uuid)) continue;
+    if (entry.uuid) seen.add(entry.uuid);
+    entries.push(entry);
+  }
+
+  const keys = entries.map(getKey);
+  const known = new Set(keys);
+  const parents = new Map<string, string | null>();
+  const children = new Map<string, string[]>();
+
+  entries.forEach((entry, index) => {
+    const key = keys[index];
+    const declared = entry.parentUuid ?? entry.logicalParentUuid ?? null;
+    const parent = declared && declared !== key && known.has(declared)
+      ? declared
+      : index > 0 ? keys[index - 1] : null;
+
+    parents.set(key, parent);
+    if (parent) {
+      children.set(parent, [...(children.get(parent) || []), key]);
+    }
+  });
+
+  return {
+    entries,
+    parents,
+    children,
+    activeLeaf: keys.length > 0 ? keys[keys.length - 1] : null,
+  };
+}
+
+// Entries from the root down to (and including) the given entry
+function getPath(tree: ConversationTree, leaf: string): string[] {
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let current: string | null = leaf;
+
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    path.push(current);
+    current = tree.parents.get(current) ?? null;
+  }
+
+  return path.reverse();
+}
+
+function getEntriesByKey(tree: ConversationTree): Map<string, ConversationMessage> {
+  return new Map(tree.entries.map((entry, index) => [getKey(entry, index), entry]));
+}
+
+/**
+ * True when the subtree below an entry holds no prompt or reply,
+ * e.g. a tool result recorded next to the branch rather than on it
+ */
+function isTrivialSubtree(
+  tree: ConversationTree,
+  byKey: Map<string, ConversationMessage>,
+  root: string
+): boolean {
+  const stack = [root];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const key = stack.pop()!;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const entry = byKey.get(key);
+    if (entry && isConversationEntry(entry)) return false;
+    stack.push(...(tree.children.get(key) || []));
+  }
+
+  return true;
+}
+
+/**
+ * Entries of the branch ending at `leaf`, in file order.
+ * Trivial side subtrees hanging off the branch are kept so no tool output goes missing.
+ */
+export function getBranchEntries(tree: ConversationTree, leaf: string): ConversationMessage[] {
+  const byKey = getEntriesByKey(tree);
+  const included = new Set(getPath(tree, leaf));
+
+  for (const key of Array.from(included)) {
+    for (const child of tree.children.get(key) || []) {
+      if (included.has(child) || !isTrivialSubtree(tree, byKey, child)) continue;
+
+      const stack = [child];
+      while (stack.length > 0) {
+        const descendant = stack.pop()!;
+        if (included.has(descendant)) continue;
+        included.add(descendant);
+        stack.push(...(tree.children.get(descendant) || []));
+      }
+    }
+  }
+
+  return tree.entries.filter((entry, index) => included.has(getKey(entry, index)));
+}
+
+/**
+ * The active branch followed by every alternate branch, ordered by where they fork off.
+ * Each leaf of the tree outside the active branch is an alternate branch,
+ * unless the part after its fork point holds no prompt or reply.
+ */
+export function listBranches(tree: ConversationTree): ConversationBranch[] {
+  if (!tree.activeLeaf) return [];
+
+  const byKey = getEntriesByKey(tree);
+  const getTimestamp = (key: string) => new Date(byKey.get(key)?.timestamp ?? 0).getTime();
+  const activePath = getPath(tree, tree.activeLeaf);
+  const activePosition = new Map(activePath.map((key, index) => [key, index]));
+
+  const describe = (segment: string[], forkUuid: string | null, leaf: string): ConversationBranch => {
+    const conversationEntries = segment
+      .map(key => byKey.get(key))
+      .filter((entry): entry is ConversationMessage => !!entry && isConversationEntry(entry));
+    const firstPrompt = conversationEntries.find(entry => entry.type === 'user') ?? conversationEntries[0];
+
+    return {
+      id: leaf,
+      forkUuid,
+      isActive: forkUuid === null,
+      messageCount: conversationEntries.length,
+      preview: firstPrompt ? getPromptText(firstPrompt) : '',
+      startedAt: getTimestamp(segment[0]),
+      updatedAt: getTimestamp(leaf),
+    };
+  };
+
+  const alternates: Array<{ branch: ConversationBranch; forkPosition: number }> = [];
+
+  tree.entries.forEach((entry, index) => {
+    const key = getKey(entry, index);
+    if (key === tree.activeLeaf || (tree.children.get(key) || []).length > 0) return;
+
+    const path = getPath(tree, key);
+    let forkIndex = path.length - 1;
+    while (forkIndex >= 0 && !activePosition.has(path[forkIndex])) {
+      forkIndex--;
+    }
+    if (forkIndex < 0) return;
+
+    const segment = path.slice(forkIndex + 1);
+    if (segment.every(segmentKey => !isConversationEntry(byKey.get(segmentKey)!))) return;
+
+    alternates.push({
+      branch: describe(segment, path[forkIndex], key),
+      forkPosition: activePosition.get(path[forkIndex])!,
+    });
+  });
+
+  alternates.sort((a, b) => a.forkPosition - b.forkPosition || a.branch.startedAt - b.branch.startedAt);
+
+  return [describe(activePath, null, tree.activeLeaf), ...alternates.map(({ branch }) => branch)];
+}
@@ -0,0 +1,122 @@
+import type { ConversationMessage, ContentBlock, DiffHunk, FileChange, FileEdit } from '../../types';
+import { countChangedLines, createHunks, diffLines, formatUnifiedDiff } from '../../utils/diffUtils';
+
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write']);
+
+interface ToolOutcome {
+  isError: boolean;
+  toolUseResult?: Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function isHunk(value: unknown): value is DiffHunk {
+  if (!value || typeof value !== 'object') return false;
+  const hunk = value as Record<string, unknown>;
+  return typeof hunk.oldStart === 'number'
+    && typeof hunk.oldLines === 'number'
+    && typeof hunk.newStart === 'number'
+    && typeof hunk.newLines === 'number'
+    && Array.isArray(hunk.lines)
+    && hunk.lines.every(line => typeof line === 'string');
+}
+
+/**
+ * Patch recorded by Claude Code in the tool result; it has real line numbers of the file
+ */
+function getRecordedHunks(toolUseResult?: Record<string, unknown>): DiffHunk[] | undefined {
+  const patch = toolUseResult?.structuredPatch;
+  if (!Array.isArray(patch) || !patch.every(isHunk)) return undefined;
+  return patch.map(hunk => ({ ...hunk, lines: [...hunk.lines] }));
+}
+
+/**
+ * Rebuild hunks from the tool input when no patch was recorded.
+ * Edit snippets have no known position in the file, so their line numbers start at 1.
+ */
+function getInputHunks(block: ContentBlock, toolUseResult?: Record<string, unknown>): DiffHunk[] {
+  const input = block.input || {};
+
+  if (block.name === 'Write') {
+    const original = asString(toolUseResult?.originalFile) ?? '';
+    return createHunks(diffLines(original, asString(input.content) ?? ''));
+  }
+
+  const edits = block.name === 'MultiEdit' && Array.isArray(input.edits)
+    ? (input.edits as Array<Record<string, unknown>>)
+    : [input];
+  return edits.flatMap(edit => createHunks(diffLines(asString(edit.old_string) ?? '', asString(edit.new_string) ?? '')));
+}
+
+function collectToolOutcomes(entries: ConversationMessage[]): Map<string, ToolOutcome> {
+  const outcomes = new Map<string, ToolOutcome>();
+
+  for (const entry of entries) {
+    const content = entry.message?.content;
+    if (entry.type !== 'user' || !Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type !== 'tool_result' || !block.tool_use_id) continue;
+      const toolUseResult = entry.toolUseResult && typeof entry.toolUseResult === 'object'
+        ? (entry.toolUseResult as Record<string, unknown>)
+        : undefined;
+      outcomes.set(block.tool_use_id, { isError: !!block.is_error, toolUseResult });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Files touched by the Edit, MultiEdit and Write calls of a conversation,
+ * in the order they were first touched, each with a unified diff per call
+ */
+export function extractFileChanges(entries: ConversationMessage[]): FileChange[] {
+  const outcomes = collectToolOutcomes(entries);
+  const files = new Map<string, FileChange>();
+
+  for (const entry of entries) {
+    const content = entry.message?.content;
+    if (entry.type !== 'assistant' || !Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type !== 'tool_use' || !block.id || !block.name || !FILE_EDIT_TOOLS.has(block.name)) continue;
+      const filePath = asString(block.input?.file_path);
+      if (!filePath) continue;
+
+      const outcome = outcomes.get(block.id);
+      const toolUseResult = outcome?.toolUseResult;
+      const hunks = getRecordedHunks(toolUseResult) ?? getInputHunks(block, toolUseResult);
+      const isNewFile = block.name === 'Write' && toolUseResult?.type === 'create';
+      const isError = outcome?.isError ?? false;
+      const { linesAdded, linesRemoved } = countChangedLines(hunks);
+
+      const edit: FileEdit = {
+        toolUseId: block.id,
+        toolName: block.name,
+        messageUuid: entry.uuid,
+        timestamp: new Date(entry.timestamp).getTime(),
+        diff: formatUnifiedDiff(filePath, hunks, isNewFile),
+        linesAdded,
+        linesRemoved,
+        isNewFile,
+        isError,
+      };
+
+      let file = files.get(filePath);
+      if (!file) {
+        file = { filePath, edits: [], linesAdded: 0, linesRemoved: 0 };
+        files.set(filePath, file);
+      }
+      file.edits.push(edit);
+      if (!isError) {
+        file.linesAdded += linesAdded;
+        file.linesRemoved += linesRemoved;
+      }
+    }
+  }
+
+  return Array.from(files.values());
+}
@@ -59,3 +59,30 @@ export function projectSlugToPath(slug: string): string {
   // Otherwise treat as relative path (replace dashes with slashes)
   return slug.replace(/-/g, '/');
 }
+
+const AGENT_FILE_REGEX = /^agent-(.+)\.jsonl$/;
+
+/**
+ * Extract the agent id from a subagent transcript file name (agent-<id>.jsonl)
+ */
+export function parseAgentFileName(fileName: string): string | null {
+  const match = AGENT_FILE_REGEX.exec(fileName);
+  return match ? match[1] : null;
+}
+
+/**
+ * Possible locations of a subagent transcript: next to the session file
+ * (older layout) or in the session's subagents directory
+ */
+export function getAgentFileCandidates(
+  projectsDir: string,
+  projectSlug: string,
+  sessionId: string,
+  agentId: string
+): string[] {
+  const fileName = `agent-${agentId}.jsonl`;
+  return [
+    path.join(projectsDir, projectSlug, sessionId, 'subagents', fileName),
+    path.join(projectsDir, projectSlug, fileName),
+  ];
+}
@@ -2,9 +2,24 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createReadStream } from 'fs';
 import readline from 'readline';
-import type { Session, Project, ConversationMessage, SessionInput, ContentBlock } from '../../types';
-import { normalizePath, projectSlugToPath } from './PathUtils';
+import type {
+  Session,
+  Project,
+  ConversationMessage,
+  SessionInput,
+  ContentBlock,
+  SessionTokenUsage,
+  TokenCounts,
+  TokenUsageBucket,
+  AgentSessionSummary,
+  SessionMetadata,
+  SessionActivity,
+} from '../../types';
+import { normalizePath, projectSlugToPath, parseAgentFileName } from './PathUtils';
+import { createEmptyTokenCounts, usageToTokenCounts, addTokenCounts } from '../../utils/tokenUtils';
 import type { SessionCache } from './SessionCache';
+import { recordMetadata } from './SessionMetadata';
+import { getActivePeriods, getActiveTimeMs } from './ActiveTime';
 
 export interface ProjectScannerDependencies {
   projectsDir: string;
@@ -17,6 +32,52 @@ export interface SessionInfo {
   messageCount: number;
   projectPath?: string;
   inputs: SessionInput[];
+  tokenUsage: SessionTokenUsage;
+  metadata: SessionMetadata;
+  activity: SessionActivity;
+}
+
+// Subagent summaries are re-read only when their file changes
+interface AgentFileCacheEntry {
+  mtime: number;
+  size: number;
+  summary: AgentSessionSummary | null;
+}
+
+const AGENT_PROMPT_LENGTH = 500;
+const QUARTER_HOUR = 15 * 60 * 1000;
+
+// Latest usage block of an assistant response, dated by the response's first line
+interface MessageUsageEntry {
+  model: string;
+  counts: TokenCounts;
+  timestamp: number;
+}
+
+/**
+ * Normalize a subagent prompt for display and for matching against Task tool inputs
+ */
+export function toAgentPrompt(text: string): string {
+  return text.trim().slice(0, AGENT_PROMPT_LENGTH);
+}
+
+/**
+ * Transcript inputs with the pasted contents of the matching history inputs; only
+ * history.jsonl keeps what was pasted
+ */
+export function mergePastedContents(inputs: SessionInput[], historyInputs: SessionInput[] = []): SessionInput[] {
+  const pastesByInput = new Map<string, SessionInput['pastedContents']>();
+  for (const input of historyInputs) {
+    if (input.pastedContents) {
+      pastesByInput.set(`${input.timestamp}:${input.display}`, input.pastedContents);
+    }
+  }
+  if (pastesByInput.size === 0) return inputs;
+
+  return inputs.map(input => {
+    const pastedContents = pastesByInput.get(`${input.timestamp}:${input.display}`);
+    return pastedContents ? { ...input, pastedContents } : input;
+  });
 }
 
 export interface ScanResult {
@@ -32,6 +93,7 @@ export interface ScanResult {
 export class ProjectScanner {
   private projectsDir: string;
   private cache: SessionCache;
+  private agentFileCache: Map<string, AgentFileCacheEntry> = new Map();
 
   constructor(deps: ProjectScannerDependencies) {
     this.projectsDir = deps.projectsDir;
@@ -69,7 +131,9 @@ export class ProjectScanner {
 
         // Get all jsonl files in this project directory
         const files = await fs.readdir(projectFullPath);
-        const jsonlFiles = files.filter(f => f.endsWith('.jsonl') && !f.includes('subagents'));
+        const jsonlFiles = files.filter(
+          f => f.endsWith('.jsonl') && !f.includes('subagents') && !parseAgentFileName(f)
+        );
 
         for (const file of jsonlFiles) {
           const sessionId = file.replace('.jsonl', '');
@@ -103,14 +167,18 @@ export class ProjectScanner {
               sessionId: sessionId,
               project: normalizedProjectPath,
               projectSlug: projectSlug,
-              inputs: sessionInfo.inputs,
+              inputs: mergePastedContents(sessionInfo.inputs, existingSession?.inputs),
               messages: existingSession?.messages || [], // Preserve loaded messages
               createdAt: sessionInfo.timestamp,
               updatedAt: sessionInfo.timestamp,
               inputCount: sessionInfo.inputCount,
               messageCount: sessionInfo.messageCount,
+              tokenUsage: sessionInfo.tokenUsage,
+              metadata: sessionInfo.metadata,
+              activeTimeMs: getActiveTimeMs(sessionInfo.activity.activePeriods),
             };
             sessions.set(sessionId, session);
+            this.cache.setSessionActivity(sessionId, sessionInfo.activity);
 
             // Update project info
             let project = projects.get(normalizedProjectPath);
@@ -146,6 +214,7 @@ export class ProjectScanner {
           if (sessions.has(fileName)) {
             sessions.delete(fileName);
             this.cache.removeFileCache(filePath);
+            this.cache.removeSessionActivity(fileName);
             result.removed++;
           }
         }
@@ -201,7 +270,9 @@ export class ProjectScanner {
 
         // Get all jsonl files in this project directory
         const files = await fs.readdir(projectFullPath);
-        const jsonlFiles = files.filter(f => f.endsWith('.jsonl') && !f.includes('subagents'));
+        const jsonlFiles = files.filter(
+          f => f.endsWith('.jsonl') && !f.includes('subagents') && !parseAgentFileName(f)
+        );
 
         for (const file of jsonlFiles) {
           const sessionId = file.replace('.jsonl', '');
@@ -230,8 +301,12 @@ export class ProjectScanner {
               updatedAt: sessionInfo.timestamp,
               inputCount: sessionInfo.inputCount,
               messageCount: sessionInfo.messageCount,
+              tokenUsage: sessionInfo.tokenUsage,
+              metadata: sessionInfo.metadata,
+              activeTimeMs: getActiveTimeMs(sessionInfo.activity.activePeriods),
             };
             sessions.set(sessionId, session);
+            this.cache.setSessionActivity(sessionId, sessionInfo.activity);
 
             // Update project info - use normalized path as key
             let project = projects.get(normalizedProjectPath);
@@ -258,6 +333,172 @@ export class ProjectScanner {
     }
   }
 
+  /**
+   * Find subagent transcripts and attach their summaries to the parent sessions.
+   * Looks for agent-<id>.jsonl next to session files and in <sessionId>/subagents/.
+   */
+  async scanAgentSessions(sessions: Map<string, Session>): Promise<void> {
+    const currentFiles = new Set<string>();
+    const summaries: AgentSessionSummary[] = [];
+
+    try {
+      let projectDirs;
+      try {
+        projectDirs = await fs.readdir(this.projectsDir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const dir of projectDirs) {
+        if (!dir.isDirectory()) continue;
+
+        const projectFullPath = path.join(this.projectsDir, dir.name);
+        const entries = await fs.readdir(projectFullPath, { withFileTypes: true });
+
+        for (const entry of entries) {
+          if (entry.isFile() && parseAgentFileName(entry.name)) {
+            currentFiles.add(path.join(projectFullPath, entry.name));
+          } else if (entry.isDirectory()) {
+            const subagentsDir = path.join(projectFullPath, entry.name, 'subagents');
+            let agentFiles: string[];
+            try {
+              agentFiles = await fs.readdir(subagentsDir);
+            } catch {
+              continue;
+            }
+            for (const file of agentFiles) {
+              if (parseAgentFileName(file)) {
+                currentFiles.add(path.join(subagentsDir, file));
+              }
+            }
+          }
+        }
+      }
+
+      for (const filePath of currentFiles) {
+        const summary = await this.getAgentSummary(filePath);
+        if (summary) {
+          summaries.push(summary);
+        }
+      }
+
+      // Forget deleted agent files
+      for (const filePath of Array.from(this.agentFileCache.keys())) {
+        if (!currentFiles.has(filePath)) {
+          this.agentFileCache.delete(filePath);
+        }
+      }
+    } catch (error) {
+      console.error('[ProjectScanner] Error scanning agent sessions:', error);
+    }
+
+    for (const session of sessions.values()) {
+      session.agentSessions = undefined;
+    }
+    for (const summary of summaries.sort((a, b) => a.startedAt - b.startedAt)) {
+      const parent = sessions.get(summary.parentSessionId);
+      if (parent) {
+        parent.agentSessions = [...(parent.agentSessions || []), summary];
+      }
+    }
+  }
+
+  /**
+   * Read (or reuse) the summary of a subagent transcript
+   */
+  private async getAgentSummary(filePath: string): Promise<AgentSessionSummary | null> {
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch {
+      return null;
+    }
+
+    const mtime = Math.floor(stats.mtimeMs);
+    const cached = this.agentFileCache.get(filePath);
+    if (cached && cached.mtime === mtime && cached.size === stats.size) {
+      return cached.summary;
+    }
+
+    const summary = await this.getAgentInfoFromFile(filePath);
+    this.agentFileCache.set(filePath, { mtime, size: stats.size, summary });
+    return summary;
+  }
+
+  private async getAgentInfoFromFile(filePath: string): Promise<AgentSessionSummary | null> {
+    const agentId = parseAgentFileName(path.basename(filePath));
+    if (!agentId) return null;
+
+    // In the subagents layout the parent session id is the directory name
+    const parentDir = path.dirname(filePath);
+    let parentSessionId = path.basename(parentDir) === 'subagents'
+      ? path.basename(path.dirname(parentDir))
+      : null;
+
+    try {
+      const fileStream = createReadStream(filePath, { encoding: 'utf-8' });
+      const rl = readline.createInterface({
+        input: fileStream,
+        crlfDelay: Infinity,
+      });
+
+      let prompt = '';
+      let messageCount = 0;
+      let startedAt: number | null = null;
+      let endedAt: number | null = null;
+
+      for await (const line of rl) {
+        if (!line.trim()) continue;
+
+        try {
+          const entry: ConversationMessage = JSON.parse(line);
+
+          if (!parentSessionId && entry.sessionId) {
+            parentSessionId = entry.sessionId;
+          }
+
+          if (entry.timestamp) {
+            const ts = new Date(entry.timestamp).getTime();
+            if (startedAt === null || ts < startedAt) startedAt = ts;
+            if (endedAt === null || ts > endedAt) endedAt = ts;
+          }
+
+          if (!entry.message) continue;
+          messageCount++;
+
+          // The first user message is the prompt passed to the Task tool
+          if (!prompt && entry.type === 'user') {
+            const content = entry.message.content;
+            prompt = typeof content === 'string'
+              ? content
+              : Array.isArray(content)
+                ? content.filter(c => c.type === 'text' && c.text).map(c => c.text).join('\n')
+                : '';
+          }
+        } catch {
+          // Skip invalid lines
+        }
+      }
+
+      if (!parentSessionId || startedAt === null || endedAt === null) {
+        return null;
+      }
+
+      return {
+        agentId,
+        parentSessionId,
+        prompt: toAgentPrompt(prompt),
+        messageCount,
+        startedAt,
+        endedAt,
+        durationMs: endedAt - startedAt,
+      };
+    } catch (error) {
+      console.error(`[ProjectScanner] Error reading agent file ${filePath}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Get session info from a jsonl file
    */
@@ -278,6 +519,11 @@ export class ProjectScanner {
       let messageCount = 0;
       let projectPath: string | undefined;
       const inputs: SessionInput[] = [];
+      // Assistant responses are split across several lines sharing one message id,
+      // each repeating the usage block - keep only the latest usage per message
+      const usageByMessage = new Map<string, MessageUsageEntry>();
+      const metadata: SessionMetadata = {};
+      const timestamps: number[] = [];
 
       for await (const line of rl) {
         if (!line.trim()) continue;
@@ -292,6 +538,7 @@ export class ProjectScanner {
 
           if (entry.timestamp) {
             const ts = new Date(entry.timestamp).getTime();
+            timestamps.push(ts);
             if (!firstTimestamp || ts < firstTimestamp) {
               firstTimestamp = ts;
             }
@@ -300,6 +547,21 @@ export class ProjectScanner {
             }
           }
 
+          recordMetadata(metadata, entry);
+
+          // Collect token usage from assistant responses
+          if (entry.type === 'assistant' && entry.message?.usage) {
+            const model = entry.message.model || 'unknown';
+            if (model !== '<synthetic>') {
+              const key = entry.message.id || entry.uuid;
+              usageByMessage.set(key, {
+                model,
+                counts: usageToTokenCounts(entry.message.usage),
+                timestamp: usageByMessage.get(key)?.timestamp ?? new Date(entry.timestamp).getTime(),
+              });
+            }
+          }
+
           // Count all valid messages
           if (entry.message) {
             messageCount++;
@@ -341,12 +603,16 @@ export class ProjectScanner {
       }
 
       if (firstTimestamp) {
+        const { tokenUsage, tokenTimeline } = this.summarizeTokenUsage(usageByMessage.values());
         return {
           timestamp: lastTimestamp || firstTimestamp,
           inputCount,
           messageCount,
           projectPath,
           inputs,
+          tokenUsage,
+          metadata,
+          activity: { tokenTimeline, activePeriods: getActivePeriods(timestamps) },
         };
       }
 
@@ -356,4 +622,33 @@ export class ProjectScanner {
       return null;
     }
   }
+
+  /**
+   * Aggregate per-message usage into session totals, a per-model breakdown and
+   * quarter-hour buckets for per-day statistics
+   */
+  private summarizeTokenUsage(
+    entries: Iterable<MessageUsageEntry>
+  ): { tokenUsage: SessionTokenUsage; tokenTimeline: TokenUsageBucket[] } {
+    const total = createEmptyTokenCounts();
+    const byModel: Record<string, TokenCounts> = {};
+    const buckets = new Map<number, TokenUsageBucket>();
+
+    for (const { model, counts, timestamp } of entries) {
+      addTokenCounts(total, counts);
+      byModel[model] = addTokenCounts(byModel[model] || createEmptyTokenCounts(), counts);
+
+      if (Number.isNaN(timestamp)) continue;
+      const start = Math.floor(timestamp / QUARTER_HOUR) * QUARTER_HOUR;
+      let bucket = buckets.get(start);
+      if (!bucket) {
+        bucket = { start, byModel: {} };
+        buckets.set(start, bucket);
+      }
+      bucket.byModel[model] = addTokenCounts(bucket.byModel[model] || createEmptyTokenCounts(), counts);
+    }
+
+    const tokenTimeline = Array.from(buckets.values()).sort((a, b) => a.start - b.start);
+    return { tokenUsage: { total, byModel }, tokenTimeline };
+  }
 }
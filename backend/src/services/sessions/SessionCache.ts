@@ -1,4 +1,4 @@
-import type { Session, Project } from '../../types';
+import type { Session, Project, SessionActivity } from '../../types';
 
 export interface CacheStats {
   sessionsCount: number;
@@ -19,6 +19,7 @@ export class SessionCache {
   private sessionsCache: Map<string, Session> = new Map();
   private projectsCache: Map<string, Project> = new Map();
   private fileCache: Map<string, FileCacheEntry> = new Map();
+  private activityCache: Map<string, SessionActivity> = new Map();
   private lastModifiedTime: number = 0;
   private lastScanTime: number = 0;
 
@@ -98,6 +99,7 @@ export class SessionCache {
     this.sessionsCache.clear();
     this.projectsCache.clear();
     this.fileCache.clear();
+    this.activityCache.clear();
     this.lastModifiedTime = 0;
     this.lastScanTime = 0;
   }
@@ -184,5 +186,27 @@ export class SessionCache {
    */
   removeSession(sessionId: string): void {
     this.sessionsCache.delete(sessionId);
+    this.activityCache.delete(sessionId);
+  }
+
+  /**
+   * Get the activity of all scanned sessions
+   */
+  getAllSessionActivity(): Map<string, SessionActivity> {
+    return new Map(this.activityCache);
+  }
+
+  /**
+   * Set the activity of a scanned session
+   */
+  setSessionActivity(sessionId: string, activity: SessionActivity): void {
+    this.activityCache.set(sessionId, activity);
+  }
+
+  /**
+   * Remove the activity of a session whose transcript is gone
+   */
+  removeSessionActivity(sessionId: string): void {
+    this.activityCache.delete(sessionId);
   }
 }
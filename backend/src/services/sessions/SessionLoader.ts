@@ -1,12 +1,31 @@
 import { createReadStream } from 'fs';
 import readline from 'readline';
-import type { HistoryEntry, Session, SessionInput, Project } from '../../types';
+import type { HistoryEntry, Session, SessionInput, Project, PastedContent } from '../../types';
 import { normalizePath, generateProjectSlug } from './PathUtils';
 
 export interface SessionLoaderDependencies {
   historyFilePath: string;
 }
 
+/**
+ * Text pastes of a history entry, ordered by id. Image pastes are left out:
+ * their base64 data would bloat every session listing.
+ */
+export function parsePastedContents(pastedContents: HistoryEntry['pastedContents']): PastedContent[] {
+  if (!pastedContents || typeof pastedContents !== 'object') return [];
+
+  return Object.entries(pastedContents)
+    .map(([key, paste]) => ({
+      id: typeof paste?.id === 'number' ? paste.id : Number(key),
+      type: paste?.type,
+      content: paste?.content,
+    }))
+    .filter((paste): paste is { id: number; type: string; content: string } =>
+      paste.type === 'text' && typeof paste.content === 'string' && Number.isFinite(paste.id))
+    .map(({ id, content }) => ({ id, content }))
+    .sort((a, b) => a.id - b.id);
+}
+
 /**
  * Loads sessions from history.jsonl file
  */
@@ -71,6 +90,10 @@ export class SessionLoader {
             display: entry.display || '',
             timestamp: timestampMs,
           };
+          const pastedContents = parsePastedContents(entry.pastedContents);
+          if (pastedContents.length > 0) {
+            input.pastedContents = pastedContents;
+          }
           session.inputs.push(input);
 
           // Update session metadata
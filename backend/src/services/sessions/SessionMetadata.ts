@@ -0,0 +1,46 @@
+import type { ConversationMessage, Session, SessionMetadata, SessionMetadataField } from '../../types';
+
+export const METADATA_FIELDS: SessionMetadataField[] = ['cwd', 'gitBranch', 'version', 'model'];
+
+/**
+ * Required value per metadata field
+ */
+export type SessionMetadataFilter = Partial<Record<SessionMetadataField, string>>;
+
+function getEntryValue(entry: ConversationMessage, field: SessionMetadataField): string | undefined {
+  if (field === 'model') {
+    // Synthetic messages are written by the client, not by a model
+    const model = entry.type === 'assistant' ? entry.message?.model : undefined;
+    return model && model !== '<synthetic>' ? model : undefined;
+  }
+  return entry[field] || undefined;
+}
+
+/**
+ * Record the metadata of a transcript entry, adding a change for every
+ * value that differs from the previous one. Entries must come in file order.
+ */
+export function recordMetadata(metadata: SessionMetadata, entry: ConversationMessage): void {
+  const timestamp = entry.timestamp ? new Date(entry.timestamp).getTime() : NaN;
+  if (isNaN(timestamp)) return;
+
+  for (const field of METADATA_FIELDS) {
+    const value = getEntryValue(entry, field);
+    if (!value) continue;
+
+    const changes = metadata[field] || (metadata[field] = []);
+    if (changes[changes.length - 1]?.value !== value) {
+      changes.push({ value, timestamp });
+    }
+  }
+}
+
+/**
+ * Check whether a session used every value of the filter at some point
+ */
+export function matchesMetadataFilter(session: Pick<Session, 'metadata'>, filter: SessionMetadataFilter): boolean {
+  return METADATA_FIELDS.every(field => {
+    const value = filter[field];
+    return !value || !!session.metadata?.[field]?.some(change => change.value === value);
+  });
+}
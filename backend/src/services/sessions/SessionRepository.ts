@@ -2,12 +2,13 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createReadStream, createWriteStream } from 'fs';
 import readline from 'readline';
-import type { HistoryEntry, Session, Project } from '../../types';
+import type { HistoryEntry, Session, SessionActivity, Project } from '../../types';
 import { SessionCache } from './SessionCache';
 import { SessionLoader } from './SessionLoader';
 import { ProjectScanner } from './ProjectScanner';
 import { ConversationLoader } from './ConversationLoader';
 import { normalizePath, generateProjectSlug } from './PathUtils';
+import type { TrashStore } from '../trash/TrashStore';
 
 export interface SessionRepositoryDependencies {
   historyFilePath: string;
@@ -16,6 +17,7 @@ export interface SessionRepositoryDependencies {
   sessionLoader: SessionLoader;
   projectScanner: ProjectScanner;
   conversationLoader: ConversationLoader;
+  trash?: TrashStore;
 }
 
 /**
@@ -28,6 +30,7 @@ export class SessionRepository {
   private sessionLoader: SessionLoader;
   private projectScanner: ProjectScanner;
   private conversationLoader: ConversationLoader;
+  private trash?: TrashStore;
 
   constructor(deps: SessionRepositoryDependencies) {
     this.historyFilePath = deps.historyFilePath;
@@ -36,6 +39,7 @@ export class SessionRepository {
     this.sessionLoader = deps.sessionLoader;
     this.projectScanner = deps.projectScanner;
     this.conversationLoader = deps.conversationLoader;
+    this.trash = deps.trash;
   }
 
   /**
@@ -61,6 +65,9 @@ export class SessionRepository {
       // Scan projects directory to find sessions not in history.jsonl (incremental)
       await this.projectScanner.scanProjectsDirectoryIncremental(sessions, projects);
 
+      // Attach subagent transcripts to their parent sessions
+      await this.projectScanner.scanAgentSessions(sessions);
+
       // Update caches
       this.cache.setSessions(sessions);
       this.cache.setProjects(projects);
@@ -101,6 +108,14 @@ export class SessionRepository {
       .sort((a, b) => b.updatedAt - a.updatedAt);
   }
 
+  /**
+   * Get the token timeline and active periods of every scanned session
+   */
+  async getSessionActivity(): Promise<Map<string, SessionActivity>> {
+    await this.loadSessions();
+    return this.cache.getAllSessionActivity();
+  }
+
   /**
    * Get all projects sorted by lastActive (descending)
    */
@@ -140,87 +155,190 @@ export class SessionRepository {
   }
 
   /**
-   * Delete a session by removing it from history and deleting its project file
+   * Delete a session by removing it from history and moving its project files to the trash
+   * (or deleting them when no trash is configured)
    */
   async deleteSession(sessionId: string): Promise<boolean> {
+    const results = await this.deleteSessions([sessionId]);
+    return results.get(sessionId) ?? false;
+  }
+
+  /**
+   * Delete several sessions with a single history.jsonl rewrite and cache clear.
+   * Each session becomes its own trash item so it can be restored separately.
+   * Returns whether each session was deleted.
+   */
+  async deleteSessions(sessionIds: string[]): Promise<Map<string, boolean>> {
+    const ids = new Set(sessionIds);
+    const results = new Map<string, boolean>();
+    const sessions = await this.loadSessions();
+
+    // 1. Read the history.jsonl lines of the sessions for their trash items
+    let historyLines = new Map<string, string[]>();
     try {
-      let deleted = false;
-
-      // 1. Delete the session file from projects directory
-      const session = await this.getSessionById(sessionId);
-      if (session) {
-        const projectSlug = session.projectSlug;
-        const sessionFile = path.join(this.projectsDir, projectSlug, `${sessionId}.jsonl`);
-        const subagentsFile = path.join(this.projectsDir, projectSlug, 'subagents', `${sessionId}.jsonl`);
-
-        try {
-          await fs.unlink(sessionFile);
-          console.log(`[SessionRepository] Deleted session file: ${sessionFile}`);
-          deleted = true;
-        } catch {
-          // File might not exist
-        }
+      historyLines = await this.readHistoryEntries(ids);
+    } catch (error) {
+      console.error(`[SessionRepository] Error reading history file:`, error);
+    }
 
-        // Try to delete subagents file if exists
-        try {
-          await fs.unlink(subagentsFile);
-          console.log(`[SessionRepository] Deleted subagents file: ${subagentsFile}`);
-        } catch {
-          // File might not exist
-        }
+    // 2. Move the transcripts, their subagent files and tool results out of the projects directory
+    const deleted = new Set<string>();
+    for (const sessionId of ids) {
+      const session = sessions.get(sessionId);
+      const files = session ? await this.getSessionFiles(session) : [];
+      const lines = historyLines.get(sessionId) ?? [];
+
+      if (files.length === 0 && lines.length === 0) {
+        results.set(sessionId, false);
+        continue;
       }
 
-      // 2. Remove from history.jsonl by creating a filtered version
       try {
-        await fs.access(this.historyFilePath);
-        const tempFilePath = `${this.historyFilePath}.tmp`;
-
-        // Read original file and write filtered content to temp file
-        const readStream = createReadStream(this.historyFilePath, { encoding: 'utf-8' });
-        const writeStream = createWriteStream(tempFilePath, { encoding: 'utf-8' });
-        const rl = readline.createInterface({
-          input: readStream,
-          crlfDelay: Infinity,
-        });
-
-        for await (const line of rl) {
-          if (!line.trim()) continue;
-          try {
-            const entry: HistoryEntry = JSON.parse(line);
-            // Only keep lines that don't match the session to delete
-            if (entry.sessionId !== sessionId) {
-              writeStream.write(line + '\n');
-            }
-          } catch {
-            // Skip invalid JSON lines but keep them to preserve file structure
-            writeStream.write(line + '\n');
+        if (this.trash) {
+          await this.trash.add(
+            {
+              type: 'session',
+              targetId: sessionId,
+              name: session?.inputs[0]?.display.slice(0, 100) || sessionId,
+              project: session?.project,
+              historyLines: lines,
+            },
+            files
+          );
+        } else {
+          for (const file of files) {
+            await fs.rm(file, { recursive: true, force: true });
+            console.log(`[SessionRepository] Deleted: ${file}`);
           }
         }
+        deleted.add(sessionId);
+        results.set(sessionId, true);
+      } catch (error) {
+        console.error(`[SessionRepository] Error deleting session ${sessionId}:`, error);
+        results.set(sessionId, false);
+      }
+    }
 
-        writeStream.end();
-        await new Promise<void>((resolve, reject) => {
-          writeStream.on('finish', resolve);
-          writeStream.on('error', reject);
-        });
-
-        // Replace original file with filtered temp file
-        await fs.rename(tempFilePath, this.historyFilePath);
-        console.log(`[SessionRepository] Removed session ${sessionId} from history`);
-        deleted = true;
+    // 3. Remove only the deleted sessions from history.jsonl, so a failed one is left as it was
+    if (deleted.size > 0) {
+      try {
+        const removed = await this.removeHistoryEntries(deleted);
+        console.log(`[SessionRepository] Removed ${removed.size} sessions from history`);
       } catch (error) {
         console.error(`[SessionRepository] Error updating history file:`, error);
       }
+    }
+
+    // 4. Clear cache to force reload
+    this.cache.clear();
+    return results;
+  }
+
+  /**
+   * Existing files that belong to a session: the transcript, the session directory with
+   * subagent transcripts and tool results, and subagent files of the older flat layout
+   */
+  async getSessionFiles(session: Session): Promise<string[]> {
+    const projectDir = path.join(this.projectsDir, session.projectSlug);
+    const candidates = [
+      path.join(projectDir, `${session.sessionId}.jsonl`),
+      path.join(projectDir, 'subagents', `${session.sessionId}.jsonl`),
+      path.join(projectDir, session.sessionId),
+      ...(session.agentSessions ?? []).map(agent => path.join(projectDir, `agent-${agent.agentId}.jsonl`)),
+    ];
+
+    const files: string[] = [];
+    for (const candidate of candidates) {
+      try {
+        await fs.access(candidate);
+        files.push(candidate);
+      } catch {
+        // File might not exist
+      }
+    }
+    return files;
+  }
 
-      // 3. Clear cache to force reload
-      if (deleted) {
-        this.cache.clear();
+  /**
+   * Rewrite history.jsonl without the entries of the given sessions and return the removed lines by session
+   */
+  private async removeHistoryEntries(sessionIds: Set<string>): Promise<Map<string, string[]>> {
+    await fs.access(this.historyFilePath);
+    const tempFilePath = `${this.historyFilePath}.tmp`;
+    const removed = new Map<string, string[]>();
+
+    // Read original file and write filtered content to temp file
+    const readStream = createReadStream(this.historyFilePath, { encoding: 'utf-8' });
+    const writeStream = createWriteStream(tempFilePath, { encoding: 'utf-8' });
+    const rl = readline.createInterface({
+      input: readStream,
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+      try {
+        const entry: HistoryEntry = JSON.parse(line);
+        // Only keep lines that don't match a session to delete
+        if (!sessionIds.has(entry.sessionId)) {
+          writeStream.write(line + '\n');
+        } else {
+          removed.set(entry.sessionId, [...(removed.get(entry.sessionId) ?? []), line]);
+        }
+      } catch {
+        // Skip invalid JSON lines but keep them to preserve file structure
+        writeStream.write(line + '\n');
       }
+    }
 
-      return deleted;
-    } catch (error) {
-      console.error(`[SessionRepository] Error deleting session ${sessionId}:`, error);
-      throw error;
+    writeStream.end();
+    await new Promise<void>((resolve, reject) => {
+      writeStream.on('finish', resolve);
+      writeStream.on('error', reject);
+    });
+
+    // Replace original file with filtered temp file
+    await fs.rename(tempFilePath, this.historyFilePath);
+    return removed;
+  }
+
+  /**
+   * Read the history.jsonl lines of the given sessions, by session
+   */
+  async readHistoryEntries(sessionIds: Set<string>): Promise<Map<string, string[]>> {
+    const entries = new Map<string, string[]>();
+    try {
+      await fs.access(this.historyFilePath);
+    } catch {
+      return entries;
+    }
+
+    const rl = readline.createInterface({
+      input: createReadStream(this.historyFilePath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+      try {
+        const entry: HistoryEntry = JSON.parse(line);
+        if (sessionIds.has(entry.sessionId)) {
+          entries.set(entry.sessionId, [...(entries.get(entry.sessionId) ?? []), line]);
+        }
+      } catch {
+        // Skip invalid JSON lines
+      }
     }
+    return entries;
+  }
+
+  /**
+   * Append history lines of a restored or imported session to history.jsonl
+   */
+  async appendHistoryEntries(lines: string[]): Promise<void> {
+    if (lines.length === 0) return;
+
+    await fs.appendFile(this.historyFilePath, lines.map(line => line + '\n').join(''), 'utf-8');
+    this.cache.clear();
   }
 
   /**
@@ -0,0 +1,69 @@
+import type { ConversationMessage } from '../../types';
+
+export interface ToolCall {
+  toolUseId: string;
+  name: string;
+  model: string;
+  timestamp: number;
+  latencyMs: number | null; // Null while the call has no result
+  isError: boolean;
+}
+
+interface ToolResult {
+  timestamp: number;
+  isError: boolean;
+}
+
+function collectToolResults(entries: ConversationMessage[]): Map<string, ToolResult> {
+  const results = new Map<string, ToolResult>();
+
+  for (const entry of entries) {
+    const content = entry.message?.content;
+    if (entry.type !== 'user' || !Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (block.type !== 'tool_result' || !block.tool_use_id) continue;
+      results.set(block.tool_use_id, {
+        timestamp: new Date(entry.timestamp).getTime(),
+        isError: !!block.is_error,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Tool calls of a conversation paired with their results, in call order.
+ * Latency is the time between the assistant entry with the call and the user entry with its result.
+ */
+export function extractToolCalls(entries: ConversationMessage[]): ToolCall[] {
+  const results = collectToolResults(entries);
+  const calls: ToolCall[] = [];
+
+  for (const entry of entries) {
+    const content = entry.message?.content;
+    if (entry.type !== 'assistant' || !Array.isArray(content)) continue;
+
+    const timestamp = new Date(entry.timestamp).getTime();
+    if (isNaN(timestamp)) continue;
+    const model = entry.message?.model && entry.message.model !== '<synthetic>' ? entry.message.model : 'unknown';
+
+    for (const block of content) {
+      if (block.type !== 'tool_use' || !block.id || !block.name) continue;
+
+      const result = results.get(block.id);
+      const latencyMs = result && result.timestamp >= timestamp ? result.timestamp - timestamp : null;
+      calls.push({
+        toolUseId: block.id,
+        name: block.name,
+        model,
+        timestamp,
+        latencyMs,
+        isError: result?.isError ?? false,
+      });
+    }
+  }
+
+  return calls;
+}
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createReadStream } from 'fs';
+import readline from 'readline';
+import type { ConversationMessage, Session } from '../../types';
+import { normalizePath, generateProjectSlug, getAgentFileCandidates } from './PathUtils';
+
+/**
+ * Parse all entries of a transcript, or null if it does not exist.
+ * Invalid lines are skipped; a failed read keeps the entries read before it.
+ */
+export async function readTranscript(filePath: string): Promise<ConversationMessage[] | null> {
+  try {
+    await fs.access(filePath);
+  } catch {
+    return null;
+  }
+
+  const entries: ConversationMessage[] = [];
+  try {
+    const rl = readline.createInterface({
+      input: createReadStream(filePath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip invalid lines
+      }
+    }
+  } catch (error) {
+    console.error(`[TranscriptReader] Error reading transcript ${filePath}:`, error);
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the transcript of a session, or null if it does not exist
+ */
+export function readSessionTranscript(projectsDir: string, session: Session): Promise<ConversationMessage[] | null> {
+  const projectSlug = generateProjectSlug(normalizePath(session.project));
+  return readTranscript(path.join(projectsDir, projectSlug, `${session.sessionId}.jsonl`));
+}
+
+/**
+ * Parse the subagent transcripts of a session; subagents without a transcript are left out
+ */
+export async function readAgentTranscripts(projectsDir: string, session: Session): Promise<ConversationMessage[][]> {
+  const projectSlug = generateProjectSlug(normalizePath(session.project));
+  const transcripts: ConversationMessage[][] = [];
+
+  for (const agent of session.agentSessions || []) {
+    for (const agentFile of getAgentFileCandidates(projectsDir, projectSlug, session.sessionId, agent.agentId)) {
+      const entries = await readTranscript(agentFile);
+      if (entries) {
+        transcripts.push(entries);
+        break;
+      }
+    }
+  }
+
+  return transcripts;
+}
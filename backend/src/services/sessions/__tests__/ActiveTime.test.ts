@@ -0,0 +1,68 @@
+import { getActivePeriods, getActiveTimeMs, getActiveTimeByDay, IDLE_GAP_MS } from '../ActiveTime';
+
+const MINUTE = 60 * 1000;
+
+describe('getActivePeriods', () => {
+  it('should split at gaps longer than the idle threshold', () => {
+    const base = new Date(2024, 0, 1, 9, 0).getTime();
+    const periods = getActivePeriods([
+      base,
+      base + 5 * MINUTE,
+      base + 12 * MINUTE,
+      // Overnight break
+      base + 12 * MINUTE + 10 * 60 * MINUTE,
+      base + 12 * MINUTE + 10 * 60 * MINUTE + 3 * MINUTE,
+    ]);
+
+    expect(periods).toEqual([
+      { start: base, end: base + 12 * MINUTE },
+      { start: base + 612 * MINUTE, end: base + 615 * MINUTE },
+    ]);
+    expect(getActiveTimeMs(periods)).toBe(15 * MINUTE);
+  });
+
+  it('should sort timestamps and keep a gap of exactly the threshold together', () => {
+    const periods = getActivePeriods([IDLE_GAP_MS, 0, NaN]);
+
+    expect(periods).toEqual([{ start: 0, end: IDLE_GAP_MS }]);
+  });
+
+  it('should count a lone message as no active time', () => {
+    expect(getActiveTimeMs(getActivePeriods([1000]))).toBe(0);
+    expect(getActivePeriods([])).toEqual([]);
+  });
+});
+
+describe('getActiveTimeByDay', () => {
+  it('should split periods at local midnight', () => {
+    const start = new Date(2024, 0, 1, 23, 50).getTime();
+    const end = new Date(2024, 0, 2, 0, 20).getTime();
+
+    expect(Array.from(getActiveTimeByDay([{ start, end }]))).toEqual([
+      ['2024-01-01', 10 * MINUTE],
+      ['2024-01-02', 20 * MINUTE],
+    ]);
+  });
+
+  it('should split at midnight of the given time zone', () => {
+    const start = Date.parse('2024-01-01T22:30:00Z');
+    const end = Date.parse('2024-01-01T23:30:00Z');
+
+    // Midnight in Berlin falls at 23:00 UTC
+    expect(Array.from(getActiveTimeByDay([{ start, end }], 'Europe/Berlin'))).toEqual([
+      ['2024-01-01', 30 * MINUTE],
+      ['2024-01-02', 30 * MINUTE],
+    ]);
+    expect(Array.from(getActiveTimeByDay([{ start, end }], 'UTC'))).toEqual([['2024-01-01', 60 * MINUTE]]);
+  });
+
+  it('should count a whole DST change day once', () => {
+    // 2024-03-31 in Berlin lasts 23 hours
+    const start = Date.parse('2024-03-30T23:00:00Z');
+    const end = Date.parse('2024-03-31T22:00:00Z');
+
+    expect(Array.from(getActiveTimeByDay([{ start, end }], 'Europe/Berlin'))).toEqual([
+      ['2024-03-31', 23 * 60 * MINUTE],
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import { vol } from 'memfs';
+import { ConversationIndex } from '../ConversationIndex';
+import { ConversationLoader, InvalidCursorError } from '../ConversationLoader';
+import type { ConversationMessage } from '../../../types';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+jest.mock('fs', () => require('memfs').fs);
+
+const projectsDir = '/home/user/.claude/projects';
+const sessionFile = `${projectsDir}/-home-user-app/session-1.jsonl`;
+
+function entry(uuid: string, parentUuid: string | null, minute: number, text: string): ConversationMessage {
+  const type = minute % 2 === 0 ? 'user' : 'assistant';
+  return {
+    uuid,
+    parentUuid,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+    type,
+    message: { role: type, content: [{ type: 'text', text }] },
+  };
+}
+
+// Linear conversation m0 -> m1 -> ... with one message per entry
+function conversation(count: number): ConversationMessage[] {
+  return Array.from({ length: count }, (_, i) => entry(`m${i}`, i > 0 ? `m${i - 1}` : null, i, `Message ${i}`));
+}
+
+function writeLines(entries: ConversationMessage[]): void {
+  vol.mkdirSync(`${projectsDir}/-home-user-app`, { recursive: true });
+  vol.writeFileSync(sessionFile, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+}
+
+describe('ConversationIndex', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  it('should index byte offsets and read entries back from them', async () => {
+    const entries = conversation(3);
+    entries[1].message!.content = [{ type: 'text', text: 'ünïcödé '.repeat(50) }];
+    writeLines(entries);
+    const index = new ConversationIndex();
+
+    const lines = await index.getLines(sessionFile);
+    expect(lines?.map(line => line.entry.uuid)).toEqual(['m0', 'm1', 'm2']);
+    expect(index.getOffset(sessionFile, 'm2')).toBe(lines![2].offset);
+
+    const read = await index.readEntries(sessionFile, [lines![2], lines![1]]);
+    expect(read.map(e => e.uuid)).toEqual(['m2', 'm1']);
+    expect(read[1].message?.content).toEqual(entries[1].message?.content);
+  });
+
+  it('should keep only an outline of each entry in memory', async () => {
+    writeLines([{
+      ...entry('m0', null, 1, 'x'.repeat(1000)),
+      toolUseResult: { stdout: 'large output' },
+    }]);
+
+    const [line] = (await new ConversationIndex().getLines(sessionFile))!;
+    expect(line.entry.toolUseResult).toBeUndefined();
+    expect(line.entry.message?.content).toEqual([{ type: 'text', text: 'x'.repeat(200) }]);
+  });
+
+  it('should index appended lines without losing earlier ones', async () => {
+    writeLines(conversation(2));
+    const index = new ConversationIndex();
+    await index.getLines(sessionFile);
+
+    vol.appendFileSync(sessionFile, JSON.stringify(entry('m2', 'm1', 2, 'Later')) + '\n');
+    // A line still being written is picked up once complete
+    vol.appendFileSync(sessionFile, '{"uuid":"m3"');
+
+    const lines = await index.getLines(sessionFile);
+    expect(lines?.map(line => line.entry.uuid)).toEqual(['m0', 'm1', 'm2']);
+
+    vol.appendFileSync(sessionFile, `,"parentUuid":"m2","timestamp":"2024-01-01T00:03:00.000Z","type":"user"}\n`);
+    expect((await index.getLines(sessionFile))?.map(line => line.entry.uuid)).toEqual(['m0', 'm1', 'm2', 'm3']);
+  });
+
+  it('should return null for a missing file', async () => {
+    await expect(new ConversationIndex().getLines(sessionFile)).resolves.toBeNull();
+  });
+});
+
+describe('ConversationLoader pagination', () => {
+  let loader: ConversationLoader;
+
+  beforeEach(() => {
+    vol.reset();
+    loader = new ConversationLoader({ projectsDir });
+    writeLines(conversation(10));
+  });
+
+  const contents = (messages: { content: string }[]) => messages.map(m => m.content);
+
+  it('should load the newest page and report older messages', async () => {
+    const page = await loader.loadConversation('session-1', '/home/user/app', { limit: 3 });
+
+    expect(contents(page.messages)).toEqual(['Message 7', 'Message 8', 'Message 9']);
+    expect(page.pageInfo).toEqual({
+      startCursor: 'm7',
+      endCursor: 'm9',
+      hasOlder: true,
+      hasNewer: false,
+      totalMessages: 10,
+    });
+  });
+
+  it('should page backwards and forwards from a cursor', async () => {
+    const older = await loader.loadConversation('session-1', '/home/user/app', { limit: 3, before: 'm7' });
+    expect(contents(older.messages)).toEqual(['Message 4', 'Message 5', 'Message 6']);
+    expect(older.pageInfo.hasNewer).toBe(true);
+
+    const newer = await loader.loadConversation('session-1', '/home/user/app', { limit: 2, after: 'm4' });
+    expect(contents(newer.messages)).toEqual(['Message 5', 'Message 6']);
+  });
+
+  it('should load everything from a cursor up to another one', async () => {
+    const page = await loader.loadConversation('session-1', '/home/user/app', { from: 'm2', before: 'm5' });
+    expect(contents(page.messages)).toEqual(['Message 2', 'Message 3', 'Message 4']);
+    expect(page.pageInfo.hasOlder).toBe(true);
+  });
+
+  it('should accept byte offsets as cursors', async () => {
+    const lines = await new ConversationIndex().getLines(sessionFile);
+    const page = await loader.loadConversation('session-1', '/home/user/app', {
+      limit: 1,
+      before: String(lines![5].offset),
+    });
+    expect(contents(page.messages)).toEqual(['Message 4']);
+  });
+
+  it('should reject unknown cursors', async () => {
+    await expect(
+      loader.loadConversation('session-1', '/home/user/app', { limit: 3, before: 'nope' })
+    ).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  it('should find messages of unloaded pages', async () => {
+    const hits = await loader.searchConversation('session-1', '/home/user/app', 'message 1', { before: 'm7' });
+    expect(hits).toEqual([{ uuid: 'm1', timestamp: Date.UTC(2024, 0, 1, 0, 1), matches: 1 }]);
+  });
+});
+
+describe('ConversationLoader tail', () => {
+  let loader: ConversationLoader;
+
+  beforeEach(() => {
+    vol.reset();
+    loader = new ConversationLoader({ projectsDir });
+    writeLines(conversation(3));
+  });
+
+  const contents = (messages: { content: string }[]) => messages.map(m => m.content);
+  const append = (...entries: ConversationMessage[]) =>
+    vol.appendFileSync(sessionFile, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+
+  it('should start at the end of the transcript and return only appended messages', async () => {
+    const start = await loader.loadAppendedMessages('session-1', '/home/user/app');
+    expect(start.messages).toEqual([]);
+    expect(start.offset).toBe(vol.statSync(sessionFile).size);
+
+    append(entry('m3', 'm2', 3, 'Message 3'), entry('m4', 'm3', 4, 'Message 4'));
+    const next = await loader.loadAppendedMessages('session-1', '/home/user/app', start.offset);
+    expect(contents(next.messages)).toEqual(['Message 3', 'Message 4']);
+    expect(next.reset).toBe(false);
+
+    const idle = await loader.loadAppendedMessages('session-1', '/home/user/app', next.offset);
+    expect(idle.messages).toEqual([]);
+    expect(idle.offset).toBe(next.offset);
+  });
+
+  it('should catch up from the entry a client holds', async () => {
+    const appended = await loader.loadAppendedMessages('session-1', '/home/user/app', 'm0');
+    expect(contents(appended.messages)).toEqual(['Message 1', 'Message 2']);
+  });
+
+  it('should wait for a line still being written', async () => {
+    const { offset } = await loader.loadAppendedMessages('session-1', '/home/user/app');
+    vol.appendFileSync(sessionFile, JSON.stringify(entry('m3', 'm2', 3, 'Message 3')).slice(0, 20));
+
+    const partial = await loader.loadAppendedMessages('session-1', '/home/user/app', offset);
+    expect(partial.messages).toEqual([]);
+    expect(partial.offset).toBe(offset);
+  });
+
+  it('should skip subagent entries and report rewritten transcripts', async () => {
+    const { offset } = await loader.loadAppendedMessages('session-1', '/home/user/app');
+    append({ ...entry('s0', null, 3, 'Subagent'), isSidechain: true });
+    expect((await loader.loadAppendedMessages('session-1', '/home/user/app', offset)).messages).toEqual([]);
+
+    writeLines(conversation(1));
+    const rewritten = await loader.loadAppendedMessages('session-1', '/home/user/app', offset);
+    expect(rewritten.reset).toBe(true);
+    expect(rewritten.offset).toBe(vol.statSync(sessionFile).size);
+  });
+});
@@ -1,8 +1,9 @@
 import { ConversationLoader } from '../ConversationLoader';
+import { ConversationIndex, type IndexedLine } from '../ConversationIndex';
 import * as fs from 'fs/promises';
 import { createReadStream } from 'fs';
 import readline from 'readline';
-import type { ConversationMessage, ContentBlock } from '../../../types';
+import type { ConversationMessage, ContentBlock, ChatMessage, AgentSessionSummary } from '../../../types';
 
 // Mock fs and readline
 jest.mock('fs/promises');
@@ -172,6 +173,46 @@ describe('ConversationLoader', () => {
       expect(result[0].content).toBe('Let me think...');
     });
 
+    it('should emit base64 image blocks as image messages without their data', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+
+      const contentBlocks: ContentBlock[] = [
+        { type: 'text', text: 'What is wrong here?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+      ];
+
+      const messages: ConversationMessage[] = [
+        {
+          uuid: 'msg-1',
+          parentUuid: null,
+          timestamp: '2024-01-01T00:00:00.000Z',
+          type: 'user',
+          message: {
+            role: 'user',
+            content: contentBlocks,
+          },
+        },
+      ];
+
+      const mockStream = {
+        [Symbol.asyncIterator]: async function* () {
+          for (const msg of messages) {
+            yield JSON.stringify(msg);
+          }
+        },
+      };
+
+      (readline.createInterface as jest.Mock).mockReturnValue(mockStream);
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const result = await loader.loadFullConversation('session-1', '/home/user/project1');
+
+      expect(result.length).toBe(2);
+      expect(result[1].type).toBe('image');
+      expect(result[1].content).toBe('');
+      expect(result[1].image).toEqual({ index: 1, mediaType: 'image/png' });
+    });
+
     it('should skip empty string content', async () => {
       (fs.access as jest.Mock).mockResolvedValue(undefined);
 
@@ -247,6 +288,200 @@ describe('ConversationLoader', () => {
       expect(result[1].content).toBe('Second');
     });
 
+    it('should pair tool_use and tool_result blocks by id', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+
+      const messages: ConversationMessage[] = [
+        {
+          uuid: 'msg-1',
+          parentUuid: null,
+          timestamp: '2024-01-01T00:00:00.000Z',
+          type: 'assistant',
+          message: {
+            role: 'assistant',
+            content: [
+              { type: 'text', text: 'Listing files' },
+              { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } },
+            ] as ContentBlock[],
+          },
+        },
+        {
+          uuid: 'msg-2',
+          parentUuid: 'msg-1',
+          timestamp: '2024-01-01T00:00:02.000Z',
+          type: 'user',
+          message: {
+            role: 'user',
+            content: [
+              {
+                type: 'tool_result',
+                tool_use_id: 'toolu_1',
+                content: [{ type: 'text', text: 'README.md' }],
+                is_error: false,
+              },
+            ] as ContentBlock[],
+          },
+        },
+      ];
+
+      const mockStream = {
+        [Symbol.asyncIterator]: async function* () {
+          for (const msg of messages) {
+            yield JSON.stringify(msg);
+          }
+        },
+      };
+
+      (readline.createInterface as jest.Mock).mockReturnValue(mockStream);
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const result = await loader.loadFullConversation('session-1', '/home/user/project1');
+
+      expect(result.length).toBe(2);
+      expect(result[1].type).toBe('tool_use');
+      expect(result[1].toolCall).toEqual({
+        id: 'toolu_1',
+        name: 'Bash',
+        input: { command: 'ls' },
+        result: {
+          toolUseId: 'toolu_1',
+          content: 'README.md',
+          isError: false,
+          timestamp: new Date('2024-01-01T00:00:02.000Z').getTime(),
+        },
+      });
+    });
+
+    it('should keep tool_result without a matching tool_use as a standalone message', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+
+      const messages: ConversationMessage[] = [
+        {
+          uuid: 'msg-1',
+          parentUuid: null,
+          timestamp: '2024-01-01T00:00:00.000Z',
+          type: 'user',
+          message: {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_missing', content: 'command not found', is_error: true },
+            ] as ContentBlock[],
+          },
+        },
+      ];
+
+      const mockStream = {
+        [Symbol.asyncIterator]: async function* () {
+          for (const msg of messages) {
+            yield JSON.stringify(msg);
+          }
+        },
+      };
+
+      (readline.createInterface as jest.Mock).mockReturnValue(mockStream);
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const result = await loader.loadFullConversation('session-1', '/home/user/project1');
+
+      expect(result.length).toBe(1);
+      expect(result[0].type).toBe('tool_result');
+      expect(result[0].toolResult).toMatchObject({
+        toolUseId: 'toolu_missing',
+        content: 'command not found',
+        isError: true,
+      });
+    });
+
+    it('should load the active branch and list the alternate ones', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+
+      // The edited prompt shares its parent with the abandoned one
+      const entries: ConversationMessage[] = [
+        { uuid: 'root', parentUuid: null, timestamp: '2024-01-01T00:00:00.000Z', type: 'system' },
+        { uuid: 'u1', parentUuid: 'root', timestamp: '2024-01-01T00:00:00.000Z', type: 'user', message: { role: 'user', content: 'First try' } },
+        { uuid: 'u2', parentUuid: 'root', timestamp: '2024-01-01T00:01:00.000Z', type: 'user', message: { role: 'user', content: 'Second try' } },
+      ];
+
+      (readline.createInterface as jest.Mock).mockImplementation(() => ({
+        [Symbol.asyncIterator]: async function* () {
+          for (const entry of entries) {
+            yield JSON.stringify(entry);
+          }
+        },
+      }));
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const active = await loader.loadConversation('session-1', '/home/user/project1');
+      expect(active.messages.map(m => m.content)).toEqual(['Second try']);
+      expect(active.branchId).toBe('u2');
+      expect(active.branches.map(b => [b.id, b.forkUuid])).toEqual([['u2', null], ['u1', 'root']]);
+
+      const alternate = await loader.loadConversation('session-1', '/home/user/project1', { branchId: 'u1' });
+      expect(alternate.messages.map(m => m.content)).toEqual(['First try']);
+
+      const missing = await loader.loadConversation('session-1', '/home/user/project1', { branchId: 'nope' });
+      expect(missing.branchId).toBeUndefined();
+    });
+
+    it('should emit summaries and compaction boundaries as markers', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+
+      const entries: ConversationMessage[] = [
+        { type: 'summary', summary: 'Fix the login flow', leafUuid: 'old-leaf' } as ConversationMessage,
+        { uuid: 'u1', parentUuid: null, timestamp: '2024-01-01T00:00:00.000Z', type: 'user', message: { role: 'user', content: 'Start' } },
+        {
+          uuid: 'c1',
+          parentUuid: null,
+          logicalParentUuid: 'u1',
+          timestamp: '2024-01-01T01:00:00.000Z',
+          type: 'system',
+          subtype: 'compact_boundary',
+          content: 'Conversation compacted',
+          compactMetadata: { trigger: 'auto', preTokens: 155000 },
+        },
+        {
+          uuid: 'u2',
+          parentUuid: 'c1',
+          timestamp: '2024-01-01T01:00:01.000Z',
+          type: 'user',
+          isCompactSummary: true,
+          message: { role: 'user', content: 'This session is being continued from a previous conversation.' },
+        },
+      ];
+
+      (readline.createInterface as jest.Mock).mockImplementation(() => ({
+        [Symbol.asyncIterator]: async function* () {
+          for (const entry of entries) {
+            yield JSON.stringify(entry);
+          }
+        },
+      }));
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const result = await loader.loadConversation('session-1', '/home/user/project1');
+
+      expect(result.messages.map(m => m.type)).toEqual(['summary', 'text', 'compact_boundary', 'compact_summary']);
+      // The summary has no timestamp of its own and takes the one of the next message
+      expect(result.messages[0].timestamp).toBe(Date.parse('2024-01-01T00:00:00.000Z'));
+      expect(result.pageInfo.startCursor).toBe('u1');
+      expect(result.markers).toEqual([
+        {
+          type: 'summary',
+          uuid: 'summary:old-leaf',
+          timestamp: Date.parse('2024-01-01T00:00:00.000Z'),
+          text: 'Fix the login flow',
+        },
+        {
+          type: 'compact_boundary',
+          uuid: 'c1',
+          timestamp: Date.parse('2024-01-01T01:00:00.000Z'),
+          text: 'Conversation compacted',
+          trigger: 'auto',
+          preTokens: 155000,
+        },
+      ]);
+    });
+
     it('should skip invalid JSON lines', async () => {
       (fs.access as jest.Mock).mockResolvedValue(undefined);
 
@@ -286,4 +521,99 @@ describe('ConversationLoader', () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe('loadAttachment', () => {
+    const imageEntry: ConversationMessage = {
+      uuid: 'img-1',
+      parentUuid: null,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'cG5n' } }] as ContentBlock[],
+      },
+    };
+    const line = (entry: ConversationMessage): IndexedLine => ({ offset: 0, length: 0, entry });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should look for the entry in every candidate agent file', async () => {
+      const files: Record<string, IndexedLine[]> = {
+        '/mock/projects/-home-user-project1/session-1/subagents/agent-a1.jsonl': [line({ ...imageEntry, uuid: 'other' })],
+        '/mock/projects/-home-user-project1/agent-a1.jsonl': [line(imageEntry)],
+      };
+      jest.spyOn(ConversationIndex.prototype, 'getLines').mockImplementation(async file => files[file] ?? null);
+      jest.spyOn(ConversationIndex.prototype, 'readEntries').mockImplementation(async (_file, lines) => lines.map(l => l.entry));
+
+      const result = await loader.loadAttachment('session-1', '/home/user/project1', 'img-1', 0, 'a1');
+
+      expect(result).toEqual({ mediaType: 'image/png', data: Buffer.from('png') });
+    });
+
+    it('should return null when no candidate holds the entry', async () => {
+      jest.spyOn(ConversationIndex.prototype, 'getLines').mockResolvedValue([line(imageEntry)]);
+
+      expect(await loader.loadAttachment('session-1', '/home/user/project1', 'missing', 0, 'a1')).toBeNull();
+    });
+  });
+
+  describe('linkAgentSessions', () => {
+    const createTaskCall = (id: string, prompt: string, agentId?: string): ChatMessage => ({
+      uuid: `msg-${id}`,
+      role: 'assistant',
+      content: '',
+      timestamp: 0,
+      type: 'tool_use',
+      toolCall: {
+        id,
+        name: 'Task',
+        input: { prompt, description: `Run ${id}`, subagent_type: 'general-purpose' },
+        result: agentId
+          ? { toolUseId: id, content: 'done', isError: false, timestamp: 0, agentId }
+          : undefined,
+      },
+    });
+
+    const createAgent = (agentId: string, prompt: string): AgentSessionSummary => ({
+      agentId,
+      parentSessionId: 'session-1',
+      prompt,
+      messageCount: 2,
+      startedAt: 0,
+      endedAt: 1000,
+      durationMs: 1000,
+    });
+
+    it('should link Task calls to agents by the agentId of their result', () => {
+      const messages = [createTaskCall('toolu_1', 'Unrelated prompt', 'a1')];
+      const agents = [createAgent('a1', 'Find the failing test')];
+
+      const linked = loader.linkAgentSessions(messages, agents);
+
+      expect(messages[0].toolCall?.agentId).toBe('a1');
+      expect(linked[0]).toMatchObject({
+        toolUseId: 'toolu_1',
+        description: 'Run toolu_1',
+        subagentType: 'general-purpose',
+      });
+      // Summaries from the cache are left untouched
+      expect(agents[0].toolUseId).toBeUndefined();
+    });
+
+    it('should fall back to matching the prompt when the result has no agentId', () => {
+      const messages = [
+        createTaskCall('toolu_1', '  Review the diff  '),
+        createTaskCall('toolu_2', 'No transcript for this one'),
+      ];
+      const agents = [createAgent('b2', 'Review the diff')];
+
+      const linked = loader.linkAgentSessions(messages, agents);
+
+      expect(messages[0].toolCall?.agentId).toBe('b2');
+      expect(messages[1].toolCall?.agentId).toBeUndefined();
+      expect(linked[0].toolUseId).toBe('toolu_1');
+    });
+  });
 });
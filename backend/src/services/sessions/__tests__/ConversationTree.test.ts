@@ -0,0 +1,119 @@
+import { buildConversationTree, getBranchEntries, listBranches } from '../ConversationTree';
+import type { ConversationMessage } from '../../../types';
+
+function user(uuid: string, parentUuid: string | null, text: string, minute: number): ConversationMessage {
+  return {
+    uuid,
+    parentUuid,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+    type: 'user',
+    message: { role: 'user', content: text },
+  };
+}
+
+function assistant(uuid: string, parentUuid: string | null, text: string, minute: number): ConversationMessage {
+  return {
+    uuid,
+    parentUuid,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+    type: 'assistant',
+    message: { role: 'assistant', content: [{ type: 'text', text }] },
+  };
+}
+
+function toolResult(uuid: string, parentUuid: string, minute: number): ConversationMessage {
+  return {
+    uuid,
+    parentUuid,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+    type: 'user',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }] },
+  };
+}
+
+const uuids = (entries: ConversationMessage[]) => entries.map(entry => entry.uuid);
+
+describe('ConversationTree', () => {
+  // u1 -> a1 -> u2 -> a2 (abandoned), then the prompt was edited: a1 -> u3 -> a3
+  const rewound = [
+    user('u1', null, 'Add a login page', 0),
+    assistant('a1', 'u1', 'Done', 1),
+    user('u2', 'a1', 'Use OAuth instead', 2),
+    assistant('a2', 'u2', 'Switched to OAuth', 3),
+    user('u3', 'a1', 'Use magic links instead', 4),
+    assistant('a3', 'u3', 'Switched to magic links', 5),
+  ];
+
+  it('should follow the last written entry as the active branch', () => {
+    const tree = buildConversationTree(rewound);
+
+    expect(uuids(getBranchEntries(tree, tree.activeLeaf!))).toEqual(['u1', 'a1', 'u3', 'a3']);
+  });
+
+  it('should list abandoned prompts as alternate branches with their fork point', () => {
+    const branches = listBranches(buildConversationTree(rewound));
+
+    expect(branches).toEqual([
+      expect.objectContaining({ id: 'a3', forkUuid: null, isActive: true, messageCount: 4, preview: 'Add a login page' }),
+      {
+        id: 'a2',
+        forkUuid: 'a1',
+        isActive: false,
+        messageCount: 2,
+        preview: 'Use OAuth instead',
+        startedAt: Date.UTC(2024, 0, 1, 0, 2),
+        updatedAt: Date.UTC(2024, 0, 1, 0, 3),
+      },
+    ]);
+    expect(uuids(getBranchEntries(buildConversationTree(rewound), 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('should keep side entries without prompts or replies on the branch', () => {
+    const entries = [
+      user('u1', null, 'Run the tests', 0),
+      assistant('a1', 'u1', 'Running', 1),
+      toolResult('r1', 'a1', 2),
+      assistant('a2', 'a1', 'All green', 3),
+    ];
+    const tree = buildConversationTree(entries);
+
+    expect(listBranches(tree)).toHaveLength(1);
+    expect(uuids(getBranchEntries(tree, tree.activeLeaf!))).toEqual(['u1', 'a1', 'r1', 'a2']);
+  });
+
+  it('should continue across compaction and unknown parents', () => {
+    const entries: ConversationMessage[] = [
+      user('u1', null, 'Start', 0),
+      assistant('a1', 'u1', 'Started', 1),
+      { ...user('c1', null, 'Summary of the conversation', 2), logicalParentUuid: 'a1' },
+      user('u2', 'missing-uuid', 'Continue', 3),
+    ];
+    const tree = buildConversationTree(entries);
+
+    expect(listBranches(tree)).toHaveLength(1);
+    expect(uuids(getBranchEntries(tree, tree.activeLeaf!))).toEqual(['u1', 'a1', 'c1', 'u2']);
+  });
+
+  it('should leave sidechains out of the main conversation', () => {
+    const entries = [
+      user('u1', null, 'Review this', 0),
+      { ...user('s1', null, 'Subagent prompt', 1), isSidechain: true },
+      { ...assistant('s2', 's1', 'Subagent reply', 2), isSidechain: true },
+      assistant('a1', 'u1', 'Reviewed', 3),
+    ];
+    const tree = buildConversationTree(entries);
+
+    expect(listBranches(tree)).toHaveLength(1);
+    expect(uuids(getBranchEntries(tree, tree.activeLeaf!))).toEqual(['u1', 'a1']);
+  });
+
+  it('should keep a transcript made only of sidechain entries', () => {
+    const entries = [
+      { ...user('s1', null, 'Subagent prompt', 0), isSidechain: true },
+      { ...assistant('s2', 's1', 'Subagent reply', 1), isSidechain: true },
+    ];
+    const tree = buildConversationTree(entries);
+
+    expect(uuids(getBranchEntries(tree, tree.activeLeaf!))).toEqual(['s1', 's2']);
+  });
+});
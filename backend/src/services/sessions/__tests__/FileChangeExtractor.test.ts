@@ -0,0 +1,114 @@
+import { extractFileChanges } from '../FileChangeExtractor';
+import type { ConversationMessage } from '../../../types';
+
+function toolUse(uuid: string, id: string, name: string, input: Record<string, unknown>): ConversationMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    type: 'assistant',
+    message: { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] },
+  };
+}
+
+function toolResult(
+  uuid: string,
+  toolUseId: string,
+  toolUseResult?: Record<string, unknown>,
+  isError = false
+): ConversationMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    timestamp: '2024-01-01T00:00:01.000Z',
+    type: 'user',
+    toolUseResult,
+    message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: toolUseId, content: isError ? 'failed' : 'ok', is_error: isError }],
+    },
+  };
+}
+
+describe('extractFileChanges', () => {
+  it('should build a diff from the Edit input', () => {
+    const changes = extractFileChanges([
+      toolUse('a1', 'toolu_1', 'Edit', {
+        file_path: '/repo/src/app.ts',
+        old_string: 'const a = 1;\nconst b = 2;',
+        new_string: 'const a = 1;\nconst b = 3;\nconst c = 4;',
+      }),
+      toolResult('u1', 'toolu_1'),
+    ]);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].filePath).toBe('/repo/src/app.ts');
+    expect(changes[0].edits[0].diff).toBe([
+      '--- /repo/src/app.ts',
+      '+++ /repo/src/app.ts',
+      '@@ -1,2 +1,3 @@',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      '+const c = 4;',
+    ].join('\n'));
+    expect(changes[0]).toMatchObject({ linesAdded: 2, linesRemoved: 1 });
+  });
+
+  it('should prefer the patch recorded in the tool result', () => {
+    const changes = extractFileChanges([
+      toolUse('a1', 'toolu_1', 'Edit', { file_path: '/repo/a.ts', old_string: 'x', new_string: 'y' }),
+      toolResult('u1', 'toolu_1', {
+        structuredPatch: [{ oldStart: 40, oldLines: 1, newStart: 40, newLines: 1, lines: ['-x', '+y'] }],
+      }),
+    ]);
+
+    expect(changes[0].edits[0].diff).toContain('@@ -40,1 +40,1 @@');
+  });
+
+  it('should treat a created file as all additions', () => {
+    const changes = extractFileChanges([
+      toolUse('a1', 'toolu_1', 'Write', { file_path: '/repo/new.ts', content: 'line 1\nline 2\n' }),
+      toolResult('u1', 'toolu_1', { type: 'create' }),
+    ]);
+
+    const edit = changes[0].edits[0];
+    expect(edit.isNewFile).toBe(true);
+    expect(edit.diff.split('\n').slice(0, 3)).toEqual(['--- /dev/null', '+++ /repo/new.ts', '@@ -0,0 +1,2 @@']);
+    expect(edit.linesAdded).toBe(2);
+  });
+
+  it('should include each edit of a MultiEdit', () => {
+    const changes = extractFileChanges([
+      toolUse('a1', 'toolu_1', 'MultiEdit', {
+        file_path: '/repo/a.ts',
+        edits: [
+          { old_string: 'one', new_string: 'uno' },
+          { old_string: 'two', new_string: 'dos' },
+        ],
+      }),
+    ]);
+
+    expect(changes[0].edits).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ linesAdded: 2, linesRemoved: 2 });
+  });
+
+  it('should group edits by file and leave failed edits out of the totals', () => {
+    const changes = extractFileChanges([
+      toolUse('a1', 'toolu_1', 'Edit', { file_path: '/repo/a.ts', old_string: 'a', new_string: 'b' }),
+      toolResult('u1', 'toolu_1'),
+      toolUse('a2', 'toolu_2', 'Edit', { file_path: '/repo/b.ts', old_string: 'c', new_string: 'd' }),
+      toolResult('u2', 'toolu_2'),
+      toolUse('a3', 'toolu_3', 'Edit', { file_path: '/repo/a.ts', old_string: 'e', new_string: 'f' }),
+      toolResult('u3', 'toolu_3', undefined, true),
+    ]);
+
+    expect(changes.map(file => file.filePath)).toEqual(['/repo/a.ts', '/repo/b.ts']);
+    expect(changes[0].edits.map(edit => edit.isError)).toEqual([false, true]);
+    expect(changes[0]).toMatchObject({ linesAdded: 1, linesRemoved: 1 });
+  });
+
+  it('should ignore other tools', () => {
+    expect(extractFileChanges([toolUse('a1', 'toolu_1', 'Read', { file_path: '/repo/a.ts' })])).toEqual([]);
+  });
+});
@@ -68,6 +68,78 @@ describe('ProjectScanner', () => {
       expect(sessions.has('session-1')).toBe(true);
     });
 
+    it('should aggregate token usage per model, counting each message id once', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+      (fs.readdir as jest.Mock)
+        .mockResolvedValueOnce([
+          { name: 'project-1', isDirectory: () => true },
+        ])
+        .mockResolvedValueOnce(['session-1.jsonl']);
+
+      const usage = {
+        input_tokens: 10,
+        output_tokens: 20,
+        cache_creation_input_tokens: 30,
+        cache_read_input_tokens: 40,
+      };
+      const lines: ConversationMessage[] = [
+        {
+          uuid: 'msg-1',
+          parentUuid: null,
+          timestamp: '2024-01-01T00:00:00.000Z',
+          type: 'assistant',
+          message: { id: 'resp-1', role: 'assistant', model: 'claude-sonnet-4-5', content: [], usage },
+        },
+        // Same response split over a second line repeats the usage block
+        {
+          uuid: 'msg-2',
+          parentUuid: 'msg-1',
+          timestamp: '2024-01-01T00:00:01.000Z',
+          type: 'assistant',
+          message: { id: 'resp-1', role: 'assistant', model: 'claude-sonnet-4-5', content: [], usage },
+        },
+        {
+          uuid: 'msg-3',
+          parentUuid: 'msg-2',
+          timestamp: '2024-01-01T00:00:02.000Z',
+          type: 'assistant',
+          message: { id: 'resp-2', role: 'assistant', model: 'claude-opus-4-1', content: [], usage },
+        },
+      ];
+
+      const mockStream = {
+        [Symbol.asyncIterator]: async function* () {
+          for (const line of lines) {
+            yield JSON.stringify(line);
+          }
+        },
+      };
+
+      (readline.createInterface as jest.Mock).mockReturnValue(mockStream);
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const sessions = new Map<string, Session>();
+      const projects = new Map<string, Project>();
+
+      await scanner.scanProjectsDirectory(sessions, projects);
+
+      const tokenUsage = sessions.get('session-1')?.tokenUsage;
+      expect(tokenUsage?.total).toEqual({
+        inputTokens: 20,
+        outputTokens: 40,
+        cacheCreationTokens: 60,
+        cacheReadTokens: 80,
+      });
+      expect(Object.keys(tokenUsage?.byModel || {})).toEqual(['claude-sonnet-4-5', 'claude-opus-4-1']);
+      expect(tokenUsage?.byModel['claude-opus-4-1'].outputTokens).toBe(20);
+      expect(mockCache.getAllSessionActivity().get('session-1')?.tokenTimeline).toEqual([
+        { start: new Date('2024-01-01T00:00:00.000Z').getTime(), byModel: tokenUsage?.byModel },
+      ]);
+      expect(tokenUsage).not.toHaveProperty('timeline');
+      expect(sessions.get('session-1')?.metadata?.model?.map(change => change.value))
+        .toEqual(['claude-sonnet-4-5', 'claude-opus-4-1']);
+    });
+
     it('should skip sessions already in history', async () => {
       (fs.access as jest.Mock).mockResolvedValue(undefined);
       (fs.readdir as jest.Mock)
@@ -167,4 +239,102 @@ describe('ProjectScanner', () => {
       await expect(scanner.scanProjectsDirectory(sessions, projects)).resolves.not.toThrow();
     });
   });
+
+  describe('scanAgentSessions', () => {
+    const createStream = (lines: ConversationMessage[]) => ({
+      [Symbol.asyncIterator]: async function* () {
+        for (const line of lines) {
+          yield JSON.stringify(line);
+        }
+      },
+    });
+
+    const parentSession: Session = {
+      id: 'session-1',
+      sessionId: 'session-1',
+      project: '/home/user/project1',
+      projectSlug: 'project-1',
+      inputs: [],
+      messages: [],
+      createdAt: 0,
+      updatedAt: 0,
+      inputCount: 0,
+      messageCount: 0,
+    };
+
+    it('should attach agent transcripts from both layouts to their parent session', async () => {
+      (fs.readdir as jest.Mock)
+        .mockResolvedValueOnce([{ name: 'project-1', isDirectory: () => true }])
+        .mockResolvedValueOnce([
+          { name: 'session-1.jsonl', isFile: () => true, isDirectory: () => false },
+          { name: 'agent-a1.jsonl', isFile: () => true, isDirectory: () => false },
+          { name: 'session-1', isFile: () => false, isDirectory: () => true },
+        ])
+        .mockResolvedValueOnce(['agent-b2.jsonl']);
+      (fs.stat as jest.Mock).mockResolvedValue({ mtimeMs: 1000, size: 10 });
+      (createReadStream as jest.Mock).mockReturnValue({});
+      (readline.createInterface as jest.Mock)
+        .mockReturnValueOnce(createStream([
+          {
+            uuid: 'a1-1',
+            parentUuid: null,
+            sessionId: 'session-1',
+            timestamp: '2024-01-01T00:00:00.000Z',
+            type: 'user',
+            message: { role: 'user', content: '  Find the failing test  ' },
+          },
+          {
+            uuid: 'a1-2',
+            parentUuid: 'a1-1',
+            sessionId: 'session-1',
+            timestamp: '2024-01-01T00:00:30.000Z',
+            type: 'assistant',
+            message: { role: 'assistant', content: [{ type: 'text', text: 'Found it' }] },
+          },
+        ]))
+        // The subagents layout has no sessionId in the transcript itself
+        .mockReturnValueOnce(createStream([
+          {
+            uuid: 'b2-1',
+            parentUuid: null,
+            timestamp: '2024-01-01T00:01:00.000Z',
+            type: 'user',
+            message: { role: 'user', content: [{ type: 'text', text: 'Review the diff' }] },
+          },
+        ]));
+
+      const sessions = new Map<string, Session>([['session-1', { ...parentSession }]]);
+
+      await scanner.scanAgentSessions(sessions);
+
+      expect(sessions.get('session-1')?.agentSessions).toEqual([
+        {
+          agentId: 'a1',
+          parentSessionId: 'session-1',
+          prompt: 'Find the failing test',
+          messageCount: 2,
+          startedAt: new Date('2024-01-01T00:00:00.000Z').getTime(),
+          endedAt: new Date('2024-01-01T00:00:30.000Z').getTime(),
+          durationMs: 30000,
+        },
+        expect.objectContaining({ agentId: 'b2', parentSessionId: 'session-1', prompt: 'Review the diff' }),
+      ]);
+    });
+
+    it('should not scan agent transcripts as sessions', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+      (fs.readdir as jest.Mock)
+        .mockResolvedValueOnce([{ name: 'project-1', isDirectory: () => true }])
+        .mockResolvedValueOnce(['session-1.jsonl', 'agent-a1.jsonl']);
+      (readline.createInterface as jest.Mock).mockReturnValue(createStream([
+        { uuid: 'msg-1', parentUuid: null, timestamp: '2024-01-01T00:00:00.000Z', type: 'user' },
+      ]));
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const sessions = new Map<string, Session>();
+      await scanner.scanProjectsDirectory(sessions, new Map<string, Project>());
+
+      expect(Array.from(sessions.keys())).toEqual(['session-1']);
+    });
+  });
 });
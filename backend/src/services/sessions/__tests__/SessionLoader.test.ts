@@ -1,4 +1,4 @@
-import { SessionLoader } from '../SessionLoader';
+import { SessionLoader, parsePastedContents } from '../SessionLoader';
 import * as fs from 'fs';
 import { createReadStream } from 'fs';
 import readline from 'readline';
@@ -223,6 +223,38 @@ describe('SessionLoader', () => {
       expect(session?.inputs[1].display).toBe('Second');
     });
 
+    it('should keep text pastes on the input', async () => {
+      const entries: HistoryEntry[] = [
+        {
+          sessionId: 'session-1',
+          display: 'Fix this [Pasted text #2 +40 lines] and [Image #1]',
+          timestamp: 1000,
+          project: '/home/user/project1',
+          pastedContents: {
+            '2': { id: 2, type: 'text', content: 'stack trace' },
+            '1': { id: 1, type: 'image', content: 'iVBORw0KGgo=' },
+          },
+        },
+      ];
+
+      const mockStream = {
+        [Symbol.asyncIterator]: async function* () {
+          for (const entry of entries) {
+            yield JSON.stringify(entry);
+          }
+        },
+      };
+
+      (readline.createInterface as jest.Mock).mockReturnValue(mockStream);
+      (createReadStream as jest.Mock).mockReturnValue({});
+
+      const result = await loader.loadSessions();
+
+      expect(result.sessions.get('session-1')?.inputs[0].pastedContents).toEqual([
+        { id: 2, content: 'stack trace' },
+      ]);
+    });
+
     it('should handle errors gracefully', async () => {
       (createReadStream as jest.Mock).mockImplementation(() => {
         throw new Error('File not found');
@@ -234,4 +266,21 @@ describe('SessionLoader', () => {
       expect(result.projects.size).toBe(0);
     });
   });
+
+  describe('parsePastedContents', () => {
+    it('should order pastes by id and fall back to the key', () => {
+      expect(parsePastedContents({
+        '3': { type: 'text', content: 'c' },
+        '1': { id: 1, type: 'text', content: 'a' },
+      })).toEqual([
+        { id: 1, content: 'a' },
+        { id: 3, content: 'c' },
+      ]);
+    });
+
+    it('should skip pastes without text content', () => {
+      expect(parsePastedContents(undefined)).toEqual([]);
+      expect(parsePastedContents({ '1': { id: 1, type: 'text', contentHash: 'abc' } })).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,76 @@
+import { recordMetadata, matchesMetadataFilter } from '../SessionMetadata';
+import type { ConversationMessage, SessionMetadata } from '../../../types';
+
+function entry(timestamp: string, overrides: Partial<ConversationMessage> = {}): ConversationMessage {
+  return {
+    uuid: timestamp,
+    parentUuid: null,
+    timestamp,
+    type: 'user',
+    cwd: '/home/user/project',
+    gitBranch: 'main',
+    version: '1.0.0',
+    ...overrides,
+  };
+}
+
+function assistant(timestamp: string, model: string): ConversationMessage {
+  return entry(timestamp, {
+    type: 'assistant',
+    message: { role: 'assistant', model, content: [] },
+  });
+}
+
+describe('recordMetadata', () => {
+  it('should record the first value and every change', () => {
+    const metadata: SessionMetadata = {};
+    recordMetadata(metadata, entry('2024-01-01T00:00:00.000Z'));
+    recordMetadata(metadata, entry('2024-01-01T00:01:00.000Z'));
+    recordMetadata(metadata, entry('2024-01-01T00:02:00.000Z', { gitBranch: 'feature-x' }));
+    recordMetadata(metadata, entry('2024-01-01T00:03:00.000Z', { gitBranch: 'main', version: '1.0.1' }));
+
+    expect(metadata.cwd).toEqual([{ value: '/home/user/project', timestamp: Date.parse('2024-01-01T00:00:00.000Z') }]);
+    expect(metadata.gitBranch?.map(change => change.value)).toEqual(['main', 'feature-x', 'main']);
+    expect(metadata.gitBranch?.[1].timestamp).toBe(Date.parse('2024-01-01T00:02:00.000Z'));
+    expect(metadata.version?.map(change => change.value)).toEqual(['1.0.0', '1.0.1']);
+  });
+
+  it('should take the model from assistant responses only', () => {
+    const metadata: SessionMetadata = {};
+    recordMetadata(metadata, assistant('2024-01-01T00:00:00.000Z', 'claude-sonnet-4'));
+    recordMetadata(metadata, assistant('2024-01-01T00:01:00.000Z', '<synthetic>'));
+    recordMetadata(metadata, assistant('2024-01-01T00:02:00.000Z', 'claude-opus-4-1'));
+
+    expect(metadata.model?.map(change => change.value)).toEqual(['claude-sonnet-4', 'claude-opus-4-1']);
+  });
+
+  it('should skip empty values and entries without a timestamp', () => {
+    const metadata: SessionMetadata = {};
+    recordMetadata(metadata, entry('', { gitBranch: 'other' }));
+    recordMetadata(metadata, entry('2024-01-01T00:00:00.000Z', { gitBranch: '' }));
+
+    expect(metadata.gitBranch).toBeUndefined();
+    expect(metadata.model).toBeUndefined();
+  });
+});
+
+describe('matchesMetadataFilter', () => {
+  const session = {
+    metadata: {
+      gitBranch: [{ value: 'main', timestamp: 1 }, { value: 'feature-x', timestamp: 2 }],
+      model: [{ value: 'claude-sonnet-4', timestamp: 1 }],
+    },
+  };
+
+  it('should match values the session used at any point', () => {
+    expect(matchesMetadataFilter(session, {})).toBe(true);
+    expect(matchesMetadataFilter(session, { gitBranch: 'main' })).toBe(true);
+    expect(matchesMetadataFilter(session, { gitBranch: 'feature-x', model: 'claude-sonnet-4' })).toBe(true);
+  });
+
+  it('should require every filtered field to match', () => {
+    expect(matchesMetadataFilter(session, { gitBranch: 'feature-x', model: 'claude-opus-4-1' })).toBe(false);
+    expect(matchesMetadataFilter(session, { version: '1.0.0' })).toBe(false);
+    expect(matchesMetadataFilter({}, { gitBranch: 'main' })).toBe(false);
+  });
+});
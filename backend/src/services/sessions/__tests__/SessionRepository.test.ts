@@ -3,10 +3,14 @@ import { SessionCache } from '../SessionCache';
 import { SessionLoader } from '../SessionLoader';
 import { ProjectScanner } from '../ProjectScanner';
 import { ConversationLoader } from '../ConversationLoader';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable, Writable } from 'stream';
+import type { TrashStore } from '../../trash/TrashStore';
 import type { Session, Project } from '../../../types';
 
 // Mock fs
 jest.mock('fs/promises');
+jest.mock('fs');
 
 // Mock dependencies
 jest.mock('../SessionLoader');
@@ -314,6 +318,135 @@ describe('SessionRepository', () => {
     });
   });
 
+  describe('loadSessions with the real loader and scanner', () => {
+    const transcriptPath = `${mockProjectsDir}/-home-user-project1/session-1.jsonl`;
+    const display = 'Review this [Pasted text #1 +2 lines]';
+
+    beforeEach(() => {
+      const { SessionLoader: ActualSessionLoader } = jest.requireActual<typeof import('../SessionLoader')>('../SessionLoader');
+      const { ProjectScanner: ActualProjectScanner } = jest.requireActual<typeof import('../ProjectScanner')>('../ProjectScanner');
+      repository = new SessionRepository({
+        historyFilePath: mockHistoryFilePath,
+        projectsDir: mockProjectsDir,
+        cache: mockCache,
+        sessionLoader: new ActualSessionLoader({ historyFilePath: mockHistoryFilePath }),
+        projectScanner: new ActualProjectScanner({ projectsDir: mockProjectsDir, cache: mockCache }),
+        conversationLoader: mockConversationLoader,
+      });
+
+      const files: Record<string, string> = {
+        [mockHistoryFilePath]: JSON.stringify({
+          display,
+          timestamp: 1700000000000,
+          project: '/home/user/project1',
+          sessionId: 'session-1',
+          pastedContents: { 1: { id: 1, type: 'text', content: 'line 1\nline 2' } },
+        }),
+        [transcriptPath]: JSON.stringify({
+          uuid: 'msg-1',
+          parentUuid: null,
+          type: 'user',
+          timestamp: new Date(1700000000000).toISOString(),
+          cwd: '/home/user/project1',
+          message: { role: 'user', content: display },
+        }),
+      };
+      const fsPromises = require('fs/promises');
+      jest.spyOn(fsPromises, 'stat').mockResolvedValue({ mtimeMs: 1000, size: 100 } as any);
+      jest.spyOn(fsPromises, 'access').mockResolvedValue(undefined);
+      jest.spyOn(fsPromises, 'readdir').mockImplementation(async (dir: any, options?: any) => {
+        if (dir === mockProjectsDir) return [{ name: '-home-user-project1', isDirectory: () => true }];
+        return options?.withFileTypes
+          ? [{ name: 'session-1.jsonl', isDirectory: () => false, isFile: () => true }]
+          : ['session-1.jsonl'];
+      });
+      (createReadStream as jest.Mock).mockImplementation((filePath: string) => Readable.from([files[filePath] ?? '']));
+    });
+
+    it('should keep the pasted contents of history inputs when the transcript is scanned', async () => {
+      const result = await repository.loadSessions();
+      const session = result.get('session-1');
+
+      expect(session?.messageCount).toBe(1);
+      expect(session?.inputs).toEqual([
+        { display, timestamp: 1700000000000, pastedContents: [{ id: 1, content: 'line 1\nline 2' }] },
+      ]);
+    });
+  });
+
+  describe('deleteSessions', () => {
+    const historyLines = ['session-1', 'session-2'].map(sessionId =>
+      JSON.stringify({ display: sessionId, timestamp: 1000, project: '/home/user/project1', sessionId })
+    );
+    const trash = { add: jest.fn(async () => ({})) };
+    let writtenHistory: string;
+
+    beforeEach(() => {
+      repository = new SessionRepository({
+        historyFilePath: mockHistoryFilePath,
+        projectsDir: mockProjectsDir,
+        cache: mockCache,
+        sessionLoader: mockSessionLoader,
+        projectScanner: mockProjectScanner,
+        conversationLoader: mockConversationLoader,
+        trash: trash as unknown as TrashStore,
+      });
+
+      const fsPromises = require('fs/promises');
+      jest.spyOn(fsPromises, 'stat').mockResolvedValue({ mtimeMs: 1000 } as any);
+      jest.spyOn(fsPromises, 'access').mockResolvedValue(undefined);
+      jest.spyOn(fsPromises, 'rename').mockResolvedValue(undefined);
+      (createReadStream as jest.Mock).mockImplementation(() => Readable.from([historyLines.join('\n')]));
+      writtenHistory = '';
+      (createWriteStream as jest.Mock).mockImplementation(() => new Writable({
+        write(chunk, _encoding, callback) {
+          writtenHistory += chunk;
+          callback();
+        },
+      }));
+
+      mockCache.setSessions(new Map([
+        ['session-1', mockSession],
+        ['session-2', { ...mockSession, id: 'session-2', sessionId: 'session-2' }],
+      ]));
+      mockCache.setLastModified(1000);
+    });
+
+    it('should move each session to the trash with its history lines and remove them from history', async () => {
+      const result = await repository.deleteSessions(['session-1', 'session-2']);
+
+      expect(result).toEqual(new Map([['session-1', true], ['session-2', true]]));
+      expect(trash.add).toHaveBeenCalledWith(
+        expect.objectContaining({ targetId: 'session-1', historyLines: [historyLines[0]] }),
+        expect.any(Array)
+      );
+      expect(writtenHistory).toBe('');
+    });
+
+    it('should keep the history lines of a session that fails to move to the trash', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      trash.add.mockRejectedValueOnce(new Error('EACCES'));
+
+      const result = await repository.deleteSessions(['session-1', 'session-2']);
+
+      expect(result).toEqual(new Map([['session-1', false], ['session-2', true]]));
+      expect(trash.add).toHaveBeenCalledTimes(2);
+      expect(writtenHistory).toBe(historyLines[0] + '\n');
+      jest.restoreAllMocks();
+    });
+
+    it('should not rewrite history when no session was deleted', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      trash.add.mockRejectedValueOnce(new Error('EACCES'));
+
+      const result = await repository.deleteSessions(['session-1']);
+
+      expect(result.get('session-1')).toBe(false);
+      expect(createWriteStream).not.toHaveBeenCalled();
+      jest.restoreAllMocks();
+    });
+  });
+
   describe('loadFullConversation', () => {
     it('should delegate to conversation loader', async () => {
       const mockMessages = [{ uuid: 'msg-1', role: 'user' as const, content: 'Hello', timestamp: 1000 }];
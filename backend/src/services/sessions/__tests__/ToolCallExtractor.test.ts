@@ -0,0 +1,74 @@
+import { extractToolCalls } from '../ToolCallExtractor';
+import type { ConversationMessage } from '../../../types';
+
+function toolUse(uuid: string, timestamp: string, model: string, ...calls: Array<[string, string]>): ConversationMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    timestamp,
+    type: 'assistant',
+    message: {
+      role: 'assistant',
+      model,
+      content: calls.map(([id, name]) => ({ type: 'tool_use' as const, id, name, input: {} })),
+    },
+  };
+}
+
+function toolResult(uuid: string, timestamp: string, toolUseId: string, isError = false): ConversationMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    timestamp,
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: toolUseId, content: 'ok', is_error: isError }],
+    },
+  };
+}
+
+describe('extractToolCalls', () => {
+  it('should pair calls with their results', () => {
+    const calls = extractToolCalls([
+      toolUse('a1', '2024-01-01T00:00:00.000Z', 'claude-sonnet-4', ['toolu_1', 'Read'], ['toolu_2', 'Bash']),
+      toolResult('u1', '2024-01-01T00:00:01.500Z', 'toolu_1'),
+      toolResult('u2', '2024-01-01T00:00:03.000Z', 'toolu_2', true),
+    ]);
+
+    expect(calls).toEqual([
+      {
+        toolUseId: 'toolu_1',
+        name: 'Read',
+        model: 'claude-sonnet-4',
+        timestamp: Date.parse('2024-01-01T00:00:00.000Z'),
+        latencyMs: 1500,
+        isError: false,
+      },
+      {
+        toolUseId: 'toolu_2',
+        name: 'Bash',
+        model: 'claude-sonnet-4',
+        timestamp: Date.parse('2024-01-01T00:00:00.000Z'),
+        latencyMs: 3000,
+        isError: true,
+      },
+    ]);
+  });
+
+  it('should leave the latency of unanswered calls empty', () => {
+    const calls = extractToolCalls([toolUse('a1', '2024-01-01T00:00:00.000Z', 'claude-sonnet-4', ['toolu_1', 'Grep'])]);
+
+    expect(calls[0].latencyMs).toBeNull();
+    expect(calls[0].isError).toBe(false);
+  });
+
+  it('should report synthetic messages as an unknown model', () => {
+    const calls = extractToolCalls([
+      toolUse('a1', '2024-01-01T00:00:00.000Z', '<synthetic>', ['toolu_1', 'Read']),
+      toolResult('u1', '2024-01-01T00:00:01.000Z', 'toolu_1'),
+    ]);
+
+    expect(calls[0].model).toBe('unknown');
+  });
+});
@@ -2,19 +2,31 @@ import path from 'path';
 import type {
   HistoryEntry,
   Session,
+  SessionActivity,
   SessionInput,
   Project,
   ConversationMessage,
   ChatMessage,
   ContentBlock,
   FileWatcherEvent,
+  AgentSession,
+  MessagePage,
+  MessageSearchHit,
+  SessionChanges,
 } from '../types';
 
 import { SessionCache } from './sessions/SessionCache';
 import { SessionLoader } from './sessions/SessionLoader';
 import { ProjectScanner } from './sessions/ProjectScanner';
-import { ConversationLoader } from './sessions/ConversationLoader';
+import {
+  ConversationLoader,
+  type LoadConversationOptions,
+  type LoadedAttachment,
+  type AppendedMessages,
+} from './sessions/ConversationLoader';
 import { SessionRepository } from './sessions/SessionRepository';
+import type { TrashStore } from './trash/TrashStore';
+import { extractFileChanges } from './sessions/FileChangeExtractor';
 import { normalizePath, generateProjectSlug, projectSlugToPath } from './sessions/PathUtils';
 
 // Re-export utility functions for backward compatibility
@@ -29,7 +41,7 @@ export class SessionsService {
   private conversationLoader: ConversationLoader;
   private repository: SessionRepository;
 
-  constructor(historyFilePath: string) {
+  constructor(historyFilePath: string, trash?: TrashStore) {
     this.historyFilePath = historyFilePath;
     this.projectsDir = path.join(path.dirname(historyFilePath), 'projects');
 
@@ -45,6 +57,7 @@ export class SessionsService {
       sessionLoader: this.sessionLoader,
       projectScanner: this.projectScanner,
       conversationLoader: this.conversationLoader,
+      trash,
     });
   }
 
@@ -68,6 +81,11 @@ export class SessionsService {
     return this.repository.getSessionsByProject(projectPath);
   }
 
+  // Get the token timeline and active periods of every session, for stats
+  async getSessionActivity(): Promise<Map<string, SessionActivity>> {
+    return this.repository.getSessionActivity();
+  }
+
   // Get all projects
   async getProjects(): Promise<Project[]> {
     return this.repository.getProjects();
@@ -142,11 +160,32 @@ export class SessionsService {
     await this.repository.reload();
   }
 
-  // Delete a session by removing it from history and deleting its project file
+  // Delete a session by removing it from history and moving its project files to the trash
   async deleteSession(sessionId: string): Promise<boolean> {
     return this.repository.deleteSession(sessionId);
   }
 
+  // Delete several sessions with one history rewrite; returns whether each session was deleted
+  async deleteSessions(sessionIds: string[]): Promise<Map<string, boolean>> {
+    return this.repository.deleteSessions(sessionIds);
+  }
+
+  // Put back the history entries of a session restored from the trash or imported from an archive
+  async restoreHistoryEntries(lines: string[]): Promise<void> {
+    return this.repository.appendHistoryEntries(lines);
+  }
+
+  // Raw history.jsonl lines of the given sessions, by session
+  async getHistoryEntries(sessionIds: string[]): Promise<Map<string, string[]>> {
+    return this.repository.readHistoryEntries(new Set(sessionIds));
+  }
+
+  // Existing transcript, subagent and tool result files of a session; directories are not expanded
+  async getSessionFiles(sessionId: string): Promise<string[]> {
+    const session = await this.getSessionById(sessionId);
+    return session ? this.repository.getSessionFiles(session) : [];
+  }
+
   // Get cache stats
   getCacheStats(): {
     sessionsCount: number;
@@ -166,15 +205,22 @@ export class SessionsService {
     return this.conversationLoader.loadFullConversation(sessionId, projectPath);
   }
 
-  // Get session with full conversation
-  async getSessionWithConversation(sessionId: string, limit: number = 0): Promise<Session | null> {
+  // Get session with its conversation: the active branch unless options.branchId is given,
+  // the whole branch unless a limit or cursors select a page
+  async getSessionWithConversation(
+    sessionId: string,
+    options: LoadConversationOptions = {}
+  ): Promise<Session | null> {
     const session = await this.getSessionById(sessionId);
     if (!session) return null;
 
-    // Load conversation (with optional limit for pagination)
-    const messages = limit > 0
-      ? await this.conversationLoader.loadConversationWithLimit(sessionId, session.project, limit)
-      : await this.loadFullConversation(sessionId, session.project);
+    const conversation = await this.conversationLoader.loadConversation(sessionId, session.project, options);
+    const messages = conversation.messages;
+
+    // Link subagent transcripts to the Task calls in the loaded range
+    const agentSessions = session.agentSessions
+      ? this.conversationLoader.linkAgentSessions(messages, session.agentSessions)
+      : undefined;
 
     // Calculate updatedAt from the latest message timestamp
     let updatedAt = session.updatedAt;
@@ -190,7 +236,103 @@ export class SessionsService {
       messageCount: messages.length,
       updatedAt,
       // Add flag to indicate if this is a partial load
-      hasMoreMessages: limit > 0 && session.messageCount > messages.length,
+      hasMoreMessages: conversation.pageInfo.hasOlder,
+      agentSessions,
+      branches: conversation.branches.length > 0 ? conversation.branches : undefined,
+      branchId: conversation.branchId,
+      pageInfo: conversation.pageInfo,
+      markers: conversation.markers.length > 0 ? conversation.markers : undefined,
     };
   }
+
+  // Get a page of the conversation of a session
+  async getConversationPage(sessionId: string, options: LoadConversationOptions): Promise<MessagePage | null> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) return null;
+
+    const { messages, pageInfo, branchId } = await this.conversationLoader.loadConversation(
+      sessionId,
+      session.project,
+      options
+    );
+    if (session.agentSessions) {
+      this.conversationLoader.linkAgentSessions(messages, session.agentSessions);
+    }
+    return { messages, pageInfo, branchId };
+  }
+
+  // Search the messages of one branch of a session
+  async searchConversation(
+    sessionId: string,
+    query: string,
+    options: Pick<LoadConversationOptions, 'branchId' | 'before'> = {}
+  ): Promise<MessageSearchHit[] | null> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) return null;
+
+    return this.conversationLoader.searchConversation(sessionId, session.project, query, options);
+  }
+
+  // Get the files touched by one branch of a session, with a diff per edit
+  async getSessionChanges(sessionId: string, branchId?: string): Promise<SessionChanges | null> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) return null;
+
+    const branch = await this.conversationLoader.loadBranchEntries(sessionId, session.project, branchId);
+    if (!branch) {
+      return branchId ? null : { files: [], linesAdded: 0, linesRemoved: 0 };
+    }
+
+    const files = extractFileChanges(branch.entries);
+    return {
+      files,
+      linesAdded: files.reduce((sum, file) => sum + file.linesAdded, 0),
+      linesRemoved: files.reduce((sum, file) => sum + file.linesRemoved, 0),
+      branchId: branch.branchId,
+    };
+  }
+
+  // Get the messages appended to a session transcript after a byte offset or entry uuid, for live tailing
+  async getAppendedMessages(sessionId: string, after?: number | string): Promise<AppendedMessages | null> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) return null;
+
+    const appended = await this.conversationLoader.loadAppendedMessages(sessionId, session.project, after);
+    if (session.agentSessions) {
+      this.conversationLoader.linkAgentSessions(appended.messages, session.agentSessions);
+    }
+    return appended;
+  }
+
+  // Get the timestamps of all messages of a session, for activity stats
+  async getMessageTimestamps(sessionId: string): Promise<number[]> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) return [];
+
+    return this.conversationLoader.loadMessageTimestamps(sessionId, session.project);
+  }
+
+  // Get an image attached to a message of a session or of one of its subagents
+  async getAttachment(
+    sessionId: string,
+    uuid: string,
+    index: number,
+    agentId?: string
+  ): Promise<LoadedAttachment | null> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) return null;
+    if (agentId && !session.agentSessions?.some(agent => agent.agentId === agentId)) return null;
+
+    return this.conversationLoader.loadAttachment(sessionId, session.project, uuid, index, agentId);
+  }
+
+  // Get a subagent transcript of a session
+  async getAgentSession(sessionId: string, agentId: string): Promise<AgentSession | null> {
+    const session = await this.getSessionById(sessionId);
+    const summary = session?.agentSessions?.find(agent => agent.agentId === agentId);
+    if (!session || !summary) return null;
+
+    const messages = await this.conversationLoader.loadAgentConversation(agentId, sessionId, session.project);
+    return { ...summary, messages };
+  }
 }
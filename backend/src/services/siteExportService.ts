@@ -0,0 +1,419 @@
+import path from 'path';
+import type { Writable } from 'stream';
+import type { Session, ChatMessage, FileEdit, SessionChanges } from '../types';
+import type { SessionsService } from './sessionsService';
+import type { FavoritesService } from './favoritesService';
+import { ZipWriter } from '../utils/zipWriter';
+import { escapeHtml, formatTimestamp, getSessionTitle, IMAGE_EXTENSIONS } from './exportService';
+
+// Indexed text per message; long tool output is cut so the index stays small enough to load from disk
+const MAX_INDEXED_TEXT = 2000;
+
+// Used when the request brings no theme; the viewer sends the CSS variables of its current theme
+const DEFAULT_THEME: Record<string, string> = {
+  '--bg-primary': '#ffffff',
+  '--bg-secondary': '#f8fafc',
+  '--bg-tertiary': '#e2e8f0',
+  '--bg-card': '#ffffff',
+  '--bg-hover': '#f1f5f9',
+  '--text-primary': '#0f172a',
+  '--text-secondary': '#334155',
+  '--text-tertiary': '#475569',
+  '--text-muted': '#64748b',
+  '--border-primary': '#e2e8f0',
+  '--accent-blue': '#2563eb',
+  '--accent-blue-subtle': 'rgba(37, 99, 235, 0.1)',
+  '--accent-green': '#059669',
+  '--accent-green-subtle': 'rgba(5, 150, 105, 0.1)',
+  '--accent-red': '#dc2626',
+  '--accent-red-subtle': 'rgba(220, 38, 38, 0.1)',
+  '--accent-amber': '#d97706',
+  '--accent-amber-subtle': 'rgba(217, 119, 6, 0.1)',
+  '--accent-purple': '#7c3aed',
+  '--accent-purple-subtle': 'rgba(124, 58, 237, 0.1)',
+};
+
+const SITE_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg-primary); color: var(--text-primary); font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+a { color: var(--accent-blue); text-decoration: none; }
+a:hover { text-decoration: underline; }
+header { background: var(--bg-secondary); border-bottom: 1px solid var(--border-primary); padding: 16px 24px; }
+header h1 { margin: 4px 0; font-size: 20px; }
+main { max-width: 1080px; margin: 0 auto; padding: 16px 24px 48px; }
+.muted { color: var(--text-muted); font-size: 12px; }
+.stats { display: flex; flex-wrap: wrap; gap: 16px; margin-top: 8px; color: var(--text-tertiary); font-size: 13px; }
+.tabs { display: flex; gap: 16px; margin-top: 12px; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 8px; border-bottom: 1px solid var(--border-primary); vertical-align: top; }
+th { color: var(--text-muted); font-weight: 500; font-size: 12px; }
+tr:hover td { background: var(--bg-hover); }
+.tag { display: inline-block; padding: 0 6px; margin-right: 4px; border-radius: 9999px; background: var(--accent-blue-subtle); color: var(--accent-blue); font-size: 11px; }
+.added { color: var(--accent-green); }
+.removed { color: var(--accent-red); }
+#search { width: 100%; padding: 8px 12px; margin: 8px 0 16px; border-radius: 8px; border: 1px solid var(--border-primary); background: var(--bg-card); color: var(--text-primary); font-size: 14px; }
+#search-results { list-style: none; padding: 0; margin: 0 0 16px; }
+#search-results li { padding: 8px; border-bottom: 1px solid var(--border-primary); }
+#search-results mark { background: var(--accent-amber-subtle); color: var(--text-primary); }
+.message { margin: 12px 0; padding: 12px; border-radius: 8px; border: 1px solid var(--border-primary); background: var(--bg-card); }
+.message.user { background: var(--accent-blue-subtle); }
+.message:target { outline: 2px solid var(--accent-blue); }
+.meta { color: var(--text-muted); font-size: 12px; margin-bottom: 6px; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+.marker { margin: 16px 0; padding: 8px 12px; border-left: 3px solid var(--accent-purple); background: var(--accent-purple-subtle); color: var(--text-secondary); }
+details summary { cursor: pointer; color: var(--text-secondary); }
+pre { margin: 8px 0 0; padding: 8px; overflow-x: auto; border-radius: 6px; background: var(--bg-tertiary); color: var(--text-primary); font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; white-space: pre-wrap; word-wrap: break-word; }
+pre.error { border-left: 3px solid var(--accent-red); }
+.diff { padding: 0; white-space: pre; }
+.diff span { display: block; padding: 0 8px; }
+.diff .add { background: var(--accent-green-subtle); color: var(--accent-green); }
+.diff .del { background: var(--accent-red-subtle); color: var(--accent-red); }
+.diff .hunk { color: var(--accent-purple); }
+.diff .head { color: var(--text-muted); }
+.file { margin: 16px 0; }
+.file h3 { font-size: 14px; margin: 0 0 4px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+img { max-width: 100%; border-radius: 6px; }
+`;
+
+// Runs from file://, so the index comes from a script tag (search-index.js) rather than fetch
+const SEARCH_JS = `(function () {
+  var MAX_RESULTS = 100;
+  var input = document.getElementById('search');
+  var results = document.getElementById('search-results');
+  var sessionList = document.getElementById('session-list');
+  var index = window.SEARCH_INDEX;
+  if (!input || !index) return;
+
+  function escapeHtml(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  function snippet(text, term) {
+    var at = text.toLowerCase().indexOf(term);
+    var start = Math.max(0, at - 60);
+    var part = (start > 0 ? '...' : '') + text.slice(start, at + term.length + 100);
+    var lower = part.toLowerCase();
+    var offset = lower.indexOf(term);
+    return escapeHtml(part.slice(0, offset)) + '<mark>' + escapeHtml(part.slice(offset, offset + term.length)) + '</mark>' +
+      escapeHtml(part.slice(offset + term.length));
+  }
+
+  input.addEventListener('input', function () {
+    var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    results.innerHTML = '';
+    sessionList.hidden = terms.length > 0;
+    if (terms.length === 0) return;
+
+    var count = 0;
+    for (var i = 0; i < index.messages.length && count < MAX_RESULTS; i++) {
+      var entry = index.messages[i];
+      var text = entry.text.toLowerCase();
+      if (!terms.every(function (term) { return text.indexOf(term) !== -1; })) continue;
+
+      var session = index.sessions[entry.session];
+      var item = document.createElement('li');
+      item.innerHTML = '<a href="' + session.file + '#m-' + entry.message + '">' + escapeHtml(session.title) + '</a>' +
+        ' <span class="muted">' + escapeHtml(entry.role) + '</span><div class="text">' + snippet(entry.text, terms[0]) + '</div>';
+      results.appendChild(item);
+      count++;
+    }
+    if (count === 0) {
+      results.innerHTML = '<li class="muted">No matching messages</li>';
+    }
+  });
+})();
+`;
+
+export interface SiteExportOptions {
+  theme?: Record<string, string>;
+  timeZone?: string;
+}
+
+interface SearchIndex {
+  sessions: Array<{ title: string; file: string }>;
+  messages: Array<{ session: number; message: number; role: string; text: string }>;
+}
+
+interface SessionPageContext {
+  title: string;
+  tags: string[];
+  attachments: Map<string, string>; // "<uuid>/<index>" -> path relative to the session page
+  edits: Map<string, { filePath: string; edit: FileEdit }>; // Edits by tool use ID
+  timeZone?: string;
+}
+
+function renderPage(title: string, cssPath: string, body: string, scripts: string[] = []): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${cssPath}">
+</head>
+<body>
+${body}
+${scripts.map(src => `<script src="${src}"></script>`).join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderDiff(diff: string): string {
+  const lines = diff.split('\n').map(line => {
+    const kind = line.startsWith('+++') || line.startsWith('---')
+      ? 'head'
+      : line.startsWith('@@')
+        ? 'hunk'
+        : line.startsWith('+')
+          ? 'add'
+          : line.startsWith('-')
+            ? 'del'
+            : '';
+    return `<span${kind ? ` class="${kind}"` : ''}>${escapeHtml(line) || ' '}</span>`;
+  });
+  return `<pre class="diff">${lines.join('')}</pre>`;
+}
+
+function renderToolCall(message: ChatMessage, context: SessionPageContext): string {
+  const toolCall = message.toolCall!;
+  const change = context.edits.get(toolCall.id);
+  const summary = change ? `${toolCall.name} ${change.filePath}` : toolCall.name;
+
+  let body = change
+    ? renderDiff(change.edit.diff)
+    : `<pre>${escapeHtml(JSON.stringify(toolCall.input, null, 2))}</pre>`;
+  if (toolCall.result) {
+    body += `<pre${toolCall.result.isError ? ' class="error"' : ''}>${escapeHtml(toolCall.result.content)}</pre>`;
+  }
+  return `<details${change ? ' open' : ''}><summary>${escapeHtml(summary)}</summary>${body}</details>`;
+}
+
+function renderMessage(message: ChatMessage, index: number, context: SessionPageContext): string {
+  if (message.type === 'summary' || message.type === 'compact_boundary') {
+    const label = message.type === 'summary' ? 'Summary' : 'Context compacted';
+    return `<div class="marker" id="m-${index}"><strong>${label}</strong><div class="text">${escapeHtml(message.content)}</div></div>`;
+  }
+
+  let body: string;
+  if (message.type === 'tool_use' && message.toolCall) {
+    body = renderToolCall(message, context);
+  } else if (message.type === 'tool_result' && message.toolResult) {
+    body = `<pre${message.toolResult.isError ? ' class="error"' : ''}>${escapeHtml(message.toolResult.content)}</pre>`;
+  } else if (message.type === 'thinking') {
+    body = `<details><summary>Thinking</summary><div class="text">${escapeHtml(message.content)}</div></details>`;
+  } else if (message.type === 'image' && message.image) {
+    const file = context.attachments.get(`${message.uuid}/${message.image.index}`);
+    body = file ? `<img src="${escapeHtml(file)}" alt="image">` : `<span class="muted">Image not included</span>`;
+  } else {
+    body = `<div class="text">${escapeHtml(message.content)}</div>`;
+  }
+
+  return `<article class="message ${message.role}" id="m-${index}">
+<div class="meta">${message.role === 'user' ? 'User' : 'Assistant'} · ${formatTimestamp(message.timestamp, context.timeZone)}</div>
+${body}
+</article>`;
+}
+
+function renderChanges(changes: SessionChanges): string {
+  if (changes.files.length === 0) {
+    return '<p class="muted">No file changes</p>';
+  }
+
+  return changes.files
+    .map(file => `<div class="file">
+<h3>${escapeHtml(file.filePath)} <span class="added">+${file.linesAdded}</span> <span class="removed">-${file.linesRemoved}</span></h3>
+${file.edits.map(edit => renderDiff(edit.diff)).join('\n')}
+</div>`)
+    .join('\n');
+}
+
+function renderSessionPage(session: Session, changes: SessionChanges, projectName: string, context: SessionPageContext): string {
+  const tags = context.tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('');
+  const body = `<header>
+<a href="../index.html">&larr; ${escapeHtml(projectName)}</a>
+<h1>${escapeHtml(context.title)}</h1>
+<div class="stats">
+<span>${formatTimestamp(session.createdAt, context.timeZone)} &ndash; ${formatTimestamp(session.updatedAt, context.timeZone)}</span>
+<span>${session.messages.length} messages</span>
+<span><span class="added">+${changes.linesAdded}</span> <span class="removed">-${changes.linesRemoved}</span></span>
+${tags ? `<span>${tags}</span>` : ''}
+</div>
+<nav class="tabs"><a href="#conversation">Conversation</a><a href="#changes">Changes (${changes.files.length})</a></nav>
+</header>
+<main>
+<section id="conversation">
+${session.messages.map((message, i) => renderMessage(message, i, context)).join('\n')}
+</section>
+<section id="changes">
+<h2>Changes</h2>
+${renderChanges(changes)}
+</section>
+</main>`;
+
+  return renderPage(context.title, '../assets/site.css', body);
+}
+
+interface SessionRow {
+  sessionId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  linesAdded: number;
+  linesRemoved: number;
+  tags: string[];
+}
+
+function renderIndexPage(project: string, rows: SessionRow[], timeZone?: string): string {
+  const projectName = path.basename(project) || project;
+  const messageCount = rows.reduce((sum, row) => sum + row.messageCount, 0);
+  const tableRows = rows.map(row => `<tr>
+<td><a href="sessions/${row.sessionId}.html">${escapeHtml(row.title)}</a></td>
+<td>${formatTimestamp(row.createdAt, timeZone)}</td>
+<td>${formatTimestamp(row.updatedAt, timeZone)}</td>
+<td>${row.messageCount}</td>
+<td><span class="added">+${row.linesAdded}</span> <span class="removed">-${row.linesRemoved}</span></td>
+<td>${row.tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</td>
+</tr>`);
+
+  const body = `<header>
+<h1>${escapeHtml(projectName)}</h1>
+<div class="muted">${escapeHtml(project)}</div>
+<div class="stats"><span>${rows.length} sessions</span><span>${messageCount} messages</span><span>Exported ${formatTimestamp(Date.now(), timeZone)}</span></div>
+</header>
+<main>
+<input id="search" type="search" placeholder="Search all sessions" autocomplete="off">
+<ul id="search-results"></ul>
+<table id="session-list">
+<tr><th>Session</th><th>Created</th><th>Updated</th><th>Messages</th><th>Changes</th><th>Tags</th></tr>
+${tableRows.join('\n')}
+</table>
+</main>`;
+
+  return renderPage(projectName, 'assets/site.css', body, ['assets/search-index.js', 'assets/search.js']);
+}
+
+// Text a message is found by in the site search
+function getSearchText(message: ChatMessage): string {
+  const text = message.type === 'tool_use' && message.toolCall
+    ? `${message.toolCall.name} ${JSON.stringify(message.toolCall.input)}`
+    : message.type === 'tool_result' && message.toolResult
+      ? message.toolResult.content
+      : message.content;
+  return text.slice(0, MAX_INDEXED_TEXT);
+}
+
+// Only custom properties with plain color values make it into the stylesheet
+function renderThemeCss(theme: Record<string, string>): string {
+  const vars = Object.entries({ ...DEFAULT_THEME, ...theme })
+    .filter(([name, value]) => /^--[\w-]+$/.test(name) && /^[#\w\s(),.%-]+$/.test(value))
+    .map(([name, value]) => `  ${name}: ${value};`);
+  return `:root {\n${vars.join('\n')}\n}\n`;
+}
+
+/**
+ * Renders a project as a static site that opens from disk: an index page with search over
+ * a prebuilt index, and one page per session with its conversation, tool calls and diffs.
+ * The site is written as a zip archive holding a single folder.
+ */
+export class SiteExportService {
+  private sessionsService: SessionsService;
+  private favoritesService: FavoritesService;
+
+  constructor(sessionsService: SessionsService, favoritesService: FavoritesService) {
+    this.sessionsService = sessionsService;
+    this.favoritesService = favoritesService;
+  }
+
+  /**
+   * Folder name of the site inside the archive
+   */
+  getSiteName(project: string): string {
+    const name = (path.basename(project) || 'project').replace(/[^\w.-]+/g, '-');
+    return `${name}-site`;
+  }
+
+  async writeSite(project: string, sessions: Session[], output: Writable, options: SiteExportOptions = {}): Promise<void> {
+    const { timeZone } = options;
+    const zip = new ZipWriter(output);
+    const root = this.getSiteName(project);
+    const projectName = path.basename(project) || project;
+    const [sessionNames, sessionTags] = await Promise.all([
+      this.favoritesService.getSessionNames(),
+      this.favoritesService.getSessionTags(),
+    ]);
+
+    const rows: SessionRow[] = [];
+    const searchIndex: SearchIndex = { sessions: [], messages: [] };
+
+    // Newest first, as in the viewer
+    for (const summary of [...sessions].sort((a, b) => b.updatedAt - a.updatedAt)) {
+      const session = await this.sessionsService.getSessionWithConversation(summary.sessionId);
+      if (!session) continue;
+
+      const changes = (await this.sessionsService.getSessionChanges(session.sessionId)) ?? {
+        files: [],
+        linesAdded: 0,
+        linesRemoved: 0,
+      };
+      const modifiedAt = new Date(session.updatedAt);
+      const context: SessionPageContext = {
+        title: getSessionTitle(session, sessionNames[session.sessionId]),
+        tags: sessionTags[session.sessionId] ?? [],
+        attachments: new Map(),
+        edits: new Map(),
+        timeZone,
+      };
+      for (const file of changes.files) {
+        for (const edit of file.edits) {
+          context.edits.set(edit.toolUseId, { filePath: file.filePath, edit });
+        }
+      }
+
+      for (const message of session.messages) {
+        if (message.type !== 'image' || !message.image) continue;
+
+        const attachment = await this.sessionsService.getAttachment(session.sessionId, message.uuid, message.image.index);
+        if (!attachment) continue;
+
+        const extension = IMAGE_EXTENSIONS[attachment.mediaType] ?? 'bin';
+        const file = `attachments/${message.uuid}-${message.image.index}.${extension}`;
+        await zip.addFile(`${root}/sessions/${file}`, attachment.data, modifiedAt);
+        context.attachments.set(`${message.uuid}/${message.image.index}`, file);
+      }
+
+      await zip.addFile(
+        `${root}/sessions/${session.sessionId}.html`,
+        renderSessionPage(session, changes, projectName, context),
+        modifiedAt
+      );
+
+      const sessionIndex = searchIndex.sessions.length;
+      searchIndex.sessions.push({ title: context.title, file: `sessions/${session.sessionId}.html` });
+      session.messages.forEach((message, i) => {
+        const text = getSearchText(message);
+        if (text.trim()) {
+          searchIndex.messages.push({ session: sessionIndex, message: i, role: message.type ?? message.role, text });
+        }
+      });
+
+      rows.push({
+        sessionId: session.sessionId,
+        title: context.title,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+        linesAdded: changes.linesAdded,
+        linesRemoved: changes.linesRemoved,
+        tags: context.tags,
+      });
+    }
+
+    await zip.addFile(`${root}/index.html`, renderIndexPage(project, rows, timeZone));
+    await zip.addFile(`${root}/assets/site.css`, renderThemeCss(options.theme ?? {}) + SITE_CSS);
+    await zip.addFile(`${root}/assets/search.js`, SEARCH_JS);
+    await zip.addFile(`${root}/assets/search-index.js`, `window.SEARCH_INDEX = ${JSON.stringify(searchIndex)};\n`);
+    await zip.finish();
+  }
+}
@@ -1,6 +1,10 @@
 import type { SessionsService } from './sessionsService';
 import type { TeamsService } from './TeamsService';
 import type { Session, Project, Team } from '../types';
+import { getActiveTimeByDay } from './sessions/ActiveTime';
+import { getZonedDateParts, formatZonedDate, getZonedDayStart, getRecentDates } from '../utils/timeZoneUtils';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
 
 // Activity stats interfaces
 export interface DailyActivity {
@@ -24,19 +28,44 @@ export interface ProjectTrends {
   daily: DailyActivity[];
 }
 
+export interface DailyActiveTime {
+  date: string; // YYYY-MM-DD
+  activeHours: number;
+}
+
+export interface ActiveTimeStats {
+  totalHours: number;
+  daily: DailyActiveTime[];
+  byProject: { projectPath: string; activeHours: number }[];
+}
+
+export interface HourlyActivity {
+  timeZone: string;
+  matrix: number[][]; // [weekday][hour] message counts, weekday 0 = Sunday
+  total: number;
+}
+
 export interface UsageStats {
   totalSessions: number;
   totalMessages: number;
   totalTeams: number;
   activeToday: number;
   activeThisWeek: number;
-  averageSessionDuration: number;
+  averageSessionDuration: number; // Minutes of active time, idle gaps excluded
   topProjects: { name: string; count: number }[];
 }
 
+// Message timestamps of a session as of its last update
+interface CachedTimestamps {
+  updatedAt: number;
+  timestamps: number[];
+}
+
 export class StatsService {
   private sessionsService: SessionsService;
   private teamsService: TeamsService;
+  // Reading a transcript for its timestamps is slow; only sessions updated since are read again
+  private messageTimestamps = new Map<string, CachedTimestamps>();
 
   constructor(sessionsService: SessionsService, teamsService: TeamsService) {
     this.sessionsService = sessionsService;
@@ -44,25 +73,22 @@ export class StatsService {
   }
 
   /**
-   * Get activity statistics for the last N days
+   * Get activity statistics for the last N days, with days in a time zone (the server's by default)
    */
-  async getActivityStats(days: number = 30): Promise<ActivityStats> {
+  async getActivityStats(days: number = 30, timeZone?: string): Promise<ActivityStats> {
     const sessions = await this.sessionsService.getSessions();
     const now = new Date();
     const dailyMap = new Map<string, { sessionCount: number; messageCount: number }>();
 
     // Initialize all days with zero counts
-    for (let i = 0; i < days; i++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      const dateStr = this.formatDate(date);
+    for (const dateStr of getRecentDates(days, timeZone)) {
       dailyMap.set(dateStr, { sessionCount: 0, messageCount: 0 });
     }
 
     // Aggregate session data by date
     for (const session of sessions) {
       const sessionDate = new Date(session.createdAt);
-      const dateStr = this.formatDate(sessionDate);
+      const dateStr = formatZonedDate(session.createdAt, timeZone);
 
       // Only include if within the date range
       const daysDiff = Math.floor((now.getTime() - sessionDate.getTime()) / (1000 * 60 * 60 * 24));
@@ -98,23 +124,20 @@ export class StatsService {
   /**
    * Get project trends for a specific project
    */
-  async getProjectTrends(projectPath: string, days: number = 30): Promise<ProjectTrends> {
+  async getProjectTrends(projectPath: string, days: number = 30, timeZone?: string): Promise<ProjectTrends> {
     const sessions = await this.sessionsService.getSessionsByProject(projectPath);
     const now = new Date();
     const dailyMap = new Map<string, { sessionCount: number; messageCount: number }>();
 
     // Initialize all days with zero counts
-    for (let i = 0; i < days; i++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      const dateStr = this.formatDate(date);
+    for (const dateStr of getRecentDates(days, timeZone)) {
       dailyMap.set(dateStr, { sessionCount: 0, messageCount: 0 });
     }
 
     // Aggregate session data by date
     for (const session of sessions) {
       const sessionDate = new Date(session.createdAt);
-      const dateStr = this.formatDate(sessionDate);
+      const dateStr = formatZonedDate(session.createdAt, timeZone);
 
       const daysDiff = Math.floor((now.getTime() - sessionDate.getTime()) / (1000 * 60 * 60 * 24));
       if (daysDiff >= 0 && daysDiff < days) {
@@ -146,7 +169,7 @@ export class StatsService {
   /**
    * Get overall usage statistics
    */
-  async getUsageStats(): Promise<UsageStats> {
+  async getUsageStats(timeZone?: string): Promise<UsageStats> {
     const [sessions, teams, projects] = await Promise.all([
       this.sessionsService.getSessions(),
       this.teamsService.getTeams(),
@@ -154,7 +177,7 @@ export class StatsService {
     ]);
 
     const now = new Date();
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const todayStart = new Date(getZonedDayStart(now.getTime(), timeZone));
     const weekStart = new Date(now);
     weekStart.setDate(weekStart.getDate() - 7);
 
@@ -184,10 +207,9 @@ export class StatsService {
         activeThisWeek++;
       }
 
-      // Calculate session duration
-      if (session.updatedAt > session.createdAt) {
-        const duration = session.updatedAt - session.createdAt;
-        totalDuration += duration;
+      // Calculate session duration from active time, so idle gaps don't count
+      if (session.activeTimeMs) {
+        totalDuration += session.activeTimeMs;
         sessionsWithDuration++;
       }
     }
@@ -214,6 +236,124 @@ export class StatsService {
     };
   }
 
+  /**
+   * Get active hours per day and per project for the last N days
+   */
+  async getActiveTimeStats(days: number = 30, projectPath?: string, timeZone?: string): Promise<ActiveTimeStats> {
+    const [sessions, activity] = await Promise.all([
+      projectPath ? this.sessionsService.getSessionsByProject(projectPath) : this.sessionsService.getSessions(),
+      this.sessionsService.getSessionActivity(),
+    ]);
+    const dailyMap = new Map<string, number>();
+    const projectMap = new Map<string, number>();
+
+    // Initialize all days with zero time
+    for (const date of getRecentDates(days, timeZone)) {
+      dailyMap.set(date, 0);
+    }
+
+    for (const session of sessions) {
+      const activePeriods = activity.get(session.sessionId)?.activePeriods;
+      if (!activePeriods) continue;
+
+      for (const [date, activeMs] of getActiveTimeByDay(activePeriods, timeZone)) {
+        // Only include days within the range
+        const existing = dailyMap.get(date);
+        if (existing === undefined) continue;
+
+        dailyMap.set(date, existing + activeMs);
+        projectMap.set(session.project, (projectMap.get(session.project) || 0) + activeMs);
+      }
+    }
+
+    const daily: DailyActiveTime[] = Array.from(dailyMap.entries())
+      .sort(([dateA], [dateB]) => dateA.localeCompare(dateB))
+      .map(([date, activeMs]) => ({ date, activeHours: this.toHours(activeMs) }));
+
+    const byProject = Array.from(projectMap.entries())
+      .sort(([, msA], [, msB]) => msB - msA)
+      .map(([path, activeMs]) => ({ projectPath: path, activeHours: this.toHours(activeMs) }));
+
+    const totalMs = Array.from(dailyMap.values()).reduce((sum, activeMs) => sum + activeMs, 0);
+
+    return {
+      totalHours: this.toHours(totalMs),
+      daily,
+      byProject,
+    };
+  }
+
+  /**
+   * Get message counts per weekday and hour of day in a time zone for the last N days
+   */
+  async getHourlyActivity(days: number = 30, timeZone?: string, projectPath?: string): Promise<HourlyActivity> {
+    const sessions = projectPath
+      ? await this.sessionsService.getSessionsByProject(projectPath)
+      : await this.sessionsService.getSessions();
+    const cutoffTime = Date.now() - days * 24 * 60 * 60 * 1000;
+    const matrix = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    let total = 0;
+
+    // Zone offsets are whole quarter hours, so every timestamp in a quarter hour
+    // lands in the same cell - resolve each quarter once
+    const QUARTER_HOUR = 15 * 60 * 1000;
+    const cells = new Map<number, [number, number]>();
+
+    for (const session of sessions) {
+      // Skip if session is too old
+      if (session.updatedAt < cutoffTime) continue;
+
+      for (const ts of await this.getMessageTimestamps(session)) {
+        if (ts < cutoffTime) continue;
+
+        const quarter = Math.floor(ts / QUARTER_HOUR);
+        let cell = cells.get(quarter);
+        if (!cell) {
+          const { weekday, hour } = getZonedDateParts(ts, timeZone);
+          cell = [weekday, hour];
+          cells.set(quarter, cell);
+        }
+        matrix[cell[0]][cell[1]]++;
+        total++;
+      }
+    }
+
+    // Forget deleted sessions
+    if (!projectPath) {
+      const sessionIds = new Set(sessions.map(session => session.id));
+      for (const sessionId of this.messageTimestamps.keys()) {
+        if (!sessionIds.has(sessionId)) this.messageTimestamps.delete(sessionId);
+      }
+    }
+
+    return {
+      timeZone: timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+      matrix,
+      total,
+    };
+  }
+
+  /**
+   * Message timestamps of a session, read again only after the session was updated
+   */
+  private async getMessageTimestamps(session: Session): Promise<number[]> {
+    const cached = this.messageTimestamps.get(session.id);
+    if (cached && cached.updatedAt === session.updatedAt) {
+      return cached.timestamps;
+    }
+
+    const timestamps = await this.sessionsService.getMessageTimestamps(session.id);
+    this.messageTimestamps.set(session.id, { updatedAt: session.updatedAt, timestamps });
+    return timestamps;
+  }
+
+  /**
+   * Convert milliseconds to hours, rounded to two decimals
+   */
+  private toHours(ms: number): number {
+    return Math.round((ms / MS_PER_HOUR) * 100) / 100;
+  }
+
   /**
    * Generate heatmap levels based on daily activity
    * Level 0: No activity
@@ -239,14 +379,4 @@ export class StatsService {
       };
     });
   }
-
-  /**
-   * Format date as YYYY-MM-DD
-   */
-  private formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  }
 }
@@ -0,0 +1,189 @@
+import { watch, type FSWatcher } from 'fs';
+import path from 'path';
+import { eventBus } from './EventBus';
+
+// 团队目录中的文件变化
+type TeamFileChange =
+  | { type: 'team'; teamId: string } // 团队目录创建或删除、config.json 或 inboxes 目录变化
+  | { type: 'message'; teamId: string; memberName: string }; // 成员收件箱变化
+
+/**
+ * 解析团队目录下的相对路径
+ * 布局：<teamId>/config.json、<teamId>/inboxes/<member>.json
+ */
+export function parseTeamFilePath(filePath: string): TeamFileChange | null {
+  const parts = filePath.replace(/\\/g, '/').split('/').filter(Boolean);
+  if (parts.length === 0 || parts.some(part => part.startsWith('.'))) return null;
+
+  const [teamId, name, file] = parts;
+  if (parts.length === 1 || (parts.length === 2 && (name === 'config.json' || name === 'inboxes'))) {
+    return { type: 'team', teamId };
+  }
+  if (parts.length === 3 && name === 'inboxes' && file.endsWith('.json')) {
+    return { type: 'message', teamId, memberName: path.basename(file, '.json') };
+  }
+  return null;
+}
+
+/**
+ * TeamsWatcher - 团队目录监视服务
+ * 与 FileWatcher 相同，使用 fs.watch + 防抖监视团队配置和收件箱变化
+ */
+export class TeamsWatcher {
+  private watcher: FSWatcher | null = null;
+  private teamsDir: string;
+  private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private readonly DEBOUNCE_MS = 100;
+  private readonly RETRY_MS = 5000;
+  private isWatching = false;
+
+  constructor(teamsDir: string) {
+    this.teamsDir = path.normalize(teamsDir);
+  }
+
+  /**
+   * 启动文件监视；团队目录不存在时不影响服务启动，每隔 RETRY_MS 重试直到目录出现
+   */
+  start(): void {
+    if (this.isWatching) {
+      console.log('[TeamsWatcher] Already watching');
+      return;
+    }
+    if (this.retryTimer) {
+      return;
+    }
+
+    if (!this.watchTeamsDir()) {
+      console.log(`[TeamsWatcher] Waiting for ${this.teamsDir} to be created`);
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * 监视团队目录，成功时返回 true
+   */
+  private watchTeamsDir(): boolean {
+    try {
+      this.watcher = watch(
+        this.teamsDir,
+        { recursive: true, persistent: true },
+        (_eventType, filename) => {
+          if (!filename) return;
+
+          const change = parseTeamFilePath(filename);
+          if (change === null) return;
+
+          // 构建防抖 key
+          const debounceKey =
+            change.type === 'message' ? `${change.teamId}/inboxes/${change.memberName}` : change.teamId;
+
+          this.handleFileChange(debounceKey, change);
+        }
+      );
+
+      // 目录被删除时监视失效，关闭后等待目录重新创建
+      this.watcher.on('error', (error) => {
+        console.error('[TeamsWatcher] Watch error:', error);
+        this.watcher?.close();
+        this.watcher = null;
+        this.isWatching = false;
+        this.scheduleRetry();
+      });
+
+      this.isWatching = true;
+      console.log(`[TeamsWatcher] Started on: ${this.teamsDir}`);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[TeamsWatcher] Not watching ${this.teamsDir}:`, (error as Error).message);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * 定时重试监视；目录出现后通知客户端重新加载团队列表
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+
+    this.retryTimer = setInterval(() => {
+      if (this.watchTeamsDir()) {
+        this.stopRetry();
+        eventBus.emit('teamListChanged', {});
+      }
+    }, this.RETRY_MS);
+    this.retryTimer.unref?.();
+  }
+
+  private stopRetry(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * 处理文件变化（带防抖）
+   */
+  private handleFileChange(debounceKey: string, change: TeamFileChange): void {
+    const existingTimer = this.debounceTimers.get(debounceKey);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const newTimer = setTimeout(() => {
+      this.emitEvent(change);
+      this.debounceTimers.delete(debounceKey);
+    }, this.DEBOUNCE_MS);
+
+    this.debounceTimers.set(debounceKey, newTimer);
+  }
+
+  /**
+   * 发射事件
+   */
+  private emitEvent(change: TeamFileChange): void {
+    switch (change.type) {
+      case 'team':
+        // 团队增删和配置变化都会影响列表中的名称和成员
+        eventBus.emit('teamChanged', { teamId: change.teamId });
+        eventBus.emit('teamListChanged', {});
+        break;
+      case 'message':
+        eventBus.emit('teamMessage', { teamId: change.teamId, memberName: change.memberName });
+        break;
+    }
+  }
+
+  /**
+   * 停止文件监视
+   */
+  stop(): void {
+    this.stopRetry();
+    if (!this.isWatching) {
+      return;
+    }
+
+    for (const [, timer] of this.debounceTimers) {
+      clearTimeout(timer);
+    }
+    this.debounceTimers.clear();
+
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+
+    this.isWatching = false;
+    console.log('[TeamsWatcher] Stopped');
+  }
+
+  /**
+   * 检查是否正在监视
+   */
+  isWatchingActive(): boolean {
+    return this.isWatching;
+  }
+}
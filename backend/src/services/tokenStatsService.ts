@@ -0,0 +1,211 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import z from 'zod';
+import type { SessionsService } from './sessionsService';
+import type { TokenCounts } from '../types';
+import { formatZonedDate, getRecentDates } from '../utils/timeZoneUtils';
+import { createEmptyTokenCounts, addTokenCounts } from '../utils/tokenUtils';
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export interface PriceTable {
+  [modelPrefix: string]: ModelPrice;
+}
+
+export interface TokenCostEntry extends TokenCounts {
+  estimatedCost: number;
+}
+
+export interface DailyTokenUsage extends TokenCostEntry {
+  date: string; // YYYY-MM-DD
+}
+
+export interface ProjectTokenUsage extends TokenCostEntry {
+  projectPath: string;
+  sessionCount: number;
+}
+
+export interface ModelTokenUsage extends TokenCostEntry {
+  model: string;
+  priced: boolean;
+}
+
+export interface TokenStats {
+  currency: 'USD';
+  totals: TokenCostEntry;
+  daily: DailyTokenUsage[];
+  byProject: ProjectTokenUsage[];
+  byModel: ModelTokenUsage[];
+}
+
+// Built-in defaults; entries in the local pricing file override these by key.
+// Keys are model id prefixes, the longest matching prefix wins.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+const modelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  cacheWrite: z.number().nonnegative(),
+  cacheRead: z.number().nonnegative(),
+});
+
+const pricingFileSchema = z.object({
+  models: z.record(z.string(), modelPriceSchema),
+});
+
+export class TokenStatsService {
+  private sessionsService: SessionsService;
+  private pricingFile: string;
+  private priceTableCache: PriceTable | null = null;
+  private lastLoadTime: number = 0;
+  private readonly CACHE_TTL = 5000; // 5 seconds cache TTL
+
+  constructor(sessionsService: SessionsService, pricingFile?: string) {
+    this.sessionsService = sessionsService;
+    this.pricingFile = pricingFile || path.join(os.homedir(), '.claude', 'favorites', 'pricing.json');
+  }
+
+  // Get token usage and estimated cost of the last `days` days, aggregated by day, project and model
+  async getTokenStats(days: number = 30, projectPath?: string, timeZone?: string): Promise<TokenStats> {
+    const [sessions, activity, priceTable] = await Promise.all([
+      projectPath
+        ? this.sessionsService.getSessionsByProject(projectPath)
+        : this.sessionsService.getSessions(),
+      this.sessionsService.getSessionActivity(),
+      this.getPriceTable(),
+    ]);
+
+    const dailyMap = new Map<string, TokenCostEntry>();
+
+    // Initialize all days with zero counts
+    for (const date of getRecentDates(days, timeZone)) {
+      dailyMap.set(date, this.createEmptyEntry());
+    }
+
+    const totals = this.createEmptyEntry();
+    const projectMap = new Map<string, ProjectTokenUsage>();
+    const modelMap = new Map<string, ModelTokenUsage>();
+
+    for (const session of sessions) {
+      const tokenTimeline = activity.get(session.sessionId)?.tokenTimeline;
+      if (!tokenTimeline) continue;
+
+      // Usage counts on the day each response was sent, so long sessions spread over several days
+      let projectEntry: ProjectTokenUsage | undefined;
+      for (const bucket of tokenTimeline) {
+        const dayEntry = dailyMap.get(formatZonedDate(bucket.start, timeZone));
+        if (!dayEntry) continue;
+
+        if (!projectEntry) {
+          projectEntry = projectMap.get(session.project);
+          if (!projectEntry) {
+            projectEntry = { projectPath: session.project, sessionCount: 0, ...this.createEmptyEntry() };
+            projectMap.set(session.project, projectEntry);
+          }
+          projectEntry.sessionCount++;
+        }
+
+        for (const [model, counts] of Object.entries(bucket.byModel)) {
+          const price = this.findPrice(model, priceTable);
+          const cost = price ? this.calculateCost(counts, price) : 0;
+
+          let modelEntry = modelMap.get(model);
+          if (!modelEntry) {
+            modelEntry = { model, priced: price !== null, ...this.createEmptyEntry() };
+            modelMap.set(model, modelEntry);
+          }
+
+          for (const entry of [totals, projectEntry, modelEntry, dayEntry]) {
+            addTokenCounts(entry, counts);
+            entry.estimatedCost += cost;
+          }
+        }
+      }
+    }
+
+    // Convert map to sorted array (oldest first)
+    const daily: DailyTokenUsage[] = Array.from(dailyMap.entries())
+      .sort(([dateA], [dateB]) => dateA.localeCompare(dateB))
+      .map(([date, entry]) => ({ date, ...entry }));
+
+    const byProject = Array.from(projectMap.values())
+      .sort((a, b) => b.estimatedCost - a.estimatedCost);
+
+    const byModel = Array.from(modelMap.values())
+      .sort((a, b) => b.estimatedCost - a.estimatedCost);
+
+    return {
+      currency: 'USD',
+      totals,
+      daily,
+      byProject,
+      byModel,
+    };
+  }
+
+  // Get the effective price table (defaults merged with the local pricing file)
+  async getPriceTable(): Promise<PriceTable> {
+    const now = Date.now();
+    if (this.priceTableCache && (now - this.lastLoadTime) < this.CACHE_TTL) {
+      return this.priceTableCache;
+    }
+
+    let overrides: PriceTable = {};
+    try {
+      const data = await fs.readFile(this.pricingFile, 'utf-8');
+      const parsed = pricingFileSchema.safeParse(JSON.parse(data));
+      if (parsed.success) {
+        overrides = parsed.data.models;
+      } else {
+        console.error('[TokenStatsService] Invalid pricing file, using defaults:', parsed.error.message);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[TokenStatsService] Error reading pricing file:', error);
+      }
+    }
+
+    this.priceTableCache = { ...DEFAULT_PRICE_TABLE, ...overrides };
+    this.lastLoadTime = now;
+    return this.priceTableCache;
+  }
+
+  // Find the price for a model by longest matching prefix
+  private findPrice(model: string, priceTable: PriceTable): ModelPrice | null {
+    let bestMatch: string | null = null;
+    for (const prefix of Object.keys(priceTable)) {
+      if (model.startsWith(prefix) && (!bestMatch || prefix.length > bestMatch.length)) {
+        bestMatch = prefix;
+      }
+    }
+    return bestMatch ? priceTable[bestMatch] : null;
+  }
+
+  private calculateCost(counts: TokenCounts, price: ModelPrice): number {
+    return (
+      counts.inputTokens * price.input +
+      counts.outputTokens * price.output +
+      counts.cacheCreationTokens * price.cacheWrite +
+      counts.cacheReadTokens * price.cacheRead
+    ) / 1_000_000;
+  }
+
+  private createEmptyEntry(): TokenCostEntry {
+    return { ...createEmptyTokenCounts(), estimatedCost: 0 };
+  }
+}
@@ -0,0 +1,148 @@
+import path from 'path';
+import type { SessionsService } from './sessionsService';
+import type { ConversationMessage, Session } from '../types';
+import { extractToolCalls, type ToolCall } from './sessions/ToolCallExtractor';
+import { readAgentTranscripts, readSessionTranscript } from './sessions/TranscriptReader';
+import { formatZonedDate, getRecentDates } from '../utils/timeZoneUtils';
+
+export interface ToolCallSummary {
+  callCount: number;
+  errorCount: number;
+  errorRate: number; // 0..1
+  medianLatencyMs: number | null; // Null when no call has a result
+}
+
+export interface DailyToolUsage {
+  date: string; // YYYY-MM-DD
+  callCount: number;
+  errorCount: number;
+}
+
+export interface ToolUsage extends ToolCallSummary {
+  tool: string;
+  daily: DailyToolUsage[];
+  byProject: (ToolCallSummary & { projectPath: string })[];
+  byModel: (ToolCallSummary & { model: string })[];
+}
+
+export interface ToolStats {
+  totals: ToolCallSummary;
+  tools: ToolUsage[];
+}
+
+interface ProjectToolCall extends ToolCall {
+  projectPath: string;
+}
+
+export class ToolStatsService {
+  private sessionsService: SessionsService;
+  private projectsDir: string;
+
+  constructor(sessionsService: SessionsService, historyFilePath: string) {
+    this.sessionsService = sessionsService;
+    this.projectsDir = path.join(path.dirname(historyFilePath), 'projects');
+  }
+
+  // Get tool call counts, error rates and latencies per tool, with project and model breakdowns
+  async getToolStats(days: number = 30, projectPath?: string, timeZone?: string): Promise<ToolStats> {
+    const sessions = projectPath
+      ? await this.sessionsService.getSessionsByProject(projectPath)
+      : await this.sessionsService.getSessions();
+    const cutoffTime = Date.now() - days * 24 * 60 * 60 * 1000;
+    const calls: ProjectToolCall[] = [];
+
+    for (const session of sessions) {
+      // Skip if session is too old
+      if (session.updatedAt < cutoffTime) continue;
+
+      for (const entries of await this.readSessionTranscripts(session)) {
+        for (const call of extractToolCalls(entries)) {
+          if (call.timestamp >= cutoffTime) {
+            calls.push({ ...call, projectPath: session.project });
+          }
+        }
+      }
+    }
+
+    const byTool = this.groupBy(calls, call => call.name);
+    const tools = Array.from(byTool.entries())
+      .map(([tool, toolCalls]): ToolUsage => ({
+        tool,
+        ...this.summarize(toolCalls),
+        daily: this.getDailyUsage(toolCalls, days, timeZone),
+        byProject: Array.from(this.groupBy(toolCalls, call => call.projectPath).entries())
+          .map(([project, projectCalls]) => ({ projectPath: project, ...this.summarize(projectCalls) }))
+          .sort((a, b) => b.callCount - a.callCount),
+        byModel: Array.from(this.groupBy(toolCalls, call => call.model).entries())
+          .map(([model, modelCalls]) => ({ model, ...this.summarize(modelCalls) }))
+          .sort((a, b) => b.callCount - a.callCount),
+      }))
+      .sort((a, b) => b.callCount - a.callCount);
+
+    return {
+      totals: this.summarize(calls),
+      tools,
+    };
+  }
+
+  // Parse the transcript of a session and those of its subagents
+  private async readSessionTranscripts(session: Session): Promise<ConversationMessage[][]> {
+    const entries = await readSessionTranscript(this.projectsDir, session);
+    const agentTranscripts = await readAgentTranscripts(this.projectsDir, session);
+    return entries ? [entries, ...agentTranscripts] : agentTranscripts;
+  }
+
+  // Call counts per day (oldest first), with every day of the range present
+  private getDailyUsage(calls: ToolCall[], days: number, timeZone?: string): DailyToolUsage[] {
+    const dailyMap = new Map<string, DailyToolUsage>();
+
+    // Initialize all days with zero counts
+    for (const dateStr of getRecentDates(days, timeZone)) {
+      dailyMap.set(dateStr, { date: dateStr, callCount: 0, errorCount: 0 });
+    }
+
+    for (const call of calls) {
+      const day = dailyMap.get(formatZonedDate(call.timestamp, timeZone));
+      if (!day) continue;
+      day.callCount++;
+      if (call.isError) day.errorCount++;
+    }
+
+    return Array.from(dailyMap.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private summarize(calls: ToolCall[]): ToolCallSummary {
+    const errorCount = calls.filter(call => call.isError).length;
+    const latencies = calls
+      .map(call => call.latencyMs)
+      .filter((latency): latency is number => latency !== null);
+
+    return {
+      callCount: calls.length,
+      errorCount,
+      errorRate: calls.length > 0 ? errorCount / calls.length : 0,
+      medianLatencyMs: this.median(latencies),
+    };
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = getKey(item);
+      const group = groups.get(key);
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(key, [item]);
+      }
+    }
+    return groups;
+  }
+}
@@ -0,0 +1,242 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { TrashItem, TrashedFile } from '../../types';
+
+export const DEFAULT_TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface TrashStoreOptions {
+  trashDir: string;
+  retentionMs?: number;
+}
+
+// What callers describe when they trash something; the store fills in the rest
+export type NewTrashItem = Pick<TrashItem, 'type' | 'targetId' | 'name' | 'project' | 'historyLines'>;
+
+interface TrashManifest {
+  items: TrashItem[];
+}
+
+/**
+ * Thrown when a restore would overwrite a file that was created again after the delete
+ */
+export class TrashConflictError extends Error {
+  constructor(filePath: string) {
+    super(`Cannot restore over existing path: ${filePath}`);
+    this.name = 'TrashConflictError';
+  }
+}
+
+// Rename, falling back to copy + remove when the trash is on another device
+async function movePath(from: string, to: string): Promise<void> {
+  await fs.mkdir(path.dirname(to), { recursive: true });
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await fs.cp(from, to, { recursive: true });
+    await fs.rm(from, { recursive: true, force: true });
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Trash for deleted sessions and teams. Each item gets its own directory holding the moved
+ * files; manifest.json records where they came from so they can be moved back.
+ * Items older than the retention period are purged automatically.
+ */
+export class TrashStore {
+  private trashDir: string;
+  private manifestPath: string;
+  private retentionMs: number;
+  private pending: Promise<unknown> = Promise.resolve(); // Manifest updates run one after another
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: TrashStoreOptions) {
+    this.trashDir = options.trashDir;
+    this.manifestPath = path.join(this.trashDir, 'manifest.json');
+    this.retentionMs = options.retentionMs ?? DEFAULT_TRASH_RETENTION_MS;
+  }
+
+  /**
+   * Move paths into the trash. Missing paths are skipped; if a move fails the
+   * already moved paths are put back and the error is rethrown.
+   */
+  add(item: NewTrashItem, paths: string[]): Promise<TrashItem> {
+    return this.serialize(async () => {
+      const id = randomUUID();
+      const itemDir = path.join(this.trashDir, id);
+      const files: TrashedFile[] = [];
+
+      try {
+        for (const originalPath of paths) {
+          if (!(await pathExists(originalPath))) continue;
+
+          const storedPath = `${files.length}-${path.basename(originalPath)}`;
+          await movePath(originalPath, path.join(itemDir, storedPath));
+          files.push({ originalPath, storedPath });
+        }
+      } catch (error) {
+        await this.moveBack(itemDir, files);
+        throw error;
+      }
+
+      const deletedAt = Date.now();
+      const trashItem: TrashItem = {
+        id,
+        ...item,
+        deletedAt,
+        expiresAt: deletedAt + this.retentionMs,
+        files,
+      };
+
+      const manifest = await this.readManifest();
+      manifest.items.push(trashItem);
+      await this.writeManifest(manifest);
+
+      console.log(`[TrashStore] Trashed ${item.type} ${item.targetId} (${files.length} paths)`);
+      return trashItem;
+    });
+  }
+
+  /**
+   * Items in the trash, most recently deleted first
+   */
+  async list(): Promise<TrashItem[]> {
+    const manifest = await this.readManifest();
+    return [...manifest.items].sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  /**
+   * Move the files of an item back to where they were. Returns null for unknown items.
+   */
+  restore(id: string): Promise<TrashItem | null> {
+    return this.serialize(async () => {
+      const manifest = await this.readManifest();
+      const item = manifest.items.find(candidate => candidate.id === id);
+      if (!item) return null;
+
+      for (const file of item.files) {
+        if (await pathExists(file.originalPath)) {
+          throw new TrashConflictError(file.originalPath);
+        }
+      }
+
+      const itemDir = path.join(this.trashDir, id);
+      await this.moveBack(itemDir, item.files);
+      await fs.rm(itemDir, { recursive: true, force: true });
+
+      manifest.items = manifest.items.filter(candidate => candidate.id !== id);
+      await this.writeManifest(manifest);
+
+      console.log(`[TrashStore] Restored ${item.type} ${item.targetId}`);
+      return item;
+    });
+  }
+
+  /**
+   * Delete an item permanently
+   */
+  async purge(id: string): Promise<boolean> {
+    return (await this.purgeWhere(item => item.id === id)) > 0;
+  }
+
+  /**
+   * Delete every item permanently
+   */
+  purgeAll(): Promise<number> {
+    return this.purgeWhere(() => true);
+  }
+
+  /**
+   * Delete items whose retention period has passed
+   */
+  purgeExpired(now: number = Date.now()): Promise<number> {
+    return this.purgeWhere(item => item.expiresAt <= now);
+  }
+
+  /**
+   * Purge expired items now and then every hour
+   */
+  start(): void {
+    if (this.purgeTimer) return;
+
+    const purge = () => {
+      this.purgeExpired()
+        .then(count => {
+          if (count > 0) console.log(`[TrashStore] Purged ${count} expired items`);
+        })
+        .catch(error => {
+          console.error('[TrashStore] Failed to purge expired items:', error);
+        });
+    };
+
+    purge();
+    this.purgeTimer = setInterval(purge, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  stop(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  private purgeWhere(predicate: (item: TrashItem) => boolean): Promise<number> {
+    return this.serialize(async () => {
+      const manifest = await this.readManifest();
+      const purged = manifest.items.filter(predicate);
+      if (purged.length === 0) return 0;
+
+      for (const item of purged) {
+        await fs.rm(path.join(this.trashDir, item.id), { recursive: true, force: true });
+      }
+
+      manifest.items = manifest.items.filter(item => !predicate(item));
+      await this.writeManifest(manifest);
+      return purged.length;
+    });
+  }
+
+  private async moveBack(itemDir: string, files: TrashedFile[]): Promise<void> {
+    for (const file of files) {
+      await movePath(path.join(itemDir, file.storedPath), file.originalPath);
+    }
+  }
+
+  private async readManifest(): Promise<TrashManifest> {
+    try {
+      const data = await fs.readFile(this.manifestPath, 'utf-8');
+      const parsed = JSON.parse(data) as TrashManifest;
+      return { items: Array.isArray(parsed.items) ? parsed.items : [] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { items: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async writeManifest(manifest: TrashManifest): Promise<void> {
+    await fs.mkdir(this.trashDir, { recursive: true });
+    const tempFilePath = `${this.manifestPath}.tmp`;
+    await fs.writeFile(tempFilePath, JSON.stringify(manifest, null, 2), 'utf-8');
+    await fs.rename(tempFilePath, this.manifestPath);
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,92 @@
+import { vol } from 'memfs';
+import { TrashStore, TrashConflictError } from '../TrashStore';
+
+jest.mock('fs/promises', () => require('memfs').fs.promises);
+
+const trashDir = '/home/user/.claude/favorites/trash';
+const projectDir = '/home/user/.claude/projects/-home-user-app';
+const DAY = 24 * 60 * 60 * 1000;
+
+function createStore(retentionMs?: number): TrashStore {
+  return new TrashStore({ trashDir, retentionMs });
+}
+
+describe('TrashStore', () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({
+      [`${projectDir}/session-1.jsonl`]: '{"uuid":"m1"}\n',
+      [`${projectDir}/session-1/subagents/agent-a1.jsonl`]: '{"uuid":"a1"}\n',
+      [`${projectDir}/session-2.jsonl`]: '{"uuid":"m2"}\n',
+    });
+  });
+
+  it('should move files and directories into the trash and skip missing paths', async () => {
+    const store = createStore();
+    const item = await store.add(
+      { type: 'session', targetId: 'session-1', name: 'Fix the build', historyLines: ['{"sessionId":"session-1"}'] },
+      [`${projectDir}/session-1.jsonl`, `${projectDir}/session-1`, `${projectDir}/missing.jsonl`]
+    );
+
+    expect(item.files.map(file => file.originalPath)).toEqual([
+      `${projectDir}/session-1.jsonl`,
+      `${projectDir}/session-1`,
+    ]);
+    expect(item.expiresAt - item.deletedAt).toBe(30 * DAY);
+    expect(vol.existsSync(`${projectDir}/session-1.jsonl`)).toBe(false);
+    expect(vol.existsSync(`${projectDir}/session-1`)).toBe(false);
+    expect(vol.existsSync(`${projectDir}/session-2.jsonl`)).toBe(true);
+
+    // The manifest survives a restart
+    expect(await createStore().list()).toEqual([item]);
+  });
+
+  it('should restore files to their original paths', async () => {
+    const store = createStore();
+    const item = await store.add({ type: 'session', targetId: 'session-1', name: 'Fix the build' }, [
+      `${projectDir}/session-1.jsonl`,
+      `${projectDir}/session-1`,
+    ]);
+
+    expect(await store.restore(item.id)).toEqual(item);
+    expect(vol.readFileSync(`${projectDir}/session-1.jsonl`, 'utf-8')).toBe('{"uuid":"m1"}\n');
+    expect(vol.readFileSync(`${projectDir}/session-1/subagents/agent-a1.jsonl`, 'utf-8')).toBe('{"uuid":"a1"}\n');
+    expect(vol.existsSync(`${trashDir}/${item.id}`)).toBe(false);
+    expect(await store.list()).toEqual([]);
+    expect(await store.restore(item.id)).toBeNull();
+  });
+
+  it('should refuse to restore over a path that exists again', async () => {
+    const store = createStore();
+    const item = await store.add({ type: 'session', targetId: 'session-1', name: 'Fix the build' }, [
+      `${projectDir}/session-1.jsonl`,
+    ]);
+    vol.writeFileSync(`${projectDir}/session-1.jsonl`, '{"uuid":"new"}\n');
+
+    await expect(store.restore(item.id)).rejects.toThrow(TrashConflictError);
+    expect(vol.readFileSync(`${projectDir}/session-1.jsonl`, 'utf-8')).toBe('{"uuid":"new"}\n');
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should purge single items, expired items and everything', async () => {
+    const store = createStore(DAY);
+    const first = await store.add({ type: 'session', targetId: 'session-1', name: 'One' }, [
+      `${projectDir}/session-1.jsonl`,
+    ]);
+    const second = await store.add({ type: 'session', targetId: 'session-2', name: 'Two' }, [
+      `${projectDir}/session-2.jsonl`,
+    ]);
+
+    expect(await store.purgeExpired(first.deletedAt + DAY - 1)).toBe(0);
+    expect(await store.purge(first.id)).toBe(true);
+    expect(await store.purge(first.id)).toBe(false);
+    expect(vol.existsSync(`${trashDir}/${first.id}`)).toBe(false);
+
+    expect(await store.purgeExpired(second.deletedAt + DAY)).toBe(1);
+    expect(await store.list()).toEqual([]);
+
+    await store.add({ type: 'team', targetId: 'team-1', name: 'Team' }, [`${projectDir}/session-1`]);
+    expect(await store.purgeAll()).toBe(1);
+    expect(await store.list()).toEqual([]);
+  });
+});
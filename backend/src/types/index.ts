@@ -26,23 +26,195 @@ export interface ContentBlock {
     media_type: string;
     data: string;
   };
+  // tool_use fields
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  // tool_result fields
+  tool_use_id?: string;
+  content?: string | ContentBlock[];
+  is_error?: boolean;
 }
 
 export interface ConversationMessage {
   uuid: string;
   parentUuid: string | null;
+  logicalParentUuid?: string | null; // Pre-compaction parent of a compact boundary
   timestamp: string;
   type: string;
   project?: string;
+  sessionId?: string;
+  agentId?: string; // Set on subagent transcript entries
+  isSidechain?: boolean;
+  cwd?: string; // Working directory when the entry was written
+  gitBranch?: string;
+  version?: string; // Claude Code version
+  toolUseResult?: unknown; // Structured tool output, e.g. the Task result with its agentId
+  subtype?: string; // System entries, e.g. 'compact_boundary'
+  content?: string; // Text of system entries
+  compactMetadata?: { trigger?: string; preTokens?: number };
+  isCompactSummary?: boolean; // User entry carrying the summary written at compaction
+  summary?: string; // Summary entries, which have no uuid or timestamp
+  leafUuid?: string; // Last entry covered by a summary
   message?: {
+    id?: string;
     role: 'user' | 'assistant';
+    model?: string;
     content: string | ContentBlock[];
+    usage?: MessageUsage;
   };
 }
 
+// Token usage as recorded on assistant entries
+export interface MessageUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+// Usage of the responses that started in one quarter hour. Zone offsets are whole
+// quarter hours, so a bucket always falls on a single local day.
+export interface TokenUsageBucket {
+  start: number; // Start of the quarter hour (ms)
+  byModel: Record<string, TokenCounts>;
+}
+
+export interface SessionTokenUsage {
+  total: TokenCounts;
+  byModel: Record<string, TokenCounts>;
+}
+
+// Text pasted into a prompt; the display text refers to it as [Pasted text #id]
+export interface PastedContent {
+  id: number;
+  content: string;
+}
+
 export interface SessionInput {
   display: string;
   timestamp: number;
+  pastedContents?: PastedContent[];
+}
+
+// Image block of a transcript entry, served by the attachments route
+export interface ImageAttachment {
+  index: number; // Position of the block in the entry content
+  mediaType: string;
+}
+
+export interface ToolResult {
+  toolUseId: string;
+  content: string;
+  isError: boolean;
+  timestamp: number;
+  agentId?: string; // Subagent reported by a Task result
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  result?: ToolResult;
+  agentId?: string; // Subagent transcript spawned by this Task call
+}
+
+// A subagent transcript (agent-<id>.jsonl) belonging to a parent session
+export interface AgentSessionSummary {
+  agentId: string;
+  parentSessionId: string;
+  prompt: string; // First user message, truncated
+  messageCount: number;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  // Set once the parent conversation is loaded and the spawning Task call is found
+  toolUseId?: string;
+  description?: string;
+  subagentType?: string;
+}
+
+export interface AgentSession extends AgentSessionSummary {
+  messages: ChatMessage[];
+}
+
+// A path through the parentUuid tree of a transcript, identified by its last entry.
+// Alternate branches are prompts that were rewound or edited away from the active branch.
+export interface ConversationBranch {
+  id: string; // uuid of the last entry of the branch
+  forkUuid: string | null; // Entry of the active branch this branch diverges from (null for the active branch)
+  isActive: boolean;
+  messageCount: number; // Messages after the fork point (whole branch for the active branch)
+  preview: string; // First prompt after the fork point
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Position of a page of messages within its branch.
+// Cursors are entry uuids; the message API also accepts byte offsets of transcript lines.
+export interface MessagePageInfo {
+  startCursor: string | null; // Oldest entry in the page
+  endCursor: string | null; // Newest entry in the page
+  hasOlder: boolean;
+  hasNewer: boolean;
+  totalMessages: number; // Messages in the whole branch
+}
+
+export interface MessagePage {
+  messages: ChatMessage[];
+  pageInfo: MessagePageInfo;
+  branchId?: string;
+}
+
+// Message of a branch matching an in-session search
+export interface MessageSearchHit {
+  uuid: string;
+  timestamp: number;
+  matches: number; // Occurrences of the query in the message
+}
+
+// Hunk of a unified diff; lines are prefixed with ' ', '-' or '+'
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+// One Edit, MultiEdit or Write call of a session
+export interface FileEdit {
+  toolUseId: string;
+  toolName: string;
+  messageUuid: string;
+  timestamp: number;
+  diff: string; // Unified diff of the call
+  linesAdded: number;
+  linesRemoved: number;
+  isNewFile: boolean;
+  isError: boolean; // The call failed and left the file unchanged
+}
+
+// File touched by a session, with its edits in order
+export interface FileChange {
+  filePath: string;
+  edits: FileEdit[];
+  linesAdded: number; // Successful edits only
+  linesRemoved: number;
+}
+
+export interface SessionChanges {
+  files: FileChange[];
+  linesAdded: number;
+  linesRemoved: number;
+  branchId?: string;
 }
 
 export interface ChatMessage {
@@ -51,6 +223,23 @@ export interface ChatMessage {
   content: string;
   timestamp: number;
   type?: string;
+  toolCall?: ToolCall; // Set when type is 'tool_use' (result attached when paired)
+  toolResult?: ToolResult; // Set when type is 'tool_result' and no matching tool_use was loaded
+  image?: ImageAttachment; // Set when type is 'image'
+  compaction?: CompactionInfo; // Set when type is 'compact_boundary'
+}
+
+export interface CompactionInfo {
+  trigger?: string; // 'auto' or 'manual'
+  preTokens?: number; // Context size before compaction
+}
+
+// Place in a branch where earlier context was summarized or compacted
+export interface ConversationMarker extends CompactionInfo {
+  type: 'summary' | 'compact_boundary';
+  uuid: string;
+  timestamp: number;
+  text: string;
 }
 
 export interface Session {
@@ -65,8 +254,46 @@ export interface Session {
   inputCount: number;
   messageCount: number;
   hasMoreMessages?: boolean; // Indicates if there are more messages not loaded (for pagination)
+  tokenUsage?: SessionTokenUsage;
+  agentSessions?: AgentSessionSummary[];
+  branches?: ConversationBranch[];
+  branchId?: string; // Branch the loaded messages belong to
+  pageInfo?: MessagePageInfo;
+  markers?: ConversationMarker[]; // Summaries and compactions of the whole branch
+  metadata?: SessionMetadata;
+  activeTimeMs?: number; // Time spent in active periods, without idle gaps
+}
+
+// Stretch of a session without a pause longer than the idle threshold
+export interface ActivePeriod {
+  start: number;
+  end: number;
+}
+
+// Per-session data behind the token and active time stats. It grows with the session,
+// so it stays on the server instead of being sent with every session.
+export interface SessionActivity {
+  tokenTimeline: TokenUsageBucket[]; // Oldest first
+  activePeriods: ActivePeriod[];
 }
 
+// A metadata value and when the session switched to it
+export interface MetadataChange {
+  value: string;
+  timestamp: number;
+}
+
+// Environment recorded on transcript entries; each list holds the values in the
+// order the session used them, so the first and last items are the first and last values
+export interface SessionMetadata {
+  cwd?: MetadataChange[];
+  gitBranch?: MetadataChange[];
+  version?: MetadataChange[];
+  model?: MetadataChange[];
+}
+
+export type SessionMetadataField = keyof SessionMetadata;
+
 // ============================================
 // Agent Teams Related Types (from agent-teams-viewer)
 // ============================================
@@ -171,6 +398,76 @@ export interface ActivityItem {
   timestamp: number;
 }
 
+// ============================================
+// Session Batch Types
+// ============================================
+
+export type SessionBatchAction = 'delete' | 'addTags' | 'removeTags' | 'renamePrefix' | 'export';
+
+export interface SessionBatchRequest {
+  action: SessionBatchAction;
+  sessionIds: string[];
+  tags?: string[]; // addTags and removeTags
+  prefix?: string; // renamePrefix
+}
+
+export interface SessionBatchItemResult {
+  sessionId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SessionBatchResult {
+  action: SessionBatchAction;
+  results: SessionBatchItemResult[];
+  succeeded: number;
+  failed: number;
+  sessions?: Session[]; // Exported sessions with their conversations
+}
+
+// ============================================
+// Export Types
+// ============================================
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+// Sessions to export; all given filters must match
+export interface ExportFilter {
+  sessionIds?: string[];
+  project?: string;
+  tag?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface SessionImportResult {
+  imported: string[];
+  skipped: Array<{ sessionId: string; reason: string }>;
+}
+
+// ============================================
+// Trash Types
+// ============================================
+
+// A file or directory moved into the trash
+export interface TrashedFile {
+  originalPath: string;
+  storedPath: string; // Relative to the trash item directory
+}
+
+// Deleted session or team, kept until it is restored, purged or expires
+export interface TrashItem {
+  id: string;
+  type: 'session' | 'team';
+  targetId: string; // Session or team id
+  name: string;
+  project?: string;
+  deletedAt: number;
+  expiresAt: number;
+  files: TrashedFile[];
+  historyLines?: string[]; // history.jsonl lines removed with a session
+}
+
 // ============================================
 // View State Types
 // ============================================
@@ -357,13 +654,32 @@ export interface TeamStats {
 // Code Stats Types
 // ============================================
 
-export interface CodeStats {
+export interface LineChanges {
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+// Lines written through Edit, MultiEdit and Write tool calls (subagents included)
+export interface CodeEditStats extends LineChanges {
+  filesChanged: number;
+  byLanguage: { [lang: string]: LineChanges };
+  byProject: { [project: string]: LineChanges };
+  dailyTrend: Array<{ date: string } & LineChanges>;
+}
+
+// Lines inside fenced markdown code blocks of messages
+export interface CodeBlockStats {
   totalLines: number;
   byLanguage: { [lang: string]: number };
   byProject: { [project: string]: number };
   dailyTrend: { date: string; lines: number }[];
 }
 
+export interface CodeStats {
+  edits: CodeEditStats;
+  codeBlocks: CodeBlockStats;
+}
+
 // Raw inbox message format for search
 export interface RawInboxMessage {
   id?: string;
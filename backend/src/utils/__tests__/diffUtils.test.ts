@@ -0,0 +1,42 @@
+import { createHunks, diffLines, formatUnifiedDiff } from '../diffUtils';
+
+describe('diffUtils', () => {
+  describe('diffLines', () => {
+    it('should mark removed and added lines', () => {
+      expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([' a', '-b', '+x', ' c']);
+    });
+
+    it('should keep lines common to both texts', () => {
+      expect(diffLines('a\nb\nc\nd', 'b\nc\ne')).toEqual(['-a', ' b', ' c', '-d', '+e']);
+    });
+
+    it('should handle empty texts', () => {
+      expect(diffLines('', 'a\nb\n')).toEqual(['+a', '+b']);
+      expect(diffLines('a', '')).toEqual(['-a']);
+    });
+  });
+
+  describe('createHunks', () => {
+    it('should split distant changes into separate hunks', () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+      const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+
+      const hunks = createHunks(diffLines(oldText, newText));
+
+      expect(hunks).toHaveLength(2);
+      expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 });
+      expect(hunks[1]).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 6 });
+    });
+
+    it('should return no hunks for identical texts', () => {
+      expect(createHunks(diffLines('a\nb', 'a\nb'))).toEqual([]);
+    });
+  });
+
+  describe('formatUnifiedDiff', () => {
+    it('should render headers and hunks', () => {
+      const hunks = createHunks(diffLines('a', 'b'));
+      expect(formatUnifiedDiff('/repo/a.ts', hunks)).toBe('--- /repo/a.ts\n+++ /repo/a.ts\n@@ -1,1 +1,1 @@\n-a\n+b');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { getLanguageFromPath } from '../languageUtils';
+
+describe('languageUtils', () => {
+  describe('getLanguageFromPath', () => {
+    it('should map known extensions to languages', () => {
+      expect(getLanguageFromPath('/repo/src/index.ts')).toBe('typescript');
+      expect(getLanguageFromPath('/repo/App.TSX')).toBe('typescript');
+      expect(getLanguageFromPath('C:\\repo\\main.py')).toBe('python');
+    });
+
+    it('should recognize files by name', () => {
+      expect(getLanguageFromPath('/repo/Dockerfile')).toBe('dockerfile');
+      expect(getLanguageFromPath('/repo/Makefile')).toBe('makefile');
+    });
+
+    it('should fall back to the extension or text', () => {
+      expect(getLanguageFromPath('/repo/schema.proto')).toBe('proto');
+      expect(getLanguageFromPath('/repo/LICENSE')).toBe('text');
+    });
+  });
+});
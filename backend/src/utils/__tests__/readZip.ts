@@ -0,0 +1,30 @@
+import { inflateRawSync } from 'zlib';
+import { crc32 } from '../zipWriter';
+
+// Read entries back through the central directory, as unzip tools do
+export function readZip(archive: Buffer): Map<string, Buffer> {
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  const files = new Map<string, Buffer>();
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const stored = archive.subarray(dataStart, dataStart + compressedSize);
+    const data = method === 8 ? inflateRawSync(stored) : stored;
+    expect(crc32(data)).toBe(crc);
+
+    files.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return files;
+}
@@ -0,0 +1,112 @@
+import {
+  isValidTimeZone,
+  getZonedDateParts,
+  formatZonedDate,
+  getZonedMidnight,
+  getZonedDayStart,
+  getRecentDates,
+} from '../timeZoneUtils';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('timeZoneUtils', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA zone names', () => {
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    });
+
+    it('should reject unknown zones', () => {
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+  });
+
+  describe('getZonedDateParts', () => {
+    // Thursday 1970-01-01 00:00 UTC
+    const epoch = 0;
+
+    it('should resolve the weekday and hour in the zone', () => {
+      expect(getZonedDateParts(epoch, 'UTC')).toEqual({
+        year: 1970,
+        month: 1,
+        day: 1,
+        weekday: 4,
+        hour: 0,
+        minute: 0,
+        second: 0,
+      });
+      expect(getZonedDateParts(epoch, 'America/New_York')).toEqual({
+        year: 1969,
+        month: 12,
+        day: 31,
+        weekday: 3,
+        hour: 19,
+        minute: 0,
+        second: 0,
+      });
+    });
+
+    it('should handle zones with half-hour offsets', () => {
+      expect(getZonedDateParts(epoch, 'Asia/Kolkata').hour).toBe(5);
+    });
+  });
+
+  describe('formatZonedDate', () => {
+    it('should put instants around midnight on the day of the zone', () => {
+      // 23:30 on Jan 1st in Berlin is already Jan 2nd in Tokyo and still Jan 1st in New York
+      const ts = Date.parse('2024-01-01T22:30:00Z');
+      expect(formatZonedDate(ts, 'Europe/Berlin')).toBe('2024-01-01');
+      expect(formatZonedDate(ts, 'Asia/Tokyo')).toBe('2024-01-02');
+      expect(formatZonedDate(ts, 'America/New_York')).toBe('2024-01-01');
+      expect(formatZonedDate(Date.parse('2024-01-01T23:00:00Z'), 'Europe/Berlin')).toBe('2024-01-02');
+    });
+  });
+
+  describe('getZonedMidnight', () => {
+    it('should find the start of a day in the zone', () => {
+      expect(getZonedMidnight(2024, 1, 2, 'UTC')).toBe(Date.parse('2024-01-02T00:00:00Z'));
+      expect(getZonedMidnight(2024, 1, 2, 'Europe/Berlin')).toBe(Date.parse('2024-01-01T23:00:00Z'));
+      expect(getZonedMidnight(2024, 1, 32, 'UTC')).toBe(Date.parse('2024-02-01T00:00:00Z'));
+    });
+
+    it('should give DST change days 23 and 25 hours', () => {
+      // Berlin springs forward on 2024-03-31 and falls back on 2024-10-27
+      const springStart = getZonedMidnight(2024, 3, 31, 'Europe/Berlin');
+      expect(springStart).toBe(Date.parse('2024-03-30T23:00:00Z'));
+      expect(getZonedMidnight(2024, 4, 1, 'Europe/Berlin') - springStart).toBe(23 * HOUR);
+
+      const fallStart = getZonedMidnight(2024, 10, 27, 'Europe/Berlin');
+      expect(fallStart).toBe(Date.parse('2024-10-26T22:00:00Z'));
+      expect(getZonedMidnight(2024, 10, 28, 'Europe/Berlin') - fallStart).toBe(25 * HOUR);
+    });
+
+    it('should handle the day after a DST change in the Americas', () => {
+      // New York springs forward on 2024-03-10 at 02:00
+      expect(getZonedMidnight(2024, 3, 11, 'America/New_York')).toBe(Date.parse('2024-03-11T04:00:00Z'));
+      expect(getZonedMidnight(2024, 3, 10, 'America/New_York')).toBe(Date.parse('2024-03-10T05:00:00Z'));
+    });
+  });
+
+  describe('getZonedDayStart', () => {
+    it('should return the midnight before an instant', () => {
+      expect(getZonedDayStart(Date.parse('2024-03-31T12:00:00Z'), 'Europe/Berlin'))
+        .toBe(Date.parse('2024-03-30T23:00:00Z'));
+      expect(getZonedDayStart(Date.parse('2024-01-01T23:30:00Z'), 'Europe/Berlin'))
+        .toBe(Date.parse('2024-01-01T23:00:00Z'));
+    });
+  });
+
+  describe('getRecentDates', () => {
+    it('should list the days up to today in the zone, oldest first', () => {
+      const now = Date.parse('2024-03-01T01:00:00Z');
+      expect(getRecentDates(3, 'UTC', now)).toEqual(['2024-02-28', '2024-02-29', '2024-03-01']);
+      expect(getRecentDates(2, 'America/Los_Angeles', now)).toEqual(['2024-02-28', '2024-02-29']);
+    });
+
+    it('should not skip or repeat days across DST changes', () => {
+      const now = Date.parse('2024-04-01T12:00:00Z');
+      expect(getRecentDates(3, 'Europe/Berlin', now)).toEqual(['2024-03-30', '2024-03-31', '2024-04-01']);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { PassThrough, Writable } from 'stream';
+import { ZipWriter, crc32 } from '../zipWriter';
+import { readZip } from './readZip';
+
+async function writeZip(files: Array<[string, Buffer | string]>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+
+  const zip = new ZipWriter(output);
+  for (const [name, content] of files) {
+    await zip.addFile(name, content, new Date(2024, 0, 15, 10, 30));
+  }
+  await zip.finish();
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('ZipWriter', () => {
+  it('should write entries that read back unchanged', async () => {
+    const markdown = '# Session\n\n'.repeat(200);
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const files = readZip(
+      await writeZip([
+        ['index.md', markdown],
+        ['sessions/abc/会话.md', 'ünïcödé'],
+        ['sessions/abc/attachments/1.png', image],
+      ])
+    );
+
+    expect(Array.from(files.keys())).toEqual(['index.md', 'sessions/abc/会话.md', 'sessions/abc/attachments/1.png']);
+    expect(files.get('index.md')!.toString('utf-8')).toBe(markdown);
+    expect(files.get('sessions/abc/会话.md')!.toString('utf-8')).toBe('ünïcödé');
+    expect(files.get('sessions/abc/attachments/1.png')).toEqual(image);
+  });
+
+  it('should store data that does not compress', async () => {
+    const archive = await writeZip([['tiny.txt', 'x']]);
+
+    // Method field of the local file header
+    expect(archive.readUInt16LE(8)).toBe(0);
+    expect(readZip(archive).get('tiny.txt')!.toString()).toBe('x');
+  });
+
+  it('should write an empty archive', async () => {
+    expect(readZip(await writeZip([])).size).toBe(0);
+  });
+
+  it('should reject when the client goes away while waiting for drain', async () => {
+    // Never consumes its buffer, like a stalled client
+    const output = new Writable({ highWaterMark: 1, write: () => {} });
+    const zip = new ZipWriter(output);
+
+    const pending = zip.addFile('big.bin', Buffer.alloc(64));
+    output.destroy();
+
+    await expect(pending).rejects.toThrow('Output stream closed');
+    await expect(zip.addFile('next.bin', 'x')).rejects.toThrow('Output stream closed');
+  });
+});
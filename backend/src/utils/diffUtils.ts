@@ -0,0 +1,147 @@
+import type { DiffHunk } from '../types';
+
+// Lines of context around each change in a hunk
+const DEFAULT_CONTEXT_LINES = 3;
+// Largest LCS table computed; bigger inputs are shown as a full replacement
+const MAX_DIFF_CELLS = 1_000_000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff of two texts, as lines prefixed with ' ' (unchanged), '-' (removed) or '+' (added)
+ */
+export function diffLines(oldText: string, newText: string): string[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Common prefix and suffix do not need the LCS table
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removed = oldLines.slice(prefix, oldLines.length - suffix);
+  const added = newLines.slice(prefix, newLines.length - suffix);
+  const result = oldLines.slice(0, prefix).map(line => ' ' + line);
+
+  if ((removed.length + 1) * (added.length + 1) > MAX_DIFF_CELLS) {
+    result.push(...removed.map(line => '-' + line), ...added.map(line => '+' + line));
+  } else {
+    // table[i][j] = length of the longest common subsequence of removed[i..] and added[j..]
+    const table = Array.from({ length: removed.length + 1 }, () => new Uint32Array(added.length + 1));
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        table[i][j] = removed[i] === added[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < removed.length && j < added.length) {
+      if (removed[i] === added[j]) {
+        result.push(' ' + removed[i]);
+        i++;
+        j++;
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        result.push('-' + removed[i++]);
+      } else {
+        result.push('+' + added[j++]);
+      }
+    }
+    result.push(...removed.slice(i).map(line => '-' + line), ...added.slice(j).map(line => '+' + line));
+  }
+
+  result.push(...oldLines.slice(oldLines.length - suffix).map(line => ' ' + line));
+  return result;
+}
+
+/**
+ * Group diff lines into hunks with a few lines of context around the changes
+ */
+export function createHunks(
+  lines: string[],
+  context: number = DEFAULT_CONTEXT_LINES,
+  oldStart: number = 1,
+  newStart: number = 1
+): DiffHunk[] {
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line[0] === ' ') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  // Line numbers in the old and new text at each diff line
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldNumber = oldStart;
+  let newNumber = newStart;
+  for (const line of lines) {
+    oldNumbers.push(oldNumber);
+    newNumbers.push(newNumber);
+    if (line[0] !== '+') oldNumber++;
+    if (line[0] !== '-') newNumber++;
+  }
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end);
+    const oldLines = hunkLines.filter(line => line[0] !== '+').length;
+    const newLines = hunkLines.filter(line => line[0] !== '-').length;
+    return {
+      // An empty side points at the line before the hunk, as in `diff -u`
+      oldStart: oldLines === 0 ? oldNumbers[start] - 1 : oldNumbers[start],
+      oldLines,
+      newStart: newLines === 0 ? newNumbers[start] - 1 : newNumbers[start],
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+/**
+ * Render hunks as a unified diff of one file
+ */
+export function formatUnifiedDiff(filePath: string, hunks: DiffHunk[], isNewFile: boolean = false): string {
+  const header = [`--- ${isNewFile ? '/dev/null' : filePath}`, `+++ ${filePath}`];
+  const body = hunks.flatMap(hunk => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines,
+  ]);
+  return [...header, ...body].join('\n');
+}
+
+/**
+ * Count added and removed lines of hunks
+ */
+export function countChangedLines(hunks: DiffHunk[]): { linesAdded: number; linesRemoved: number } {
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line[0] === '+') linesAdded++;
+      else if (line[0] === '-') linesRemoved++;
+    }
+  }
+  return { linesAdded, linesRemoved };
+}
@@ -0,0 +1,69 @@
+import path from 'path';
+
+// File extensions mapped to the language names used in fenced code blocks
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  go: 'go',
+  java: 'java',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  swift: 'swift',
+  c: 'c',
+  h: 'c',
+  cc: 'cpp',
+  cpp: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  php: 'php',
+  scala: 'scala',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  ps1: 'powershell',
+  sql: 'sql',
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  vue: 'vue',
+  svelte: 'svelte',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  toml: 'toml',
+  xml: 'xml',
+  md: 'markdown',
+  mdx: 'markdown',
+};
+
+// Files recognized by name rather than extension
+const FILENAME_LANGUAGES: Record<string, string> = {
+  dockerfile: 'dockerfile',
+  makefile: 'makefile',
+};
+
+/**
+ * Language of a source file from its name; unknown extensions are returned as is, no extension as 'text'
+ */
+export function getLanguageFromPath(filePath: string): string {
+  const baseName = path.basename(filePath.replace(/\\/g, '/')).toLowerCase();
+  if (FILENAME_LANGUAGES[baseName]) {
+    return FILENAME_LANGUAGES[baseName];
+  }
+
+  const extension = path.extname(baseName).slice(1);
+  if (!extension) return 'text';
+  return EXTENSION_LANGUAGES[extension] ?? extension;
+}
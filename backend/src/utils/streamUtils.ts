@@ -0,0 +1,36 @@
+import type { Writable } from 'stream';
+
+/**
+ * Write a chunk, waiting for `drain` when the stream buffer is full so a slow client
+ * does not buffer a whole download. Rejects once the stream errors or is closed, e.g.
+ * when the client aborts, instead of waiting for a `drain` that never comes.
+ */
+export function writeChunk(output: Writable, chunk: Buffer | string): Promise<void> {
+  if (output.destroyed || output.writableEnded) {
+    return Promise.reject(new Error('Output stream closed'));
+  }
+  if (output.write(chunk)) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      output.off('drain', onDrain);
+      output.off('error', onError);
+      output.off('close', onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Output stream closed'));
+    };
+    output.once('drain', onDrain);
+    output.once('error', onError);
+    output.once('close', onClose);
+  });
+}
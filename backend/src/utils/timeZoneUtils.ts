@@ -0,0 +1,117 @@
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Creating formatters is slow, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday, like Date.getDay()
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+/**
+ * Check whether a string is an IANA time zone name known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone || '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Calendar date, weekday and hour of a timestamp in a time zone
+ * (the server's own zone when none is given)
+ */
+export function getZonedDateParts(timestamp: number, timeZone?: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(timestamp)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+  };
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Format a timestamp as YYYY-MM-DD in a time zone
+ */
+export function formatZonedDate(timestamp: number, timeZone?: string): string {
+  const { year, month, day } = getZonedDateParts(timestamp, timeZone);
+  return toDateString(year, month, day);
+}
+
+// Difference between the wall clock in the zone and UTC at an instant
+function getOffset(timestamp: number, timeZone?: string): number {
+  const p = getZonedDateParts(timestamp, timeZone);
+  const wallTime = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallTime - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Instant a calendar day starts in a time zone. Month and day may overflow,
+ * e.g. day 32 of January is February 1st.
+ */
+export function getZonedMidnight(year: number, month: number, day: number, timeZone?: string): number {
+  const wallTime = Date.UTC(year, month - 1, day);
+  const guess = wallTime - getOffset(wallTime, timeZone);
+  // The offset at the guess differs when a DST change lies in between; correct once
+  return wallTime - getOffset(guess, timeZone);
+}
+
+/**
+ * Instant the day holding a timestamp starts in a time zone
+ */
+export function getZonedDayStart(timestamp: number, timeZone?: string): number {
+  const { year, month, day } = getZonedDateParts(timestamp, timeZone);
+  return getZonedMidnight(year, month, day, timeZone);
+}
+
+/**
+ * The last N calendar days (YYYY-MM-DD, oldest first) up to today in a time zone
+ */
+export function getRecentDates(days: number, timeZone?: string, now: number = Date.now()): string[] {
+  const today = getZonedDateParts(now, timeZone);
+  return Array.from({ length: days }, (_, i) => {
+    // Calendar arithmetic in UTC, where every day has 24 hours
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day - (days - 1 - i)));
+    return toDateString(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  });
+}
@@ -0,0 +1,43 @@
+import type { MessageUsage, TokenCounts } from '../types';
+
+/**
+ * Create a zeroed token counter
+ */
+export function createEmptyTokenCounts(): TokenCounts {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+  };
+}
+
+/**
+ * Convert a raw `message.usage` object into token counts
+ */
+export function usageToTokenCounts(usage: MessageUsage): TokenCounts {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+  };
+}
+
+/**
+ * Add token counts into target (mutates target)
+ */
+export function addTokenCounts(target: TokenCounts, source: TokenCounts): TokenCounts {
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheCreationTokens += source.cacheCreationTokens;
+  target.cacheReadTokens += source.cacheReadTokens;
+  return target;
+}
+
+/**
+ * Sum of all token kinds
+ */
+export function getTotalTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.outputTokens + counts.cacheCreationTokens + counts.cacheReadTokens;
+}
@@ -0,0 +1,153 @@
+import { deflateRawSync } from 'zlib';
+import type { Writable } from 'stream';
+import { writeChunk } from './streamUtils';
+
+// Without zip64 an archive is limited to 65535 entries of under 4 GiB each
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 checksum as used by zip and gzip
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields, in local time with 2 second resolution
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+/**
+ * Writes a zip archive to a stream one entry at a time, so large exports never sit
+ * in memory as a whole. Entries are deflated unless that does not make them smaller.
+ */
+export class ZipWriter {
+  private output: Writable;
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private finished = false;
+
+  constructor(output: Writable) {
+    this.output = output;
+  }
+
+  /**
+   * Add a file; `name` is a forward slash separated path inside the archive
+   */
+  async addFile(name: string, content: Buffer | string, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.finished) throw new Error('Zip archive already finished');
+    if (this.entries.length >= MAX_ENTRIES) throw new Error('Too many entries for a zip archive');
+
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    const deflated = deflateRawSync(data);
+    const method = deflated.length < data.length ? 8 : 0;
+    const stored = method === 8 ? deflated : data;
+    if (data.length > MAX_SIZE || stored.length > MAX_SIZE) {
+      throw new Error(`Zip entry too large: ${name}`);
+    }
+
+    const entry: CentralEntry = {
+      name: Buffer.from(name, 'utf-8'),
+      crc: crc32(data),
+      method,
+      compressedSize: stored.length,
+      size: data.length,
+      ...toDosDateTime(modifiedAt),
+      offset: this.offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    await this.write(Buffer.concat([header, entry.name, stored]));
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory; the archive is complete afterwards
+   */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const directoryOffset = this.offset;
+    const records = this.entries.map(entry => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+      record.writeUInt16LE(20, 4); // Version made by
+      record.writeUInt16LE(20, 6); // Version needed to extract
+      record.writeUInt16LE(0x0800, 8);
+      record.writeUInt16LE(entry.method, 10);
+      record.writeUInt16LE(entry.time, 12);
+      record.writeUInt16LE(entry.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number and attributes stay 0
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+
+    if (directoryOffset > MAX_SIZE) {
+      throw new Error('Zip archive too large');
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    await this.write(Buffer.concat([directory, end]));
+  }
+
+  private write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    return writeChunk(this.output, chunk);
+  }
+}
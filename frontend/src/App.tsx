@@ -9,8 +9,11 @@ import {
   TeamDetail,
   MemberList,
   MessagePanel,
+  ActivityPunchCard,
+  TrashView,
 } from './components';
 import { useSessions, useSession, useProjects, useDashboardStats } from './hooks/useSessions';
+import { useSessionTail } from './hooks/useSessionTail';
 import { useTeams, useTeam } from './hooks/useTeams';
 import { useUrlState } from './hooks/useUrlState';
 import { useCommandPalette } from './hooks/useCommandPalette';
@@ -20,7 +23,7 @@ import { MobileProvider, useMobile } from './contexts/MobileContext';
 import { CommandPalette } from './components/CommandPalette';
 import { BatchActionBar } from './components/BatchActionBar';
 import { useServerEvents } from './lib/sse';
-import type { Session, Team, TeamWithInboxes, Message } from './types';
+import type { Session, Team, TeamWithInboxes, Message, TrashItem } from './types';
 
 function AppContent() {
   // URL state management
@@ -56,18 +59,16 @@ function AppContent() {
   const shouldPoll = connectionState !== 'connected';
   const [isPageVisible, setIsPageVisible] = useState(!document.hidden);
 
-  // Polling intervals: sessions disabled (manual refresh), teams 5s (lightweight)
+  // Polling intervals: sessions list disabled (manual refresh), teams refresh on SSE team events
   // Sessions list scanning is expensive - use manual refresh to reduce server load
   const sessionsPollingInterval = 0; // Disabled - manual refresh only
 
-  // Teams list is lightweight - can poll every 5s
-  const teamsPollingInterval = useMemo(() => {
+  // Polling interval for selected session and teams: 5s when not connected, 0 when connected
+  const sessionPollingInterval = useMemo(() => {
     if (!isPageVisible) return 0;
     return shouldPoll ? 5000 : 0;
   }, [shouldPoll, isPageVisible]);
-
-  // Polling interval for selected session: 5s when not connected, 0 when connected
-  const sessionPollingInterval = teamsPollingInterval;
+  const teamsPollingInterval = sessionPollingInterval;
 
   // Fetch data with dynamic polling based on SSE connection state
   const { sessions: fetchedSessions, refetch: refetchSessions, loading: sessionsLoading } = useSessions(sessionsPollingInterval);
@@ -79,9 +80,25 @@ function AppContent() {
     refetch: refetchSelectedSession,
     hasMoreMessages,
     loadFullConversation,
+    isLoadingOlder,
+    loadOlderMessages,
+    loadMessagesUntil,
+    selectBranch,
+    branchId: selectedBranchId,
+    appendMessages,
     error: sessionError,
   } = useSession(selectedSessionId, sessionPollingInterval, true);
-  const { team: fetchedTeamData } = useTeam(selectedTeamId, sessionPollingInterval);
+  // Tail the selected session once loaded, unless an abandoned branch is being viewed
+  const isTailing = useSessionTail(
+    selectedSessionId,
+    selectedSession?.sessionId === selectedSessionId && !selectedBranchId,
+    {
+      after: selectedSession?.pageInfo?.endCursor,
+      onAppend: appendMessages,
+      onReset: refetchSelectedSession,
+    }
+  );
+  const { team: fetchedTeamData } = useTeam(selectedTeamId, teamsPollingInterval);
 
   // Update local state when data is fetched - 合并为一个 useEffect
   useEffect(() => {
@@ -116,7 +133,8 @@ function AppContent() {
 
       // Only refresh if the changed session is currently selected
       // Sessions list is refreshed via polling (10s interval)
-      if (sessionId === selectedSessionId) {
+      // A tailed session receives its new messages through sessionAppended instead
+      if (sessionId === selectedSessionId && !isTailing) {
         console.log('[App] SSE refreshing selected session details:', sessionId);
         refetchSelectedSession();
       }
@@ -124,8 +142,7 @@ function AppContent() {
 
     const handleAgentSessionChanged = (event: CustomEvent) => {
       console.log('[App] SSE agentSessionChanged:', event.detail);
-      // Teams list is refreshed via polling (10s interval)
-      // No real-time refresh needed for teams
+      // Teams refresh on their own teamChanged/teamMessage events
     };
 
     window.addEventListener('sse:sessionChanged', handleSessionChanged as EventListener);
@@ -135,7 +152,26 @@ function AppContent() {
       window.removeEventListener('sse:sessionChanged', handleSessionChanged as EventListener);
       window.removeEventListener('sse:agentSessionChanged', handleAgentSessionChanged as EventListener);
     };
-  }, [selectedSessionId, refetchSelectedSession]);
+  }, [selectedSessionId, refetchSelectedSession, isTailing]);
+
+  // SSE resync - events were missed while disconnected and could not be replayed, so refetch everything
+  useEffect(() => {
+    const handleResync = () => {
+      console.log('[App] SSE resync, refetching all data');
+      refetchSessions();
+      refetchProjects();
+      refetchStats();
+      refetchTeams();
+      if (selectedSessionId) {
+        refetchSelectedSession();
+      }
+    };
+
+    window.addEventListener('sse:resync', handleResync);
+    return () => {
+      window.removeEventListener('sse:resync', handleResync);
+    };
+  }, [selectedSessionId, refetchSessions, refetchProjects, refetchStats, refetchTeams, refetchSelectedSession]);
 
   // Handle session not found (404) - refresh sessions list to sync with backend
   useEffect(() => {
@@ -211,6 +247,8 @@ function AppContent() {
     searchQuery: commandSearchQuery,
     selectedIndex: commandSelectedIndex,
     commands: commandPaletteCommands,
+    isSearching: isCommandPaletteSearching,
+    searchError: commandPaletteSearchError,
     setSearchQuery: setCommandSearchQuery,
     executeCommand: executePaletteCommand,
     close: closeCommandPalette,
@@ -252,67 +290,67 @@ function AppContent() {
     // SSE will automatically refresh the teams list via cache invalidation
   }, [selectedTeamId, navigateTo]);
 
+  // Handle restore from the trash - refresh the list the item returns to
+  const handleTrashRestored = useCallback((item: TrashItem) => {
+    if (item.type === 'session') {
+      refetchSessions();
+      refetchProjects();
+      refetchStats();
+    } else {
+      refetchTeams();
+    }
+  }, [refetchSessions, refetchProjects, refetchStats, refetchTeams]);
+
   // Batch operations
   const handleBatchDelete = useCallback(async () => {
     if (selectedSessionIds.size === 0) return;
 
     const confirmed = window.confirm(
-      `确定要删除选中的 ${selectedSessionIds.size} 个会话吗？此操作不可恢复。`
+      `确定要删除选中的 ${selectedSessionIds.size} 个会话吗？删除的会话会移到回收站，可以从回收站恢复。`
     );
     if (!confirmed) return;
 
     setIsBatchDeleting(true);
     try {
-      const { deleteSession } = await import('./api/delete');
-      const deletePromises = Array.from(selectedSessionIds).map((sessionId) =>
-        deleteSession(sessionId)
-      );
-      await Promise.all(deletePromises);
-
-      // Clear selection and refresh
-      setSelectedSessionIds(new Set());
+      const { runSessionBatch } = await import('./api/batch');
+      const result = await runSessionBatch({ action: 'delete', sessionIds: Array.from(selectedSessionIds) });
+
+      if (selectedSessionId && result.results.some((r) => r.success && r.sessionId === selectedSessionId)) {
+        navigateTo({ sessionId: null });
+      }
+
+      // Keep the sessions that could not be deleted selected
+      setSelectedSessionIds(new Set(result.results.filter((r) => !r.success).map((r) => r.sessionId)));
       refetchSessions();
+
+      if (result.failed > 0) {
+        alert(`${result.failed} 个会话删除失败，请重试`);
+      }
     } catch (error) {
       console.error('Failed to delete sessions:', error);
       alert('批量删除失败，请重试');
     } finally {
       setIsBatchDeleting(false);
     }
-  }, [selectedSessionIds, refetchSessions]);
+  }, [selectedSessionIds, selectedSessionId, navigateTo, refetchSessions]);
 
   const handleBatchExport = useCallback(async () => {
     if (selectedSessionIds.size === 0) return;
 
     setIsBatchExporting(true);
     try {
-      const selectedSessionsData = sessions.filter((s) =>
-        selectedSessionIds.has(s.sessionId)
-      );
-
-      const exportData = {
-        exportDate: new Date().toISOString(),
-        totalSessions: selectedSessionsData.length,
-        sessions: selectedSessionsData,
-      };
-
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-        type: 'application/json',
+      const { downloadExportArchive } = await import('./api/export');
+      await downloadExportArchive({
+        ids: Array.from(selectedSessionIds),
+        format: ['markdown', 'json', 'html'],
       });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `sessions-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Failed to export sessions:', error);
       alert('导出失败，请重试');
     } finally {
       setIsBatchExporting(false);
     }
-  }, [selectedSessionIds, sessions]);
+  }, [selectedSessionIds]);
 
   // Filter sessions by selected project
   const filteredSessions = decodedProjectPath
@@ -468,6 +506,8 @@ function AppContent() {
             </div>
           </div>
         );
+      case 'trash':
+        return <TrashView onRestored={handleTrashRestored} />;
       default:
         return null;
     }
@@ -489,11 +529,24 @@ function AppContent() {
         );
       case 'sessions':
       case 'projects':
+        // A project page without an open session shows when the project is worked on
+        if (currentView === 'projects' && decodedProjectPath && !selectedSessionId) {
+          return (
+            <div className="h-full overflow-y-auto p-3 md:p-6" style={{ backgroundColor: 'var(--bg-primary)' }}>
+              <ActivityPunchCard project={decodedProjectPath} />
+            </div>
+          );
+        }
         return (
           <SessionDetail
             session={selectedSession}
             hasMoreMessages={hasMoreMessages}
+            isLoadingOlder={isLoadingOlder}
             onLoadFullConversation={loadFullConversation}
+            onLoadOlderMessages={loadOlderMessages}
+            onLoadMessagesUntil={loadMessagesUntil}
+            onSelectBranch={selectBranch}
+            isLive={isTailing}
             error={sessionError}
           />
         );
@@ -575,6 +628,8 @@ function AppContent() {
               searchQuery={commandSearchQuery}
               selectedIndex={commandSelectedIndex}
               commands={commandPaletteCommands}
+              isSearching={isCommandPaletteSearching}
+              queryError={commandPaletteSearchError}
               onSearchChange={setCommandSearchQuery}
               onSelectCommand={executePaletteCommand}
               onClose={closeCommandPalette}
@@ -0,0 +1,20 @@
+import axios from 'axios';
+import type { ApiResponse, SessionBatchRequest, SessionBatchResult } from '../types';
+
+const API_BASE = '/api';
+
+/**
+ * Apply one action to many sessions in a single request
+ */
+export async function runSessionBatch(request: SessionBatchRequest): Promise<SessionBatchResult> {
+  try {
+    const response = await axios.post<ApiResponse<SessionBatchResult>>(`${API_BASE}/sessions/batch`, request);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Batch operation failed');
+    }
+    return response.data.data;
+  } catch (error) {
+    console.error(`Failed to run batch ${request.action}:`, error);
+    throw error;
+  }
+}
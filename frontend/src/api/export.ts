@@ -0,0 +1,59 @@
+import axios from 'axios';
+import type { ExportArchiveRequest } from '../types';
+import { getBrowserTimeZone } from '../utils/time';
+import { getThemeCssVars, type ThemeId } from '../styles/themes';
+
+const API_BASE = '/api';
+
+// Filename from the Content-Disposition header of the response
+function getFilename(disposition: unknown): string {
+  const match = typeof disposition === 'string' ? /filename="([^"]+)"/.exec(disposition) : null;
+  return match ? match[1] : 'claude-sessions.zip';
+}
+
+// Save a downloaded blob under the name the server gave it
+function saveDownload(data: Blob, disposition: unknown): void {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getFilename(disposition);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download sessions as a zip archive built on the server, with full conversations,
+ * an index and pasted images. Dates are interpreted in the browser's time zone.
+ */
+export async function downloadExportArchive(request: ExportArchiveRequest): Promise<void> {
+  try {
+    const response = await axios.post<Blob>(
+      `${API_BASE}/export`,
+      { tz: getBrowserTimeZone(), ...request },
+      { responseType: 'blob' }
+    );
+    saveDownload(response.data, response.headers['content-disposition']);
+  } catch (error) {
+    console.error('Failed to download export archive:', error);
+    throw error;
+  }
+}
+
+/**
+ * Download a project as a static HTML site that opens from disk, styled with the given theme
+ */
+export async function downloadProjectSite(project: string, themeId: ThemeId): Promise<void> {
+  try {
+    const response = await axios.post<Blob>(
+      `${API_BASE}/export/site`,
+      { project, tz: getBrowserTimeZone(), theme: getThemeCssVars(themeId) },
+      { responseType: 'blob' }
+    );
+    saveDownload(response.data, response.headers['content-disposition']);
+  } catch (error) {
+    console.error('Failed to download project site:', error);
+    throw error;
+  }
+}
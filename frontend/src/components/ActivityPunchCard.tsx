@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { Clock } from 'lucide-react';
+import { useHourlyActivity } from '../hooks/useStats';
+import { useTranslation } from '../hooks/useTranslation';
+import { useIsMobile } from '../hooks/useMediaQuery';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_LABELS = new Set([0, 6, 12, 18]);
+// 2024-01-07 was a Sunday, matching weekday 0 of the matrix
+const SUNDAY = new Date(2024, 0, 7);
+
+interface ActivityPunchCardProps {
+  days?: number;
+  project?: string;
+}
+
+export const ActivityPunchCard: React.FC<ActivityPunchCardProps> = ({
+  days = 30,
+  project,
+}) => {
+  const { t, locale } = useTranslation();
+  const isMobile = useIsMobile();
+  const { hourlyActivity } = useHourlyActivity(days, project);
+
+  const weekdays = useMemo(() => {
+    const format = new Intl.DateTimeFormat(locale, { weekday: 'short' });
+    return Array.from({ length: 7 }, (_, day) =>
+      format.format(new Date(SUNDAY.getFullYear(), SUNDAY.getMonth(), SUNDAY.getDate() + day))
+    );
+  }, [locale]);
+
+  const maxCount = useMemo(
+    () => (hourlyActivity ? Math.max(...hourlyActivity.matrix.flat(), 1) : 1),
+    [hourlyActivity]
+  );
+
+  return (
+    <div
+      className="p-3 md:p-4 rounded-lg border"
+      style={{
+        backgroundColor: 'var(--bg-secondary)',
+        borderColor: 'var(--border-primary)',
+      }}
+    >
+      {/* Header */}
+      <div className={`flex ${isMobile ? 'flex-col gap-2' : 'items-center justify-between'} mb-4`}>
+        <h3
+          className="text-sm font-medium flex items-center gap-1.5"
+          style={{ color: 'var(--text-secondary)' }}
+        >
+          <Clock className="w-4 h-4" style={{ color: 'var(--accent-blue)' }} />
+          {t('activity.hourlyTitle')}
+        </h3>
+        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+          {t('tokens.lastDays', { days })}
+          {hourlyActivity && ` · ${hourlyActivity.timeZone}`}
+        </span>
+      </div>
+
+      {!hourlyActivity || hourlyActivity.total === 0 ? (
+        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>{t('activity.noMessages')}</p>
+      ) : (
+        <div
+          className="grid items-center gap-y-1 text-[10px]"
+          style={{ gridTemplateColumns: 'auto repeat(24, minmax(0, 1fr))', color: 'var(--text-muted)' }}
+        >
+          {weekdays.map((weekday, day) => (
+            <React.Fragment key={weekday}>
+              <span className="pr-2">{weekday}</span>
+              {HOURS.map((hour) => {
+                const count = hourlyActivity.matrix[day][hour];
+                // Area, not diameter, follows the count
+                const size = count > 0 ? Math.max(Math.sqrt(count / maxCount) * 100, 15) : 0;
+                return (
+                  <div
+                    key={hour}
+                    className={`flex items-center justify-center ${isMobile ? 'h-3' : 'h-4'}`}
+                    title={t('activity.hourlyCell', { day: weekday, hour, count })}
+                  >
+                    {count > 0 ? (
+                      <span
+                        className="block rounded-full aspect-square max-h-full"
+                        style={{ width: `${size}%`, backgroundColor: 'var(--accent-blue)' }}
+                      />
+                    ) : (
+                      <span className="block w-0.5 h-0.5 rounded-full" style={{ backgroundColor: 'var(--border-primary)' }} />
+                    )}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+
+          {/* Hour axis */}
+          <span />
+          {HOURS.map((hour) => (
+            <span key={hour} className="text-center">
+              {HOUR_LABELS.has(hour) ? hour : ''}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityPunchCard;
@@ -1,5 +1,5 @@
 import React, { useRef, useEffect } from 'react';
-import { Search, LayoutDashboard, List, Users, FolderGit2, MessageSquare, RefreshCw, Command, X } from 'lucide-react';
+import { Search, LayoutDashboard, List, Users, FolderGit2, MessageSquare, RefreshCw, Command, X, Filter } from 'lucide-react';
 import { useTranslation } from '../hooks/useTranslation';
 import { useMobile } from '../contexts/MobileContext';
 import type { Command as CommandType } from '../hooks/useCommandPalette';
@@ -9,6 +9,8 @@ interface CommandPaletteProps {
   searchQuery: string;
   selectedIndex: number;
   commands: CommandType[];
+  isSearching?: boolean;
+  queryError?: string | null;
   onSearchChange: (query: string) => void;
   onSelectCommand: (command: CommandType) => void;
   onClose: () => void;
@@ -30,6 +32,8 @@ const getCommandIcon = (type: CommandType['type']) => {
       return Users;
     case 'refresh-data':
       return RefreshCw;
+    case 'complete-query':
+      return Filter;
     default:
       return Command;
   }
@@ -48,6 +52,8 @@ const getCommandCategory = (type: CommandType['type'], t: (key: string) => strin
       return t('commandPalette.teams');
     case 'refresh-data':
       return t('commandPalette.actions');
+    case 'complete-query':
+      return t('commandPalette.searchSyntax');
     default:
       return t('commandPalette.other');
   }
@@ -58,6 +64,8 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
   searchQuery,
   selectedIndex,
   commands,
+  isSearching = false,
+  queryError = null,
   onSearchChange,
   onSelectCommand,
   onClose,
@@ -181,12 +189,20 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
             isMobile ? 'safe-area-left safe-area-right' : 'max-h-[50vh]'
           }`}
         >
+          {queryError && (
+            <div
+              className="px-4 py-2 text-xs"
+              style={{ color: 'var(--accent-red)' }}
+            >
+              {t('commandPalette.invalidQuery', { message: queryError })}
+            </div>
+          )}
           {commands.length === 0 ? (
             <div
               className="px-4 py-8 text-center"
               style={{ color: 'var(--text-muted)' }}
             >
-              {t('commandPalette.noResults')}
+              {isSearching ? t('commandPalette.searching') : t('commandPalette.noResults')}
             </div>
           ) : (
             categories.map((category) => (
@@ -206,7 +222,13 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
                     <button
                       key={command.id}
                       ref={isSelected ? selectedRef : null}
-                      onClick={() => onSelectCommand(command)}
+                      onClick={() => {
+                        onSelectCommand(command);
+                        // Completions keep the palette open for further typing
+                        if (command.type === 'complete-query') {
+                          inputRef.current?.focus();
+                        }
+                      }}
                       className="w-full px-4 py-2.5 flex items-center gap-3 text-left transition-colors"
                       style={{
                         backgroundColor: isSelected
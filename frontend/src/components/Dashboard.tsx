@@ -13,6 +13,9 @@ import type { DashboardStats, Session, Team } from '../types';
 import { isSystemContent } from '../utils/session';
 import { ActivityHeatmap } from './ActivityHeatmap';
 import { TrendChart } from './TrendChart';
+import { TokenCostCard } from './TokenCostCard';
+import { ToolUsageCard } from './ToolUsageCard';
+import { ActivityPunchCard } from './ActivityPunchCard';
 import { ActivityTimeline } from './ActivityTimeline';
 import { useTranslation } from '../hooks/useTranslation';
 import { useIsMobile } from '../hooks/useMediaQuery';
@@ -291,9 +294,18 @@ export const Dashboard: React.FC<DashboardProps> = ({
         {/* Visualization Section - Mobile: stacked, Desktop: side by side */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
           <ActivityHeatmap sessions={stats.allSessions} days={isMobile ? 60 : 90} />
-          <TrendChart sessions={stats.allSessions} days={isMobile ? 7 : 14} />
+          <div className="space-y-4 md:space-y-6">
+            <TrendChart sessions={stats.allSessions} days={isMobile ? 7 : 14} />
+            <TokenCostCard days={30} />
+          </div>
         </div>
 
+        {/* Activity by weekday and hour */}
+        <ActivityPunchCard days={30} />
+
+        {/* Tool Usage */}
+        <ToolUsageCard days={30} />
+
         {/* Activity Timeline */}
         <ActivityTimeline
           sessions={stats.recentSessions}
@@ -52,7 +52,8 @@ export const Layout: React.FC<LayoutProps> = ({
   onViewChange,
 }) => {
   const { isMobile, setIsMobile, isDrawerOpen, openDrawer, closeDrawer } = useMobile();
-  const isTeamsView = currentView === 'teams';
+  // Teams and trash use the whole width instead of a list and a detail panel
+  const isFullWidthView = currentView === 'teams' || currentView === 'trash';
 
   // Load stored widths from localStorage
   const [leftWidth, setLeftWidth] = useState(() => getStoredWidth(LEFT_PANEL_KEY, DEFAULT_LEFT_WIDTH));
@@ -171,8 +172,8 @@ export const Layout: React.FC<LayoutProps> = ({
         {leftPanel}
       </ResizablePanel>
 
-      {/* Middle Panel - List (Resizable, not in teams view) */}
-      {isTeamsView ? (
+      {/* Middle Panel - List (Resizable, not in full width views) */}
+      {isFullWidthView ? (
         <div
           className="flex-1 flex flex-col"
         >
@@ -192,8 +193,8 @@ export const Layout: React.FC<LayoutProps> = ({
         </ResizablePanel>
       )}
 
-      {/* Right Panel - Detail (hidden in teams view, handled in middlePanel) */}
-      {!isTeamsView && (
+      {/* Right Panel - Detail (hidden in full width views, handled in middlePanel) */}
+      {!isFullWidthView && (
         <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
           {rightPanel}
         </div>
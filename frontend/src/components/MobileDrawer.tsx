@@ -5,6 +5,7 @@ import {
   List,
   FolderGit2,
   Users,
+  Trash2,
   Circle,
   Moon,
   Sun,
@@ -162,6 +163,7 @@ export const MobileDrawer: React.FC<MobileDrawerProps> = ({
     { id: 'dashboard', labelKey: 'navigation.dashboard', icon: LayoutDashboard },
     { id: 'sessions', labelKey: 'navigation.sessions', icon: List, count: stats?.totalSessions },
     { id: 'teams', labelKey: 'navigation.agentTeams', icon: Users, count: stats?.totalTeams },
+    { id: 'trash', labelKey: 'navigation.trash', icon: Trash2 },
   ];
 
   const handleViewClick = (view: ViewType) => {
@@ -1,10 +1,11 @@
-import React, { useState, useMemo, useCallback, useDeferredValue } from 'react';
-import { Star, Edit3, Check, X, ArrowLeft, MessageSquare } from 'lucide-react';
+import React, { useState, useMemo, useCallback, useEffect, useDeferredValue } from 'react';
+import { Star, Edit3, Check, X, ArrowLeft, MessageSquare, FileDiff } from 'lucide-react';
 import { useMobile } from '../contexts/MobileContext';
 import type { Session } from '../types';
 import { useSessionNames } from '../hooks/useSessionNames';
 import { useSessionTags } from '../hooks/useSessionTags';
 import { useTranslation } from '../hooks/useTranslation';
+import { useMessageSearch } from '../hooks/useSessions';
 import { ExportDialog } from './ExportDialog';
 import { TagSelector } from './TagSelector';
 import {
@@ -19,6 +20,8 @@ import {
   NavigationBar,
   SearchBar,
   BookmarksList,
+  BranchSwitcher,
+  ChangesView,
   ConversationView,
   RawInputsView,
   TimeDensityChart,
@@ -28,7 +31,12 @@ interface SessionDetailProps {
   session: Session | null;
   isUpdating?: boolean;
   hasMoreMessages?: boolean;
+  isLoadingOlder?: boolean;
   onLoadFullConversation?: () => void;
+  onLoadOlderMessages?: () => void;
+  onLoadMessagesUntil?: (messageId: string) => Promise<void>;
+  onSelectBranch?: (branchId: string | null) => void;
+  isLive?: boolean;
   error?: string | null;
 }
 
@@ -39,7 +47,12 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
   session,
   isUpdating,
   hasMoreMessages,
+  isLoadingOlder,
   onLoadFullConversation,
+  onLoadOlderMessages,
+  onLoadMessagesUntil,
+  onSelectBranch,
+  isLive,
   error,
 }) => {
   // Hooks
@@ -59,10 +72,24 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
   const [isEditingName, setIsEditingName] = useState(false);
   const [customNameInput, setCustomNameInput] = useState('');
 
+  const [activeTab, setActiveTab] = useState<'conversation' | 'changes'>('conversation');
+  const isConversationTab = activeTab === 'conversation';
+
   // Use deferred search query to avoid input lag
   const [searchQueryInput, setSearchQueryInput] = useState('');
   const deferredSearchQuery = useDeferredValue(searchQueryInput);
 
+  // Matches in older messages that are not loaded yet
+  const viewedBranchId = session?.branches?.some((branch) => branch.id === session.branchId && !branch.isActive)
+    ? session.branchId
+    : undefined;
+  const unloadedSearchHits = useMessageSearch(
+    session?.sessionId,
+    deferredSearchQuery,
+    session?.pageInfo?.hasOlder ? session.pageInfo.startCursor : null,
+    viewedBranchId
+  );
+
   const {
     isSearchOpen,
     currentMatchIndex,
@@ -70,7 +97,10 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
     setIsSearchOpen,
     navigateToMatch,
     closeSearch,
-  } = useSearch(session?.messages ?? [], deferredSearchQuery);
+  } = useSearch(session?.messages ?? [], deferredSearchQuery, unloadedSearchHits);
+
+  // Scroll to messages appended by the live tail
+  const [autoFollow, setAutoFollow] = useState(true);
 
   const {
     scrollContainerRef,
@@ -82,11 +112,22 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
     scrollToNextUserOutput,
     jumpToMessage,
     jumpToTime,
-  } = useScrollNavigation(session?.messages ?? []);
+  } = useScrollNavigation(
+    session?.messages ?? [],
+    isConversationTab ? onLoadOlderMessages : undefined,
+    autoFollow
+  );
+
+  const toggleAutoFollow = useCallback(() => {
+    if (!autoFollow) scrollToBottom();
+    setAutoFollow(!autoFollow);
+  }, [autoFollow, scrollToBottom]);
 
   // Local state
   const [showInputs, setShowInputs] = useState(false);
   const [isExportOpen, setIsExportOpen] = useState(false);
+  // Message to scroll to once the older pages holding it are loaded
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
   const [collapsedMessages, setCollapsedMessages] = useState<Set<string>>(() => {
     if (session?.messages) {
       const longMessages = session.messages
@@ -105,10 +146,12 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
 
   const sortedMessages = useMemo(
     () => (session?.messages ? [...session.messages].sort((a, b) => a.timestamp - b.timestamp) : []),
-    [session?.sessionId, session?.messages?.length]
+    // Appended tool results change messages in place without adding any
+    [session?.messages]
   );
 
   const hasFullConversation = sortedMessages.length > 0;
+  const showChanges = hasFullConversation && !isConversationTab;
 
   // Handlers
   const toggleMessageCollapse = useCallback((messageId: string) => {
@@ -123,30 +166,55 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
     });
   }, []);
 
-  const jumpToBookmark = useCallback(
+  // Scroll to a message, loading older pages first when it is not loaded yet
+  const jumpToMessageId = useCallback(
     (messageId: string) => {
       const messageIndex = sortedMessages.findIndex((m) => m.uuid === messageId);
-      if (messageIndex !== -1) {
+      if (messageIndex !== -1 && isConversationTab) {
         jumpToMessage(messageIndex);
+        return;
+      }
+      if (messageIndex === -1 && !onLoadMessagesUntil) return;
+
+      // Jump once the conversation is rendered and holds the message
+      setActiveTab('conversation');
+      setPendingJumpId(messageId);
+      if (messageIndex === -1) {
+        onLoadMessagesUntil?.(messageId);
       }
     },
-    [sortedMessages, jumpToMessage]
+    [sortedMessages, isConversationTab, jumpToMessage, onLoadMessagesUntil]
   );
 
+  useEffect(() => {
+    if (!pendingJumpId) return;
+    const messageIndex = sortedMessages.findIndex((m) => m.uuid === pendingJumpId);
+    if (messageIndex !== -1) {
+      setPendingJumpId(null);
+      jumpToMessage(messageIndex);
+    }
+  }, [pendingJumpId, sortedMessages, jumpToMessage]);
+
+  useEffect(() => {
+    setPendingJumpId(null);
+  }, [session?.sessionId]);
+
   const handleJumpToFirstBookmark = useCallback(() => {
     if (bookmarks.length > 0) {
-      jumpToBookmark(bookmarks[0]);
+      jumpToMessageId(bookmarks[0]);
     }
-  }, [bookmarks, jumpToBookmark]);
+  }, [bookmarks, jumpToMessageId]);
 
   const handleNavigateMatch = useCallback(
     (direction: 'next' | 'prev') => {
       const match = navigateToMatch(direction);
-      if (match) {
+      if (match?.uuid) {
+        jumpToMessageId(match.uuid);
+      } else if (match) {
         jumpToMessage(match.messageIndex);
       }
     },
-    [navigateToMatch, jumpToMessage]
+    [navigateToMatch, jumpToMessage, jumpToMessageId]
   );
 
   const handleSearchChange = useCallback((query: string) => {
@@ -312,12 +380,16 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
           inputCount={session.inputCount}
           messageCount={sortedMessages.length}
           hasFullConversation={hasFullConversation}
+          compactionCount={session.markers?.filter((marker) => marker.type === 'compact_boundary').length}
+          summaryCount={session.markers?.filter((marker) => marker.type === 'summary').length}
+          metadata={session.metadata}
+          activeTimeMs={session.activeTimeMs}
           onExport={() => setIsExportOpen(true)}
         />
       </div>
 
       {/* Navigation Bar */}
-      {hasFullConversation && (
+      {hasFullConversation && isConversationTab && (
         <NavigationBar
           bookmarksCount={bookmarks.length}
           isSearchOpen={isSearchOpen}
@@ -332,7 +404,7 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
       )}
 
       {/* Search Bar */}
-      {isSearchOpen && hasFullConversation && (
+      {isSearchOpen && hasFullConversation && isConversationTab && (
         <SearchBar
           searchQuery={searchQueryInput}
           matchCount={searchMatches.length}
@@ -345,7 +417,7 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
       )}
 
       {/* Time Density Chart */}
-      {hasFullConversation && sortedMessages.length > 5 && (
+      {hasFullConversation && isConversationTab && sortedMessages.length > 5 && (
         <TimeDensityChart messages={sortedMessages} onSelectTime={jumpToTime} />
       )}
 
@@ -353,13 +425,58 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
       <BookmarksList
         bookmarks={bookmarks}
         messages={sortedMessages}
-        onJumpToBookmark={jumpToBookmark}
+        hasUnloadedMessages={!!session.pageInfo?.hasOlder && !!onLoadMessagesUntil}
+        onJumpToBookmark={jumpToMessageId}
       />
 
+      {/* Branches */}
+      {session.branches && onSelectBranch && (
+        <BranchSwitcher
+          branches={session.branches}
+          selectedBranchId={session.branchId}
+          onSelectBranch={onSelectBranch}
+        />
+      )}
+
+      {/* Conversation / Changes tabs */}
+      {hasFullConversation && (
+        <div className="flex border-b px-2 md:px-4" style={{ borderColor: 'var(--border-primary)' }}>
+          {([
+            { tab: 'conversation', icon: MessageSquare, label: t('session.conversation') },
+            { tab: 'changes', icon: FileDiff, label: t('session.changes.title') },
+          ] as const).map(({ tab, icon: Icon, label }) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex items-center gap-1.5 px-3 py-2 text-xs font-medium transition-colors ${
+                activeTab === tab ? 'border-b-2' : ''
+              }`}
+              style={{
+                color: activeTab === tab ? 'var(--accent-purple)' : 'var(--text-muted)',
+                borderColor: activeTab === tab ? 'var(--accent-purple)' : 'transparent',
+              }}
+              aria-selected={activeTab === tab}
+              role="tab"
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Conversation */}
       <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
+        {showChanges && (
+          <ChangesView
+            sessionId={session.sessionId}
+            branchId={viewedBranchId}
+            updatedAt={session.updatedAt}
+            onViewInConversation={jumpToMessageId}
+          />
+        )}
         {/* Load more messages button */}
-        {hasMoreMessages && onLoadFullConversation && (
+        {!showChanges && hasMoreMessages && onLoadFullConversation && (
           <div
             className="sticky top-0 z-10 px-4 py-3 border-b text-center"
             style={{
@@ -386,14 +503,25 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
             </p>
           </div>
         )}
-        {hasFullConversation ? (
+        {!showChanges && isLoadingOlder && (
+          <div className="px-4 py-2 text-center text-xs" style={{ color: 'var(--text-muted)' }}>
+            {t('session.loadingOlderMessages')}
+          </div>
+        )}
+        {!showChanges && (hasFullConversation ? (
           <>
             <ConversationView
+              sessionId={session.sessionId}
               messages={sortedMessages}
+              agentSessions={session.agentSessions}
+              hasMoreMessages={hasMoreMessages}
               bookmarks={bookmarks}
               collapsedMessages={collapsedMessages}
               searchQuery={deferredSearchQuery}
               isUpdating={isUpdating}
+              isLive={isLive}
+              autoFollow={autoFollow}
+              onToggleAutoFollow={toggleAutoFollow}
               onToggleBookmark={toggleBookmark}
               onToggleCollapse={toggleMessageCollapse}
             />
@@ -433,7 +561,7 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
               title="inputs"
             />
           </>
-        )}
+        ))}
       </div>
 
       {/* Export Dialog */}
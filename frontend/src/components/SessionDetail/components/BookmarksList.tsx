@@ -6,12 +6,14 @@ import { useTranslation } from '../../../hooks/useTranslation';
 interface BookmarksListProps {
   bookmarks: string[];
   messages: ChatMessage[];
+  hasUnloadedMessages?: boolean; // Bookmarks not found may be in older messages not loaded yet
   onJumpToBookmark: (messageId: string) => void;
 }
 
 export const BookmarksList: React.FC<BookmarksListProps> = ({
   bookmarks,
   messages,
+  hasUnloadedMessages,
   onJumpToBookmark,
 }) => {
   const { t } = useTranslation();
@@ -27,7 +29,18 @@ export const BookmarksList: React.FC<BookmarksListProps> = ({
       <div className="flex flex-wrap gap-2">
         {bookmarks.map((messageId) => {
           const msg = messages.find((m) => m.uuid === messageId);
-          if (!msg) return null;
+          if (!msg) {
+            if (!hasUnloadedMessages) return null;
+            return (
+              <button
+                key={messageId}
+                onClick={() => onJumpToBookmark(messageId)}
+                className="text-xs px-2 py-1 bg-[var(--accent-amber)]/5 text-[var(--accent-amber)] border border-dashed border-[var(--accent-amber)]/20 rounded hover:bg-[var(--accent-amber)]/20 transition-colors"
+              >
+                {t('session.earlierMessage')}
+              </button>
+            );
+          }
           const preview = msg.content.slice(0, 40) + (msg.content.length > 40 ? '...' : '');
           return (
             <button
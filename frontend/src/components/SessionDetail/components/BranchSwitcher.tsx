@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { GitBranch, GitFork, ChevronRight, ChevronDown, Undo2 } from 'lucide-react';
+import type { ConversationBranch } from '../../../types';
+import { formatRelativeTime } from '../../../utils/time';
+import { useTranslation } from '../../../hooks/useTranslation';
+
+interface BranchSwitcherProps {
+  branches: ConversationBranch[];
+  selectedBranchId?: string;
+  onSelectBranch: (branchId: string | null) => void; // null selects the active branch
+}
+
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = ({
+  branches,
+  selectedBranchId,
+  onSelectBranch,
+}) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (branches.length < 2) return null;
+
+  const activeBranch = branches.find((branch) => branch.isActive);
+  const isViewingAbandoned = !!selectedBranchId && selectedBranchId !== activeBranch?.id;
+
+  const renderBranch = (branch: ConversationBranch) => {
+    const isSelected = isViewingAbandoned ? branch.id === selectedBranchId : branch.isActive;
+    return (
+      <button
+        key={branch.id}
+        onClick={() => onSelectBranch(branch.isActive ? null : branch.id)}
+        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs transition-colors ${
+          branch.isActive ? '' : 'ml-4 w-[calc(100%-1rem)]'
+        }`}
+        style={{
+          backgroundColor: isSelected ? 'var(--accent-purple-subtle)' : 'transparent',
+          color: 'var(--text-secondary)',
+        }}
+        aria-current={isSelected}
+        title={branch.preview}
+      >
+        {branch.isActive ? (
+          <GitBranch className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--accent-green)' }} />
+        ) : (
+          <GitFork className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        )}
+        <span
+          className="flex-shrink-0 font-medium"
+          style={{ color: branch.isActive ? 'var(--accent-green)' : 'var(--text-muted)' }}
+        >
+          {branch.isActive ? t('session.branches.latest') : t('session.branches.abandoned')}
+        </span>
+        <span className="truncate" style={{ color: 'var(--text-primary)' }}>
+          {branch.preview}
+        </span>
+        <span className="ml-auto flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+          {t('session.branches.messageCount', { count: branch.messageCount })}
+          {' • '}
+          {branch.isActive
+            ? formatRelativeTime(branch.updatedAt)
+            : t('session.branches.forkedAt', { time: formatRelativeTime(branch.startedAt) })}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-[var(--bg-secondary)]/60">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-1.5 text-xs transition-colors"
+          style={{ color: 'var(--text-secondary)' }}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          <GitBranch className="w-3.5 h-3.5" style={{ color: 'var(--accent-purple)' }} />
+          {t('session.branches.title', { count: branches.length })}
+        </button>
+        {isViewingAbandoned && (
+          <>
+            <span className="text-xs" style={{ color: 'var(--accent-amber)' }}>
+              {t('session.branches.viewingAbandoned')}
+            </span>
+            <button
+              onClick={() => onSelectBranch(null)}
+              className="ml-auto flex items-center gap-1 text-xs px-2 py-0.5 rounded border transition-colors"
+              style={{ color: 'var(--text-secondary)', borderColor: 'var(--border-primary)' }}
+            >
+              <Undo2 className="w-3 h-3" />
+              {t('session.branches.backToLatest')}
+            </button>
+          </>
+        )}
+      </div>
+      {isExpanded && (
+        <div className="mt-2 space-y-0.5">
+          {branches.map(renderBranch)}
+        </div>
+      )}
+    </div>
+  );
+};
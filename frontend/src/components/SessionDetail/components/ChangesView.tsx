@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, FileDiff, FilePlus, Loader2, XCircle, MessageSquare } from 'lucide-react';
+import type { FileChange, FileEdit } from '../../../types';
+import { useSessionChanges } from '../../../hooks/useSessions';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { formatRelativeTime } from '../../../utils/time';
+
+interface ChangesViewProps {
+  sessionId: string;
+  branchId?: string; // Abandoned branch being viewed
+  updatedAt?: number;
+  onViewInConversation?: (messageUuid: string) => void;
+}
+
+function getLineStyle(line: string): React.CSSProperties {
+  if (line.startsWith('@@')) {
+    return { color: 'var(--accent-blue)', backgroundColor: 'var(--accent-blue-subtle)' };
+  }
+  if (line.startsWith('+')) {
+    return { color: 'var(--accent-green)', backgroundColor: 'var(--accent-green-subtle)' };
+  }
+  if (line.startsWith('-')) {
+    return { color: 'var(--accent-red)', backgroundColor: 'var(--accent-red-subtle)' };
+  }
+  return { color: 'var(--text-secondary)' };
+}
+
+const LineCounts: React.FC<{ added: number; removed: number }> = ({ added, removed }) => (
+  <span className="flex-shrink-0 font-mono text-xs">
+    <span style={{ color: 'var(--accent-green)' }}>+{added}</span>{' '}
+    <span style={{ color: 'var(--accent-red)' }}>-{removed}</span>
+  </span>
+);
+
+const EditDiff: React.FC<{ edit: FileEdit; onViewInConversation?: (messageUuid: string) => void }> = ({
+  edit,
+  onViewInConversation,
+}) => {
+  const { t } = useTranslation();
+  // File headers repeat the path shown above
+  const lines = edit.diff.split('\n').filter((line) => !line.startsWith('--- ') && !line.startsWith('+++ '));
+
+  return (
+    <div className="border-t" style={{ borderColor: 'var(--border-primary)' }}>
+      <div className="flex items-center gap-2 px-3 py-1.5 text-xs" style={{ color: 'var(--text-muted)' }}>
+        <span className="font-medium" style={{ color: 'var(--text-secondary)' }}>{edit.toolName}</span>
+        <span>{formatRelativeTime(edit.timestamp)}</span>
+        {edit.isNewFile && <span style={{ color: 'var(--accent-green)' }}>{t('session.changes.newFile')}</span>}
+        {edit.isError && (
+          <span className="flex items-center gap-1" style={{ color: 'var(--accent-red)' }}>
+            <XCircle className="w-3 h-3" />
+            {t('session.changes.failed')}
+          </span>
+        )}
+        {onViewInConversation && (
+          <button
+            onClick={() => onViewInConversation(edit.messageUuid)}
+            className="ml-auto flex items-center gap-1 transition-colors"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            <MessageSquare className="w-3 h-3" />
+            {t('session.changes.viewInConversation')}
+          </button>
+        )}
+      </div>
+      <pre
+        className="text-xs font-mono overflow-x-auto py-1"
+        style={{ backgroundColor: 'var(--bg-primary)', opacity: edit.isError ? 0.6 : 1 }}
+      >
+        {lines.map((line, index) => (
+          <div key={index} className="px-3 whitespace-pre" style={getLineStyle(line)}>
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+const FileChangeCard: React.FC<{ file: FileChange; onViewInConversation?: (messageUuid: string) => void }> = ({
+  file,
+  onViewInConversation,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const isNewFile = file.edits[0]?.isNewFile ?? false;
+
+  return (
+    <div
+      className="rounded-lg border text-sm overflow-hidden"
+      style={{ backgroundColor: 'var(--bg-card)', borderColor: 'var(--border-primary)' }}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left transition-colors"
+        style={{ color: 'var(--text-secondary)' }}
+        aria-expanded={isExpanded}
+        title={file.filePath}
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        )}
+        {isNewFile ? (
+          <FilePlus className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--accent-green)' }} />
+        ) : (
+          <FileDiff className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--accent-purple)' }} />
+        )}
+        <span className="font-mono text-xs truncate" style={{ color: 'var(--text-primary)' }}>
+          {file.filePath}
+        </span>
+        <span className="ml-auto flex items-center gap-3">
+          <span className="text-xs" style={{ color: 'var(--text-muted)' }}>{file.edits.length}×</span>
+          <LineCounts added={file.linesAdded} removed={file.linesRemoved} />
+        </span>
+      </button>
+      {isExpanded &&
+        file.edits.map((edit) => (
+          <EditDiff key={edit.toolUseId} edit={edit} onViewInConversation={onViewInConversation} />
+        ))}
+    </div>
+  );
+};
+
+export const ChangesView: React.FC<ChangesViewProps> = ({
+  sessionId,
+  branchId,
+  updatedAt,
+  onViewInConversation,
+}) => {
+  const { t } = useTranslation();
+  const { changes, loading, error } = useSessionChanges(sessionId, branchId, true, updatedAt);
+
+  if (!changes) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-6 text-xs" style={{ color: error ? 'var(--accent-red)' : 'var(--text-muted)' }}>
+        {loading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+        {error ? t('session.changes.loadError') : t('common.loading')}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="px-3 md:px-4 py-2.5 md:py-3 border-b border-[var(--bg-secondary)]/60 bg-[var(--bg-primary)]/30 flex items-center justify-between">
+        <span className="text-sm font-medium text-[var(--text-secondary)]">
+          {t('session.changes.filesChanged', { count: changes.files.length })}
+        </span>
+        <LineCounts added={changes.linesAdded} removed={changes.linesRemoved} />
+      </div>
+      <div className="p-2 md:p-4 space-y-3">
+        {changes.files.length === 0 ? (
+          <div className="text-xs text-center py-6" style={{ color: 'var(--text-muted)' }}>
+            {t('session.changes.noChanges')}
+          </div>
+        ) : (
+          changes.files.map((file) => (
+            <FileChangeCard key={file.filePath} file={file} onViewInConversation={onViewInConversation} />
+          ))
+        )}
+      </div>
+    </>
+  );
+};
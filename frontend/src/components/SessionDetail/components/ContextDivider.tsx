@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, Shrink } from 'lucide-react';
+import type { ChatMessage } from '../../../types';
+import { useTranslation } from '../../../hooks/useTranslation';
+
+const MARKER_TYPES = new Set(['summary', 'compact_boundary', 'compact_summary']);
+
+interface ContextDividerProps {
+  message: ChatMessage;
+  index: number;
+}
+
+/** Summary entries, compaction boundaries and compaction summaries render as dividers */
+export function isContextMarker(message: ChatMessage): boolean {
+  return MARKER_TYPES.has(message.type ?? '');
+}
+
+function formatTokenCount(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${Math.round(count / 1_000)}K`;
+  return String(count);
+}
+
+export const ContextDivider: React.FC<ContextDividerProps> = ({ message, index }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isBoundary = message.type === 'compact_boundary';
+  // Short summary titles are shown in full, compaction summaries on demand
+  const isExpandable = message.type === 'compact_summary' && message.content.trim().length > 0;
+
+  let label: string;
+  if (isBoundary) {
+    const details = [
+      message.compaction?.trigger,
+      message.compaction?.preTokens !== undefined
+        ? t('session.markers.tokens', { count: formatTokenCount(message.compaction.preTokens) })
+        : undefined,
+    ].filter(Boolean);
+    label = [t('session.markers.compacted'), ...details].join(' · ');
+  } else if (message.type === 'summary') {
+    label = `${t('session.markers.summary')}: ${message.content}`;
+  } else {
+    label = t('session.markers.compactSummary');
+  }
+
+  const Icon = isBoundary ? Shrink : FileText;
+  const color = isBoundary ? 'var(--accent-amber)' : 'var(--text-muted)';
+
+  return (
+    <div
+      data-message-index={index}
+      data-role="marker"
+      data-message-id={message.uuid}
+      className="my-3 md:my-4"
+    >
+      <div className="flex items-center gap-3">
+        <div className="flex-1 border-t border-dashed" style={{ borderColor: 'var(--border-primary)' }} />
+        {isExpandable ? (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex items-center gap-1.5 text-xs transition-colors"
+            style={{ color }}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ) : (
+          <span className="flex items-center gap-1.5 text-xs max-w-[80%] truncate" style={{ color }} title={label}>
+            <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="truncate">{label}</span>
+          </span>
+        )}
+        <div className="flex-1 border-t border-dashed" style={{ borderColor: 'var(--border-primary)' }} />
+      </div>
+      {isExpandable && isExpanded && (
+        <div
+          className="mt-2 mx-auto max-w-[92%] md:max-w-[85%] rounded-lg border px-3 py-2 text-xs whitespace-pre-wrap break-words"
+          style={{ backgroundColor: 'var(--bg-card)', borderColor: 'var(--border-primary)', color: 'var(--text-secondary)' }}
+        >
+          {message.content}
+        </div>
+      )}
+    </div>
+  );
+};
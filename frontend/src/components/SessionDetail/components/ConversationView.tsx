@@ -1,15 +1,24 @@
-import React from 'react';
-import { Sparkles } from 'lucide-react';
-import type { ChatMessage } from '../../../types';
+import React, { useMemo } from 'react';
+import { Sparkles, ArrowDownToLine } from 'lucide-react';
+import type { ChatMessage, AgentSessionSummary } from '../../../types';
 import { MessageItem } from './MessageItem';
+import { SubagentConversation } from './SubagentConversation';
+import { ContextDivider, isContextMarker } from './ContextDivider';
 import { useTranslation } from '../../../hooks/useTranslation';
 
 interface ConversationViewProps {
+  sessionId: string;
   messages: ChatMessage[];
+  agentSessions?: AgentSessionSummary[];
+  hasMoreMessages?: boolean;
   bookmarks: string[];
   collapsedMessages: Set<string>;
   searchQuery: string;
   isUpdating?: boolean;
+  // Live tail: new messages are appended as the session is written
+  isLive?: boolean;
+  autoFollow?: boolean;
+  onToggleAutoFollow?: () => void;
   onToggleBookmark: (messageId: string) => void;
   onToggleCollapse: (messageId: string) => void;
 }
@@ -23,16 +32,26 @@ const SYSTEM_MESSAGE_PATTERNS = [
 ];
 
 function isSystemMessage(message: ChatMessage): boolean {
+  // Tool output and compaction summaries often embed these tags legitimately
+  if (message.type === 'tool_use' || message.type === 'tool_result' || isContextMarker(message)) {
+    return false;
+  }
   // Check if content contains system message patterns
   return SYSTEM_MESSAGE_PATTERNS.some(pattern => pattern.test(message.content));
 }
 
 export const ConversationView: React.FC<ConversationViewProps> = ({
+  sessionId,
   messages,
+  agentSessions,
+  hasMoreMessages,
   bookmarks,
   collapsedMessages,
   searchQuery,
   isUpdating,
+  isLive,
+  autoFollow,
+  onToggleAutoFollow,
   onToggleBookmark,
   onToggleCollapse,
 }) => {
@@ -41,23 +60,62 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
   // Filter out system messages
   const filteredMessages = messages.filter(msg => !isSystemMessage(msg));
 
+  const agentsById = useMemo(
+    () => new Map((agentSessions || []).map(agent => [agent.agentId, agent])),
+    [agentSessions]
+  );
+  // Older pages are linked on their own, so the result of a Task call may carry the agent instead
+  const getAgentId = (message: ChatMessage) => message.toolCall?.agentId ?? message.toolCall?.result?.agentId;
+  // Agents whose Task call could not be matched; with a partial load the call may just not be loaded yet
+  const linkedAgentIds = new Set(messages.map(getAgentId).filter(Boolean));
+  const unlinkedAgents = hasMoreMessages
+    ? []
+    : (agentSessions || []).filter(agent => !agent.toolUseId && !linkedAgentIds.has(agent.agentId));
+
   return (
     <>
       <div className="px-3 md:px-4 py-2.5 md:py-3 border-b border-[var(--bg-secondary)]/60 bg-[var(--bg-primary)]/30 flex items-center justify-between">
         <span className="text-sm font-medium text-[var(--text-secondary)]">
           {t('session.conversation')} ({filteredMessages.length} {t('session.messages').toLowerCase()})
         </span>
-      {isUpdating && (
-        <span className="flex items-center gap-1 text-xs" style={{ color: 'var(--accent-purple)' }}>
-          <Sparkles className="w-3 h-3 animate-pulse" />
-          {t('session.receivingUpdates')}
-        </span>
-      )}
+      <div className="flex items-center gap-2">
+        {isUpdating && (
+          <span className="flex items-center gap-1 text-xs" style={{ color: 'var(--accent-purple)' }}>
+            <Sparkles className="w-3 h-3 animate-pulse" />
+            {t('session.receivingUpdates')}
+          </span>
+        )}
+        {isLive && (
+          <>
+            <span className="flex items-center gap-1 text-xs" style={{ color: 'var(--accent-green)' }}>
+              <span className="w-1.5 h-1.5 rounded-full animate-pulse" style={{ backgroundColor: 'var(--accent-green)' }} />
+              {t('session.live')}
+            </span>
+            {onToggleAutoFollow && (
+              <button
+                onClick={onToggleAutoFollow}
+                aria-pressed={!!autoFollow}
+                title={t('session.followNewMessagesHint')}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-md transition-colors"
+                style={{
+                  backgroundColor: autoFollow ? 'var(--accent-primary)' : 'var(--bg-secondary)',
+                  color: autoFollow ? 'white' : 'var(--text-secondary)',
+                }}
+              >
+                <ArrowDownToLine className="w-3 h-3" />
+                {t('session.followNewMessages')}
+              </button>
+            )}
+          </>
+        )}
+      </div>
     </div>
     <div className="p-2 md:p-4">
-      {filteredMessages.map((message, index) => (
+      {filteredMessages.map((message, index) => isContextMarker(message) ? (
+        <ContextDivider key={`${message.uuid}-${index}`} message={message} index={index} />
+      ) : (
         <MessageItem
-          key={message.uuid}
+          key={`${message.uuid}-${index}`}
           message={message}
           index={index}
           isLatest={index === filteredMessages.length - 1 && isUpdating}
@@ -67,8 +125,20 @@ export const ConversationView: React.FC<ConversationViewProps> = ({
           onToggleBookmark={onToggleBookmark}
           isCollapsed={collapsedMessages.has(message.uuid)}
           onToggleCollapse={onToggleCollapse}
+          sessionId={sessionId}
+          agentSession={agentsById.get(getAgentId(message) ?? '')}
         />
       ))}
+      {unlinkedAgents.length > 0 && (
+        <div className="space-y-2 mb-3 md:mb-4">
+          <div className="text-xs font-medium" style={{ color: 'var(--text-muted)' }}>
+            {t('session.otherSubagents', { count: unlinkedAgents.length })}
+          </div>
+          {unlinkedAgents.map(agent => (
+            <SubagentConversation key={agent.agentId} sessionId={sessionId} agent={agent} />
+          ))}
+        </div>
+      )}
     </div>
   </>
   );
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff, X } from 'lucide-react';
+import type { ImageAttachment as ImageAttachmentInfo } from '../../../types';
+import { useTranslation } from '../../../hooks/useTranslation';
+
+const API_BASE = '/api';
+
+interface ImageAttachmentProps {
+  sessionId: string;
+  messageUuid: string;
+  image: ImageAttachmentInfo;
+  agentId?: string; // Set for images of a subagent transcript
+}
+
+export function getAttachmentUrl(sessionId: string, messageUuid: string, index: number, agentId?: string): string {
+  const url = `${API_BASE}/sessions/${encodeURIComponent(sessionId)}/attachments/${encodeURIComponent(messageUuid)}/${index}`;
+  return agentId ? `${url}?agent=${encodeURIComponent(agentId)}` : url;
+}
+
+export const ImageAttachment: React.FC<ImageAttachmentProps> = ({
+  sessionId,
+  messageUuid,
+  image,
+  agentId,
+}) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const url = getAttachmentUrl(sessionId, messageUuid, image.index, agentId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  if (hasError) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs" style={{ color: 'var(--text-muted)' }}>
+        <ImageOff className="w-3.5 h-3.5" />
+        {t('session.imageUnavailable')}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="block rounded-lg overflow-hidden border cursor-zoom-in"
+        style={{ borderColor: 'var(--border-primary)' }}
+        title={t('session.openImage')}
+      >
+        <img
+          src={url}
+          alt={t('session.image')}
+          loading="lazy"
+          className="max-h-48 max-w-full object-contain"
+          onError={() => setHasError(true)}
+        />
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 md:p-8"
+          role="dialog"
+          aria-modal="true"
+          aria-label={t('session.image')}
+        >
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/80 backdrop-blur-sm"
+            onClick={() => setIsOpen(false)}
+          />
+          <button
+            onClick={() => setIsOpen(false)}
+            className="absolute top-4 right-4 p-1 rounded-lg text-white/80 hover:text-white transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-6 h-6" />
+          </button>
+          <img
+            src={url}
+            alt={t('session.image')}
+            className="relative max-w-full max-h-full object-contain rounded-lg shadow-2xl"
+          />
+        </div>
+      )}
+    </>
+  );
+};
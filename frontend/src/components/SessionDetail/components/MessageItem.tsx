@@ -1,8 +1,11 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { User, Bot, Sparkles, Bookmark, BookmarkCheck, MoreHorizontal, ChevronUp, ChevronDown, Brain } from 'lucide-react';
-import type { ChatMessage } from '../../../types';
+import type { ChatMessage, AgentSessionSummary } from '../../../types';
 import { escapeRegExp } from '../utils/escapeRegExp';
 import { formatRelativeTime } from '../../../utils/time';
+import { ToolCallCard } from './ToolCallCard';
+import { SubagentConversation } from './SubagentConversation';
+import { ImageAttachment } from './ImageAttachment';
 
 const MESSAGE_PREVIEW_LENGTH = 300;
 const MESSAGE_MIN_LENGTH_TO_COLLAPSE = 500;
@@ -19,6 +22,10 @@ interface MessageItemProps {
   onToggleBookmark?: (messageId: string) => void;
   isCollapsed?: boolean;
   onToggleCollapse?: (messageId: string) => void;
+  sessionId?: string;
+  agentSession?: AgentSessionSummary; // Subagent spawned by this Task call
+  isNested?: boolean; // Rendered inside a subagent conversation
+  agentId?: string; // Subagent whose transcript holds this message
 }
 
 export const MessageItem: React.FC<MessageItemProps> = ({
@@ -31,14 +38,26 @@ export const MessageItem: React.FC<MessageItemProps> = ({
   onToggleBookmark,
   isCollapsed: controlledCollapsed,
   onToggleCollapse,
+  sessionId,
+  agentSession,
+  isNested,
+  agentId,
 }) => {
   const isUser = message.role === 'user';
   const isThinking = message.type === 'thinking';
+  const isToolMessage = message.type === 'tool_use' || message.type === 'tool_result';
   const itemRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
 
+  // Nested messages stay out of the scroll navigation of the parent conversation
+  const dataAttributes = isNested ? {} : {
+    'data-message-index': index,
+    'data-role': message.role,
+    'data-message-id': message.uuid,
+  };
+
   // Regular message collapse logic
-  const shouldCollapse = !isThinking && message.content.length > MESSAGE_MIN_LENGTH_TO_COLLAPSE;
+  const shouldCollapse = !isThinking && !isToolMessage && message.content.length > MESSAGE_MIN_LENGTH_TO_COLLAPSE;
   const [internalCollapsed, setInternalCollapsed] = useState(shouldCollapse);
   const isCollapsed = controlledCollapsed !== undefined ? controlledCollapsed : internalCollapsed;
 
@@ -163,12 +182,30 @@ export const MessageItem: React.FC<MessageItemProps> = ({
     };
   };
 
+  // Tool calls and results render as compact cards aligned with assistant bubbles
+  if (isToolMessage) {
+    return (
+      <div
+        ref={itemRef}
+        {...dataAttributes}
+        className="flex justify-start mb-3 md:mb-4"
+      >
+        <div className="w-full max-w-[92%] md:max-w-[85%] pl-9 md:pl-11">
+          <ToolCallCard toolCall={message.toolCall} toolResult={message.toolResult} />
+          {agentSession && sessionId && (
+            <div className="mt-2">
+              <SubagentConversation sessionId={sessionId} agent={agentSession} />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
       ref={itemRef}
-      data-message-index={index}
-      data-role={message.role}
-      data-message-id={message.uuid}
+      {...dataAttributes}
       className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-3 md:mb-4 transition-all duration-500 ${
         isLatest ? 'animate-pulse' : ''
       } ${isThinking ? 'thinking-message' : ''}`}
@@ -304,7 +341,11 @@ export const MessageItem: React.FC<MessageItemProps> = ({
               ...getThinkingContentStyle(),
             }}
           >
-            {renderContent()}
+            {message.type === 'image' && message.image && sessionId ? (
+              <ImageAttachment sessionId={sessionId} messageUuid={message.uuid} image={message.image} agentId={agentId} />
+            ) : (
+              renderContent()
+            )}
           </div>
 
           {/* Thinking Expand/Collapse Button */}
@@ -1,6 +1,7 @@
-import React from 'react';
-import { Clock, ChevronDown, ChevronRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { Clock, ChevronDown, ChevronRight, ClipboardPaste } from 'lucide-react';
 import { formatRelativeTime } from '../../../utils/time';
+import { getInputSegments } from '../../../utils/session';
 import type { SessionInput } from '../../../types';
 import { useTranslation } from '../../../hooks/useTranslation';
 
@@ -20,6 +21,39 @@ export const RawInputsView: React.FC<RawInputsViewProps> = ({
   description,
 }) => {
   const { t } = useTranslation();
+  const [expandedInputs, setExpandedInputs] = useState<Set<number>>(new Set());
+
+  const toggleExpanded = (index: number) => {
+    setExpandedInputs(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const renderInput = (input: SessionInput, index: number) => {
+    if (!expandedInputs.has(index)) {
+      return input.display || t('session.empty');
+    }
+    return getInputSegments(input).map((segment, i) =>
+      segment.pasteId === undefined ? (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      ) : (
+        <span
+          key={i}
+          className="block my-1 px-2 py-1 rounded border-l-2 font-mono text-xs"
+          style={{ borderColor: 'var(--accent-blue)', backgroundColor: 'var(--bg-secondary)' }}
+          title={`[Pasted text #${segment.pasteId}]`}
+        >
+          {segment.text}
+        </span>
+      )
+    );
+  };
 
   return (
     <>
@@ -56,8 +90,20 @@ export const RawInputsView: React.FC<RawInputsViewProps> = ({
                       <span className="text-xs text-[var(--text-muted)]">{formatRelativeTime(input.timestamp)}</span>
                     </div>
                     <div className="text-sm text-[var(--text-primary)] whitespace-pre-wrap break-words">
-                      {input.display || t('session.empty')}
+                      {renderInput(input, index)}
                     </div>
+                    {input.pastedContents && input.pastedContents.length > 0 && (
+                      <button
+                        onClick={() => toggleExpanded(index)}
+                        className="mt-2 flex items-center gap-1 text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)] transition-colors"
+                        aria-expanded={expandedInputs.has(index)}
+                      >
+                        <ClipboardPaste className="w-3 h-3" />
+                        {expandedInputs.has(index)
+                          ? t('session.hidePastedText')
+                          : t('session.showPastedText', { count: input.pastedContents.length })}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { FolderOpen, Hash, Copy, Check, Terminal, Download } from 'lucide-react';
-import { formatRelativeTime } from '../../../utils/time';
+import type { SessionMetadata, SessionMetadataField } from '../../../types';
+import { formatRelativeTime, formatDuration } from '../../../utils/time';
 import { useTranslation } from '../../../hooks/useTranslation';
 
 interface SessionMetaProps {
@@ -10,9 +11,15 @@ interface SessionMetaProps {
   inputCount: number;
   messageCount: number;
   hasFullConversation: boolean;
+  compactionCount?: number;
+  summaryCount?: number;
+  metadata?: SessionMetadata;
+  activeTimeMs?: number;
   onExport: () => void;
 }
 
+const METADATA_FIELDS: SessionMetadataField[] = ['gitBranch', 'model', 'cwd', 'version'];
+
 const isValidPath = (path: string): boolean => {
   const dangerousChars = /[;&|`$(){}[\]\\]/;
   return !dangerousChars.test(path) && path.length > 0 && path.length < 500;
@@ -34,6 +41,10 @@ export const SessionMeta: React.FC<SessionMetaProps> = ({
   inputCount,
   messageCount,
   hasFullConversation,
+  compactionCount = 0,
+  summaryCount = 0,
+  metadata,
+  activeTimeMs,
   onExport,
 }) => {
   const { t } = useTranslation();
@@ -142,6 +153,28 @@ export const SessionMeta: React.FC<SessionMetaProps> = ({
         </button>
       </div>
 
+      {/* Environment - latest value, with the earlier ones when it changed */}
+      {metadata && METADATA_FIELDS.some((field) => metadata[field]?.length) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {METADATA_FIELDS.map((field) => {
+            const changes = metadata[field];
+            if (!changes?.length) return null;
+            const history = changes.map((change) => change.value).join(' → ');
+            return (
+              <div key={field} className="min-w-0">
+                <div className="text-xs text-[var(--text-muted)] mb-0.5">{t(`session.metadata.${field}`)}</div>
+                <div className="text-sm text-[var(--text-secondary)] font-mono truncate" title={changes[changes.length - 1].value}>
+                  {changes[changes.length - 1].value}
+                </div>
+                {changes.length > 1 && (
+                  <div className="text-xs text-[var(--text-muted)] truncate" title={history}>{history}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="flex items-center gap-6 pt-2 border-t border-[var(--bg-secondary)]/40">
         <div>
@@ -154,6 +187,24 @@ export const SessionMeta: React.FC<SessionMetaProps> = ({
           <div className="text-xs text-[var(--text-muted)] mb-0.5">{t('table.lastActive')}</div>
           <span className="text-sm text-[var(--text-primary)]">{formatRelativeTime(updatedAt)}</span>
         </div>
+        {!!activeTimeMs && (
+          <div title={t('session.activeTimeHint')}>
+            <div className="text-xs text-[var(--text-muted)] mb-0.5">{t('session.activeTime')}</div>
+            <span className="text-sm text-[var(--text-primary)]">{formatDuration(activeTimeMs)}</span>
+          </div>
+        )}
+        {compactionCount > 0 && (
+          <div>
+            <div className="text-xs text-[var(--text-muted)] mb-0.5">{t('session.markers.compactions')}</div>
+            <div className="text-lg font-semibold text-[var(--accent-amber)]">{compactionCount}</div>
+          </div>
+        )}
+        {summaryCount > 0 && (
+          <div>
+            <div className="text-xs text-[var(--text-muted)] mb-0.5">{t('session.markers.summaries')}</div>
+            <div className="text-lg font-semibold text-[var(--text-primary)]">{summaryCount}</div>
+          </div>
+        )}
       </div>
 
     </div>
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Bot, ChevronRight, ChevronDown, Loader2, MessageSquare, Timer } from 'lucide-react';
+import type { AgentSessionSummary } from '../../../types';
+import { useAgentSession } from '../../../hooks/useSessions';
+import { formatDuration } from '../../../utils/time';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { MessageItem } from './MessageItem';
+
+const TITLE_MAX_LENGTH = 80;
+
+interface SubagentConversationProps {
+  sessionId: string;
+  agent: AgentSessionSummary;
+}
+
+function getAgentTitle(agent: AgentSessionSummary): string {
+  if (agent.description) return agent.description;
+  const firstLine = agent.prompt.split('\n')[0];
+  return firstLine.length > TITLE_MAX_LENGTH
+    ? firstLine.slice(0, TITLE_MAX_LENGTH) + '...'
+    : firstLine || agent.agentId;
+}
+
+export const SubagentConversation: React.FC<SubagentConversationProps> = ({ sessionId, agent }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Transcript is only fetched once the panel is opened
+  const { agentSession, loading, error } = useAgentSession(sessionId, agent.agentId, isExpanded);
+
+  return (
+    <div
+      className="rounded-lg border text-sm overflow-hidden"
+      style={{
+        backgroundColor: 'var(--bg-card)',
+        borderColor: 'var(--accent-purple-medium)',
+      }}
+      data-agent-id={agent.agentId}
+    >
+      {/* Header */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left transition-colors"
+        style={{ color: 'var(--text-secondary)' }}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        )}
+        <Bot className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--accent-purple)' }} />
+        <span className="font-medium flex-shrink-0" style={{ color: 'var(--text-primary)' }}>
+          {agent.subagentType ?? t('session.subagent.title')}
+        </span>
+        <span className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>
+          {getAgentTitle(agent)}
+        </span>
+        <span className="ml-auto flex-shrink-0 flex items-center gap-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+          <span className="flex items-center gap-1" title={t('session.subagent.messages')}>
+            <MessageSquare className="w-3.5 h-3.5" />
+            {agent.messageCount}
+          </span>
+          <span className="flex items-center gap-1" title={t('session.subagent.duration')}>
+            <Timer className="w-3.5 h-3.5" />
+            {formatDuration(agent.durationMs)}
+          </span>
+        </span>
+      </button>
+
+      {/* Nested conversation */}
+      {isExpanded && (
+        <div
+          className="border-t py-2 pr-2 pl-3 ml-3 border-l-2"
+          style={{ borderTopColor: 'var(--border-primary)', borderLeftColor: 'var(--accent-purple-medium)' }}
+        >
+          {loading && !agentSession && (
+            <div className="flex items-center gap-2 px-2 py-1 text-xs" style={{ color: 'var(--text-muted)' }}>
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {t('session.subagent.loading')}
+            </div>
+          )}
+          {error && (
+            <div className="px-2 py-1 text-xs" style={{ color: 'var(--accent-red)' }}>
+              {error}
+            </div>
+          )}
+          {agentSession && agentSession.messages.length === 0 && (
+            <div className="px-2 py-1 text-xs" style={{ color: 'var(--text-muted)' }}>
+              {t('session.subagent.empty')}
+            </div>
+          )}
+          {agentSession?.messages.map((message, index) => (
+            <MessageItem
+              key={`${message.uuid}-${index}`}
+              message={message}
+              index={index}
+              sessionId={sessionId}
+              agentId={agent.agentId}
+              isNested
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Wrench, ChevronRight, ChevronDown, CheckCircle2, XCircle, Clock, MoreHorizontal, ChevronUp } from 'lucide-react';
+import type { ToolCall, ToolResult } from '../../../types';
+import { useTranslation } from '../../../hooks/useTranslation';
+
+const OUTPUT_PREVIEW_LENGTH = 1000;
+const SUMMARY_MAX_LENGTH = 80;
+
+// Input fields that best describe what a tool call did, in priority order
+const SUMMARY_FIELDS = ['command', 'file_path', 'notebook_path', 'pattern', 'path', 'url', 'query', 'description'];
+
+interface ToolCallCardProps {
+  toolCall?: ToolCall;
+  toolResult?: ToolResult; // Standalone result whose tool_use was not loaded
+}
+
+function getToolSummary(input: Record<string, unknown>): string {
+  for (const field of SUMMARY_FIELDS) {
+    const value = input[field];
+    if (typeof value === 'string' && value.trim()) {
+      const firstLine = value.trim().split('\n')[0];
+      return firstLine.length > SUMMARY_MAX_LENGTH
+        ? firstLine.slice(0, SUMMARY_MAX_LENGTH) + '...'
+        : firstLine;
+    }
+  }
+  return '';
+}
+
+export const ToolCallCard: React.FC<ToolCallCardProps> = ({ toolCall, toolResult }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showFullOutput, setShowFullOutput] = useState(false);
+
+  const result = toolCall?.result ?? toolResult;
+  const name = toolCall?.name ?? t('session.toolCall.toolResult');
+  const summary = toolCall ? getToolSummary(toolCall.input) : '';
+  const isError = result?.isError ?? false;
+
+  const output = result?.content ?? '';
+  const isOutputTruncated = output.length > OUTPUT_PREVIEW_LENGTH && !showFullOutput;
+  const visibleOutput = isOutputTruncated ? output.slice(0, OUTPUT_PREVIEW_LENGTH) + '...' : output;
+
+  const accentColor = isError ? 'var(--accent-red)' : 'var(--accent-green)';
+
+  return (
+    <div
+      className="rounded-lg border text-sm overflow-hidden"
+      style={{
+        backgroundColor: 'var(--bg-card)',
+        borderColor: isError ? 'var(--accent-red-medium)' : 'var(--border-primary)',
+      }}
+    >
+      {/* Header */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left transition-colors"
+        style={{ color: 'var(--text-secondary)' }}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+        )}
+        <Wrench className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--accent-purple)' }} />
+        <span className="font-medium flex-shrink-0" style={{ color: 'var(--text-primary)' }}>
+          {name}
+        </span>
+        {summary && (
+          <span className="font-mono text-xs truncate" style={{ color: 'var(--text-muted)' }}>
+            {summary}
+          </span>
+        )}
+        <span className="ml-auto flex-shrink-0 flex items-center gap-1 text-xs" style={{ color: result ? accentColor : 'var(--text-muted)' }}>
+          {!result ? (
+            <>
+              <Clock className="w-3.5 h-3.5" />
+              {t('session.toolCall.noResult')}
+            </>
+          ) : isError ? (
+            <>
+              <XCircle className="w-3.5 h-3.5" />
+              {t('session.toolCall.error')}
+            </>
+          ) : (
+            <CheckCircle2 className="w-3.5 h-3.5" />
+          )}
+        </span>
+      </button>
+
+      {/* Body */}
+      {isExpanded && (
+        <div className="border-t px-3 py-2 space-y-2" style={{ borderColor: 'var(--border-primary)' }}>
+          {toolCall && (
+            <div>
+              <div className="text-xs font-medium mb-1" style={{ color: 'var(--text-muted)' }}>{t('session.toolCall.input')}</div>
+              <pre
+                className="text-xs font-mono whitespace-pre-wrap break-words rounded p-2 overflow-x-auto"
+                style={{ backgroundColor: 'var(--bg-primary)', color: 'var(--text-secondary)' }}
+              >
+                {JSON.stringify(toolCall.input, null, 2)}
+              </pre>
+            </div>
+          )}
+
+          {result && (
+            <div>
+              <div className="text-xs font-medium mb-1" style={{ color: isError ? 'var(--accent-red)' : 'var(--text-muted)' }}>
+                {t('session.toolCall.output')}
+              </div>
+              <pre
+                className="text-xs font-mono whitespace-pre-wrap break-words rounded p-2 overflow-x-auto"
+                style={{
+                  backgroundColor: isError ? 'var(--accent-red-subtle)' : 'var(--bg-primary)',
+                  color: 'var(--text-secondary)',
+                }}
+              >
+                {visibleOutput || t('session.toolCall.emptyOutput')}
+              </pre>
+              {output.length > OUTPUT_PREVIEW_LENGTH && (
+                <button
+                  onClick={() => setShowFullOutput(!showFullOutput)}
+                  className="mt-1 text-xs flex items-center gap-1 transition-colors"
+                  style={{ color: 'var(--text-muted)' }}
+                  onMouseEnter={(e) => e.currentTarget.style.color = 'var(--text-secondary)'}
+                  onMouseLeave={(e) => e.currentTarget.style.color = 'var(--text-muted)'}
+                >
+                  {showFullOutput ? (
+                    <>
+                      <ChevronUp className="w-3.5 h-3.5" />
+                      {t('session.toolCall.showLess')}
+                    </>
+                  ) : (
+                    <>
+                      <MoreHorizontal className="w-3.5 h-3.5" />
+                      {t('session.toolCall.showFullOutput', { count: output.length - OUTPUT_PREVIEW_LENGTH })}
+                    </>
+                  )}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
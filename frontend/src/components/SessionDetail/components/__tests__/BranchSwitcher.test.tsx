@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { BranchSwitcher } from '../BranchSwitcher';
+import { I18nProvider } from '../../../../contexts/I18nContext';
+import type { ConversationBranch } from '../../../../types';
+
+const branches: ConversationBranch[] = [
+  {
+    id: 'a3',
+    forkUuid: null,
+    isActive: true,
+    messageCount: 4,
+    preview: 'Add a login page',
+    startedAt: 1700000000000,
+    updatedAt: 1700000300000,
+  },
+  {
+    id: 'a2',
+    forkUuid: 'a1',
+    isActive: false,
+    messageCount: 2,
+    preview: 'Use OAuth instead',
+    startedAt: 1700000120000,
+    updatedAt: 1700000180000,
+  },
+];
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+describe('BranchSwitcher', () => {
+  it('should render nothing for a conversation without alternate branches', () => {
+    const { container } = render(<BranchSwitcher branches={branches.slice(0, 1)} onSelectBranch={vi.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should list the branches when expanded', () => {
+    render(<BranchSwitcher branches={branches} selectedBranchId="a3" onSelectBranch={vi.fn()} />);
+    expect(screen.queryByText('Use OAuth instead')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Branches (2)'));
+
+    expect(screen.getByText('Add a login page')).toBeInTheDocument();
+    expect(screen.getByText('Use OAuth instead')).toBeInTheDocument();
+    expect(screen.getByText('Abandoned')).toBeInTheDocument();
+  });
+
+  it('should select an abandoned branch and go back to the latest one', () => {
+    const onSelectBranch = vi.fn();
+    const { rerender } = render(
+      <BranchSwitcher branches={branches} selectedBranchId="a3" onSelectBranch={onSelectBranch} />
+    );
+
+    fireEvent.click(screen.getByText('Branches (2)'));
+    fireEvent.click(screen.getByText('Use OAuth instead'));
+    expect(onSelectBranch).toHaveBeenCalledWith('a2');
+
+    rerender(<BranchSwitcher branches={branches} selectedBranchId="a2" onSelectBranch={onSelectBranch} />);
+    expect(screen.getByText('Viewing an abandoned branch')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Back to latest'));
+    expect(onSelectBranch).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { ChangesView } from '../ChangesView';
+import { I18nProvider } from '../../../../contexts/I18nContext';
+import type { SessionChanges } from '../../../../types';
+
+const mockUseSessionChanges = vi.fn();
+
+vi.mock('../../../../hooks/useSessions', () => ({
+  useSessionChanges: (...args: unknown[]) => mockUseSessionChanges(...args),
+}));
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+const changes: SessionChanges = {
+  files: [
+    {
+      filePath: '/repo/src/app.ts',
+      linesAdded: 2,
+      linesRemoved: 1,
+      edits: [
+        {
+          toolUseId: 'toolu_1',
+          toolName: 'Edit',
+          messageUuid: 'a1',
+          timestamp: 1700000000000,
+          diff: '--- /repo/src/app.ts\n+++ /repo/src/app.ts\n@@ -1,2 +1,3 @@\n const a = 1;\n-const b = 2;\n+const b = 3;\n+const c = 4;',
+          linesAdded: 2,
+          linesRemoved: 1,
+          isNewFile: false,
+          isError: false,
+        },
+      ],
+    },
+  ],
+  linesAdded: 2,
+  linesRemoved: 1,
+};
+
+describe('ChangesView', () => {
+  beforeEach(() => {
+    mockUseSessionChanges.mockReset();
+    mockUseSessionChanges.mockReturnValue({ changes, loading: false, error: null });
+  });
+
+  it('should render the diff lines of each file', () => {
+    render(<ChangesView sessionId="session-1" />);
+    expect(screen.getByText('1 files changed')).toBeInTheDocument();
+    expect(screen.getByText('/repo/src/app.ts')).toBeInTheDocument();
+    expect(screen.getByText('-const b = 2;')).toBeInTheDocument();
+    expect(screen.getByText('+const c = 4;')).toBeInTheDocument();
+    expect(screen.queryByText('--- /repo/src/app.ts')).not.toBeInTheDocument();
+  });
+
+  it('should collapse a file', () => {
+    render(<ChangesView sessionId="session-1" />);
+    fireEvent.click(screen.getByText('/repo/src/app.ts'));
+    expect(screen.queryByText('-const b = 2;')).not.toBeInTheDocument();
+  });
+
+  it('should link an edit to its message', () => {
+    const onViewInConversation = vi.fn();
+    render(<ChangesView sessionId="session-1" onViewInConversation={onViewInConversation} />);
+    fireEvent.click(screen.getByText('View in conversation'));
+    expect(onViewInConversation).toHaveBeenCalledWith('a1');
+  });
+
+  it('should show an empty state', () => {
+    mockUseSessionChanges.mockReturnValue({
+      changes: { files: [], linesAdded: 0, linesRemoved: 0 },
+      loading: false,
+      error: null,
+    });
+    render(<ChangesView sessionId="session-1" />);
+    expect(screen.getByText('No files were edited in this session')).toBeInTheDocument();
+  });
+});
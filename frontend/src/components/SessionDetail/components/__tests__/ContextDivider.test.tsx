@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { ContextDivider, isContextMarker } from '../ContextDivider';
+import { I18nProvider } from '../../../../contexts/I18nContext';
+import type { ChatMessage } from '../../../../types';
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+function message(overrides: Partial<ChatMessage>): ChatMessage {
+  return {
+    uuid: 'm1',
+    role: 'assistant',
+    content: '',
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+describe('ContextDivider', () => {
+  it('should only treat summaries and compactions as markers', () => {
+    expect(isContextMarker(message({ type: 'summary' }))).toBe(true);
+    expect(isContextMarker(message({ type: 'compact_boundary' }))).toBe(true);
+    expect(isContextMarker(message({ type: 'compact_summary' }))).toBe(true);
+    expect(isContextMarker(message({ type: 'text' }))).toBe(false);
+    expect(isContextMarker(message({}))).toBe(false);
+  });
+
+  it('should describe the compaction trigger and token count', () => {
+    render(
+      <ContextDivider
+        message={message({ type: 'compact_boundary', compaction: { trigger: 'auto', preTokens: 155_000 } })}
+        index={0}
+      />
+    );
+
+    expect(screen.getByText('Context compacted · auto · 155K tokens before')).toBeInTheDocument();
+  });
+
+  it('should show summary titles inline', () => {
+    render(<ContextDivider message={message({ type: 'summary', content: 'Fix login bug' })} index={0} />);
+
+    expect(screen.getByText('Summary: Fix login bug')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('should expand the compaction summary on demand', () => {
+    render(
+      <ContextDivider
+        message={message({ role: 'user', type: 'compact_summary', content: 'Earlier we refactored the parser.' })}
+        index={0}
+      />
+    );
+
+    expect(screen.queryByText('Earlier we refactored the parser.')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByText('Earlier we refactored the parser.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { ImageAttachment, getAttachmentUrl } from '../ImageAttachment';
+import { I18nProvider } from '../../../../contexts/I18nContext';
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+const image = { index: 1, mediaType: 'image/png' };
+
+describe('ImageAttachment', () => {
+  it('should build the attachment url, with the agent for subagent images', () => {
+    expect(getAttachmentUrl('s1', 'm1', 0)).toBe('/api/sessions/s1/attachments/m1/0');
+    expect(getAttachmentUrl('s1', 'm1', 2, 'a1')).toBe('/api/sessions/s1/attachments/m1/2?agent=a1');
+  });
+
+  it('should render a thumbnail of the attachment', () => {
+    render(<ImageAttachment sessionId="s1" messageUuid="m1" image={image} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('src', '/api/sessions/s1/attachments/m1/1');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should open the lightbox on click and close it with Escape', () => {
+    render(<ImageAttachment sessionId="s1" messageUuid="m1" image={image} />);
+
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should show a placeholder when the image fails to load', () => {
+    render(<ImageAttachment sessionId="s1" messageUuid="m1" image={image} />);
+
+    fireEvent.error(screen.getByRole('img'));
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+    expect(screen.getByText('Image unavailable')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { SubagentConversation } from '../SubagentConversation';
+import { I18nProvider } from '../../../../contexts/I18nContext';
+import type { AgentSessionSummary } from '../../../../types';
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+const mockUseAgentSession = vi.fn();
+
+vi.mock('../../../../hooks/useSessions', () => ({
+  useAgentSession: (...args: unknown[]) => mockUseAgentSession(...args),
+}));
+
+const agent: AgentSessionSummary = {
+  agentId: 'a1',
+  parentSessionId: 'session-1',
+  prompt: 'Find the failing test',
+  messageCount: 4,
+  startedAt: 1700000000000,
+  endedAt: 1700000192000,
+  durationMs: 192000,
+  toolUseId: 'toolu_1',
+  description: 'Investigate test failure',
+  subagentType: 'general-purpose',
+};
+
+describe('SubagentConversation', () => {
+  beforeEach(() => {
+    mockUseAgentSession.mockReset();
+    mockUseAgentSession.mockReturnValue({ agentSession: null, loading: false, error: null });
+  });
+
+  it('should show type, description, message count and duration collapsed', () => {
+    render(<SubagentConversation sessionId="session-1" agent={agent} />);
+    expect(screen.getByText('general-purpose')).toBeInTheDocument();
+    expect(screen.getByText('Investigate test failure')).toBeInTheDocument();
+    expect(screen.getByText('4')).toBeInTheDocument();
+    expect(screen.getByText('3m 12s')).toBeInTheDocument();
+    expect(screen.getByTitle('Messages')).toBeInTheDocument();
+    expect(mockUseAgentSession).toHaveBeenLastCalledWith('session-1', 'a1', false);
+  });
+
+  it('should fall back to the prompt when the Task call has no description', () => {
+    render(<SubagentConversation sessionId="session-1" agent={{ ...agent, description: undefined }} />);
+    expect(screen.getByText('Find the failing test')).toBeInTheDocument();
+  });
+
+  it('should name untyped subagents and show the loading state', () => {
+    mockUseAgentSession.mockReturnValue({ agentSession: null, loading: true, error: null });
+
+    render(<SubagentConversation sessionId="session-1" agent={{ ...agent, subagentType: undefined }} />);
+    fireEvent.click(screen.getByRole('button', { expanded: false }));
+
+    expect(screen.getByText('Subagent')).toBeInTheDocument();
+    expect(screen.getByText('Loading subagent conversation...')).toBeInTheDocument();
+  });
+
+  it('should load and render the nested messages when expanded', () => {
+    mockUseAgentSession.mockImplementation((_sessionId: string, _agentId: string, enabled: boolean) => ({
+      agentSession: enabled
+        ? {
+            ...agent,
+            messages: [
+              { uuid: 'm1', role: 'user', content: 'Find the failing test', timestamp: 1700000000000 },
+              { uuid: 'm2', role: 'assistant', content: 'It is in parser.test.ts', timestamp: 1700000192000 },
+            ],
+          }
+        : null,
+      loading: false,
+      error: null,
+    }));
+
+    const { container } = render(<SubagentConversation sessionId="session-1" agent={agent} />);
+    fireEvent.click(screen.getByRole('button', { expanded: false }));
+
+    expect(mockUseAgentSession).toHaveBeenLastCalledWith('session-1', 'a1', true);
+    expect(screen.getByText('It is in parser.test.ts')).toBeInTheDocument();
+    // Nested messages are not picked up by the parent's scroll navigation
+    expect(container.querySelector('[data-message-index]')).toBeNull();
+  });
+});
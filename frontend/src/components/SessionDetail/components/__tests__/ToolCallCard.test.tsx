@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { ToolCallCard } from '../ToolCallCard';
+import { I18nProvider } from '../../../../contexts/I18nContext';
+import type { ToolCall } from '../../../../types';
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+const baseToolCall: ToolCall = {
+  id: 'toolu_1',
+  name: 'Bash',
+  input: { command: 'ls -la', description: 'List files' },
+  result: {
+    toolUseId: 'toolu_1',
+    content: 'README.md',
+    isError: false,
+    timestamp: 1700000000000,
+  },
+};
+
+describe('ToolCallCard', () => {
+  it('should render tool name and summary collapsed by default', () => {
+    render(<ToolCallCard toolCall={baseToolCall} />);
+    expect(screen.getByText('Bash')).toBeInTheDocument();
+    expect(screen.getByText('ls -la')).toBeInTheDocument();
+    expect(screen.queryByText('Input')).not.toBeInTheDocument();
+  });
+
+  it('should show input and output when expanded', () => {
+    render(<ToolCallCard toolCall={baseToolCall} />);
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByText('Input')).toBeInTheDocument();
+    expect(screen.getByText('Output')).toBeInTheDocument();
+    expect(screen.getByText('README.md')).toBeInTheDocument();
+  });
+
+  it('should truncate long output and expand on demand', () => {
+    const longOutput = 'x'.repeat(1500);
+    render(
+      <ToolCallCard
+        toolCall={{ ...baseToolCall, result: { ...baseToolCall.result!, content: longOutput } }}
+      />
+    );
+    fireEvent.click(screen.getByRole('button'));
+
+    const toggle = screen.getByText('Show full output (500 more chars)');
+    expect(toggle).toBeInTheDocument();
+    fireEvent.click(toggle);
+    expect(screen.getByText(longOutput)).toBeInTheDocument();
+  });
+
+  it('should mark failed tool calls as errors', () => {
+    render(
+      <ToolCallCard
+        toolCall={{ ...baseToolCall, result: { ...baseToolCall.result!, isError: true } }}
+      />
+    );
+    expect(screen.getByText('Error')).toBeInTheDocument();
+  });
+
+  it('should render standalone tool results', () => {
+    render(<ToolCallCard toolResult={baseToolCall.result} />);
+    expect(screen.getByText('Tool result')).toBeInTheDocument();
+  });
+});
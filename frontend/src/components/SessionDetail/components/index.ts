@@ -1,6 +1,10 @@
 export { BookmarksList } from './BookmarksList';
+export { BranchSwitcher } from './BranchSwitcher';
+export { ChangesView } from './ChangesView';
+export { ContextDivider } from './ContextDivider';
 export { ConversationView } from './ConversationView';
 export { EmptyState } from './EmptyState';
+export { ImageAttachment } from './ImageAttachment';
 export { MessageItem } from './MessageItem';
 export { NavButton } from './NavButton';
 export { NavigationBar } from './NavigationBar';
@@ -10,3 +14,5 @@ export { SessionActions } from './SessionActions';
 export { SessionHeader } from './SessionHeader';
 export { SessionMeta } from './SessionMeta';
 export { TimeDensityChart } from './TimeDensityChart';
+export { SubagentConversation } from './SubagentConversation';
+export { ToolCallCard } from './ToolCallCard';
@@ -110,4 +110,23 @@ describe('useScrollNavigation', () => {
     result.current.jumpToTime(9999);
     expect(querySelectorMock).not.toHaveBeenCalled();
   });
+
+  it.each([
+    [true, 2000],
+    [false, 0],
+  ])('should follow appended messages only with autoFollow=%s', (autoFollow, expectedScrollTop) => {
+    const { result, rerender } = renderHook(
+      ({ messages }) => useScrollNavigation(messages, undefined, autoFollow),
+      { initialProps: { messages: mockMessages } }
+    );
+
+    const mockContainer = { scrollTop: 0, scrollHeight: 2000 } as unknown as HTMLDivElement;
+    Object.defineProperty(result.current.scrollContainerRef, 'current', {
+      value: mockContainer,
+      writable: true,
+    });
+
+    rerender({ messages: [...mockMessages, { uuid: '4', role: 'assistant', content: 'Fine', timestamp: 4000 }] });
+    expect(mockContainer.scrollTop).toBe(expectedScrollTop);
+  });
 });
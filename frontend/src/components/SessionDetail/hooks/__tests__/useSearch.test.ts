@@ -126,4 +126,17 @@ describe('useSearch', () => {
     const { result } = renderHook(() => useSearch(mockMessages, 'hello'));
     expect(result.current.searchMatches.length).toBe(2);
   });
+
+  it('should put matches in unloaded messages first', () => {
+    const unloadedHits = [
+      { uuid: 'old-2', timestamp: 200, matches: 1 },
+      { uuid: 'old-1', timestamp: 100, matches: 2 },
+    ];
+    const { result } = renderHook(() => useSearch(mockMessages, 'hello', unloadedHits));
+
+    expect(result.current.searchMatches.length).toBe(5);
+    expect(result.current.searchMatches.slice(0, 3).map((match) => match.uuid)).toEqual(['old-1', 'old-1', 'old-2']);
+    expect(result.current.searchMatches[3].messageIndex).toBeGreaterThanOrEqual(0);
+    expect(result.current.searchMatches[3].uuid).toBeUndefined();
+  });
 });
@@ -1,10 +1,17 @@
-import { useRef, useState, useCallback, useEffect } from 'react';
+import { useRef, useState, useCallback, useEffect, useLayoutEffect } from 'react';
 import type { ChatMessage } from '../../../types';
 
-export function useScrollNavigation(messages: ChatMessage[]) {
+// Distance from the top (px) at which older messages start loading
+const LOAD_OLDER_THRESHOLD = 200;
+
+// autoFollow: keep the newest message in view when messages arrive while scrolled to the bottom
+export function useScrollNavigation(messages: ChatMessage[], onReachTop?: () => void, autoFollow: boolean = true) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [isAtBottom, setIsAtBottom] = useState(true);
   const [messageCount, setMessageCount] = useState(0);
+  // First message and content height of the last render, to keep the view in place when older messages are prepended
+  const firstMessageRef = useRef<string | null>(null);
+  const scrollHeightRef = useRef(0);
 
   // Track scroll position
   const handleScroll = useCallback(() => {
@@ -14,7 +21,30 @@ export function useScrollNavigation(messages: ChatMessage[]) {
     const { scrollTop, scrollHeight, clientHeight } = container;
     const isBottom = scrollHeight - scrollTop - clientHeight < 50;
     setIsAtBottom(isBottom);
-  }, []);
+    scrollHeightRef.current = scrollHeight;
+
+    if (onReachTop && scrollTop < LOAD_OLDER_THRESHOLD && scrollHeight > clientHeight) {
+      onReachTop();
+    }
+  }, [onReachTop]);
+
+  // Older messages were prepended: shift the scroll position by the added height
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const firstMessage = messages[0]?.uuid ?? null;
+    const previousFirstMessage = firstMessageRef.current;
+    firstMessageRef.current = firstMessage;
+    if (!container) return;
+
+    if (
+      previousFirstMessage &&
+      firstMessage !== previousFirstMessage &&
+      messages.some((message) => message.uuid === previousFirstMessage)
+    ) {
+      container.scrollTop += container.scrollHeight - scrollHeightRef.current;
+    }
+    scrollHeightRef.current = container.scrollHeight;
+  }, [messages]);
 
   // Initial scroll to bottom when messages first load
   useEffect(() => {
@@ -36,11 +66,11 @@ export function useScrollNavigation(messages: ChatMessage[]) {
       const newMessageCount = messages.length;
       setMessageCount(newMessageCount);
 
-      if (isAtBottom && scrollContainerRef.current) {
+      if (autoFollow && isAtBottom && scrollContainerRef.current) {
         scrollContainerRef.current.scrollTop = scrollContainerRef.current.scrollHeight;
       }
     }
-  }, [messages.length, messageCount, isAtBottom]);
+  }, [messages.length, messageCount, isAtBottom, autoFollow]);
 
   const scrollToTop = useCallback(() => {
     scrollContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
@@ -1,13 +1,24 @@
 import { useState, useMemo, useCallback } from 'react';
-import type { ChatMessage } from '../../../types';
+import type { ChatMessage, MessageSearchHit } from '../../../types';
 
 export interface SearchMatch {
-  messageIndex: number;
+  messageIndex: number; // -1 when the message is not loaded yet
   start: number;
   end: number;
+  uuid?: string; // Message of a match that is not loaded yet
 }
 
-export function useSearch(messages: ChatMessage[], externalSearchQuery?: string) {
+const NO_HITS: MessageSearchHit[] = [];
+
+/**
+ * In-session search over the loaded messages.
+ * `unloadedHits` are matches in older messages not loaded yet; they come first, in time order.
+ */
+export function useSearch(
+  messages: ChatMessage[],
+  externalSearchQuery?: string,
+  unloadedHits: MessageSearchHit[] = NO_HITS
+) {
   const [internalSearchQuery, setInternalSearchQuery] = useState('');
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
@@ -24,6 +35,14 @@ export function useSearch(messages: ChatMessage[], externalSearchQuery?: string)
     const query = searchQuery.toLowerCase();
     const matches: SearchMatch[] = [];
 
+    [...unloadedHits]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((hit) => {
+        for (let i = 0; i < hit.matches; i++) {
+          matches.push({ messageIndex: -1, start: -1, end: -1, uuid: hit.uuid });
+        }
+      });
+
     messages.forEach((message, idx) => {
       const content = message.content.toLowerCase();
       let pos = content.indexOf(query);
@@ -34,7 +53,7 @@ export function useSearch(messages: ChatMessage[], externalSearchQuery?: string)
     });
 
     return matches;
-  }, [searchQuery, messages]);
+  }, [searchQuery, messages, unloadedHits]);
 
   const navigateToMatch = useCallback(
     (direction: 'next' | 'prev') => {
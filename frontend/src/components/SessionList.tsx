@@ -1,14 +1,18 @@
 import React, { useState, useMemo, useCallback } from 'react';
-import { MessageSquare, Search, Star, Trash2, RefreshCw, Tag, CheckSquare, Filter, X } from 'lucide-react';
+import { MessageSquare, Search, Star, Trash2, RefreshCw, Tag, CheckSquare, Filter, X, Globe, GitBranch, Cpu } from 'lucide-react';
 import { useMobile } from '../contexts/MobileContext';
 import type { Session } from '../types';
-import { isSystemContent } from '../utils/session';
+import { isSystemContent, getMetadataValues, hasMetadataValue } from '../utils/session';
 import { useSessionNames } from '../hooks/useSessionNames';
 import { useSessionTags } from '../hooks/useSessionTags';
 import { ConfirmDialog } from './ConfirmDialog';
 import { Toast } from './Toast';
 import { deleteSession } from '../api/delete';
+import { downloadProjectSite } from '../api/export';
+import { useTheme } from '../contexts/ThemeContext';
 import { useTranslation } from '../hooks/useTranslation';
+import { useGlobalSearch, useSearchSuggestions } from '../hooks/useGlobalSearch';
+import { getQueryCompletions, isStructuredQuery, SEARCH_FIELDS, SEARCH_ROLES, type QueryCompletion } from '../utils/searchQuery';
 import { SwipeableSessionItem } from './SwipeableSessionItem';
 
 interface SessionListProps {
@@ -25,6 +29,9 @@ interface SessionListProps {
   enableBatchSelection?: boolean;
 }
 
+// Enough server results to filter a long session list with a structured query
+const STRUCTURED_SEARCH_LIMIT = 500;
+
 const getSessionTitle = (session: Session, emptyLabel: string): string => {
   if (session.inputs.length === 0) {
     return emptyLabel;
@@ -41,6 +48,53 @@ const getSessionTitle = (session: Session, emptyLabel: string): string => {
   return content.slice(0, 50) + (content.length > 50 ? '...' : '');
 };
 
+interface MetadataFilterSelectProps {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  allLabel: string;
+  value: string | null;
+  options: string[];
+  onChange: (value: string | null) => void;
+}
+
+// Dropdown for a session metadata value (git branch, model); any value the session used matches
+const MetadataFilterSelect: React.FC<MetadataFilterSelectProps> = ({
+  icon: Icon,
+  label,
+  allLabel,
+  value,
+  options,
+  onChange,
+}) => (
+  <label
+    className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border min-w-0"
+    style={{
+      backgroundColor: value ? 'var(--accent-green-subtle)' : 'var(--bg-tertiary)',
+      color: value ? 'var(--accent-green)' : 'var(--text-muted)',
+      borderColor: value ? 'var(--accent-green-light)' : 'var(--border-primary)',
+    }}
+    title={label}
+  >
+    <Icon className="w-3 h-3 shrink-0" />
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      aria-label={label}
+      className="bg-transparent cursor-pointer min-w-0 max-w-[10rem] focus:outline-none"
+      style={{ color: 'inherit' }}
+    >
+      <option value="" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        {allLabel}
+      </option>
+      {options.map((option) => (
+        <option key={option} value={option} style={{ backgroundColor: 'var(--bg-secondary)' }}>
+          {option}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
 export const SessionList: React.FC<SessionListProps> = ({
   sessions,
   selectedId,
@@ -54,14 +108,20 @@ export const SessionList: React.FC<SessionListProps> = ({
   enableBatchSelection = false,
 }) => {
   const { t } = useTranslation();
+  const { theme } = useTheme();
   const { isMobile, closeDrawer } = useMobile();
   const [searchQuery, setSearchQuery] = useState('');
+  const [isExportingSite, setIsExportingSite] = useState(false);
   const [showOnlyStarred, setShowOnlyStarred] = useState(false);
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [branchFilter, setBranchFilter] = useState<string | null>(null);
+  const [modelFilter, setModelFilter] = useState<string | null>(null);
   const [deletingSession, setDeletingSession] = useState<Session | null>(null);
   const [showMobileFilters, setShowMobileFilters] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [showToast, setShowToast] = useState(false);
+  const [showCompletions, setShowCompletions] = useState(false);
+  const [completionIndex, setCompletionIndex] = useState(0);
   const { getSessionName, hasCustomName, setSessionName, removeSessionName } = useSessionNames();
   const { getSessionTags, getAllTags, getTagCounts } = useSessionTags();
 
@@ -74,6 +134,38 @@ export const SessionList: React.FC<SessionListProps> = ({
 
   const allTags = useMemo(() => getAllTags(), [getAllTags]);
   const tagCounts = useMemo(() => getTagCounts(), [getTagCounts]);
+  const availableBranches = useMemo(() => getMetadataValues(sessions, 'gitBranch'), [sessions]);
+  const availableModels = useMemo(() => getMetadataValues(sessions, 'model'), [sessions]);
+  const hasMetadataFilters = availableBranches.length > 0 || availableModels.length > 0;
+  const hasActiveMobileFilters = showOnlyStarred || !!selectedTag || !!branchFilter || !!modelFilter;
+
+  // Structured queries (project:foo tool:Bash "phrase" -term) are evaluated by the server
+  const isStructured = isStructuredQuery(searchQuery);
+  const { suggestions } = useSearchSuggestions();
+  const { results: searchResults, error: searchError } = useGlobalSearch(
+    searchQuery,
+    isStructured,
+    STRUCTURED_SEARCH_LIMIT
+  );
+  const matchedSessionIds = useMemo(
+    () => new Set(searchResults.filter((result) => result.type === 'session').map((result) => result.id)),
+    [searchResults]
+  );
+
+  // Projects and tags come from the client state; tool names only the server knows
+  const completions = useMemo(
+    () =>
+      getQueryCompletions(searchQuery, {
+        fields: SEARCH_FIELDS,
+        roles: SEARCH_ROLES,
+        projects: Array.from(new Set(sessions.map((session) => session.project))),
+        tags: allTags,
+        tools: suggestions?.tools || [],
+      }),
+    [searchQuery, sessions, allTags, suggestions]
+  );
+
+  const isCompletionOpen = showCompletions && completions.length > 0;
 
   const filteredSessions = useMemo(() => {
     let filtered = sessions;
@@ -95,7 +187,17 @@ export const SessionList: React.FC<SessionListProps> = ({
       });
     }
 
-    if (searchQuery.trim()) {
+    if (branchFilter) {
+      filtered = filtered.filter((s) => hasMetadataValue(s, 'gitBranch', branchFilter));
+    }
+
+    if (modelFilter) {
+      filtered = filtered.filter((s) => hasMetadataValue(s, 'model', modelFilter));
+    }
+
+    if (isStructured) {
+      filtered = filtered.filter((session) => matchedSessionIds.has(session.sessionId));
+    } else if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter((session) => {
         const customName = getSessionName(session.sessionId);
@@ -114,7 +216,35 @@ export const SessionList: React.FC<SessionListProps> = ({
     return [...filtered].sort((a, b) => {
       return b.updatedAt - a.updatedAt;
     });
-  }, [sessions, searchQuery, projectFilter, showOnlyStarred, selectedTag, getSessionTags]);
+  }, [sessions, searchQuery, isStructured, matchedSessionIds, projectFilter, showOnlyStarred, selectedTag, branchFilter, modelFilter, getSessionTags]);
+
+  const handleSearchInput = (query: string) => {
+    setSearchQuery(query);
+    setShowCompletions(true);
+    setCompletionIndex(0);
+  };
+
+  const handleApplyCompletion = (completion: QueryCompletion) => {
+    setSearchQuery(completion.query);
+    setCompletionIndex(0);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isCompletionOpen) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setCompletionIndex((index) => (index + 1) % completions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setCompletionIndex((index) => (index <= 0 ? completions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handleApplyCompletion(completions[Math.min(completionIndex, completions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setShowCompletions(false);
+    }
+  };
 
   const handleDeleteClick = (e: React.MouseEvent, session: Session) => {
     e.stopPropagation();
@@ -192,6 +322,46 @@ export const SessionList: React.FC<SessionListProps> = ({
     showToastMessage(t('common.refresh'));
   }, [onRefresh, showToastMessage, t]);
 
+  // Download the filtered project as a static site in the current theme
+  const handleExportSite = useCallback(async () => {
+    if (!projectFilter) return;
+
+    setIsExportingSite(true);
+    try {
+      await downloadProjectSite(projectFilter, theme);
+    } catch {
+      showToastMessage(t('export.exportSiteError'));
+    } finally {
+      setIsExportingSite(false);
+    }
+  }, [projectFilter, theme, showToastMessage, t]);
+
+  // Branch and model dropdowns, shown in the mobile filter panel or above the desktop tag bar
+  const metadataFilters = hasMetadataFilters && (
+    <>
+      {availableBranches.length > 0 && (
+        <MetadataFilterSelect
+          icon={GitBranch}
+          label={t('filter.branch')}
+          allLabel={t('filter.allBranches')}
+          value={branchFilter}
+          options={availableBranches}
+          onChange={setBranchFilter}
+        />
+      )}
+      {availableModels.length > 0 && (
+        <MetadataFilterSelect
+          icon={Cpu}
+          label={t('filter.model')}
+          allLabel={t('filter.allModels')}
+          value={modelFilter}
+          options={availableModels}
+          onChange={setModelFilter}
+        />
+      )}
+    </>
+  );
+
   return (
     <div
       className="flex flex-col h-full"
@@ -228,6 +398,23 @@ export const SessionList: React.FC<SessionListProps> = ({
             </button>
           )}
 
+          {/* Static site export of the filtered project */}
+          {projectFilter && (
+            <button
+              onClick={handleExportSite}
+              disabled={isExportingSite}
+              title={t('export.exportSite')}
+              className={`${onRefresh ? '' : 'ml-auto '}flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-all disabled:opacity-50 min-h-[44px] min-w-[44px] md:min-h-0 md:min-w-0 justify-center`}
+              style={{
+                backgroundColor: 'var(--bg-tertiary)',
+                color: 'var(--text-muted)',
+                border: '1px solid var(--border-primary)',
+              }}
+            >
+              <Globe className={`w-4 h-4 ${isExportingSite ? 'animate-pulse' : ''}`} />
+            </button>
+          )}
+
           {/* Mobile filter toggle */}
           {isMobile && (
             <button
@@ -235,9 +422,9 @@ export const SessionList: React.FC<SessionListProps> = ({
               title={t('filter.title')}
               className="flex items-center justify-center min-h-[44px] min-w-[44px] rounded-full text-xs transition-all"
               style={{
-                backgroundColor: (showOnlyStarred || selectedTag) ? 'rgba(59, 130, 246, 0.2)' : 'var(--bg-tertiary)',
-                color: (showOnlyStarred || selectedTag) ? 'rgb(96, 165, 250)' : 'var(--text-muted)',
-                border: `1px solid ${(showOnlyStarred || selectedTag) ? 'rgba(59, 130, 246, 0.3)' : 'var(--border-primary)'}`,
+                backgroundColor: hasActiveMobileFilters ? 'rgba(59, 130, 246, 0.2)' : 'var(--bg-tertiary)',
+                color: hasActiveMobileFilters ? 'rgb(96, 165, 250)' : 'var(--text-muted)',
+                border: `1px solid ${hasActiveMobileFilters ? 'rgba(59, 130, 246, 0.3)' : 'var(--border-primary)'}`,
               }}
             >
               <Filter className="w-4 h-4" />
@@ -371,10 +558,19 @@ export const SessionList: React.FC<SessionListProps> = ({
                   </button>
                 );
               })}
+
+              {metadataFilters}
             </div>
           </div>
         )}
 
+        {/* Branch and Model Filters - Desktop only */}
+        {!isMobile && hasMetadataFilters && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {metadataFilters}
+          </div>
+        )}
+
         {/* Tag Filter Bar - Desktop only */}
         {!isMobile && allTags.length > 0 && (
           <div className="flex flex-wrap gap-1.5 mb-3">
@@ -436,8 +632,12 @@ export const SessionList: React.FC<SessionListProps> = ({
           <input
             type="text"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => handleSearchInput(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            onFocus={() => setShowCompletions(true)}
+            onBlur={() => setShowCompletions(false)}
             placeholder={t('filter.searchPlaceholder')}
+            title={t('filter.syntaxHint')}
             className="w-full pl-9 pr-8 py-2 md:py-1.5 rounded-lg text-base md:text-sm transition-colors focus:outline-none min-h-[44px] md:min-h-0"
             style={{
               backgroundColor: 'var(--bg-secondary)',
@@ -456,7 +656,55 @@ export const SessionList: React.FC<SessionListProps> = ({
               ×
             </button>
           )}
+
+          {/* Query Autocomplete */}
+          {isCompletionOpen && (
+            <div
+              className="absolute left-0 right-0 top-full mt-1 py-1 rounded-lg border shadow-lg z-50 max-h-64 overflow-y-auto"
+              style={{
+                backgroundColor: 'var(--bg-secondary)',
+                borderColor: 'var(--border-primary)',
+              }}
+            >
+              <div
+                className="px-3 py-1 text-xs"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                {t('filter.suggestions')}
+              </div>
+              {completions.map((completion, index) => {
+                const isSelected = index === completionIndex;
+                return (
+                  <div
+                    key={completion.query}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer"
+                    style={{
+                      backgroundColor: isSelected ? 'var(--bg-hover)' : 'transparent',
+                      color: isSelected ? 'var(--accent-blue)' : 'var(--text-secondary)',
+                    }}
+                    // Keep focus in the input so blur doesn't close the list first
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setCompletionIndex(index)}
+                    onClick={() => handleApplyCompletion(completion)}
+                  >
+                    {completion.kind === 'field' ? (
+                      <Filter className="w-3.5 h-3.5" />
+                    ) : (
+                      <Tag className="w-3.5 h-3.5" />
+                    )}
+                    <span className="truncate">{completion.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
+
+        {isStructured && searchError && (
+          <p className="mt-1.5 text-xs" style={{ color: 'var(--accent-red)' }}>
+            {t('filter.invalidQuery', { message: searchError })}
+          </p>
+        )}
       </div>
 
       {/* Session List */}
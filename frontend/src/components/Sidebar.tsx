@@ -4,6 +4,7 @@ import {
   List,
   FolderGit2,
   Users,
+  Trash2,
   Circle,
   Moon,
   Sun,
@@ -66,6 +67,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
     { id: 'dashboard', labelKey: 'navigation.dashboard', icon: LayoutDashboard },
     { id: 'sessions', labelKey: 'navigation.sessions', icon: List, count: stats?.totalSessions },
     { id: 'teams', labelKey: 'navigation.agentTeams', icon: Users, count: stats?.totalTeams },
+    { id: 'trash', labelKey: 'navigation.trash', icon: Trash2 },
   ];
 
   return (
@@ -1,7 +1,7 @@
 import React, { useMemo } from 'react';
 import { FolderOpen, Star, Trash2, Tag, CheckSquare, Square } from 'lucide-react';
 import { useMobile } from '../contexts/MobileContext';
-import { formatRelativeTime } from '../utils/time';
+import { formatRelativeTime, formatDuration } from '../utils/time';
 import type { Session } from '../types';
 import { useTimeRefresh, isSessionActive } from '../hooks/useTimeRefresh';
 
@@ -165,6 +165,11 @@ export const SwipeableSessionItem: React.FC<SessionItemProps> = React.memo(({
         <div className="flex items-center justify-between text-xs">
           <span style={{ color: 'var(--text-muted)' }}>
             {session.messageCount} {t('session.messages')} ({session.inputCount} {t('session.inputs')})
+            {!!session.activeTimeMs && (
+              <span title={`${t('session.activeTime')}: ${t('session.activeTimeHint')}`}>
+                {' · '}{formatDuration(session.activeTimeMs)}
+              </span>
+            )}
           </span>
           <span style={{ color: 'var(--text-tertiary)' }}>
             {formatRelativeTime(session.updatedAt)}
@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { DollarSign } from 'lucide-react';
+import type { TokenCounts } from '../types';
+import { useTokenStats } from '../hooks/useStats';
+import { useTranslation } from '../hooks/useTranslation';
+import { useIsMobile } from '../hooks/useMediaQuery';
+
+const TOP_ITEMS = 3;
+
+interface TokenCostCardProps {
+  days?: number;
+  project?: string;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost < 10 ? cost.toFixed(2) : Math.round(cost).toLocaleString()}`;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}K`;
+  return String(count);
+}
+
+function sumTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.outputTokens + counts.cacheCreationTokens + counts.cacheReadTokens;
+}
+
+export const TokenCostCard: React.FC<TokenCostCardProps> = ({
+  days = 30,
+  project,
+}) => {
+  const { t } = useTranslation();
+  const isMobile = useIsMobile();
+  const { tokenStats } = useTokenStats(days, project);
+
+  const maxDailyCost = useMemo(() => {
+    if (!tokenStats) return 0;
+    return Math.max(...tokenStats.daily.map((d) => d.estimatedCost), 0);
+  }, [tokenStats]);
+
+  const totals = tokenStats?.totals;
+  const hasData = !!totals && sumTokens(totals) > 0;
+
+  return (
+    <div
+      className="p-3 md:p-4 rounded-lg border"
+      style={{
+        backgroundColor: 'var(--bg-secondary)',
+        borderColor: 'var(--border-primary)',
+      }}
+    >
+      {/* Header */}
+      <div className={`flex ${isMobile ? 'flex-col gap-2' : 'items-center justify-between'} mb-4`}>
+        <h3
+          className="text-sm font-medium flex items-center gap-1.5"
+          style={{ color: 'var(--text-secondary)' }}
+        >
+          <DollarSign className="w-4 h-4" style={{ color: 'var(--accent-green)' }} />
+          {t('tokens.estimatedSpend')}
+        </h3>
+        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+          {t('tokens.lastDays', { days })}
+        </span>
+      </div>
+
+      {!hasData || !tokenStats || !totals ? (
+        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>{t('tokens.noData')}</p>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="flex items-baseline gap-3 mb-3">
+            <span className="text-2xl font-semibold" style={{ color: 'var(--text-primary)' }}>
+              {formatCost(totals.estimatedCost)}
+            </span>
+            <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              {formatTokens(sumTokens(totals))} {t('tokens.totalTokens').toLowerCase()}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs mb-3" style={{ color: 'var(--text-muted)' }}>
+            <span>{t('tokens.input')}: {formatTokens(totals.inputTokens)}</span>
+            <span>{t('tokens.output')}: {formatTokens(totals.outputTokens)}</span>
+            <span>{t('tokens.cacheWrite')}: {formatTokens(totals.cacheCreationTokens)}</span>
+            <span>{t('tokens.cacheRead')}: {formatTokens(totals.cacheReadTokens)}</span>
+          </div>
+
+          {/* Daily spend bars */}
+          <div className="flex items-end gap-px h-10 mb-3">
+            {tokenStats.daily.map((day) => (
+              <div
+                key={day.date}
+                className="flex-1 rounded-sm"
+                title={`${day.date}: ${formatCost(day.estimatedCost)}`}
+                style={{
+                  height: `${maxDailyCost > 0 ? Math.max((day.estimatedCost / maxDailyCost) * 100, 4) : 4}%`,
+                  backgroundColor: day.estimatedCost > 0 ? 'var(--accent-green)' : 'var(--bg-tertiary)',
+                  opacity: day.estimatedCost > 0 ? 0.8 : 1,
+                }}
+              />
+            ))}
+          </div>
+
+          {/* Breakdown */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+            <div>
+              <div className="font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>{t('tokens.byModel')}</div>
+              {tokenStats.byModel.slice(0, TOP_ITEMS).map((entry) => (
+                <div key={entry.model} className="flex justify-between gap-2" style={{ color: 'var(--text-muted)' }}>
+                  <span className="truncate" title={entry.model}>{entry.model}</span>
+                  <span title={entry.priced ? undefined : t('tokens.unpriced')}>
+                    {entry.priced ? formatCost(entry.estimatedCost) : '—'}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {!project && (
+              <div>
+                <div className="font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>{t('tokens.byProject')}</div>
+                {tokenStats.byProject.slice(0, TOP_ITEMS).map((entry) => (
+                  <div key={entry.projectPath} className="flex justify-between gap-2" style={{ color: 'var(--text-muted)' }}>
+                    <span className="truncate" title={entry.projectPath}>
+                      {entry.projectPath.split(/[/\\]/).pop() || entry.projectPath}
+                    </span>
+                    <span>{formatCost(entry.estimatedCost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TokenCostCard;
@@ -0,0 +1,229 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Wrench, ChevronUp, ChevronDown } from 'lucide-react';
+import type { ToolUsage } from '../types';
+import { useToolStats } from '../hooks/useStats';
+import { useTranslation } from '../hooks/useTranslation';
+import { useIsMobile } from '../hooks/useMediaQuery';
+
+const TOP_ITEMS = 3;
+
+type SortKey = 'tool' | 'callCount' | 'errorRate' | 'medianLatencyMs';
+
+interface ToolUsageCardProps {
+  days?: number;
+  project?: string;
+}
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function compareTools(a: ToolUsage, b: ToolUsage, key: SortKey): number {
+  if (key === 'tool') return a.tool.localeCompare(b.tool);
+  return (a[key] ?? 0) - (b[key] ?? 0);
+}
+
+// Tools without a measured latency stay below the rest in both directions
+function compareMissingLatency(a: ToolUsage, b: ToolUsage, key: SortKey): number {
+  if (key !== 'medianLatencyMs') return 0;
+  return Number(a.medianLatencyMs === null) - Number(b.medianLatencyMs === null);
+}
+
+// Daily call counts drawn like the session trend chart, without axes
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  const gradientId = useId();
+  const width = 80;
+  const height = 20;
+  const max = Math.max(...values, 1);
+
+  const points = values.map((value, i) => ({
+    x: values.length > 1 ? (i / (values.length - 1)) * width : width / 2,
+    y: 2 + (height - 4) * (1 - value / max),
+  }));
+  const linePath = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+  const areaPath = points.length > 0
+    ? `${linePath} L ${points[points.length - 1].x} ${height} L ${points[0].x} ${height} Z`
+    : '';
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} aria-hidden="true">
+      <defs>
+        <linearGradient id={gradientId} x1="0%" y1="0%" x2="0%" y2="100%">
+          <stop offset="0%" stopColor="rgba(59, 130, 246, 0.4)" />
+          <stop offset="100%" stopColor="rgba(59, 130, 246, 0.05)" />
+        </linearGradient>
+      </defs>
+      <path d={areaPath} fill={`url(#${gradientId})`} />
+      <path
+        d={linePath}
+        fill="none"
+        stroke="var(--accent-blue)"
+        strokeWidth="1.5"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+};
+
+export const ToolUsageCard: React.FC<ToolUsageCardProps> = ({
+  days = 30,
+  project,
+}) => {
+  const { t } = useTranslation();
+  const isMobile = useIsMobile();
+  const { toolStats } = useToolStats(days, project);
+  const [sortKey, setSortKey] = useState<SortKey>('callCount');
+  const [sortDescending, setSortDescending] = useState(true);
+  const [expandedTool, setExpandedTool] = useState<string | null>(null);
+
+  const sortedTools = useMemo(() => {
+    if (!toolStats) return [];
+    return [...toolStats.tools].sort((a, b) => {
+      const order = compareTools(a, b, sortKey);
+      return compareMissingLatency(a, b, sortKey) || (sortDescending ? -order : order);
+    });
+  }, [toolStats, sortKey, sortDescending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      // Names read naturally A-Z, numbers largest first
+      setSortDescending(key !== 'tool');
+    }
+  };
+
+  const columns: { key: SortKey; label: string; align: 'left' | 'right' }[] = [
+    { key: 'tool', label: t('tools.tool'), align: 'left' },
+    { key: 'callCount', label: t('tools.calls'), align: 'right' },
+    { key: 'errorRate', label: t('tools.errorRate'), align: 'right' },
+    { key: 'medianLatencyMs', label: t('tools.medianLatency'), align: 'right' },
+  ];
+
+  return (
+    <div
+      className="p-3 md:p-4 rounded-lg border"
+      style={{
+        backgroundColor: 'var(--bg-secondary)',
+        borderColor: 'var(--border-primary)',
+      }}
+    >
+      {/* Header */}
+      <div className={`flex ${isMobile ? 'flex-col gap-2' : 'items-center justify-between'} mb-4`}>
+        <h3
+          className="text-sm font-medium flex items-center gap-1.5"
+          style={{ color: 'var(--text-secondary)' }}
+        >
+          <Wrench className="w-4 h-4" style={{ color: 'var(--accent-blue)' }} />
+          {t('tools.title')}
+        </h3>
+        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+          {t('tokens.lastDays', { days })}
+        </span>
+      </div>
+
+      {!toolStats || toolStats.tools.length === 0 ? (
+        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>{t('tools.noData')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr style={{ color: 'var(--text-muted)' }}>
+                {columns.map((column) => (
+                  <th
+                    key={column.key}
+                    className={`font-medium pb-2 ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+                    aria-sort={sortKey === column.key ? (sortDescending ? 'descending' : 'ascending') : undefined}
+                  >
+                    <button
+                      onClick={() => handleSort(column.key)}
+                      className={`inline-flex items-center gap-0.5 ${column.align === 'right' ? 'flex-row-reverse' : ''}`}
+                      style={{ color: sortKey === column.key ? 'var(--text-secondary)' : undefined }}
+                    >
+                      {column.label}
+                      {sortKey === column.key && (
+                        sortDescending ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+                {!isMobile && <th className="font-medium pb-2 text-right">{t('tools.trend')}</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedTools.map((tool) => (
+                <React.Fragment key={tool.tool}>
+                  <tr
+                    className="cursor-pointer border-t"
+                    style={{ borderColor: 'var(--border-primary)', color: 'var(--text-secondary)' }}
+                    onClick={() => setExpandedTool(expandedTool === tool.tool ? null : tool.tool)}
+                    aria-expanded={expandedTool === tool.tool}
+                  >
+                    <td className="py-1.5 font-mono truncate max-w-[10rem]" title={tool.tool}>{tool.tool}</td>
+                    <td className="py-1.5 text-right">{tool.callCount.toLocaleString()}</td>
+                    <td
+                      className="py-1.5 text-right"
+                      style={{ color: tool.errorCount > 0 ? 'var(--accent-red)' : undefined }}
+                      title={`${tool.errorCount} / ${tool.callCount}`}
+                    >
+                      {formatRate(tool.errorRate)}
+                    </td>
+                    <td className="py-1.5 text-right">{formatLatency(tool.medianLatencyMs)}</td>
+                    {!isMobile && (
+                      <td className="py-1.5 pl-3 text-right">
+                        <span className="inline-block align-middle">
+                          <Sparkline values={tool.daily.map((day) => day.callCount)} />
+                        </span>
+                      </td>
+                    )}
+                  </tr>
+                  {expandedTool === tool.tool && (
+                    <tr>
+                      <td colSpan={isMobile ? 4 : 5} className="pb-2">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pl-3" style={{ color: 'var(--text-muted)' }}>
+                          <div>
+                            <div className="font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>{t('tools.byModel')}</div>
+                            {tool.byModel.slice(0, TOP_ITEMS).map((entry) => (
+                              <div key={entry.model} className="flex justify-between gap-2">
+                                <span className="truncate" title={entry.model}>{entry.model}</span>
+                                <span>{entry.callCount.toLocaleString()} · {formatRate(entry.errorRate)}</span>
+                              </div>
+                            ))}
+                          </div>
+                          {!project && (
+                            <div>
+                              <div className="font-medium mb-1" style={{ color: 'var(--text-secondary)' }}>{t('tools.byProject')}</div>
+                              {tool.byProject.slice(0, TOP_ITEMS).map((entry) => (
+                                <div key={entry.projectPath} className="flex justify-between gap-2">
+                                  <span className="truncate" title={entry.projectPath}>
+                                    {entry.projectPath.split(/[/\\]/).pop() || entry.projectPath}
+                                  </span>
+                                  <span>{entry.callCount.toLocaleString()} · {formatRate(entry.errorRate)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolUsageCard;
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { Trash2, RotateCcw, RefreshCw, MessageSquare, Users } from 'lucide-react';
+import { formatRelativeTime } from '../utils/time';
+import type { TrashItem } from '../types';
+import { useTrash } from '../hooks/useTrash';
+import { useTranslation } from '../hooks/useTranslation';
+import { ConfirmDialog } from './ConfirmDialog';
+import { Toast } from './Toast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashViewProps {
+  onRestored?: (item: TrashItem) => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ onRestored }) => {
+  const { t } = useTranslation();
+  const { items, loading, refetch, restoreItem, purgeItem, emptyTrash } = useTrash();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [purgingItem, setPurgingItem] = useState<TrashItem | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [showToast, setShowToast] = useState(false);
+
+  const showToastMessage = (message: string) => {
+    setToastMessage(message);
+    setShowToast(true);
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setRestoringId(item.id);
+    try {
+      await restoreItem(item.id);
+      onRestored?.(item);
+      showToastMessage(t('trash.restored', { name: item.name }));
+    } catch (error) {
+      console.error('Failed to restore trash item:', error);
+      const isConflict = axios.isAxiosError(error) && error.response?.status === 409;
+      showToastMessage(isConflict ? t('trash.restoreConflict') : t('trash.restoreError'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!purgingItem) return;
+
+    try {
+      await purgeItem(purgingItem.id);
+    } catch (error) {
+      console.error('Failed to delete trash item:', error);
+      showToastMessage(t('trash.deleteError'));
+    } finally {
+      setPurgingItem(null);
+    }
+  };
+
+  const handleConfirmEmpty = async () => {
+    try {
+      await emptyTrash();
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      showToastMessage(t('trash.deleteError'));
+    } finally {
+      setConfirmEmpty(false);
+    }
+  };
+
+  return (
+    <div
+      className="flex flex-col h-full"
+      style={{ backgroundColor: 'var(--bg-primary)' }}
+    >
+      {/* Header */}
+      <div
+        className="px-3 md:px-4 py-3 border-b"
+        style={{
+          borderColor: 'var(--border-primary)',
+          backgroundColor: 'var(--bg-secondary)',
+        }}
+      >
+        <div className="flex items-center gap-2" style={{ color: 'var(--text-primary)' }}>
+          <Trash2 className="w-5 h-5" style={{ color: 'var(--text-muted)' }} />
+          <span className="font-semibold" style={{ color: 'var(--text-secondary)' }}>
+            {t('trash.title')}
+          </span>
+          <span
+            className="text-sm px-2 py-0.5 rounded-full"
+            style={{
+              color: 'var(--text-muted)',
+              backgroundColor: 'var(--bg-tertiary)',
+            }}
+          >
+            {items.length}
+          </span>
+
+          <button
+            onClick={refetch}
+            disabled={loading}
+            title={t('common.refresh')}
+            className="ml-auto flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-all disabled:opacity-50 min-w-[44px] min-h-[44px] md:min-w-0 md:min-h-0 justify-center"
+            style={{
+              backgroundColor: 'var(--bg-tertiary)',
+              color: 'var(--text-muted)',
+              border: '1px solid var(--border-primary)',
+            }}
+          >
+            <RefreshCw className={`w-4 h-4 md:w-3 md:h-3 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+
+          <button
+            onClick={() => setConfirmEmpty(true)}
+            disabled={items.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-all disabled:opacity-50 min-h-[44px] md:min-h-0"
+            style={{
+              backgroundColor: 'var(--accent-red-subtle)',
+              color: 'var(--accent-red)',
+              border: '1px solid var(--border-primary)',
+            }}
+          >
+            <Trash2 className="w-4 h-4 md:w-3 md:h-3" />
+            <span className="hidden md:inline">{t('trash.emptyTrash')}</span>
+          </button>
+        </div>
+        <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+          {t('trash.retentionHint')}
+        </p>
+      </div>
+
+      {/* Trash Items */}
+      <div className="flex-1 overflow-y-auto">
+        {items.length === 0 ? (
+          <div
+            className="h-full flex flex-col items-center justify-center"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            <div
+              className="w-12 h-12 rounded-full flex items-center justify-center mb-3 border"
+              style={{
+                backgroundColor: 'var(--bg-card)',
+                borderColor: 'var(--border-primary)',
+              }}
+            >
+              <Trash2 className="w-5 h-5 opacity-40" />
+            </div>
+            <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+              {t('trash.empty')}
+            </p>
+          </div>
+        ) : (
+          <div className="py-2 px-2 space-y-1">
+            {items.map((item) => {
+              const Icon = item.type === 'session' ? MessageSquare : Users;
+              const daysLeft = Math.max(0, Math.ceil((item.expiresAt - Date.now()) / DAY_MS));
+
+              return (
+                <div
+                  key={item.id}
+                  className="w-full px-3 py-3 rounded-lg border flex items-center gap-3"
+                  style={{
+                    backgroundColor: 'var(--bg-card)',
+                    borderColor: 'var(--border-primary)',
+                  }}
+                >
+                  <div
+                    className="flex-shrink-0 w-8 h-8 rounded flex items-center justify-center"
+                    style={{ backgroundColor: 'var(--bg-tertiary)' }}
+                  >
+                    <Icon className="w-4 h-4" style={{ color: 'var(--text-muted)' }} />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                      {item.name}
+                    </div>
+                    <div className="text-xs truncate mt-0.5" style={{ color: 'var(--text-tertiary)' }}>
+                      {item.type === 'session' ? t('trash.session') : t('trash.team')}
+                      {item.project && ` • ${item.project}`}
+                    </div>
+                    <div className="text-xs mt-0.5" style={{ color: 'var(--text-muted)' }}>
+                      {t('trash.deleted', { time: formatRelativeTime(item.deletedAt) })}
+                      {' • '}
+                      {t('trash.expiresIn', { days: daysLeft })}
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => handleRestore(item)}
+                    disabled={restoringId === item.id}
+                    className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs transition-all disabled:opacity-50 min-h-[44px] md:min-h-0"
+                    style={{
+                      backgroundColor: 'var(--accent-blue-subtle)',
+                      color: 'var(--accent-blue)',
+                    }}
+                    title={t('trash.restore')}
+                  >
+                    <RotateCcw className={`w-3.5 h-3.5 ${restoringId === item.id ? 'animate-spin' : ''}`} />
+                    <span className="hidden md:inline">{t('trash.restore')}</span>
+                  </button>
+
+                  <button
+                    onClick={() => setPurgingItem(item)}
+                    className="p-1.5 rounded transition-colors min-w-[44px] min-h-[44px] md:min-w-0 md:min-h-0 flex items-center justify-center"
+                    style={{ color: 'var(--text-muted)' }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.color = 'var(--accent-red)';
+                      e.currentTarget.style.backgroundColor = 'var(--accent-red-subtle)';
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.color = 'var(--text-muted)';
+                      e.currentTarget.style.backgroundColor = 'transparent';
+                    }}
+                    title={t('trash.deletePermanently')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Delete Permanently Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!purgingItem}
+        title={t('trash.deletePermanentlyTitle')}
+        message={purgingItem ? t('trash.deletePermanentlyMessage', { name: purgingItem.name }) : ''}
+        confirmText={t('common.delete')}
+        cancelText={t('common.cancel')}
+        onConfirm={handleConfirmPurge}
+        onCancel={() => setPurgingItem(null)}
+        isDestructive={true}
+      />
+
+      {/* Empty Trash Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={confirmEmpty}
+        title={t('trash.emptyTrashTitle')}
+        message={t('trash.emptyTrashMessage', { count: items.length })}
+        confirmText={t('trash.emptyTrash')}
+        cancelText={t('common.cancel')}
+        onConfirm={handleConfirmEmpty}
+        onCancel={() => setConfirmEmpty(false)}
+        isDestructive={true}
+      />
+
+      {/* Toast Notification */}
+      <Toast
+        message={toastMessage}
+        isVisible={showToast}
+        onClose={() => setShowToast(false)}
+      />
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { SessionList } from '../SessionList';
+import { I18nProvider } from '../../contexts/I18nContext';
+import type { Session } from '../../types';
+
+vi.mock('../../contexts/MobileContext', () => ({
+  useMobile: () => ({ isMobile: false, closeDrawer: vi.fn() }),
+}));
+
+vi.mock('../../contexts/ThemeContext', () => ({
+  useTheme: () => ({ theme: 'dark' }),
+}));
+
+vi.mock('../../hooks/useSessionNames', () => ({
+  useSessionNames: () => ({
+    getSessionName: () => undefined,
+    hasCustomName: () => false,
+    setSessionName: vi.fn(),
+    removeSessionName: vi.fn(),
+  }),
+}));
+
+vi.mock('../../hooks/useSessionTags', () => ({
+  useSessionTags: () => ({
+    getSessionTags: () => [],
+    getAllTags: () => [],
+    getTagCounts: () => ({}),
+  }),
+}));
+
+vi.mock('../../hooks/useGlobalSearch', () => ({
+  useSearchSuggestions: () => ({ suggestions: null }),
+  useGlobalSearch: () => ({ results: [], error: null }),
+}));
+
+const createSession = (id: string, title: string, branch: string, model: string): Session => ({
+  id,
+  sessionId: id,
+  project: '/project',
+  projectSlug: '-project',
+  inputs: [{ display: title, timestamp: 1000 }],
+  messages: [],
+  createdAt: 1000,
+  updatedAt: 1000,
+  inputCount: 1,
+  messageCount: 1,
+  metadata: {
+    gitBranch: [{ value: branch, timestamp: 1000 }],
+    model: [{ value: model, timestamp: 1000 }],
+  },
+});
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+describe('SessionList', () => {
+  const sessions = [
+    createSession('a', 'Fix login', 'main', 'claude-sonnet'),
+    createSession('b', 'Add search', 'feature-search', 'claude-opus'),
+  ];
+
+  const renderList = () =>
+    render(<SessionList sessions={sessions} selectedId={null} onSelect={vi.fn()} />);
+
+  it('should filter sessions by git branch', () => {
+    renderList();
+
+    fireEvent.change(screen.getByLabelText('Branch'), { target: { value: 'feature-search' } });
+
+    expect(screen.getByText('Add search')).toBeInTheDocument();
+    expect(screen.queryByText('Fix login')).not.toBeInTheDocument();
+  });
+
+  it('should filter sessions by model', () => {
+    renderList();
+
+    fireEvent.change(screen.getByLabelText('Model'), { target: { value: 'claude-sonnet' } });
+
+    expect(screen.getByText('Fix login')).toBeInTheDocument();
+    expect(screen.queryByText('Add search')).not.toBeInTheDocument();
+  });
+});
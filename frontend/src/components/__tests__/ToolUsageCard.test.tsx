@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render as baseRender, screen, fireEvent } from '@testing-library/react';
+import type { ReactElement } from 'react';
+import { ToolUsageCard } from '../ToolUsageCard';
+import { I18nProvider } from '../../contexts/I18nContext';
+import type { ToolUsage } from '../../types';
+
+const createTool = (tool: string, callCount: number, medianLatencyMs: number | null): ToolUsage => ({
+  tool,
+  callCount,
+  errorCount: 0,
+  errorRate: 0,
+  medianLatencyMs,
+  daily: [],
+  byProject: [],
+  byModel: [],
+});
+
+const tools = [createTool('Bash', 10, 2000), createTool('Read', 30, null), createTool('Grep', 20, 500)];
+
+vi.mock('../../hooks/useStats', () => ({
+  useToolStats: () => ({ toolStats: { totals: createTool('', 60, 1250), tools } }),
+}));
+
+vi.mock('../../hooks/useMediaQuery', () => ({
+  useIsMobile: () => false,
+}));
+
+const render = (ui: ReactElement) => baseRender(ui, { wrapper: I18nProvider });
+
+const toolOrder = () => screen.getAllByRole('row').slice(1).map(row => row.querySelector('td')?.textContent);
+
+describe('ToolUsageCard', () => {
+  it('should list tools by call count', () => {
+    render(<ToolUsageCard />);
+    expect(toolOrder()).toEqual(['Read', 'Grep', 'Bash']);
+  });
+
+  it('should keep tools without a latency last in both sort directions', () => {
+    render(<ToolUsageCard />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Median latency' }));
+    expect(toolOrder()).toEqual(['Bash', 'Grep', 'Read']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Median latency' }));
+    expect(toolOrder()).toEqual(['Grep', 'Bash', 'Read']);
+  });
+});
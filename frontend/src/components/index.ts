@@ -1,9 +1,11 @@
 export { Layout } from './Layout';
 export { Sidebar } from './Sidebar';
 export { Dashboard } from './Dashboard';
+export { ActivityPunchCard } from './ActivityPunchCard';
 export { SessionList } from './SessionList';
 export { SessionDetail } from './SessionDetail';
 export { TeamList } from './TeamList';
+export { TrashView } from './TrashView';
 export { MemberList } from './MemberList';
 export { MessagePanel } from './MessagePanel';
 export { MessageItem } from './MessageItem';
@@ -1,6 +1,8 @@
 export { useSessions } from './useSessions';
+export { useTokenStats } from './useStats';
+export { useSearchSuggestions, useGlobalSearch } from './useGlobalSearch';
 export { useTeams } from './useTeams';
-export { useTeamPolling } from './useTeamPolling';
+export { useTrash } from './useTrash';
 export { useSessionNames } from './useSessionNames';
 export { useTeamNames } from './useTeamNames';
 export { useUrlState } from './useUrlState';
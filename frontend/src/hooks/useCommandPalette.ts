@@ -1,9 +1,25 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
-import type { Session, Team } from '../types';
+import type { Session, Team, SearchSuggestions } from '../types';
+import { useSearchSuggestions, useGlobalSearch } from './useGlobalSearch';
+import {
+  getQueryCompletions,
+  isStructuredQuery,
+  SEARCH_FIELDS,
+  SEARCH_ROLES,
+} from '../utils/searchQuery';
 
 // Command palette constants
 const MAX_SESSION_COMMANDS = 20;
 
+// Field names are completed even before known values have loaded
+const EMPTY_SUGGESTIONS: SearchSuggestions = {
+  fields: SEARCH_FIELDS,
+  roles: SEARCH_ROLES,
+  projects: [],
+  tags: [],
+  tools: [],
+};
+
 export type CommandType =
   | 'navigate-dashboard'
   | 'navigate-sessions'
@@ -11,7 +27,8 @@ export type CommandType =
   | 'navigate-projects'
   | 'open-session'
   | 'open-team'
-  | 'refresh-data';
+  | 'refresh-data'
+  | 'complete-query';
 
 export interface Command {
   id: string;
@@ -135,20 +152,72 @@ export function useCommandPalette(options: UseCommandPaletteOptions) {
     return commands;
   }, [sessions, teams, onRefreshData]);
 
+  // Structured queries (project:foo "phrase" -term) are evaluated by the server
+  const isStructured = isStructuredQuery(state.searchQuery);
+  const { suggestions } = useSearchSuggestions(state.isOpen);
+  const {
+    results: searchResults,
+    loading: isSearching,
+    error: searchError,
+  } = useGlobalSearch(state.searchQuery, state.isOpen && isStructured);
+
+  // Autocomplete for query field names and known values
+  const completionCommands = useMemo<Command[]>(
+    () =>
+      getQueryCompletions(state.searchQuery, suggestions || EMPTY_SUGGESTIONS).map((completion) => ({
+        id: `complete-query-${completion.query}`,
+        type: 'complete-query' as const,
+        title: completion.label,
+        subtitle: completion.query,
+        data: completion.query,
+      })),
+    [state.searchQuery, suggestions]
+  );
+
+  const searchResultCommands = useMemo<Command[]>(() => {
+    if (!isStructured) return [];
+
+    return searchResults.map((result) => {
+      if (result.type === 'team_message') {
+        return {
+          id: `search-${result.id}`,
+          type: 'open-team' as const,
+          title: result.title,
+          subtitle: result.snippet,
+          data: result.id.split('/')[0],
+        };
+      }
+
+      const session = sessions.find((s) => s.sessionId === result.id);
+      return {
+        id: `search-${result.id}`,
+        type: 'open-session' as const,
+        title: session?.inputs[0]?.display?.slice(0, 50) || result.title,
+        subtitle: result.snippet,
+        data: result.id,
+      };
+    });
+  }, [isStructured, searchResults, sessions]);
+
   // Filter commands based on search query
   const filteredCommands = useMemo(() => {
     if (!state.searchQuery.trim()) {
       return allCommands;
     }
 
+    if (isStructured) {
+      return [...completionCommands, ...searchResultCommands];
+    }
+
     const query = state.searchQuery.toLowerCase();
-    return allCommands.filter(
+    const matchingCommands = allCommands.filter(
       (cmd) =>
         cmd.title.toLowerCase().includes(query) ||
         cmd.subtitle?.toLowerCase().includes(query) ||
         cmd.shortcut?.toLowerCase().includes(query)
     );
-  }, [allCommands, state.searchQuery]);
+    return [...matchingCommands, ...completionCommands];
+  }, [allCommands, state.searchQuery, isStructured, completionCommands, searchResultCommands]);
 
   // Use filteredCommands directly instead of syncing to state to avoid infinite loop
   // The commands are computed from allCommands and searchQuery, no need to store in state
@@ -204,6 +273,14 @@ export function useCommandPalette(options: UseCommandPaletteOptions) {
       const cmd = command || filteredCommands[state.selectedIndex];
       if (!cmd) return;
 
+      // Completions edit the query and keep the palette open
+      if (cmd.type === 'complete-query') {
+        if (typeof cmd.data === 'string') {
+          setSearchQuery(cmd.data);
+        }
+        return;
+      }
+
       switch (cmd.type) {
         case 'navigate-dashboard':
           onNavigateToDashboard();
@@ -245,6 +322,7 @@ export function useCommandPalette(options: UseCommandPaletteOptions) {
       onOpenTeam,
       onRefreshData,
       close,
+      setSearchQuery,
     ]
   );
 
@@ -280,6 +358,13 @@ export function useCommandPalette(options: UseCommandPaletteOptions) {
         return;
       }
 
+      // Tab to accept the selected completion
+      if (e.key === 'Tab' && filteredCommands[state.selectedIndex]?.type === 'complete-query') {
+        e.preventDefault();
+        executeCommand();
+        return;
+      }
+
       // Enter to execute
       if (e.key === 'Enter') {
         e.preventDefault();
@@ -290,13 +375,24 @@ export function useCommandPalette(options: UseCommandPaletteOptions) {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [state.isOpen, toggle, close, selectNext, selectPrevious, executeCommand]);
+  }, [
+    state.isOpen,
+    state.selectedIndex,
+    filteredCommands,
+    toggle,
+    close,
+    selectNext,
+    selectPrevious,
+    executeCommand,
+  ]);
 
   return {
     isOpen: state.isOpen,
     searchQuery: state.searchQuery,
     selectedIndex: state.selectedIndex,
     commands: filteredCommands,
+    isSearching: isStructured && isSearching,
+    searchError: isStructured ? searchError : null,
     open,
     close,
     toggle,
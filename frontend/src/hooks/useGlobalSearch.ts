@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import type { ApiResponse, SearchQueryErrorDetails, SearchResult, SearchSuggestions } from '../types';
+import { getBrowserTimeZone } from '../utils';
+
+const API_BASE = '/api';
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Field names and known values for search query autocomplete.
+ * Fetched once `enabled` becomes true.
+ */
+export function useSearchSuggestions(enabled: boolean = true) {
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const response = await axios.get<ApiResponse<SearchSuggestions>>(`${API_BASE}/search/suggestions`);
+      if (response.data.success && response.data.data) {
+        setSuggestions(response.data.data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch search suggestions:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled && !suggestions) {
+      fetchSuggestions();
+    }
+  }, [enabled, suggestions, fetchSuggestions]);
+
+  return { suggestions, refetch: fetchSuggestions };
+}
+
+/**
+ * Debounced server-side search with the structured query syntax.
+ * Invalid queries report the parser message and position instead of results.
+ */
+export function useGlobalSearch(query: string, enabled: boolean = true, limit: number = 20) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<SearchQueryErrorDetails | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!enabled || !trimmed) {
+      setResults([]);
+      setError(null);
+      setErrorDetails(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await axios.get<ApiResponse<SearchResult[]>>(`${API_BASE}/search`, {
+          // after:/before: dates start at midnight in the viewer's zone
+          params: { q: trimmed, limit, tz: getBrowserTimeZone() },
+        });
+        if (cancelled) return;
+        setResults(response.data.data || []);
+        setError(null);
+        setErrorDetails(null);
+      } catch (err) {
+        if (cancelled) return;
+        setResults([]);
+        if (axios.isAxiosError(err) && err.response?.status === 400) {
+          setError(err.response.data?.error || 'Invalid search query');
+          setErrorDetails(err.response.data?.details || null);
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to search');
+          setErrorDetails(null);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, enabled, limit]);
+
+  return { results, loading, error, errorDetails };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import type { ChatMessage } from '../types';
+import { useServerEvents, SSE_EVENTS } from '../lib/sse';
+
+const API_BASE = '/api';
+
+interface SessionAppendedEvent {
+  sessionId: string;
+  messages: ChatMessage[];
+  reset: boolean;
+}
+
+interface UseSessionTailOptions {
+  /** Newest entry already loaded; messages after it are sent when the tail starts */
+  after?: string | null;
+  /** New messages appended to the transcript */
+  onAppend: (messages: ChatMessage[]) => void;
+  /** The transcript was rewritten and has to be loaded again */
+  onReset: () => void;
+}
+
+/**
+ * Tail an open session over SSE: the server pushes only the messages appended to its
+ * transcript instead of the client refetching the whole session on every change.
+ * Returns whether the tail is active; while it is not, callers should fall back to refetching.
+ */
+export function useSessionTail(
+  sessionId: string | null,
+  enabled: boolean,
+  { after, onAppend, onReset }: UseSessionTailOptions
+): boolean {
+  const { clientId } = useServerEvents();
+  const [isTailing, setIsTailing] = useState(false);
+
+  // Read when subscribing only, so appends don't restart the tail
+  const afterRef = useRef(after);
+  afterRef.current = after;
+  const handlersRef = useRef({ onAppend, onReset });
+  handlersRef.current = { onAppend, onReset };
+
+  useEffect(() => {
+    setIsTailing(false);
+    if (!sessionId || !enabled || !clientId) return;
+
+    let cancelled = false;
+    const handleAppended = (event: CustomEvent<SessionAppendedEvent>) => {
+      if (event.detail.sessionId !== sessionId) return;
+      if (event.detail.reset) {
+        handlersRef.current.onReset();
+      } else if (event.detail.messages.length > 0) {
+        handlersRef.current.onAppend(event.detail.messages);
+      }
+    };
+    window.addEventListener(SSE_EVENTS.SESSION_APPENDED, handleAppended as EventListener);
+
+    axios
+      .post(`${API_BASE}/sse/tail`, { clientId, sessionId, ...(afterRef.current && { after: afterRef.current }) })
+      .then(() => {
+        if (!cancelled) setIsTailing(true);
+      })
+      .catch((err) => {
+        console.error('Failed to tail session:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(SSE_EVENTS.SESSION_APPENDED, handleAppended as EventListener);
+      axios.delete(`${API_BASE}/sse/tail`, { data: { clientId, sessionId } }).catch(() => {
+        // The server drops tails of disconnected clients by itself
+      });
+    };
+  }, [sessionId, enabled, clientId]);
+
+  return isTailing;
+}
@@ -1,12 +1,16 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import axios from 'axios';
-import type { Session, Project, DashboardStats, ApiResponse, Team } from '../types';
+import type { Session, ChatMessage, AgentSession, MessagePage, MessageSearchHit, SessionChanges, Project, DashboardStats, ApiResponse, Team } from '../types';
+import { mergeMessagePages } from '../utils/session';
 
 const API_BASE = '/api';
 
 // Default polling interval: 10 seconds
 const DEFAULT_POLL_INTERVAL_MS = 10000;
 
+// Messages fetched per older page when scrolling up
+const OLDER_PAGE_SIZE = 100;
+
 export function useSessions(pollInterval: number = DEFAULT_POLL_INTERVAL_MS) {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(false);
@@ -113,9 +117,15 @@ export function useSession(
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Abandoned branch being viewed, remembered per session (null = the active branch)
+  const [selectedBranch, setSelectedBranch] = useState<{ sessionId: string; branchId: string } | null>(null);
+  const branchId = selectedBranch && selectedBranch.sessionId === sessionId ? selectedBranch.branchId : null;
 
   // Track if user has loaded full conversation - persists across updates
   const isFullConversationLoadedRef = useRef(false);
+  // Oldest message loaded by scrolling up; refetches keep everything from there on
+  const oldestCursorRef = useRef<string | null>(null);
 
   // AbortController for canceling in-flight requests
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -146,6 +156,7 @@ export function useSession(
 
     // Reset full conversation flag when session changes
     isFullConversationLoadedRef.current = false;
+    oldestCursorRef.current = null;
     setError(null);
     setLoading(true);
 
@@ -155,13 +166,20 @@ export function useSession(
         if (fullConversation) {
           const shouldLoadFull = loadFull || isFullConversationLoadedRef.current;
           const limit = shouldLoadFull ? 0 : initialMessageLimit;
-          url =
-            limit > 0
-              ? `${API_BASE}/sessions/${sessionId}?full=true&limit=${limit}`
-              : `${API_BASE}/sessions/${sessionId}?full=true`;
+          if (!shouldLoadFull && oldestCursorRef.current) {
+            url = `${API_BASE}/sessions/${sessionId}?full=true&from=${encodeURIComponent(oldestCursorRef.current)}`;
+          } else {
+            url =
+              limit > 0
+                ? `${API_BASE}/sessions/${sessionId}?full=true&limit=${limit}`
+                : `${API_BASE}/sessions/${sessionId}?full=true`;
+          }
         } else {
           url = `${API_BASE}/sessions/${sessionId}`;
         }
+        if (fullConversation && branchId) {
+          url += `&branch=${encodeURIComponent(branchId)}`;
+        }
         const response = await axios.get<ApiResponse<Session>>(url, {
           signal: abortController.signal,
         });
@@ -183,6 +201,19 @@ export function useSession(
           return;
         }
 
+        // The oldest loaded message is gone (transcript rewritten) - start over from the latest page
+        if (axios.isAxiosError(err) && err.response?.status === 400 && oldestCursorRef.current) {
+          oldestCursorRef.current = null;
+          fetchData(false);
+          return;
+        }
+
+        // The viewed branch no longer exists - fall back to the active branch
+        if (axios.isAxiosError(err) && err.response?.status === 404 && branchId) {
+          setSelectedBranch(null);
+          return;
+        }
+
         // Handle 404 error specifically - session not found
         if (axios.isAxiosError(err) && err.response?.status === 404) {
           setSession(null);
@@ -224,7 +255,7 @@ export function useSession(
       abortController.abort();
       window.removeEventListener('session:refetch', handleRefetch as EventListener);
     };
-  }, [sessionId, fullConversation, initialMessageLimit]);
+  }, [sessionId, fullConversation, initialMessageLimit, branchId]);
 
   // Polling effect
   useEffect(() => {
@@ -243,6 +274,84 @@ export function useSession(
     window.dispatchEvent(event);
   }, []);
 
+  // Fetch older messages of the loaded branch and prepend them.
+  // `from` loads everything back to that message instead of a single page.
+  const fetchOlderMessages = useCallback(async (from?: string) => {
+    const startCursor = session?.pageInfo?.startCursor;
+    if (!sessionId || session?.sessionId !== sessionId || !startCursor) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const response = await axios.get<ApiResponse<MessagePage>>(`${API_BASE}/sessions/${sessionId}/messages`, {
+        params: {
+          before: startCursor,
+          ...(from ? { from } : { limit: OLDER_PAGE_SIZE }),
+          ...(branchId && { branch: branchId }),
+        },
+      });
+      const page = response.data.data;
+      if (!response.data.success || !page) return;
+
+      const oldestCursor = page.pageInfo.startCursor ?? startCursor;
+      oldestCursorRef.current = oldestCursor;
+      // Skip the page if a refetch replaced the messages it was requested for
+      setSession((prev) =>
+        prev && prev.sessionId === sessionId && prev.pageInfo?.startCursor === startCursor
+          ? {
+              ...prev,
+              messages: mergeMessagePages(page.messages, prev.messages),
+              hasMoreMessages: page.pageInfo.hasOlder,
+              pageInfo: { ...prev.pageInfo, startCursor: oldestCursor, hasOlder: page.pageInfo.hasOlder },
+            }
+          : prev
+      );
+      setHasMoreMessages(page.pageInfo.hasOlder);
+    } catch (err) {
+      console.error('Failed to load older messages:', err);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [sessionId, session?.sessionId, session?.pageInfo?.startCursor, branchId]);
+
+  // Load the previous page of messages (scrolling up)
+  const loadOlderMessages = useCallback(async () => {
+    if (isLoadingOlder || !session?.pageInfo?.hasOlder) return;
+    await fetchOlderMessages();
+  }, [isLoadingOlder, session?.pageInfo?.hasOlder, fetchOlderMessages]);
+
+  // Load every older page back to a message that is not loaded yet (bookmarks, search hits)
+  const loadMessagesUntil = useCallback(async (uuid: string) => {
+    if (session?.messages.some((message) => message.uuid === uuid)) return;
+    await fetchOlderMessages(uuid);
+  }, [session?.messages, fetchOlderMessages]);
+
+  // Append messages pushed by a live tail; entries already loaded are replaced
+  const appendMessages = useCallback((messages: ChatMessage[]) => {
+    if (messages.length === 0) return;
+    setSession((prev) => {
+      if (!prev || prev.sessionId !== sessionId) return prev;
+
+      const merged = mergeMessagePages(prev.messages, messages);
+      const added = merged.length - prev.messages.length;
+      const endCursor = [...messages].reverse().find((message) => message.type !== 'summary')?.uuid;
+      return {
+        ...prev,
+        messages: merged,
+        messageCount: prev.messageCount + added,
+        updatedAt: Math.max(prev.updatedAt, ...messages.map((message) => message.timestamp)),
+        pageInfo: prev.pageInfo && {
+          ...prev.pageInfo,
+          endCursor: endCursor ?? prev.pageInfo.endCursor,
+          totalMessages: prev.pageInfo.totalMessages + added,
+        },
+      };
+    });
+  }, [sessionId]);
+
+  const selectBranch = useCallback((nextBranchId: string | null) => {
+    setSelectedBranch(sessionId && nextBranchId ? { sessionId, branchId: nextBranchId } : null);
+  }, [sessionId]);
+
   return {
     session,
     loading,
@@ -251,9 +360,146 @@ export function useSession(
     refetch,
     setSession,
     loadFullConversation,
+    isLoadingOlder,
+    loadOlderMessages,
+    loadMessagesUntil,
+    branchId,
+    selectBranch,
+    appendMessages,
   };
 }
 
+/**
+ * Lazily load a subagent transcript of a session once `enabled` becomes true
+ */
+export function useAgentSession(sessionId: string, agentId: string, enabled: boolean) {
+  const [agentSession, setAgentSession] = useState<AgentSession | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAgentSession = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get<ApiResponse<AgentSession>>(
+        `${API_BASE}/sessions/${sessionId}/agents/${agentId}`
+      );
+      if (response.data.success && response.data.data) {
+        setAgentSession(response.data.data);
+      } else {
+        setError(response.data.error || 'Failed to fetch agent session');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch agent session');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, agentId]);
+
+  useEffect(() => {
+    if (enabled && !agentSession) {
+      fetchAgentSession();
+    }
+  }, [enabled, agentSession, fetchAgentSession]);
+
+  return { agentSession, loading, error, refetch: fetchAgentSession };
+}
+
+/**
+ * Load the files changed by a session once `enabled` becomes true.
+ * `updatedAt` refreshes the changes while the session is still being written.
+ */
+export function useSessionChanges(
+  sessionId: string,
+  branchId: string | undefined,
+  enabled: boolean,
+  updatedAt?: number
+) {
+  const [changes, setChanges] = useState<SessionChanges | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchChanges = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get<ApiResponse<SessionChanges>>(`${API_BASE}/sessions/${sessionId}/changes`, {
+        params: branchId ? { branch: branchId } : undefined,
+      });
+      if (response.data.success && response.data.data) {
+        setChanges(response.data.data);
+      } else {
+        setError(response.data.error || 'Failed to fetch session changes');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch session changes');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, branchId]);
+
+  // Drop the changes of the previously viewed session or branch
+  useEffect(() => {
+    setChanges(null);
+  }, [sessionId, branchId]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchChanges();
+    }
+  }, [enabled, fetchChanges, updatedAt]);
+
+  return { changes, loading, error, refetch: fetchChanges };
+}
+
+/**
+ * Search the messages of a session older than `before`, i.e. the ones not loaded yet.
+ * Previous hits are kept until new ones arrive so match positions stay stable while paging.
+ */
+export function useMessageSearch(
+  sessionId: string | undefined,
+  query: string,
+  before: string | null | undefined,
+  branchId?: string | null
+) {
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!sessionId || !trimmedQuery || !before) {
+      setHits([]);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await axios.get<ApiResponse<MessageSearchHit[]>>(
+          `${API_BASE}/sessions/${sessionId}/messages/search`,
+          {
+            params: { q: trimmedQuery, before, ...(branchId && { branch: branchId }) },
+            signal: abortController.signal,
+          }
+        );
+        if (response.data.success && response.data.data) {
+          setHits(response.data.data);
+        }
+      } catch (err) {
+        if (!axios.isCancel(err)) {
+          console.error('Failed to search messages:', err);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeoutId);
+      abortController.abort();
+    };
+  }, [sessionId, trimmedQuery, before, branchId]);
+
+  return hits;
+}
+
 export function useProjects() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(false);
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import type { ApiResponse, TokenStats, ToolStats, HourlyActivity } from '../types';
+import { getBrowserTimeZone } from '../utils';
+
+const API_BASE = '/api';
+
+export function useTokenStats(days: number = 30, project?: string) {
+  const [tokenStats, setTokenStats] = useState<TokenStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTokenStats = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get<ApiResponse<TokenStats>>(`${API_BASE}/stats/tokens`, {
+        params: {
+          days,
+          ...(project && { project }),
+          tz: getBrowserTimeZone(),
+        },
+      });
+
+      if (response.data.success && response.data.data) {
+        setTokenStats(response.data.data);
+      } else {
+        setError(response.data.error || 'Failed to fetch token stats');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch token stats');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, project]);
+
+  useEffect(() => {
+    fetchTokenStats();
+  }, [fetchTokenStats]);
+
+  return { tokenStats, loading, error, refetch: fetchTokenStats };
+}
+
+export function useToolStats(days: number = 30, project?: string) {
+  const [toolStats, setToolStats] = useState<ToolStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchToolStats = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get<ApiResponse<ToolStats>>(`${API_BASE}/stats/tools`, {
+        params: {
+          days,
+          ...(project && { project }),
+          tz: getBrowserTimeZone(),
+        },
+      });
+
+      if (response.data.success && response.data.data) {
+        setToolStats(response.data.data);
+      } else {
+        setError(response.data.error || 'Failed to fetch tool stats');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tool stats');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, project]);
+
+  useEffect(() => {
+    fetchToolStats();
+  }, [fetchToolStats]);
+
+  return { toolStats, loading, error, refetch: fetchToolStats };
+}
+
+export function useHourlyActivity(days: number = 30, project?: string) {
+  const [hourlyActivity, setHourlyActivity] = useState<HourlyActivity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHourlyActivity = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get<ApiResponse<HourlyActivity>>(`${API_BASE}/stats/activity/hourly`, {
+        params: {
+          days,
+          ...(project && { project }),
+          tz: getBrowserTimeZone(),
+        },
+      });
+
+      if (response.data.success && response.data.data) {
+        setHourlyActivity(response.data.data);
+      } else {
+        setError(response.data.error || 'Failed to fetch hourly activity');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch hourly activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, project]);
+
+  useEffect(() => {
+    fetchHourlyActivity();
+  }, [fetchHourlyActivity]);
+
+  return { hourlyActivity, loading, error, refetch: fetchHourlyActivity };
+}
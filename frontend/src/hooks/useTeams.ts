@@ -1,13 +1,46 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import axios from 'axios';
 import type { Team, TeamWithInboxes, Message, ApiResponse } from '../types';
+import { SSE_EVENTS } from '../lib/sse';
 
 const API_BASE = '/api';
 
-// Teams polling constants
-const DEFAULT_TEAMS_POLL_INTERVAL_MS = 10000; // 10 seconds
+interface TeamEventDetail {
+  teamId: string;
+  memberName?: string;
+}
+
+/**
+ * Call `onEvent` for SSE team events (dispatched on window by SSEEventListeners) matching the filter
+ */
+function useTeamEvents(
+  eventNames: string[],
+  onEvent: () => void,
+  filter: (detail: TeamEventDetail) => boolean = () => true
+) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  const eventKey = eventNames.join(',');
 
-export function useTeams(pollInterval: number = DEFAULT_TEAMS_POLL_INTERVAL_MS) {
+  useEffect(() => {
+    const handleEvent = (event: Event) => {
+      const detail = (event as CustomEvent<TeamEventDetail>).detail;
+      if (filterRef.current(detail ?? { teamId: '' })) {
+        onEventRef.current();
+      }
+    };
+
+    const names = eventKey.split(',');
+    names.forEach((name) => window.addEventListener(name, handleEvent));
+    return () => {
+      names.forEach((name) => window.removeEventListener(name, handleEvent));
+    };
+  }, [eventKey]);
+}
+
+export function useTeams(pollInterval: number = 0) {
   const [teams, setTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -42,7 +75,10 @@ export function useTeams(pollInterval: number = DEFAULT_TEAMS_POLL_INTERVAL_MS)
     fetchTeams(false);
   }, [fetchTeams]);
 
-  // Polling for team list updates (detect team/member CRUD changes)
+  // Reload the list when teams are created, removed or reconfigured
+  useTeamEvents([SSE_EVENTS.TEAM_LIST_CHANGED], () => fetchTeams(true, true));
+
+  // Fallback polling while SSE is disconnected
   useEffect(() => {
     if (pollInterval <= 0) return;
 
@@ -89,7 +125,14 @@ export function useTeam(teamId: string | null, pollInterval: number = 0) {
     fetchTeam(false);
   }, [fetchTeam]);
 
-  // Optional polling as fallback when WebSocket is not working
+  // Reload when the team config or one of its inboxes changes, or after missed events
+  useTeamEvents(
+    [SSE_EVENTS.TEAM_CHANGED, SSE_EVENTS.TEAM_MESSAGE, SSE_EVENTS.RESYNC],
+    () => fetchTeam(true),
+    (detail) => !detail.teamId || detail.teamId === teamId
+  );
+
+  // Fallback polling while SSE is disconnected
   useEffect(() => {
     if (!teamId || pollInterval <= 0) return;
 
@@ -132,5 +175,12 @@ export function useTeamMessages(teamId: string | null, memberId: string | null)
     fetchMessages();
   }, [fetchMessages]);
 
+  // Reload when a message arrives in this member's inbox
+  useTeamEvents(
+    [SSE_EVENTS.TEAM_MESSAGE],
+    fetchMessages,
+    (detail) => detail.teamId === teamId && detail.memberName === memberId
+  );
+
   return { messages, loading, error, refetch: fetchMessages, setMessages };
 }
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import type { TrashItem, ApiResponse } from '../types';
+
+const API_BASE = '/api';
+
+export function useTrash() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get<ApiResponse<TrashItem[]>>(`${API_BASE}/trash`);
+      if (response.data.success && response.data.data) {
+        setItems(response.data.data);
+      }
+    } catch (err) {
+      setError('Failed to fetch trash');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  // Move an item back to where it was deleted from; rejects with a 409 response on conflicts
+  const restoreItem = useCallback(async (id: string): Promise<TrashItem> => {
+    const response = await axios.post<ApiResponse<TrashItem>>(`${API_BASE}/trash/${id}/restore`);
+    setItems((prev) => prev.filter((item) => item.id !== id));
+    return response.data.data!;
+  }, []);
+
+  const purgeItem = useCallback(async (id: string): Promise<void> => {
+    await axios.delete(`${API_BASE}/trash/${id}`);
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const emptyTrash = useCallback(async (): Promise<void> => {
+    await axios.delete(`${API_BASE}/trash`);
+    setItems([]);
+  }, []);
+
+  return { items, loading, error, refetch: fetchItems, restoreItem, purgeItem, emptyTrash };
+}
@@ -49,6 +49,12 @@ const parseHash = (hash: string): ParsedHash => {
         id: null,
         path: identifier || null,
       };
+    case 'trash':
+      return {
+        view: 'trash',
+        id: null,
+        path: null,
+      };
     case 'dashboard':
       return {
         view: 'dashboard',
@@ -68,6 +74,8 @@ const buildHash = (view: ViewType, id: string | null, projectPath: string | null
       return id ? `#/teams/${id}` : '#/teams';
     case 'projects':
       return projectPath ? `#/projects/${encodeURIComponent(projectPath)}` : '#/projects';
+    case 'trash':
+      return '#/trash';
     case 'dashboard':
     default:
       return '#/dashboard';
@@ -37,6 +37,7 @@ export const en: TranslationSchema = {
     sessions: 'Sessions',
     agentTeams: 'Agent Teams',
     projects: 'Projects',
+    trash: 'Trash',
     connected: 'Connected',
     disconnected: 'Disconnected',
     top: 'Top',
@@ -72,6 +73,68 @@ export const en: TranslationSchema = {
     showingRecentMessages: 'Showing recent messages. Click button above to load full conversation.',
     updating: 'Updating...',
     receivingUpdates: 'Receiving updates...',
+    live: 'Live',
+    followNewMessages: 'Follow',
+    followNewMessagesHint: 'Scroll to new messages as they arrive',
+    otherSubagents: 'Subagents ({{count}})',
+    loadingOlderMessages: 'Loading older messages...',
+    earlierMessage: 'Earlier message',
+    image: 'Attached image',
+    openImage: 'View full size',
+    imageUnavailable: 'Image unavailable',
+    showPastedText: 'Show pasted text ({{count}})',
+    hidePastedText: 'Hide pasted text',
+    activeTime: 'Active time',
+    activeTimeHint: 'Time between messages, leaving out pauses longer than 15 minutes',
+    metadata: {
+      gitBranch: 'Git branch',
+      model: 'Model',
+      cwd: 'Working directory',
+      version: 'Version',
+    },
+    markers: {
+      compacted: 'Context compacted',
+      summary: 'Summary',
+      compactSummary: 'Summary of the earlier conversation',
+      tokens: '{{count}} tokens before',
+      compactions: 'Compactions',
+      summaries: 'Summaries',
+    },
+    branches: {
+      title: 'Branches ({{count}})',
+      latest: 'Latest',
+      abandoned: 'Abandoned',
+      messageCount: '{{count}} messages',
+      forkedAt: 'Forked {{time}}',
+      viewingAbandoned: 'Viewing an abandoned branch',
+      backToLatest: 'Back to latest',
+    },
+    changes: {
+      title: 'Changes',
+      filesChanged: '{{count}} files changed',
+      noChanges: 'No files were edited in this session',
+      newFile: 'New file',
+      failed: 'Failed',
+      viewInConversation: 'View in conversation',
+      loadError: 'Failed to load changes',
+    },
+    toolCall: {
+      toolResult: 'Tool result',
+      noResult: 'No result',
+      error: 'Error',
+      input: 'Input',
+      output: 'Output',
+      emptyOutput: '(empty)',
+      showFullOutput: 'Show full output ({{count}} more chars)',
+      showLess: 'Show less',
+    },
+    subagent: {
+      title: 'Subagent',
+      messages: 'Messages',
+      duration: 'Duration',
+      loading: 'Loading subagent conversation...',
+      empty: '(empty)',
+    },
     conversation: 'Conversation',
     noInputs: 'No inputs in this session',
     empty: '(empty)',
@@ -91,7 +154,7 @@ export const en: TranslationSchema = {
     starTeam: 'Star Team',
     deleteTeam: 'Delete Team',
     deleteTitle: 'Delete Team',
-    deleteConfirmMessage: 'Are you sure you want to delete team "{{name}}"? This will delete all members and messages in this team and cannot be undone.',
+    deleteConfirmMessage: 'Are you sure you want to delete team "{{name}}"? The team with all its members and messages will be moved to the trash.',
     membersWithCount: '{{count}} members',
   },
   filter: {
@@ -114,6 +177,13 @@ export const en: TranslationSchema = {
     setFiltersFirst: 'Set filters first',
     alreadyExists: 'Similar filter already exists',
     clickToApply: 'Click to apply filter',
+    suggestions: 'Suggestions',
+    syntaxHint: 'Filter with project:, tag:, tool:, role:, after:, before:, "phrase" or -exclude',
+    invalidQuery: 'Invalid query: {{message}}',
+    branch: 'Branch',
+    allBranches: 'All branches',
+    model: 'Model',
+    allModels: 'All models',
   },
   export: {
     title: 'Export',
@@ -133,6 +203,8 @@ export const en: TranslationSchema = {
     },
     preview: 'Preview',
     previewTruncated: 'Preview truncated',
+    exportSite: 'Export as static site',
+    exportSiteError: 'Failed to export the site',
   },
   tag: {
     title: 'Tags',
@@ -154,6 +226,10 @@ export const en: TranslationSchema = {
     toSelect: 'to select',
     commandCount: '{{count}} commands',
     noResults: 'No commands found',
+    searchSyntax: 'Search Syntax',
+    searchResults: 'Search Results',
+    searching: 'Searching...',
+    invalidQuery: 'Invalid query: {{message}}',
   },
   activity: {
     title: 'Activity Stats',
@@ -173,6 +249,9 @@ export const en: TranslationSchema = {
     noActivity: 'No activity',
     recentCount: 'Recent {{count}}',
     activity: 'Activity',
+    hourlyTitle: 'Activity by Hour',
+    hourlyCell: '{{day}} {{hour}}:00 · {{count}} messages',
+    noMessages: 'No messages in this period',
   },
   dashboard: {
     totalSessions: 'Total Sessions',
@@ -182,6 +261,30 @@ export const en: TranslationSchema = {
     recentSessions: 'Recent Sessions',
     recentTeams: 'Recent Teams',
   },
+  tokens: {
+    estimatedSpend: 'Estimated Spend',
+    totalTokens: 'Total tokens',
+    input: 'Input',
+    output: 'Output',
+    cacheWrite: 'Cache write',
+    cacheRead: 'Cache read',
+    byModel: 'By model',
+    byProject: 'By project',
+    unpriced: 'No price configured',
+    noData: 'No token usage recorded',
+    lastDays: 'Last {{days}} days',
+  },
+  tools: {
+    title: 'Tool Usage',
+    tool: 'Tool',
+    calls: 'Calls',
+    errorRate: 'Error rate',
+    medianLatency: 'Median latency',
+    trend: 'Trend',
+    byModel: 'By model',
+    byProject: 'By project',
+    noData: 'No tool calls recorded',
+  },
   empty: {
     noSessions: 'No sessions',
     noTeams: 'No teams',
@@ -242,6 +345,26 @@ export const en: TranslationSchema = {
     theme: 'Theme',
     language: 'Language',
   },
+  trash: {
+    title: 'Trash',
+    empty: 'Trash is empty',
+    retentionHint: 'Deleted sessions and teams can be restored until they expire',
+    session: 'Session',
+    team: 'Team',
+    deleted: 'Deleted {{time}}',
+    expiresIn: 'Expires in {{days}} days',
+    restore: 'Restore',
+    restored: 'Restored "{{name}}"',
+    restoreError: 'Failed to restore',
+    restoreConflict: 'Cannot restore: a file with the same name exists again',
+    deletePermanently: 'Delete permanently',
+    deletePermanentlyTitle: 'Delete Permanently',
+    deletePermanentlyMessage: 'Are you sure you want to permanently delete "{{name}}"? This cannot be undone.',
+    emptyTrash: 'Empty trash',
+    emptyTrashTitle: 'Empty Trash',
+    emptyTrashMessage: 'Are you sure you want to permanently delete all {{count}} items in the trash? This cannot be undone.',
+    deleteError: 'Failed to delete',
+  },
   theme: {
     dark: 'Dark',
     eyeCare: 'Eye Care',
@@ -37,6 +37,7 @@ export const zhCN: TranslationSchema = {
     sessions: '会话',
     agentTeams: 'Agent 团队',
     projects: '项目',
+    trash: '回收站',
     connected: '已连接',
     disconnected: '未连接',
     top: '顶部',
@@ -72,6 +73,68 @@ export const zhCN: TranslationSchema = {
     showingRecentMessages: '正在显示最近的消息，点击上方按钮加载完整对话',
     updating: '更新中...',
     receivingUpdates: '接收更新中...',
+    live: '实时',
+    followNewMessages: '跟随',
+    followNewMessagesHint: '有新消息时自动滚动到底部',
+    otherSubagents: '子代理 ({{count}})',
+    loadingOlderMessages: '正在加载更早的消息...',
+    earlierMessage: '更早的消息',
+    image: '附加图片',
+    openImage: '查看原图',
+    imageUnavailable: '图片不可用',
+    showPastedText: '显示粘贴内容 ({{count}})',
+    hidePastedText: '隐藏粘贴内容',
+    activeTime: '活跃时长',
+    activeTimeHint: '消息之间的时间，不计超过 15 分钟的停顿',
+    metadata: {
+      gitBranch: 'Git 分支',
+      model: '模型',
+      cwd: '工作目录',
+      version: '版本',
+    },
+    markers: {
+      compacted: '上下文已压缩',
+      summary: '摘要',
+      compactSummary: '之前对话的摘要',
+      tokens: '压缩前 {{count}} tokens',
+      compactions: '压缩次数',
+      summaries: '摘要数',
+    },
+    branches: {
+      title: '分支 ({{count}})',
+      latest: '最新',
+      abandoned: '已放弃',
+      messageCount: '{{count}} 条消息',
+      forkedAt: '分叉于 {{time}}',
+      viewingAbandoned: '正在查看已放弃的分支',
+      backToLatest: '返回最新分支',
+    },
+    changes: {
+      title: '文件变更',
+      filesChanged: '{{count}} 个文件有变更',
+      noChanges: '此会话没有编辑任何文件',
+      newFile: '新文件',
+      failed: '失败',
+      viewInConversation: '在对话中查看',
+      loadError: '加载变更失败',
+    },
+    toolCall: {
+      toolResult: '工具结果',
+      noResult: '无结果',
+      error: '错误',
+      input: '输入',
+      output: '输出',
+      emptyOutput: '(空)',
+      showFullOutput: '显示完整输出 (还有 {{count}} 个字符)',
+      showLess: '收起',
+    },
+    subagent: {
+      title: '子代理',
+      messages: '消息数',
+      duration: '时长',
+      loading: '正在加载子代理对话...',
+      empty: '(空)',
+    },
     conversation: '对话',
     noInputs: '此会话暂无输入',
     empty: '(空)',
@@ -91,7 +154,7 @@ export const zhCN: TranslationSchema = {
     starTeam: '收藏团队',
     deleteTeam: '删除团队',
     deleteTitle: '删除团队',
-    deleteConfirmMessage: '确定要删除团队 "{{name}}" 吗？此操作将删除该团队的所有成员和消息，不可恢复。',
+    deleteConfirmMessage: '确定要删除团队 "{{name}}" 吗？该团队及其所有成员和消息将被移到回收站。',
     membersWithCount: '{{count}} 成员',
   },
   filter: {
@@ -114,6 +177,13 @@ export const zhCN: TranslationSchema = {
     setFiltersFirst: '先设置筛选条件',
     alreadyExists: '已存在相同的筛选条件',
     clickToApply: '点击应用筛选条件',
+    suggestions: '建议',
+    syntaxHint: '可使用 project:、tag:、tool:、role:、after:、before:、"短语" 或 -排除词 筛选',
+    invalidQuery: '无效的查询：{{message}}',
+    branch: '分支',
+    allBranches: '所有分支',
+    model: '模型',
+    allModels: '所有模型',
   },
   export: {
     title: '导出',
@@ -133,6 +203,8 @@ export const zhCN: TranslationSchema = {
     },
     preview: '预览',
     previewTruncated: '预览已截断',
+    exportSite: '导出为静态网站',
+    exportSiteError: '导出静态网站失败',
   },
   tag: {
     title: '标签',
@@ -154,6 +226,10 @@ export const zhCN: TranslationSchema = {
     toSelect: '选择',
     commandCount: '{{count}} 个命令',
     noResults: '未找到命令',
+    searchSyntax: '搜索语法',
+    searchResults: '搜索结果',
+    searching: '搜索中...',
+    invalidQuery: '无效的查询：{{message}}',
   },
   activity: {
     title: '活动统计',
@@ -173,6 +249,9 @@ export const zhCN: TranslationSchema = {
     noActivity: '暂无活动',
     recentCount: '最近 {{count}} 条',
     activity: '活动',
+    hourlyTitle: '按时段活动',
+    hourlyCell: '{{day}} {{hour}}:00 · {{count}} 条消息',
+    noMessages: '此期间没有消息',
   },
   dashboard: {
     totalSessions: '总会话数',
@@ -182,6 +261,30 @@ export const zhCN: TranslationSchema = {
     recentSessions: '最近会话',
     recentTeams: '最近团队',
   },
+  tokens: {
+    estimatedSpend: '预估花费',
+    totalTokens: '总 Token 数',
+    input: '输入',
+    output: '输出',
+    cacheWrite: '缓存写入',
+    cacheRead: '缓存读取',
+    byModel: '按模型',
+    byProject: '按项目',
+    unpriced: '未配置价格',
+    noData: '暂无 Token 用量记录',
+    lastDays: '最近 {{days}} 天',
+  },
+  tools: {
+    title: '工具使用',
+    tool: '工具',
+    calls: '调用次数',
+    errorRate: '错误率',
+    medianLatency: '延迟中位数',
+    trend: '趋势',
+    byModel: '按模型',
+    byProject: '按项目',
+    noData: '暂无工具调用记录',
+  },
   empty: {
     noSessions: '暂无会话',
     noTeams: '暂无团队',
@@ -242,6 +345,26 @@ export const zhCN: TranslationSchema = {
     theme: '主题',
     language: '语言',
   },
+  trash: {
+    title: '回收站',
+    empty: '回收站为空',
+    retentionHint: '已删除的会话和团队在过期前都可以恢复',
+    session: '会话',
+    team: '团队',
+    deleted: '删除于 {{time}}',
+    expiresIn: '{{days}} 天后过期',
+    restore: '恢复',
+    restored: '已恢复 "{{name}}"',
+    restoreError: '恢复失败',
+    restoreConflict: '无法恢复：同名文件已重新存在',
+    deletePermanently: '永久删除',
+    deletePermanentlyTitle: '永久删除',
+    deletePermanentlyMessage: '确定要永久删除 "{{name}}" 吗？此操作不可恢复。',
+    emptyTrash: '清空回收站',
+    emptyTrashTitle: '清空回收站',
+    emptyTrashMessage: '确定要永久删除回收站中的全部 {{count}} 项吗？此操作不可恢复。',
+    deleteError: '删除失败',
+  },
   theme: {
     dark: '深色',
     eyeCare: '护眼',
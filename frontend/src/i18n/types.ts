@@ -36,6 +36,7 @@ export interface TranslationSchema extends Record<string, unknown> {
     sessions: string;
     agentTeams: string;
     projects: string;
+    trash: string;
     connected: string;
     disconnected: string;
     top: string;
@@ -69,6 +70,68 @@ export interface TranslationSchema extends Record<string, unknown> {
     partialDataNotice: string;
     updating: string;
     receivingUpdates: string;
+    live: string;
+    followNewMessages: string;
+    followNewMessagesHint: string;
+    otherSubagents: string;
+    loadingOlderMessages: string;
+    earlierMessage: string;
+    image: string;
+    openImage: string;
+    imageUnavailable: string;
+    showPastedText: string;
+    hidePastedText: string;
+    activeTime: string;
+    activeTimeHint: string;
+    metadata: {
+      gitBranch: string;
+      model: string;
+      cwd: string;
+      version: string;
+    };
+    markers: {
+      compacted: string;
+      summary: string;
+      compactSummary: string;
+      tokens: string;
+      compactions: string;
+      summaries: string;
+    };
+    branches: {
+      title: string;
+      latest: string;
+      abandoned: string;
+      messageCount: string;
+      forkedAt: string;
+      viewingAbandoned: string;
+      backToLatest: string;
+    };
+    changes: {
+      title: string;
+      filesChanged: string;
+      noChanges: string;
+      newFile: string;
+      failed: string;
+      viewInConversation: string;
+      loadError: string;
+    };
+    toolCall: {
+      toolResult: string;
+      noResult: string;
+      error: string;
+      input: string;
+      output: string;
+      emptyOutput: string;
+      showFullOutput: string;
+      showLess: string;
+    };
+    subagent: {
+      title: string;
+      messages: string;
+      duration: string;
+      loading: string;
+      empty: string;
+    };
     conversation: string;
     noInputs: string;
     empty: string;
@@ -111,6 +174,13 @@ export interface TranslationSchema extends Record<string, unknown> {
     setFiltersFirst: string;
     alreadyExists: string;
     clickToApply: string;
+    suggestions: string;
+    syntaxHint: string;
+    invalidQuery: string;
+    branch: string;
+    allBranches: string;
+    model: string;
+    allModels: string;
   };
   export: {
     title: string;
@@ -130,6 +200,8 @@ export interface TranslationSchema extends Record<string, unknown> {
     };
     preview: string;
     previewTruncated: string;
+    exportSite: string;
+    exportSiteError: string;
   };
   tag: {
     title: string;
@@ -151,6 +223,10 @@ export interface TranslationSchema extends Record<string, unknown> {
     toSelect: string;
     commandCount: string;
     noResults: string;
+    searchSyntax: string;
+    searchResults: string;
+    searching: string;
+    invalidQuery: string;
   };
   activity: {
     title: string;
@@ -170,6 +246,9 @@ export interface TranslationSchema extends Record<string, unknown> {
     noActivity: string;
     recentCount: string;
     activity: string;
+    hourlyTitle: string;
+    hourlyCell: string;
+    noMessages: string;
   };
   dashboard: {
     totalSessions: string;
@@ -179,6 +258,30 @@ export interface TranslationSchema extends Record<string, unknown> {
     recentSessions: string;
     recentTeams: string;
   };
+  tokens: {
+    estimatedSpend: string;
+    totalTokens: string;
+    input: string;
+    output: string;
+    cacheWrite: string;
+    cacheRead: string;
+    byModel: string;
+    byProject: string;
+    unpriced: string;
+    noData: string;
+    lastDays: string;
+  };
+  tools: {
+    title: string;
+    tool: string;
+    calls: string;
+    errorRate: string;
+    medianLatency: string;
+    trend: string;
+    byModel: string;
+    byProject: string;
+    noData: string;
+  };
   empty: {
     noSessions: string;
     noTeams: string;
@@ -239,6 +342,26 @@ export interface TranslationSchema extends Record<string, unknown> {
     theme: string;
     language: string;
   };
+  trash: {
+    title: string;
+    empty: string;
+    retentionHint: string;
+    session: string;
+    team: string;
+    deleted: string;
+    expiresIn: string;
+    restore: string;
+    restored: string;
+    restoreError: string;
+    restoreConflict: string;
+    deletePermanently: string;
+    deletePermanentlyTitle: string;
+    deletePermanentlyMessage: string;
+    emptyTrash: string;
+    emptyTrashTitle: string;
+    emptyTrashMessage: string;
+    deleteError: string;
+  };
   theme: {
     dark: string;
     eyeCare: string;
@@ -14,7 +14,7 @@ export type SSEEventListener<T = unknown> = (event: T) => void;
 export interface CallSSEOptions {
   /** The URL to connect to (default: '/api/sse') */
   url?: string;
-  /** Maximum number of reconnection attempts (default: 5) */
+  /** Maximum number of reconnection attempts (default: unlimited) */
   maxReconnectAttempts?: number;
   /** Initial reconnection delay in ms (default: 1000) */
   reconnectDelay?: number;
@@ -60,7 +60,7 @@ type ListenerSet = Set<(event: unknown) => void>;
  */
 const DEFAULT_OPTIONS: Required<Omit<CallSSEOptions, 'onOpen' | 'onError' | 'onClose'>> = {
   url: '/api/sse',
-  maxReconnectAttempts: 5,
+  maxReconnectAttempts: Infinity,
   reconnectDelay: 1000,
 };
 
@@ -89,6 +89,8 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
   let reconnectAttempt = 0;
   let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   let isClosed = false;
+  // Id of the last event received, so a new EventSource can ask the server to replay what it missed
+  let lastEventId = '';
 
   /**
    * Calculate reconnection delay with exponential backoff
@@ -112,6 +114,38 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
     }
   }
 
+  /**
+   * Remember the id of the last event; events without an id keep the previous one
+   * @param event - Received event
+   */
+  function trackEventId(event: MessageEvent): void {
+    if (event.lastEventId) {
+      lastEventId = event.lastEventId;
+    }
+  }
+
+  /**
+   * Schedule a new connection with exponential backoff
+   */
+  function scheduleReconnect(): void {
+    if (isClosed || reconnectTimer) {
+      return;
+    }
+
+    if (reconnectAttempt >= maxReconnectAttempts) {
+      console.error('Max reconnection attempts reached');
+      onClose?.();
+      return;
+    }
+
+    const delay = getReconnectDelay();
+    reconnectAttempt++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  }
+
   /**
    * Notify all listeners for a specific event
    * @param eventName - Name of the event
@@ -156,37 +190,30 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
 
     // Handle messages - route to appropriate listeners
     eventSource.onmessage = (event: MessageEvent) => {
+      trackEventId(event);
       const data = parseEventData(event.data);
       notifyListeners('message', data);
     };
 
     // Handle named events
     eventSource.addEventListener('message', (event: MessageEvent) => {
+      trackEventId(event);
       const data = parseEventData(event.data);
       notifyListeners('message', data);
     });
 
     // Handle errors and reconnection
-    eventSource.onerror = (error: Event) => {
+    eventSource.onerror = () => {
       const errorInstance = new Error('SSE connection error');
       onError?.(errorInstance);
 
-      if (isClosed) {
+      // While CONNECTING the browser reconnects by itself and sends Last-Event-ID;
+      // once CLOSED it has given up and a new EventSource is needed
+      if (isClosed || eventSource?.readyState !== EventSource.CLOSED) {
         return;
       }
 
-      // Attempt reconnection if not exceeded max attempts
-      if (reconnectAttempt < maxReconnectAttempts) {
-        reconnectAttempt++;
-        const delay = getReconnectDelay();
-
-        reconnectTimer = setTimeout(() => {
-          connect();
-        }, delay);
-      } else {
-        console.error('Max reconnection attempts reached');
-        onClose?.();
-      }
+      scheduleReconnect();
     };
   }
 
@@ -198,22 +225,28 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
       return;
     }
 
+    eventSource?.close();
+
     try {
-      eventSource = new EventSource(url);
+      const separator = url.includes('?') ? '&' : '?';
+      eventSource = new EventSource(
+        lastEventId ? `${url}${separator}lastEventId=${encodeURIComponent(lastEventId)}` : url
+      );
       setupEventHandlers();
+
+      // Named events are registered per EventSource, so register them again on a new one
+      listeners.forEach((_, eventName) => {
+        if (eventName !== 'message') {
+          pendingEventTypes.add(eventName);
+        }
+      });
     } catch (error) {
       const errorInstance = error instanceof Error ? error : new Error('Failed to create EventSource');
       onError?.(errorInstance);
 
       // Attempt reconnection on connection failure
-      if (reconnectAttempt < maxReconnectAttempts && !isClosed) {
-        reconnectAttempt++;
-        const delay = getReconnectDelay();
-
-        reconnectTimer = setTimeout(() => {
-          connect();
-        }, delay);
-      }
+      eventSource = null;
+      scheduleReconnect();
     }
   }
 
@@ -239,6 +272,7 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
       // console.log(`[SSE Client] EventSource already open, registering event type: ${eventName}`);
       eventSource.addEventListener(eventName, (event: MessageEvent) => {
         // console.log(`[SSE Client] Received event: ${eventName}`, event.data);
+        trackEventId(event);
         const data = parseEventData(event.data);
         notifyListeners(eventName, data);
       });
@@ -248,8 +282,25 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
     }
   }
 
+  /**
+   * Reconnect right away when the network comes back (e.g. after the laptop wakes up)
+   */
+  function handleOnline(): void {
+    if (isClosed || (eventSource && eventSource.readyState !== EventSource.CLOSED)) {
+      return;
+    }
+
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    reconnectAttempt = 0;
+    connect();
+  }
+
   // Initialize connection
   connect();
+  window.addEventListener('online', handleOnline);
 
   return {
     addEventListener<T>(eventName: string, listener: (event: T) => void): void {
@@ -287,6 +338,7 @@ export function callSSE(options: CallSSEOptions = {}): SSEClient {
 
     close(): void {
       isClosed = true;
+      window.removeEventListener('online', handleOnline);
 
       // Clear any pending reconnection timer
       if (reconnectTimer) {
@@ -5,12 +5,18 @@
 
 import { useEffect } from 'react';
 import { useServerEvents } from './ServerEventsProvider';
+import type { ChatMessage } from '../../../types';
 
 // 全局事件名称常量
 export const SSE_EVENTS = {
   SESSION_CHANGED: 'sse:sessionChanged',
   SESSION_LIST_CHANGED: 'sse:sessionListChanged',
   AGENT_SESSION_CHANGED: 'sse:agentSessionChanged',
+  SESSION_APPENDED: 'sse:sessionAppended',
+  TEAM_LIST_CHANGED: 'sse:teamListChanged',
+  TEAM_CHANGED: 'sse:teamChanged',
+  TEAM_MESSAGE: 'sse:teamMessage',
+  RESYNC: 'sse:resync',
   CONNECT: 'sse:connect',
 } as const;
 
@@ -50,6 +56,28 @@ export function SSEEventListeners(): null {
       emitGlobalEvent(SSE_EVENTS.AGENT_SESSION_CHANGED, event);
     };
 
+    // sessionAppended 事件处理 - 追踪中的会话有新消息
+    const handleSessionAppended = (event: { sessionId: string; messages: ChatMessage[]; reset: boolean }) => {
+      emitGlobalEvent(SSE_EVENTS.SESSION_APPENDED, event);
+    };
+
+    // 团队事件处理 - 团队列表、配置和收件箱更新
+    const handleTeamListChanged = (event: Record<string, unknown>) => {
+      emitGlobalEvent(SSE_EVENTS.TEAM_LIST_CHANGED, event);
+    };
+    const handleTeamChanged = (event: { teamId: string }) => {
+      emitGlobalEvent(SSE_EVENTS.TEAM_CHANGED, event);
+    };
+    const handleTeamMessage = (event: { teamId: string; memberName: string }) => {
+      emitGlobalEvent(SSE_EVENTS.TEAM_MESSAGE, event);
+    };
+
+    // resync 事件处理 - 断线期间错过的事件无法重放，需要全量刷新
+    const handleResync = () => {
+      console.log('[SSE] Missed events, resyncing');
+      emitGlobalEvent(SSE_EVENTS.RESYNC, {});
+    };
+
     // connect 事件处理 - 连接建立
     const handleConnect = (event: { timestamp: string }) => {
       console.log('[SSE] Connected at:', event.timestamp);
@@ -61,6 +89,11 @@ export function SSEEventListeners(): null {
     addEventListener('sessionChanged', handleSessionChanged);
     addEventListener('sessionListChanged', handleSessionListChanged);
     addEventListener('agentSessionChanged', handleAgentSessionChanged);
+    addEventListener('sessionAppended', handleSessionAppended);
+    addEventListener('teamListChanged', handleTeamListChanged);
+    addEventListener('teamChanged', handleTeamChanged);
+    addEventListener('teamMessage', handleTeamMessage);
+    addEventListener('resync', handleResync);
     addEventListener('connect', handleConnect);
 
     // 清理函数
@@ -69,6 +102,11 @@ export function SSEEventListeners(): null {
       removeEventListener('sessionChanged', handleSessionChanged);
       removeEventListener('sessionListChanged', handleSessionListChanged);
       removeEventListener('agentSessionChanged', handleAgentSessionChanged);
+      removeEventListener('sessionAppended', handleSessionAppended);
+      removeEventListener('teamListChanged', handleTeamListChanged);
+      removeEventListener('teamChanged', handleTeamChanged);
+      removeEventListener('teamMessage', handleTeamMessage);
+      removeEventListener('resync', handleResync);
       removeEventListener('connect', handleConnect);
     };
   }, [addEventListener, removeEventListener]);
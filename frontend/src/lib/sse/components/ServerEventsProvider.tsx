@@ -13,6 +13,8 @@ interface ServerEventsContextValue {
   connectionState: 'connecting' | 'connected' | 'disconnected' | 'error';
   /** 连接错误信息 */
   error: Error | null;
+  /** 服务端分配的客户端 ID，用于订阅会话追加消息 */
+  clientId: string | null;
   /** 手动重连 */
   reconnect: () => void;
   /** 添加事件监听器 */
@@ -69,13 +71,14 @@ export function ServerEventsProvider({
   children,
   url = '/api/sse',
   autoConnect = true,
-  maxReconnectAttempts = 5,
+  maxReconnectAttempts = Infinity,
   reconnectDelay = 3000,
 }: ServerEventsProviderProps): React.ReactElement {
   const sseClientRef = useRef<SSEClient | null>(null);
   const pendingListenersRef = useRef<PendingListener[]>([]);
   const [connectionState, setConnectionState] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('connecting');
   const [error, setError] = useState<Error | null>(null);
+  const [clientId, setClientId] = useState<string | null>(null);
 
   /**
    * 建立 SSE 连接
@@ -90,6 +93,7 @@ export function ServerEventsProvider({
 
     setConnectionState('connecting');
     setError(null);
+    setClientId(null);
 
     // console.log(`[ServerEventsProvider] Connecting to SSE: ${url}`);
 
@@ -124,6 +128,13 @@ export function ServerEventsProvider({
         },
       });
 
+      // 每次（重新）连接服务端都会分配新的客户端 ID，心跳事件不带 ID
+      client.addEventListener<{ clientId?: string }>('connect', (event) => {
+        if (event.clientId) {
+          setClientId(event.clientId);
+        }
+      });
+
       sseClientRef.current = client;
     } catch (err) {
       setConnectionState('error');
@@ -185,6 +196,7 @@ export function ServerEventsProvider({
     sseClient: sseClientRef.current,
     connectionState,
     error,
+    clientId,
     reconnect,
     addEventListener,
     removeEventListener,
@@ -15,23 +15,87 @@ export interface ContentBlock {
     media_type: string;
     data: string;
   };
+  // tool_use fields
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  // tool_result fields
+  tool_use_id?: string;
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+}
+
+export interface PastedContent {
+  id: number;
+  content: string;
 }
 
 export interface SessionInput {
   display: string;
   timestamp: number;
+  pastedContents?: PastedContent[]; // Text referred to as [Pasted text #id] in display
 }
 
 // ============================================
 // Session Related Types
 // ============================================
 
+export interface ToolResult {
+  toolUseId: string;
+  content: string;
+  isError: boolean;
+  timestamp: number;
+  agentId?: string; // Subagent spawned by a Task call
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  result?: ToolResult;
+  agentId?: string; // Set when the subagent transcript of a Task call was found
+}
+
+export interface ImageAttachment {
+  index: number; // Position of the block in the transcript entry
+  mediaType: string;
+}
+
 export interface ChatMessage {
   uuid: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
   type?: string;
+  toolCall?: ToolCall; // Set when type is 'tool_use' (result attached when paired)
+  toolResult?: ToolResult; // Set when type is 'tool_result' and no matching tool_use was loaded
+  image?: ImageAttachment; // Set when type is 'image'; the data is fetched from the attachments route
+  compaction?: CompactionInfo; // Set when type is 'compact_boundary'
+}
+
+export interface CompactionInfo {
+  trigger?: string; // 'auto' or 'manual'
+  preTokens?: number; // Context size before compaction
+}
+
+// Place in a branch where earlier context was summarized or compacted
+export interface ConversationMarker extends CompactionInfo {
+  type: 'summary' | 'compact_boundary';
+  uuid: string;
+  timestamp: number;
+  text: string;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface SessionTokenUsage {
+  total: TokenCounts;
+  byModel: Record<string, TokenCounts>;
 }
 
 export interface Session {
@@ -46,6 +110,108 @@ export interface Session {
   inputCount: number;
   messageCount: number;
   hasMoreMessages?: boolean; // Indicates if there are more messages not loaded (for pagination)
+  tokenUsage?: SessionTokenUsage;
+  agentSessions?: AgentSessionSummary[];
+  branches?: ConversationBranch[]; // Active branch first, then the abandoned ones
+  branchId?: string; // Branch the loaded messages belong to
+  pageInfo?: MessagePageInfo;
+  markers?: ConversationMarker[]; // Summaries and compactions of the whole branch
+  metadata?: SessionMetadata;
+  activeTimeMs?: number; // Time spent in active periods, without idle gaps
+}
+
+export interface MetadataChange {
+  value: string;
+  timestamp: number;
+}
+
+// Values in the order the session used them: first item is the first value, last item the latest
+export interface SessionMetadata {
+  cwd?: MetadataChange[];
+  gitBranch?: MetadataChange[];
+  version?: MetadataChange[];
+  model?: MetadataChange[];
+}
+
+export type SessionMetadataField = keyof SessionMetadata;
+
+// Position of the loaded messages within their branch; cursors are entry uuids
+export interface MessagePageInfo {
+  startCursor: string | null; // Oldest loaded entry
+  endCursor: string | null; // Newest loaded entry
+  hasOlder: boolean;
+  hasNewer: boolean;
+  totalMessages: number; // Messages in the whole branch
+}
+
+export interface MessagePage {
+  messages: ChatMessage[];
+  pageInfo: MessagePageInfo;
+  branchId?: string;
+}
+
+// Message of the session matching an in-session search, possibly not loaded yet
+export interface MessageSearchHit {
+  uuid: string;
+  timestamp: number;
+  matches: number;
+}
+
+// One Edit, MultiEdit or Write call of a session
+export interface FileEdit {
+  toolUseId: string;
+  toolName: string;
+  messageUuid: string;
+  timestamp: number;
+  diff: string; // Unified diff of the call
+  linesAdded: number;
+  linesRemoved: number;
+  isNewFile: boolean;
+  isError: boolean; // The call failed and left the file unchanged
+}
+
+// File touched by a session, with its edits in order
+export interface FileChange {
+  filePath: string;
+  edits: FileEdit[];
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export interface SessionChanges {
+  files: FileChange[];
+  linesAdded: number;
+  linesRemoved: number;
+  branchId?: string;
+}
+
+// Path through the parentUuid tree of a transcript, identified by its last entry
+export interface ConversationBranch {
+  id: string;
+  forkUuid: string | null; // Entry of the active branch it diverges from (null for the active branch)
+  isActive: boolean;
+  messageCount: number; // Messages after the fork point
+  preview: string; // First prompt after the fork point
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Subagent transcript (agent-<id>.jsonl) spawned by a Task call of the parent session
+export interface AgentSessionSummary {
+  agentId: string;
+  parentSessionId: string;
+  prompt: string;
+  messageCount: number;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  toolUseId?: string; // Task call in the loaded messages that spawned this agent
+  description?: string;
+  subagentType?: string;
+}
+
+export interface AgentSession extends AgentSessionSummary {
+  messages: ChatMessage[];
 }
 
 // ============================================
@@ -119,6 +285,47 @@ export interface DashboardStats {
   allSessions: Session[]; // All sessions for activity charts
 }
 
+// ============================================
+// Stats Types
+// ============================================
+
+export interface TokenCostEntry extends TokenCounts {
+  estimatedCost: number;
+}
+
+export interface TokenStats {
+  currency: 'USD';
+  totals: TokenCostEntry;
+  daily: (TokenCostEntry & { date: string })[];
+  byProject: (TokenCostEntry & { projectPath: string; sessionCount: number })[];
+  byModel: (TokenCostEntry & { model: string; priced: boolean })[];
+}
+
+export interface ToolCallSummary {
+  callCount: number;
+  errorCount: number;
+  errorRate: number; // 0..1
+  medianLatencyMs: number | null;
+}
+
+export interface ToolUsage extends ToolCallSummary {
+  tool: string;
+  daily: { date: string; callCount: number; errorCount: number }[];
+  byProject: (ToolCallSummary & { projectPath: string })[];
+  byModel: (ToolCallSummary & { model: string })[];
+}
+
+export interface ToolStats {
+  totals: ToolCallSummary;
+  tools: ToolUsage[];
+}
+
+export interface HourlyActivity {
+  timeZone: string;
+  matrix: number[][]; // [weekday][hour] message counts, weekday 0 = Sunday
+  total: number;
+}
+
 export interface ActivityItem {
   type: 'session' | 'team';
   id: string;
@@ -127,11 +334,107 @@ export interface ActivityItem {
   timestamp: number;
 }
 
+// ============================================
+// Search Types
+// ============================================
+
+export type SearchField = 'project' | 'role' | 'tool' | 'tag' | 'session' | 'after' | 'before';
+
+export interface SearchSuggestions {
+  fields: SearchField[];
+  roles: string[];
+  projects: string[];
+  tags: string[];
+  tools: string[];
+}
+
+export interface SearchResult {
+  type: 'session' | 'team_message';
+  id: string;
+  title: string;
+  snippet: string;
+  timestamp: number;
+  project?: string;
+}
+
+// Returned with 400 responses for invalid query syntax
+export interface SearchQueryErrorDetails {
+  position: number;
+  field?: string;
+  value?: string;
+}
+
+// ============================================
+// Session Batch Types
+// ============================================
+
+export type SessionBatchAction = 'delete' | 'addTags' | 'removeTags' | 'renamePrefix' | 'export';
+
+export interface SessionBatchRequest {
+  action: SessionBatchAction;
+  sessionIds: string[];
+  tags?: string[];
+  prefix?: string;
+}
+
+export interface SessionBatchItemResult {
+  sessionId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SessionBatchResult {
+  action: SessionBatchAction;
+  results: SessionBatchItemResult[];
+  succeeded: number;
+  failed: number;
+  sessions?: Session[];
+}
+
+// ============================================
+// Export Types
+// ============================================
+
+export type ExportArchiveFormat = 'markdown' | 'json' | 'html';
+
+export interface ExportArchiveRequest {
+  ids?: string[];
+  project?: string;
+  tag?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  tz?: string;
+  format?: ExportArchiveFormat[];
+  attachments?: boolean;
+}
+
+// ============================================
+// Trash Types
+// ============================================
+
+export interface TrashedFile {
+  originalPath: string;
+  storedPath: string;
+}
+
+// Deleted session or team, kept until it is restored, purged or expires
+export interface TrashItem {
+  id: string;
+  type: 'session' | 'team';
+  targetId: string; // Session or team id
+  name: string;
+  project?: string;
+  deletedAt: number;
+  expiresAt: number;
+  files: TrashedFile[];
+  historyLines?: string[];
+}
+
 // ============================================
 // View State Types
 // ============================================
 
-export type ViewType = 'dashboard' | 'sessions' | 'projects' | 'teams';
+export type ViewType = 'dashboard' | 'sessions' | 'projects' | 'teams' | 'trash';
 
 export interface AppState {
   currentView: ViewType;
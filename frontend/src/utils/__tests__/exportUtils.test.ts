@@ -121,6 +121,23 @@ describe('exportUtils', () => {
       expect(result.content).toContain('(空)');
     });
 
+    it('should expand pasted text in exported inputs', () => {
+      const session = createMockSession({
+        messages: [],
+        inputs: [{
+          display: 'Why does this fail? [Pasted text #1 +2 lines]',
+          timestamp: 1704067200000,
+          pastedContents: [{ id: 1, content: 'Error: boom\n  at main.ts:1' }],
+        }],
+      });
+
+      const markdown = exportSession(session, { format: 'markdown' }).content;
+      expect(markdown).toContain('Why does this fail? Error: boom\n  at main.ts:1');
+
+      const json = JSON.parse(exportSession(session, { format: 'json' }).content);
+      expect(json.inputs[0].pastedContents).toEqual([{ id: 1, content: 'Error: boom\n  at main.ts:1' }]);
+    });
+
     it('should sort messages by timestamp', () => {
       const session = createMockSession({
         messages: [
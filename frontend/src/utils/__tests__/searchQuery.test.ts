@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getQueryCompletions, isStructuredQuery, SEARCH_FIELDS, SEARCH_ROLES } from '../searchQuery';
+import type { SearchSuggestions } from '../../types';
+
+const suggestions: SearchSuggestions = {
+  fields: SEARCH_FIELDS,
+  roles: SEARCH_ROLES,
+  projects: ['/home/user/web app', '/home/user/api'],
+  tags: ['bug', 'feature'],
+  tools: ['Bash', 'Edit', 'WebFetch'],
+};
+
+describe('getQueryCompletions', () => {
+  it('should complete field names for a partial word', () => {
+    expect(getQueryCompletions('fix ta', suggestions)).toEqual([
+      { kind: 'field', label: 'tag:', query: 'fix tag:' },
+    ]);
+  });
+
+  it('should complete known values for a field', () => {
+    expect(getQueryCompletions('tool:b', suggestions).map((c) => c.query)).toEqual([
+      'tool:Bash ',
+      'tool:WebFetch ',
+    ]);
+  });
+
+  it('should keep negation and quote values with spaces', () => {
+    expect(getQueryCompletions('-project:web', suggestions)).toEqual([
+      { kind: 'value', label: '/home/user/web app', query: '-project:"/home/user/web app" ' },
+    ]);
+  });
+
+  it('should not complete inside quotes, after a space or for unknown fields', () => {
+    expect(getQueryCompletions('"tag', suggestions)).toEqual([]);
+    expect(getQueryCompletions('tag:bug ', suggestions)).toEqual([]);
+    expect(getQueryCompletions('colour:r', suggestions)).toEqual([]);
+  });
+});
+
+describe('isStructuredQuery', () => {
+  it('should detect fields, phrases and negation', () => {
+    expect(isStructuredQuery('refactor parser')).toBe(false);
+    expect(isStructuredQuery('see https://example.com')).toBe(false);
+    expect(isStructuredQuery('localhost:3000 Error: ENOENT')).toBe(false);
+    expect(isStructuredQuery('Project:web')).toBe(true);
+    expect(isStructuredQuery('tool:Bash')).toBe(true);
+    expect(isStructuredQuery('"exact phrase"')).toBe(true);
+    expect(isStructuredQuery('parser -test')).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { mergeMessagePages, getInputSegments, expandPastedContents, getMetadataValues, hasMetadataValue } from '../session';
+import type { ChatMessage, Session } from '../../types';
+
+describe('mergeMessagePages', () => {
+  it('should prepend older messages', () => {
+    const older: ChatMessage[] = [{ uuid: '1', role: 'user', content: 'First', timestamp: 1000 }];
+    const newer: ChatMessage[] = [{ uuid: '2', role: 'assistant', content: 'Second', timestamp: 2000 }];
+
+    expect(mergeMessagePages(older, newer).map(m => m.uuid)).toEqual(['1', '2']);
+  });
+
+  it('should skip messages that are already loaded', () => {
+    const older: ChatMessage[] = [
+      { uuid: '1', role: 'user', content: 'First', timestamp: 1000 },
+      { uuid: '2', role: 'assistant', content: 'Second', timestamp: 2000 },
+    ];
+    const newer: ChatMessage[] = [{ uuid: '2', role: 'assistant', content: 'Second', timestamp: 2000 }];
+
+    expect(mergeMessagePages(older, newer)).toHaveLength(2);
+  });
+
+  it('should fold loaded tool results into tool calls of the older page', () => {
+    const older: ChatMessage[] = [
+      {
+        uuid: '1',
+        role: 'assistant',
+        content: '',
+        timestamp: 1000,
+        type: 'tool_use',
+        toolCall: { id: 'tool-1', name: 'Read', input: { file_path: 'a.ts' } },
+      },
+    ];
+    const result = { toolUseId: 'tool-1', content: 'file contents', isError: false, timestamp: 2000 };
+    const newer: ChatMessage[] = [
+      { uuid: '2', role: 'user', content: 'file contents', timestamp: 2000, type: 'tool_result', toolResult: result },
+      { uuid: '3', role: 'assistant', content: 'Done', timestamp: 3000 },
+    ];
+
+    const merged = mergeMessagePages(older, newer);
+
+    expect(merged.map(m => m.uuid)).toEqual(['1', '3']);
+    expect(merged[0].toolCall?.result).toEqual(result);
+    expect(older[0].toolCall?.result).toBeUndefined();
+  });
+
+  it('should keep tool results whose call is not in the older page', () => {
+    const newer: ChatMessage[] = [
+      {
+        uuid: '2',
+        role: 'user',
+        content: 'output',
+        timestamp: 2000,
+        type: 'tool_result',
+        toolResult: { toolUseId: 'tool-0', content: 'output', isError: false, timestamp: 2000 },
+      },
+    ];
+
+    expect(mergeMessagePages([], newer)).toEqual(newer);
+  });
+});
+
+describe('getInputSegments', () => {
+  it('should put pasted text in place of its placeholder', () => {
+    const input = {
+      display: 'Look at [Pasted text #1 +3 lines] and [Pasted text #2]',
+      timestamp: 1000,
+      pastedContents: [
+        { id: 1, content: 'first' },
+        { id: 2, content: 'second' },
+      ],
+    };
+
+    expect(getInputSegments(input)).toEqual([
+      { text: 'Look at ' },
+      { text: 'first', pasteId: 1 },
+      { text: ' and ' },
+      { text: 'second', pasteId: 2 },
+    ]);
+  });
+
+  it('should keep placeholders without content and append pastes without placeholder', () => {
+    const input = {
+      display: 'See [Pasted text #3]',
+      timestamp: 1000,
+      pastedContents: [{ id: 1, content: 'orphan' }],
+    };
+
+    expect(expandPastedContents(input)).toBe('See [Pasted text #3]\n\norphan');
+  });
+
+  it('should return the display text when nothing was pasted', () => {
+    expect(expandPastedContents({ display: 'Hello', timestamp: 1000 })).toBe('Hello');
+  });
+});
+
+describe('session metadata', () => {
+  const session = (id: string, branches: string[]): Session => ({
+    id,
+    sessionId: id,
+    project: '/project',
+    projectSlug: '-project',
+    inputs: [],
+    messages: [],
+    createdAt: 0,
+    updatedAt: 0,
+    inputCount: 0,
+    messageCount: 0,
+    metadata: { gitBranch: branches.map((value, i) => ({ value, timestamp: i })) },
+  });
+
+  it('should list the distinct values of a field, sorted', () => {
+    const sessions = [session('a', ['main', 'feature-x']), session('b', ['main']), session('c', [])];
+
+    expect(getMetadataValues(sessions, 'gitBranch')).toEqual(['feature-x', 'main']);
+    expect(getMetadataValues(sessions, 'model')).toEqual([]);
+  });
+
+  it('should match any value the session used', () => {
+    expect(hasMetadataValue(session('a', ['main', 'feature-x']), 'gitBranch', 'main')).toBe(true);
+    expect(hasMetadataValue(session('a', ['main']), 'gitBranch', 'feature-x')).toBe(false);
+  });
+});
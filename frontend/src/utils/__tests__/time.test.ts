@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { formatRelativeTime } from '../time';
+import { formatRelativeTime, formatDuration } from '../time';
 
 describe('formatRelativeTime', () => {
   let now: number;
@@ -247,3 +247,17 @@ describe('formatRelativeTime', () => {
     });
   });
 });
+
+describe('formatDuration', () => {
+  it('should format sub-minute durations in seconds', () => {
+    expect(formatDuration(0)).toBe('0s');
+    expect(formatDuration(45_400)).toBe('45s');
+  });
+
+  it('should format minutes and hours, dropping zero parts', () => {
+    expect(formatDuration(192_000)).toBe('3m 12s');
+    expect(formatDuration(120_000)).toBe('2m');
+    expect(formatDuration(3_900_000)).toBe('1h 5m');
+    expect(formatDuration(7_200_000)).toBe('2h');
+  });
+});
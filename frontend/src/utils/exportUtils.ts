@@ -1,5 +1,5 @@
 import type { Session, ChatMessage } from '../types';
-import { isSystemContent } from './session';
+import { isSystemContent, expandPastedContents } from './session';
 
 export type ExportFormat = 'markdown' | 'json' | 'html';
 
@@ -113,7 +113,7 @@ const exportToMarkdown = (
         lines.push(`*${formatDate(input.timestamp)}*`);
       }
       lines.push('');
-      lines.push(input.display || '(空)');
+      lines.push(expandPastedContents(input) || '(空)');
       lines.push('');
       lines.push('---');
       lines.push('');
@@ -1,3 +1,12 @@
 export { getMemberColor } from './colors';
-export { formatRelativeTime } from './time';
-export { isSystemContent, getFirstValidInput, SYSTEM_MESSAGE_PATTERNS } from './session';
+export { formatRelativeTime, formatDuration, getBrowserTimeZone } from './time';
+export {
+  isSystemContent,
+  getFirstValidInput,
+  mergeMessagePages,
+  getInputSegments,
+  expandPastedContents,
+  getMetadataValues,
+  hasMetadataValue,
+  SYSTEM_MESSAGE_PATTERNS,
+} from './session';
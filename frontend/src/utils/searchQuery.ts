@@ -0,0 +1,99 @@
+import type { SearchField, SearchSuggestions } from '../types';
+
+// Must match the fields understood by the backend query parser
+export const SEARCH_FIELDS: SearchField[] = ['project', 'role', 'tool', 'tag', 'session', 'after', 'before'];
+
+export const SEARCH_ROLES = ['user', 'assistant'];
+
+const MAX_COMPLETIONS = 8;
+
+export interface QueryCompletion {
+  kind: 'field' | 'value';
+  label: string;
+  // Full query text after applying the completion
+  query: string;
+}
+
+// Known values offered after `field:` (dates and session ids have none)
+function getFieldValues(field: SearchField, suggestions: SearchSuggestions): string[] {
+  switch (field) {
+    case 'project':
+      return suggestions.projects;
+    case 'tag':
+      return suggestions.tags;
+    case 'tool':
+      return suggestions.tools;
+    case 'role':
+      return suggestions.roles;
+    default:
+      return [];
+  }
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+const FIELD_FILTER_REGEX = new RegExp(`(^|\\s)-?(${SEARCH_FIELDS.join('|')}):(?!//)`, 'i');
+
+/**
+ * True when the query uses syntax beyond plain words (field filters, quoted
+ * phrases or negated terms). Unknown prefixes such as localhost:3000 are plain words.
+ */
+export function isStructuredQuery(query: string): boolean {
+  return FIELD_FILTER_REGEX.test(query) || /"|(^|\s)-\S/.test(query);
+}
+
+/**
+ * Autocomplete the last word of a search query:
+ * `pro` completes to `project:`, `tool:ba` to the known tool names containing "ba".
+ */
+export function getQueryCompletions(
+  query: string,
+  suggestions: SearchSuggestions,
+  limit: number = MAX_COMPLETIONS
+): QueryCompletion[] {
+  // Nothing to complete inside an open quote
+  if ((query.match(/"/g) || []).length % 2 === 1) {
+    return [];
+  }
+
+  const match = /(^|\s)(-?)([^\s"]*)$/.exec(query);
+  if (!match || !match[3]) {
+    return [];
+  }
+
+  const [, , negation, word] = match;
+  const prefix = query.slice(0, query.length - word.length - negation.length);
+  const separator = word.indexOf(':');
+
+  if (separator === -1) {
+    const lowerWord = word.toLowerCase();
+    return suggestions.fields
+      .filter((field) => field.startsWith(lowerWord))
+      .slice(0, limit)
+      .map((field) => ({
+        kind: 'field' as const,
+        label: `${field}:`,
+        query: `${prefix}${negation}${field}:`,
+      }));
+  }
+
+  const field = word.slice(0, separator).toLowerCase() as SearchField;
+  if (!suggestions.fields.includes(field)) {
+    return [];
+  }
+
+  const partial = word.slice(separator + 1).toLowerCase();
+  return getFieldValues(field, suggestions)
+    .filter((value) => {
+      const lowerValue = value.toLowerCase();
+      return lowerValue.includes(partial) && lowerValue !== partial;
+    })
+    .slice(0, limit)
+    .map((value) => ({
+      kind: 'value' as const,
+      label: value,
+      query: `${prefix}${negation}${field}:${quoteValue(value)} `,
+    }));
+}
@@ -3,7 +3,7 @@
 // System Message Filtering and Session Helpers
 // ============================================
 
-import { SessionInput } from '../types';
+import { ChatMessage, Session, SessionInput, SessionMetadataField } from '../types';
 
 /** Patterns for system messages that should be filtered out */
 export const SYSTEM_MESSAGE_PATTERNS = [
@@ -22,3 +22,100 @@ export const isSystemContent = (content: string): boolean => {
 export const getFirstValidInput = (inputs: SessionInput[]): SessionInput | null => {
   return inputs.find(input => !isSystemContent(input.display)) || null;
 };
+
+/** Part of an input: typed text, or text pasted in place of a [Pasted text #id] placeholder */
+export interface InputSegment {
+  text: string;
+  pasteId?: number;
+}
+
+const PASTED_TEXT_PLACEHOLDER = /\[Pasted text #(\d+)[^\]]*\]/g;
+
+/**
+ * Split an input into typed and pasted text. Pastes replace their placeholder;
+ * pastes without one are appended at the end.
+ */
+export const getInputSegments = (input: SessionInput): InputSegment[] => {
+  const pastes = new Map((input.pastedContents || []).map(paste => [paste.id, paste.content]));
+  const segments: InputSegment[] = [];
+  const used = new Set<number>();
+  let lastIndex = 0;
+
+  for (const match of input.display.matchAll(PASTED_TEXT_PLACEHOLDER)) {
+    const pasteId = Number(match[1]);
+    const content = pastes.get(pasteId);
+    if (content === undefined) continue;
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: input.display.slice(lastIndex, index) });
+    }
+    segments.push({ text: content, pasteId });
+    used.add(pasteId);
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < input.display.length) {
+    segments.push({ text: input.display.slice(lastIndex) });
+  }
+  for (const [pasteId, content] of pastes) {
+    if (!used.has(pasteId)) {
+      if (segments.length > 0) segments.push({ text: '\n\n' });
+      segments.push({ text: content, pasteId });
+    }
+  }
+
+  return segments;
+};
+
+/** Input text with pasted contents in place of their placeholders */
+export const expandPastedContents = (input: SessionInput): string =>
+  getInputSegments(input).map(segment => segment.text).join('');
+
+// One entry can yield several messages (text, tool calls), so the uuid alone is not unique
+const getMessageKey = (message: ChatMessage): string =>
+  `${message.uuid}:${message.type ?? ''}:${message.toolCall?.id ?? ''}`;
+
+/**
+ * Prepend a page of older messages to the loaded ones.
+ * Results of tool calls made in the older page were loaded as standalone
+ * tool_result messages; they are folded into their tool_use messages.
+ */
+export const mergeMessagePages = (older: ChatMessage[], newer: ChatMessage[]): ChatMessage[] => {
+  const loaded = new Set(newer.map(getMessageKey));
+  const olderMessages = older
+    .filter(message => !loaded.has(getMessageKey(message)))
+    .map(message => (message.toolCall ? { ...message, toolCall: { ...message.toolCall } } : message));
+
+  const toolCalls = new Map<string, ChatMessage>();
+  for (const message of olderMessages) {
+    if (message.type === 'tool_use' && message.toolCall) {
+      toolCalls.set(message.toolCall.id, message);
+    }
+  }
+
+  const newerMessages = newer.filter(message => {
+    if (message.type !== 'tool_result' || !message.toolResult) return true;
+    const toolUseMessage = toolCalls.get(message.toolResult.toolUseId);
+    if (!toolUseMessage?.toolCall) return true;
+    toolUseMessage.toolCall.result = message.toolResult;
+    return false;
+  });
+
+  return [...olderMessages, ...newerMessages];
+};
+
+/** Distinct values of a metadata field across sessions, sorted */
+export const getMetadataValues = (sessions: Session[], field: SessionMetadataField): string[] => {
+  const values = new Set<string>();
+  for (const session of sessions) {
+    for (const change of session.metadata?.[field] || []) {
+      values.add(change.value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+};
+
+/** Whether a session used a metadata value at some point, e.g. was ever on a branch */
+export const hasMetadataValue = (session: Session, field: SessionMetadataField, value: string): boolean =>
+  !!session.metadata?.[field]?.some(change => change.value === value);
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+export default defineConfig({
+    plugins: [react(), tailwindcss()],
+    server: {
+        port: 5173,
+        strictPort: true,
+        host: true,
+        proxy: {
+            '/api': {
+                target: 'http://localhost:13927',
+                changeOrigin: true,
+                secure: false,
+                ws: true, // Enable WebSocket/SSE proxying
+            }
+        }
+    }
+});